@@ -1,9 +1,8 @@
 import { createClient } from "@/lib/supabase/server"
+import { getStorageAdapter } from "@/lib/storage-adapter"
 
 export const maxDuration = 300 // 5 minutes max for long dubbing jobs
 
-const BUCKET_NAME = "project-media"
-
 // Supported languages for dubbing (ElevenLabs)
 const SUPPORTED_LANGUAGES = new Set([
   "en", "es", "fr", "de", "pt", "zh", "ja", "ar", "ru", "hi",
@@ -186,18 +185,13 @@ export async function POST(request: Request): Promise<Response> {
     else if (contentType.includes("webm")) extension = "webm"
     else if (contentType.includes("wav")) extension = "wav"
 
-    // Step 4: Upload to Supabase storage
+    // Step 4: Upload to project storage
     const uniqueId = crypto.randomUUID()
     const fileName = `dubbed_${targetLang}_${uniqueId}.${extension}`
     const path = `${user.id}/${projectId}/${fileName}`
 
-    const { error: uploadError } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(path, audioBlob, {
-        cacheControl: "3600",
-        contentType,
-        upsert: false,
-      })
+    const storage = getStorageAdapter()
+    const { error: uploadError } = await storage.upload(path, audioBlob, { contentType })
 
     if (uploadError) {
       return Response.json(
@@ -206,14 +200,9 @@ export async function POST(request: Request): Promise<Response> {
       )
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from(BUCKET_NAME)
-      .getPublicUrl(path)
-
     return Response.json({
       success: true,
-      dubbedMediaUrl: urlData.publicUrl,
+      dubbedMediaUrl: storage.getPublicUrl(path),
       dubbedMediaPath: path,
     } as DubResponse)
 
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getStorageAdapter, isValidStorageKey } from "@/lib/storage-adapter"
+import { runFfmpeg, runFfprobe } from "@/lib/ffmpeg"
+import {
+  buildFilmstripArgs,
+  buildMediaProbeArgs,
+  buildThumbnailArgs,
+  getFilmstripLayout,
+  getMediaAssetPath,
+  parseMediaProbe,
+  type FilmstripSprite,
+  type MediaMetadata,
+} from "@/lib/media-probe"
+
+export const maxDuration = 300
+
+async function probeMedia(filePath: string): Promise<MediaMetadata | null> {
+  const output = await runFfprobe(buildMediaProbeArgs(filePath))
+  return output === null ? null : parseMediaProbe(output)
+}
+
+/**
+ * Probe an uploaded media file
+ * Returns its metadata, and for pictures a stored thumbnail - plus a filmstrip sprite for video.
+ * The images are extras: if making one fails, the metadata is still returned without it.
+ */
+export async function POST(request: NextRequest) {
+  const fs = await import("fs/promises")
+  const { openAsBlob } = await import("fs")
+  const path = await import("path")
+  const os = await import("os")
+
+  let tempDir: string | null = null
+  try {
+    const { storagePath } = await request.json() as { storagePath?: string }
+
+    if (!storagePath) {
+      return NextResponse.json({ error: "storagePath is required" }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: user } = await supabase.auth.getUser()
+    if (!user.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+    if (!isValidStorageKey(storagePath) || !storagePath.startsWith(`${user.user.id}/`)) {
+      return NextResponse.json({ error: "Invalid storagePath" }, { status: 400 })
+    }
+
+    // Download the original
+    const storage = getStorageAdapter()
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "probe-"))
+    const inputPath = path.join(tempDir, `input${path.extname(storagePath)}`)
+    const { error: downloadError } = await storage.download(storagePath, inputPath)
+    if (downloadError) {
+      return NextResponse.json({ error: `Failed to download media: ${downloadError.message}` }, { status: 500 })
+    }
+
+    const metadata = await probeMedia(inputPath)
+    if (!metadata) {
+      return NextResponse.json({ error: "Not a media file ffprobe can read" }, { status: 400 })
+    }
+    if (metadata.variableFrameRate) {
+      console.warn("[Probe] Variable frame rate source:", storagePath, `(average ${metadata.fps} fps)`)
+    }
+
+    // Store one of the images made below; null if it couldn't be made or stored
+    const storeImage = async (args: string[], outputPath: string, key: string): Promise<string | null> => {
+      try {
+        await runFfmpeg(args, { tag: "Probe" })
+        const { error } = await storage.upload(key, await openAsBlob(outputPath, { type: "image/jpeg" }), {
+          contentType: "image/jpeg",
+          upsert: true,
+        })
+        if (error) throw error
+        return storage.getPublicUrl(key)
+      } catch (error) {
+        console.error("[Probe] Failed to make", key, error)
+        return null
+      }
+    }
+
+    // Audio files have no picture - theirs is the waveform drawn in the browser
+    let thumbnailPath: string | null = null
+    let thumbnailUrl: string | null = null
+    let filmstrip: FilmstripSprite | null = null
+    if (metadata.videoCodec) {
+      const isVideo = metadata.fps !== null
+      thumbnailPath = getMediaAssetPath(storagePath, "thumbnails")
+      const thumbnailFile = path.join(tempDir, "thumbnail.jpg")
+      thumbnailUrl = await storeImage(
+        buildThumbnailArgs(inputPath, thumbnailFile, isVideo ? metadata.duration : null),
+        thumbnailFile,
+        thumbnailPath
+      )
+      if (!thumbnailUrl) thumbnailPath = null
+
+      const layout = isVideo ? getFilmstripLayout(metadata) : null
+      if (layout) {
+        const filmstripPath = getMediaAssetPath(storagePath, "filmstrips")
+        const filmstripFile = path.join(tempDir, "filmstrip.jpg")
+        const filmstripUrl = await storeImage(buildFilmstripArgs(inputPath, filmstripFile, layout), filmstripFile, filmstripPath)
+        if (filmstripUrl) filmstrip = { ...layout, path: filmstripPath, url: filmstripUrl }
+      }
+    }
+
+    console.log("[Probe] Probed", storagePath)
+    return NextResponse.json({ success: true, metadata, thumbnailPath, thumbnailUrl, filmstrip })
+  } catch (error) {
+    console.error("[Probe] Probe error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to probe media" },
+      { status: 500 }
+    )
+  } finally {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getStorageAdapter, isValidStorageKey } from "@/lib/storage-adapter"
+import { runFfmpeg, runFfprobe } from "@/lib/ffmpeg"
+import {
+  buildProxyArgs,
+  buildVideoProbeArgs,
+  getProxyReason,
+  getProxyStoragePath,
+  parseVideoProbe,
+  type VideoProbe,
+} from "@/lib/proxy-media"
+
+export const maxDuration = 300
+
+async function probeVideo(filePath: string): Promise<VideoProbe | null> {
+  const output = await runFfprobe(buildVideoProbeArgs(filePath))
+  return output === null ? null : parseVideoProbe(output)
+}
+
+/**
+ * Make a playback proxy for an uploaded video
+ * Footage that plays fine as it is gets none, unless force is set.
+ */
+export async function POST(request: NextRequest) {
+  const fs = await import("fs/promises")
+  const { openAsBlob } = await import("fs")
+  const path = await import("path")
+  const os = await import("os")
+
+  let tempDir: string | null = null
+  try {
+    const { storagePath, force = false } = await request.json() as { storagePath?: string; force?: boolean }
+
+    if (!storagePath) {
+      return NextResponse.json({ error: "storagePath is required" }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: user } = await supabase.auth.getUser()
+    if (!user.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+    if (!isValidStorageKey(storagePath) || !storagePath.startsWith(`${user.user.id}/`)) {
+      return NextResponse.json({ error: "Invalid storagePath" }, { status: 400 })
+    }
+
+    // Download the original
+    const storage = getStorageAdapter()
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "proxy-"))
+    const inputPath = path.join(tempDir, `input${path.extname(storagePath)}`)
+    const outputPath = path.join(tempDir, "proxy.mp4")
+    const { error: downloadError } = await storage.download(storagePath, inputPath)
+    if (downloadError) {
+      return NextResponse.json({ error: `Failed to download media: ${downloadError.message}` }, { status: 500 })
+    }
+
+    const probe = await probeVideo(inputPath)
+    if (!probe) {
+      return NextResponse.json({ error: "No video stream found" }, { status: 400 })
+    }
+    const reason = getProxyReason(probe)
+    if (!reason && !force) {
+      return NextResponse.json({ success: true, proxyPath: null, proxyUrl: null, reason: null })
+    }
+
+    console.log("[Proxy] Transcoding", storagePath, `(${reason ?? "requested"})`)
+    await runFfmpeg(buildProxyArgs(inputPath, outputPath), { tag: "Proxy" })
+
+    const proxyPath = getProxyStoragePath(storagePath)
+    const { error: uploadError } = await storage.upload(proxyPath, await openAsBlob(outputPath, { type: "video/mp4" }), {
+      contentType: "video/mp4",
+      upsert: true,
+    })
+    if (uploadError) {
+      return NextResponse.json({ error: `Failed to upload proxy: ${uploadError.message}` }, { status: 500 })
+    }
+
+    const proxyUrl = storage.getPublicUrl(proxyPath)
+    console.log("[Proxy] Stored", proxyPath)
+    return NextResponse.json({ success: true, proxyPath, proxyUrl, reason })
+  } catch (error) {
+    console.error("[Proxy] Proxy generation error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create proxy" },
+      { status: 500 }
+    )
+  } finally {
+    if (tempDir) await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
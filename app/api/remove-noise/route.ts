@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getStorageAdapter } from "@/lib/storage-adapter"
 
 export const maxDuration = 60
 
@@ -86,51 +87,30 @@ export async function POST(request: NextRequest) {
       // Clean up temp files
       await fs.rm(tempDir, { recursive: true, force: true })
 
-      // Upload to Supabase Storage (use service role key for server-side operations)
-      console.log("Uploading to Supabase Storage...")
-      const { createClient } = await import("@supabase/supabase-js")
-    
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-    
-    if (!supabaseUrl || !serviceRoleKey) {
-      console.error("Missing Supabase credentials:", { 
-        hasUrl: !!supabaseUrl, 
-        hasKey: !!serviceRoleKey 
-      })
-      return NextResponse.json({ error: "Supabase credentials not configured" }, { status: 500 })
-    }
-    
-    console.log("✓ Supabase credentials found")
-    const supabase = createClient(supabaseUrl, serviceRoleKey)
-
+      // Upload to project storage
+      const storage = getStorageAdapter()
       const fileName = `${projectId}/isolated-${Date.now()}.mp4`
-      console.log("Uploading to Supabase:", fileName, "Size:", outputBuffer.length)
-      
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("project-media")
-        .upload(fileName, outputBuffer, {
+      console.log("Uploading to storage:", fileName, "Size:", outputBuffer.length)
+
+      const { error: uploadError } = await storage.upload(fileName, outputBuffer, {
         contentType: "video/mp4",
         upsert: false,
       })
 
-    if (uploadError) {
-      console.error("Supabase upload error:", uploadError)
-      return NextResponse.json({ 
-        error: `Failed to upload isolated media: ${uploadError.message || JSON.stringify(uploadError)}` 
-      }, { status: 500 })
-    }
-    
-    console.log("Upload successful:", uploadData.path)
+      if (uploadError) {
+        console.error("Storage upload error:", uploadError)
+        return NextResponse.json({
+          error: `Failed to upload isolated media: ${uploadError.message}`
+        }, { status: 500 })
+      }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage.from("project-media").getPublicUrl(uploadData.path)
-      console.log("✓ Upload complete, public URL:", urlData.publicUrl)
+      const publicUrl = storage.getPublicUrl(fileName)
+      console.log("✓ Upload complete, public URL:", publicUrl)
 
       return NextResponse.json({
         success: true,
-        isolatedMediaUrl: urlData.publicUrl,
-        isolatedMediaPath: uploadData.path,
+        isolatedMediaUrl: publicUrl,
+        isolatedMediaPath: fileName,
       })
     } catch (ffmpegError) {
       console.error("FFmpeg merge error:", ffmpegError)
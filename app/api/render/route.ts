@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { createClient as createServiceClient, type SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { getProjectWithClient, type ProjectData } from "@/lib/projects"
+import { getStorageAdapter, isValidStorageKey } from "@/lib/storage-adapter"
+import { runFfmpeg, runFfprobe } from "@/lib/ffmpeg"
+import { createRenderJob, getRenderJob, updateRenderJob } from "@/lib/render-jobs"
+import { buildRenderArgs, flattenTimelineData, getRenderWarnings, getTimelineDuration, parseResolution, type RenderInput } from "@/lib/render-graph"
+
+export const maxDuration = 300
+
+// Resolve the caller: a signed-in user, or a batch/scheduled caller holding RENDER_API_SECRET
+async function authorize(request: NextRequest): Promise<{ userId: string | null } | null> {
+  const secret = process.env.RENDER_API_SECRET
+  const authHeader = request.headers.get("authorization")
+  if (secret && authHeader === `Bearer ${secret}`) {
+    return { userId: null }
+  }
+
+  const supabase = await createClient()
+  const { data: user } = await supabase.auth.getUser()
+  if (!user.user) return null
+  return { userId: user.user.id }
+}
+
+function getServiceClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !serviceRoleKey) return null
+  return createServiceClient(supabaseUrl, serviceRoleKey)
+}
+
+// Start a render job for a saved project
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId } = await request.json()
+
+    if (!projectId) {
+      return NextResponse.json({ error: "projectId is required" }, { status: 400 })
+    }
+
+    const caller = await authorize(request)
+    if (!caller) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+
+    const supabase = getServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: "Supabase credentials not configured" }, { status: 500 })
+    }
+
+    const { data: project, error: projectError } = await getProjectWithClient(supabase, projectId, caller.userId ?? undefined)
+    if (projectError || !project) {
+      return NextResponse.json({ error: projectError?.message || "Project not found" }, { status: 404 })
+    }
+
+    if (!project.timeline_data || project.timeline_data.clips.length === 0) {
+      return NextResponse.json({ error: "Project has no clips to render" }, { status: 400 })
+    }
+
+    // The render isn't the same as the browser export for everything - the job records where it differs
+    const warnings = getRenderWarnings(flattenTimelineData(project.timeline_data))
+    const { data: job, error: jobError } = await createRenderJob(supabase, project.id, project.user_id, warnings)
+    if (jobError || !job) {
+      return NextResponse.json({ error: jobError?.message || "Failed to create render job" }, { status: 500 })
+    }
+
+    console.log("[Render] Queued job", job.id, "for project", project.id)
+    if (warnings.length > 0) console.warn("[Render] Job", job.id, "differs from the browser export:", warnings)
+
+    // Render after the response is sent; clients poll GET /api/render?jobId=...
+    after(() => runRenderJob(supabase, job.id, project))
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      warnings: job.warnings,
+    })
+  } catch (error) {
+    console.error("Render request error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start render" },
+      { status: 500 }
+    )
+  }
+}
+
+// Poll a render job
+export async function GET(request: NextRequest) {
+  try {
+    const jobId = request.nextUrl.searchParams.get("jobId")
+    if (!jobId) {
+      return NextResponse.json({ error: "jobId is required" }, { status: 400 })
+    }
+
+    const caller = await authorize(request)
+    if (!caller) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+
+    const supabase = getServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: "Supabase credentials not configured" }, { status: 500 })
+    }
+
+    const { data: job, error } = await getRenderJob(supabase, jobId, caller.userId ?? undefined)
+    if (error || !job) {
+      return NextResponse.json({ error: error?.message || "Render job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error("Render status error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get render status" },
+      { status: 500 }
+    )
+  }
+}
+
+async function hasAudioStream(filePath: string): Promise<boolean> {
+  const output = await runFfprobe(["-v", "error", "-select_streams", "a", "-show_entries", "stream=index", "-of", "csv=p=0", filePath])
+  return !!output && output.trim().length > 0
+}
+
+/**
+ * Whether a saved media path may be read for a project
+ * Timelines are saved by their users, so paths are checked rather than trusted: only keys in the
+ * owner's folder, or the project's own (where isolated voice tracks go), are rendered.
+ */
+function isProjectStorageKey(key: string | undefined, project: ProjectData): key is string {
+  return !!key && isValidStorageKey(key) && (key.startsWith(`${project.user_id}/`) || key.startsWith(`${project.id}/`))
+}
+
+async function runRenderJob(supabase: SupabaseClient, jobId: string, project: ProjectData) {
+  const fs = await import("fs/promises")
+  const path = await import("path")
+  const os = await import("os")
+  const { openAsBlob } = await import("fs")
+
+  // Compound clips render from the clips inside them
+  const timeline = flattenTimelineData(project.timeline_data!)
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "render-"))
+
+  try {
+    // Download each media file used on the timeline (0-10%)
+    await updateRenderJob(supabase, jobId, { status: "downloading", progress: 0 })
+    const mediaIds = [...new Set(timeline.clips.map(clip => clip.mediaId))]
+    const inputs: RenderInput[] = []
+    const storage = getStorageAdapter()
+
+    for (const [i, mediaId] of mediaIds.entries()) {
+      // Read from the project's storage by key - never from a URL saved in the timeline
+      const media = timeline.media.find(m => m.id === mediaId)
+      if (!media || !isProjectStorageKey(media.storagePath, project)) {
+        console.warn(`[Render] No stored file for media ${mediaId}, skipping its clips`)
+        continue
+      }
+
+      const filePath = path.join(tempDir, `input-${i}${path.extname(media.storagePath)}`)
+      const { error: downloadError } = await storage.download(media.storagePath, filePath)
+      if (downloadError) {
+        throw new Error(`Failed to download ${media.name}: ${downloadError.message}`)
+      }
+      inputs.push({ mediaId, path: filePath, hasAudio: await hasAudioStream(filePath) })
+
+      await updateRenderJob(supabase, jobId, { progress: Math.round(((i + 1) / mediaIds.length) * 10) })
+    }
+
+    if (inputs.length === 0) {
+      throw new Error("None of the project's media could be downloaded")
+    }
+
+    // Run ffmpeg (10-90%)
+    await updateRenderJob(supabase, jobId, { status: "rendering", progress: 10 })
+    const { width, height } = parseResolution(project.resolution)
+    const outputPath = path.join(tempDir, "output.mp4")
+    const args = buildRenderArgs(timeline, inputs, {
+      width,
+      height,
+      frameRate: project.frame_rate || 30,
+      outputPath,
+    })
+    const totalDuration = getTimelineDuration(timeline)
+
+    // -progress pipe:1 reports the rendered position
+    let lastProgress = 10
+    await runFfmpeg(args, {
+      tag: "Render",
+      onProgress: (rendered) => {
+        if (totalDuration === 0) return
+        const progress = 10 + Math.min(80, Math.round((rendered / totalDuration) * 80))
+        if (progress - lastProgress >= 2) {
+          lastProgress = progress
+          updateRenderJob(supabase, jobId, { progress })
+        }
+      },
+    })
+
+    // Upload the result (90-100%)
+    await updateRenderJob(supabase, jobId, { status: "uploading", progress: 90 })
+    const fileName = `${project.user_id}/${project.id}/render-${jobId}.mp4`
+
+    // File-backed, so the render isn't read into memory
+    const { error: uploadError } = await storage.upload(fileName, await openAsBlob(outputPath, { type: "video/mp4" }), {
+      contentType: "video/mp4",
+      upsert: true,
+    })
+
+    if (uploadError) {
+      throw new Error(`Failed to upload render: ${uploadError.message}`)
+    }
+
+    const outputUrl = storage.getPublicUrl(fileName)
+
+    await updateRenderJob(supabase, jobId, {
+      status: "completed",
+      progress: 100,
+      output_path: fileName,
+      output_url: outputUrl,
+    })
+    console.log("[Render] Job", jobId, "complete:", outputUrl)
+  } catch (error) {
+    console.error("[Render] Job", jobId, "failed:", error)
+    await updateRenderJob(supabase, jobId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Render failed",
+    })
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createReadStream, createWriteStream, promises as fs } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import {
+  getLocalStoragePath,
+  getStorageAdapter,
+  verifyLocalStorageUrl,
+  type LocalStorageAction,
+} from "@/lib/storage-adapter"
+
+// Files for the local disk storage backend, behind signed URLs; other backends serve their own
+export const maxDuration = 300
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".mkv": "video/x-matroska",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".ogg": "audio/ogg",
+  ".aac": "audio/aac",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".json": "application/json",
+}
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+// The file a signed request is for, or the response to send instead
+async function resolveRequest(
+  request: NextRequest,
+  context: RouteContext,
+  action: LocalStorageAction
+): Promise<{ filePath: string } | { response: NextResponse }> {
+  if (getStorageAdapter().backend !== "local") {
+    return { response: NextResponse.json({ error: "Not found" }, { status: 404 }) }
+  }
+  const key = (await context.params).path.join("/")
+  const filePath = getLocalStoragePath(key)
+  if (!filePath) {
+    return { response: NextResponse.json({ error: "Invalid path" }, { status: 400 }) }
+  }
+  const problem = verifyLocalStorageUrl(action, key, request.nextUrl.searchParams)
+  if (problem) {
+    return { response: NextResponse.json({ error: problem }, { status: 403 }) }
+  }
+  return { filePath }
+}
+
+// Read a file, honouring Range so video can seek
+export async function GET(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveRequest(request, context, "read")
+  if ("response" in resolved) return resolved.response
+
+  const stat = await fs.stat(resolved.filePath).catch(() => null)
+  if (!stat?.isFile()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": CONTENT_TYPES[path.extname(resolved.filePath).toLowerCase()] ?? "application/octet-stream",
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=3600",
+  }
+
+  const range = request.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/)
+  if (range && (range[1] || range[2])) {
+    // "bytes=-500" is the last 500 bytes
+    const start = range[1] ? parseInt(range[1]) : Math.max(0, stat.size - parseInt(range[2]))
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2]), stat.size - 1) : stat.size - 1
+    if (start > end || start >= stat.size) {
+      return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${stat.size}` } })
+    }
+    const stream = Readable.toWeb(createReadStream(resolved.filePath, { start, end })) as ReadableStream
+    return new NextResponse(stream, {
+      status: 206,
+      headers: { ...headers, "Content-Range": `bytes ${start}-${end}/${stat.size}`, "Content-Length": String(end - start + 1) },
+    })
+  }
+
+  const stream = Readable.toWeb(createReadStream(resolved.filePath)) as ReadableStream
+  return new NextResponse(stream, { headers: { ...headers, "Content-Length": String(stat.size) } })
+}
+
+// Receive an upload sent to a signed upload URL
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveRequest(request, context, "write")
+  if ("response" in resolved) return resolved.response
+  if (!request.body) {
+    return NextResponse.json({ error: "Empty upload" }, { status: 400 })
+  }
+
+  // Parts of resumable uploads are signed with the most they can be, checked before any of the body is read
+  const limit = Number(request.nextUrl.searchParams.get("limit") ?? 0)
+  if (limit) {
+    const length = request.headers.get("content-length")
+    if (length === null) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 })
+    }
+    if (Number(length) > limit) {
+      return NextResponse.json({ error: `Uploads to this link can be at most ${limit} bytes` }, { status: 413 })
+    }
+  }
+
+  // Covered by the signature, so only links issued for upsert can replace a file
+  const upsert = request.nextUrl.searchParams.get("upsert") === "true"
+  try {
+    await fs.mkdir(path.dirname(resolved.filePath), { recursive: true })
+    await pipeline(
+      Readable.fromWeb(request.body as Parameters<typeof Readable.fromWeb>[0]),
+      createWriteStream(resolved.filePath, { flags: upsert ? "w" : "wx" })
+    )
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return NextResponse.json({ error: "The resource already exists" }, { status: 409 })
+    }
+    console.error("[Storage] Local upload failed:", error)
+    await fs.rm(resolved.filePath, { force: true })
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
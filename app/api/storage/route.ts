@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createMediaStorageKey, getStorageAdapter, isValidStorageKey } from "@/lib/storage-adapter"
+
+// The signed-in user's id; storage keys always start with it
+async function getUserId(): Promise<string | null> {
+  const supabase = await createClient()
+  const { data: user } = await supabase.auth.getUser()
+  return user.user?.id ?? null
+}
+
+// Hand out a signed URL for reading one of the caller's files
+export async function GET(request: NextRequest) {
+  try {
+    const path = request.nextUrl.searchParams.get("path")
+
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+    if (!path || !isValidStorageKey(path) || !path.startsWith(`${userId}/`)) {
+      return NextResponse.json({ error: "Invalid path" }, { status: 400 })
+    }
+
+    const { data: url, error } = await getStorageAdapter().createSignedUrl(path)
+    if (error || !url) {
+      return NextResponse.json({ error: error?.message || "Failed to sign URL" }, { status: 500 })
+    }
+
+    return NextResponse.json({ url })
+  } catch (error) {
+    console.error("[Storage] URL request error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to sign URL" },
+      { status: 500 }
+    )
+  }
+}
+
+// Hand out a signed URL for uploading one file to a project's folder
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, fileName, contentType } = await request.json()
+
+    if (!projectId || !fileName) {
+      return NextResponse.json({ error: "projectId and fileName are required" }, { status: 400 })
+    }
+
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+
+    const path = createMediaStorageKey(userId, String(projectId), String(fileName))
+    if (!path) {
+      return NextResponse.json({ error: "Invalid projectId or fileName" }, { status: 400 })
+    }
+
+    const storage = getStorageAdapter()
+    const { data: upload, error } = await storage.createSignedUploadUrl(path, { contentType })
+    if (error || !upload) {
+      console.error("[Storage] Failed to sign upload:", error)
+      return NextResponse.json({ error: error?.message || "Failed to start upload" }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      path,
+      url: storage.getPublicUrl(path),
+      uploadUrl: upload.url,
+      uploadHeaders: upload.headers,
+    })
+  } catch (error) {
+    console.error("[Storage] Upload request error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start upload" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete files by path, or everything in a project's folder
+export async function DELETE(request: NextRequest) {
+  try {
+    const { paths, projectId } = await request.json() as { paths?: unknown; projectId?: string }
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some((p) => typeof p !== "string"))) {
+      return NextResponse.json({ error: "paths must be an array of strings" }, { status: 400 })
+    }
+
+    const userId = await getUserId()
+    if (!userId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+
+    const storage = getStorageAdapter()
+    let keys: string[] = paths ?? []
+    if (projectId) {
+      const { data: files, error } = await storage.list(`${userId}/${projectId}`)
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+      keys = [...keys, ...(files ?? [])]
+    }
+
+    // Only the caller's own files
+    if (keys.some((key) => !isValidStorageKey(key) || !key.startsWith(`${userId}/`))) {
+      return NextResponse.json({ error: "Not allowed to delete these files" }, { status: 403 })
+    }
+
+    if (keys.length > 0) {
+      const { error } = await storage.remove(keys)
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ success: true, deleted: keys.length })
+  } catch (error) {
+    console.error("[Storage] Delete request error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete files" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getStorageAdapter, type ResumableUpload } from "@/lib/storage-adapter"
+import { decodeUploadId } from "@/lib/resumable-uploads"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The caller's upload, or the response to send instead
+async function resolveUpload(context: RouteContext): Promise<ResumableUpload | NextResponse> {
+  const supabase = await createClient()
+  const { data: user } = await supabase.auth.getUser()
+  if (!user.user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+
+  const upload = decodeUploadId((await context.params).id, user.user.id)
+  if (!upload) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+  }
+  return upload
+}
+
+function offsetHeaders(offset: number, size: number): Record<string, string> {
+  return { "Upload-Offset": String(offset), "Upload-Length": String(size), "Cache-Control": "no-store" }
+}
+
+// How much of the upload the backend has
+export async function HEAD(_request: NextRequest, context: RouteContext) {
+  const upload = await resolveUpload(context)
+  if (upload instanceof NextResponse) return new NextResponse(null, { status: upload.status })
+
+  const { data: offset, error } = await getStorageAdapter().getResumableUploadOffset(upload)
+  if (error) {
+    console.error("[Uploads] Failed to check", upload.key, error)
+    return new NextResponse(null, { status: 500 })
+  }
+  if (offset === null) return new NextResponse(null, { status: 404 })
+  return new NextResponse(null, { status: 200, headers: offsetHeaders(offset, upload.size) })
+}
+
+// Where and how to send the part that starts at ?offset=, straight to the backend
+export async function GET(request: NextRequest, context: RouteContext) {
+  const upload = await resolveUpload(context)
+  if (upload instanceof NextResponse) return upload
+
+  const offset = Number(request.nextUrl.searchParams.get("offset"))
+  if (!Number.isInteger(offset) || offset < 0 || offset >= upload.size || offset % upload.partSize !== 0) {
+    return NextResponse.json({ error: "offset must be the start of a part" }, { status: 400 })
+  }
+
+  const { data: part, error } = await getStorageAdapter().getResumableUploadPart(upload, offset)
+  if (error || !part) {
+    return NextResponse.json({ error: error?.message || "Failed to sign part" }, { status: 500 })
+  }
+  return NextResponse.json(part, { headers: { "Cache-Control": "no-store" } })
+}
+
+// Finish an upload once every part is in; returns the stored file's path and URL
+export async function POST(_request: NextRequest, context: RouteContext) {
+  const upload = await resolveUpload(context)
+  if (upload instanceof NextResponse) return upload
+
+  const storage = getStorageAdapter()
+  const { error } = await storage.completeResumableUpload(upload)
+  if (error) {
+    console.error("[Uploads] Failed to store", upload.key, error)
+    return NextResponse.json({ error: `Failed to store upload: ${error.message}` }, { status: 500 })
+  }
+  console.log("[Uploads] Stored", upload.key, `(${upload.size} bytes)`)
+  return NextResponse.json({ path: upload.key, url: storage.getPublicUrl(upload.key) })
+}
+
+// Abandon an upload, and the parts the backend was holding
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const upload = await resolveUpload(context)
+  if (upload instanceof NextResponse) return upload
+
+  const { error } = await getStorageAdapter().abortResumableUpload(upload)
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createMediaStorageKey, getStorageAdapter } from "@/lib/storage-adapter"
+import { encodeUploadId } from "@/lib/resumable-uploads"
+
+// Start a resumable upload of one file to a project's folder; its parts go by /api/storage/uploads/[id]
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, fileName, contentType, size } = await request.json()
+
+    if (!projectId || !fileName || !Number.isInteger(size) || size <= 0) {
+      return NextResponse.json({ error: "projectId, fileName and size are required" }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const { data: user } = await supabase.auth.getUser()
+    if (!user.user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+    }
+
+    const path = createMediaStorageKey(user.user.id, String(projectId), String(fileName))
+    if (!path) {
+      return NextResponse.json({ error: "Invalid projectId or fileName" }, { status: 400 })
+    }
+
+    const storage = getStorageAdapter()
+    const { data: upload, error } = await storage.createResumableUpload(path, size, { contentType: contentType || undefined })
+    if (error || !upload) {
+      console.error("[Uploads] Failed to start upload:", error)
+      return NextResponse.json({ error: error?.message || "Failed to start upload" }, { status: 500 })
+    }
+
+    let uploadId: string
+    try {
+      uploadId = encodeUploadId(upload, user.user.id)
+    } catch (signError) {
+      // An upload the browser can't be given an id for would only sit in the backend
+      await storage.abortResumableUpload(upload)
+      throw signError
+    }
+
+    return NextResponse.json({
+      uploadId,
+      offset: 0,
+      path,
+      url: storage.getPublicUrl(path),
+    })
+  } catch (error) {
+    console.error("[Uploads] Upload request error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start upload" },
+      { status: 500 }
+    )
+  }
+}
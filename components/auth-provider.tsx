@@ -2,12 +2,13 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode } from "react"
 import { User, Session } from "@supabase/supabase-js"
-import { createClient } from "@/lib/supabase/client"
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client"
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   isLoading: boolean
+  isLocalMode: boolean // No Supabase configured - no accounts, projects stay in this browser
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>
   signUp: (email: string, password: string, name?: string) => Promise<{ error: Error | null }>
   signOut: () => Promise<void>
@@ -16,13 +17,18 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null)
 
+const LOCAL_MODE_ERROR = new Error("Accounts aren't available - Supabase isn't configured, so projects are kept in this browser")
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const supabase = createClient()
+  const isLocalMode = !isSupabaseConfigured()
+  const [isLoading, setIsLoading] = useState(!isLocalMode)
+  const [supabase] = useState(() => (isLocalMode ? null : createClient()))
 
   useEffect(() => {
+    if (!supabase) return
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session)
@@ -40,14 +46,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     )
 
     return () => subscription.unsubscribe()
-  }, [supabase.auth])
+  }, [supabase])
 
   const signIn = async (email: string, password: string) => {
+    if (!supabase) return { error: LOCAL_MODE_ERROR }
     const { error } = await supabase.auth.signInWithPassword({ email, password })
     return { error: error as Error | null }
   }
 
   const signUp = async (email: string, password: string, name?: string) => {
+    if (!supabase) return { error: LOCAL_MODE_ERROR }
     const { error } = await supabase.auth.signUp({
       email,
       password,
@@ -59,11 +67,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const signOut = async () => {
-    await supabase.auth.signOut()
+    await supabase?.auth.signOut()
   }
 
   const signInWithGoogle = async () => {
-    await supabase.auth.signInWithOAuth({
+    await supabase?.auth.signInWithOAuth({
       provider: "google",
       options: {
         redirectTo: `${window.location.origin}/auth/callback`,
@@ -77,6 +85,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         session,
         isLoading,
+        isLocalMode,
         signIn,
         signUp,
         signOut,
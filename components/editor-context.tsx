@@ -1,10 +1,30 @@
 "use client"
 
-import { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from "react"
-import { updateProject, type TimelineData, type TimelineClipData, type MediaFileData, type ClipTransform, type ClipEffects, type Caption } from "@/lib/projects"
-import { uploadMediaFile } from "@/lib/storage"
-
-export const PIXELS_PER_SECOND = 10 // Timeline scale: 10px = 1 second
+import { createContext, useContext, useState, useCallback, useMemo, ReactNode, useEffect, useRef } from "react"
+import { updateProject, type TimelineData, type TimelineClipData, type MediaFileData, type ClipTransform, type ClipEffects, type ClipAudio, type ClipKeyframes, type Keyframe, type TextClipStyle, type Caption, type TrackData, type TimelineTransition, type TransitionType, type TransitionDirection, type Marker, type MarkerColor, type InOutPoints } from "@/lib/projects"
+import { cancelResumableUpload, uploadMediaFileResumable } from "@/lib/storage"
+import type { ProxyStatus } from "@/lib/proxy-media"
+import type { FilmstripSprite, MediaMetadata } from "@/lib/media-probe"
+import { snapshotProjectIfDue } from "@/lib/project-versions"
+import { LOCAL_MEDIA_PREFIX, clearPendingUpload, clearProjectDraft, getLocalMedia, getPendingUpload, isLocalMediaPath, isLocalProjectId, putLocalMedia, putPendingUpload, putProjectDraft } from "@/lib/local-store"
+import { TICKS_PER_SECOND, secondsToTicks, ticksToSeconds, secondsToFrameTicks, framesToTicks } from "@/lib/timecode"
+import { DEFAULT_TRACKS, createTrack, resolveTracks, getTrackType, isTrackLocked, isTrackVisible, type TrackType } from "@/lib/tracks"
+import { DEFAULT_IMAGE_DURATION, canPlaceMediaOnTrack, formatMediaDuration, getMediaKind } from "@/lib/media-import"
+import { getMaxTransitionDuration, validateTransitionClips } from "@/lib/transitions"
+import { getAnimatedEffects, getAnimatedTransform, shiftKeyframes } from "@/lib/keyframes"
+import { DEFAULT_FREEZE_DURATION, getClipSourceSpan, getClipSourceTime, getSplitMediaOffsets, getTrimRoom, getTrimmedMediaOffset } from "@/lib/clip-speed"
+import { applyClipTimingUpdates, getMediaDurationTicks, getRippleDeleteUpdates, type ClipTimingUpdate, type EditMode } from "@/lib/edit-modes"
+import { clampSelectionMove, createGroupId, expandClipGroups, getClipIdsFrom, getPastedClips, getTrackClipIds } from "@/lib/clip-selection"
+import { createLinkId, getLinkedClips } from "@/lib/linked-clips"
+import { DEFAULT_MARKER_COLOR, createMarkerId, getDefaultMarkerName } from "@/lib/markers"
+import { getClipsAcross, getInsertUpdates, getOverwrittenClipIds, resolveThreePointEdit, type ThreePointEditMode } from "@/lib/three-point-edit"
+import { addHistoryEntry, applyPatch, createHistoryEntry, describePatch, diffDocument, refreshUntrackedFields, type HistoryEntry, type UntrackedFields } from "@/lib/history"
+import { collapseClips, createSequenceId, flattenSequences, getDefaultSequenceName, getSequenceDuration, getTimelineClipId, sequenceContains, type Sequence } from "@/lib/sequences"
+import { DEFAULT_CLIP_AUDIO, DEFAULT_CLIP_EFFECTS, DEFAULT_CLIP_TRANSFORM, TIMELINE_SCHEMA_VERSION } from "@/lib/timeline-schema"
+
+export { DEFAULT_CLIP_AUDIO, DEFAULT_CLIP_EFFECTS, DEFAULT_CLIP_TRANSFORM }
+
+export const PIXELS_PER_SECOND = 10 // Timeline display scale at 100% zoom: 10px = 1 second
 
 export interface MediaFile {
   id: string
@@ -15,9 +35,10 @@ export interface MediaFile {
   thumbnail: string | null
   type: string
   objectUrl: string // Local URL for playback (blob: or storage URL)
-  storagePath?: string // Path in Supabase Storage
-  storageUrl?: string // Public URL from Supabase Storage
+  storagePath?: string // Path in project storage
+  storageUrl?: string // Public URL from project storage
   isUploading?: boolean // Track upload state
+  upload?: MediaUpload // Progress of the current or last upload; cleared once it's stored
   captions?: Caption[] // Generated captions with timestamps
   captionsGenerating?: boolean // Track caption generation state
   // TwelveLabs fields for NLP search
@@ -25,62 +46,125 @@ export interface MediaFile {
   twelveLabsIndexId?: string // Index this video belongs to
   twelveLabsStatus?: "pending" | "indexing" | "ready" | "failed"
   twelveLabsError?: string // Error message if indexing failed
+  // Playback proxy for heavy footage - preview only, exports use the original (see lib/proxy-media)
+  proxyPath?: string
+  proxyUrl?: string
+  proxyStatus?: ProxyStatus
+  // Filled in by the server once the file is uploaded (see lib/media-probe)
+  thumbnailPath?: string
+  metadata?: MediaMetadata
+  filmstrip?: FilmstripSprite
+}
+
+export interface MediaUpload {
+  status: "uploading" | "retrying" | "paused" | "failed"
+  uploadedBytes: number
+  totalBytes: number
+  error?: string
 }
 
 export interface TimelineClip {
   id: string
   mediaId: string
   trackId: string
-  startTime: number // pixels from left (timeline position)
-  duration: number // width in pixels
-  mediaOffset: number // where in the source media this clip starts (in pixels)
+  startTime: number // timeline position in ticks (see lib/timecode)
+  duration: number // length in ticks
+  mediaOffset: number // where in the source media this clip starts (in ticks)
   label: string
-  type: "video" | "audio"
+  type: "video" | "audio" | "text"
   transform: ClipTransform
   effects: ClipEffects
+  audio: ClipAudio
+  keyframes?: ClipKeyframes // Per-property animation, timed from the clip's start (see lib/keyframes)
+  text?: TextClipStyle // Text clips only (see lib/text-clips)
+  speed?: number // Playback speed, 1 when absent (see lib/clip-speed)
+  speedRamp?: Keyframe[] // Speed keyframes in source media time
+  reverse?: boolean
+  freeze?: boolean // Still of the frame at mediaOffset
+  groupId?: string // Grouped clips are selected and moved together (see lib/clip-selection)
+  linkId?: string // Shared by a video clip and its detached audio (see lib/linked-clips)
+  markers?: Marker[] // In source media time (see lib/markers)
+  sequenceId?: string // Compound clips play this sequence (see lib/sequences)
+}
+
+// A project sequence as the editor holds it
+export interface TimelineSequence extends Sequence<TimelineClip> {
+  markers: Marker[]
 }
 
-export const DEFAULT_CLIP_TRANSFORM: ClipTransform = {
-  positionX: 0,
-  positionY: 0,
-  scale: 100,
-  opacity: 100,
+// What a timeline level holds - the main timeline, or an open sequence
+type TimelineContents = Pick<TimelineSequence, "clips" | "tracks" | "transitions" | "markers">
+
+// The level a sequence was opened from, put back when it's closed
+interface SequenceLevel extends TimelineContents {
+  sequenceId: string // The sequence opened from here
+  inOut: InOutPoints
+  currentTime: number
 }
 
-export const DEFAULT_CLIP_EFFECTS: ClipEffects = {
-  preset: "none",
-  blur: 0,
-  brightness: 100,
-  contrast: 100,
-  saturate: 100,
-  hueRotate: 0,
-  chromakey: {
-    enabled: false,
-    keyColor: "#00FF00", // Default green screen color
-    similarity: 0.4,      // Default similarity threshold
-    smoothness: 0.1,      // Default edge softness
-    spill: 0.3,          // Default spill suppression
-  },
+// Where the project's latest edits are: "local" projects only live in this browser; a cloud
+// project is "synced", has changes "pending" or "syncing" up, or is "offline" with them kept here
+export type SyncStatus = "local" | "synced" | "pending" | "syncing" | "offline"
+
+export interface LoadTimelineOptions {
+  localMediaUrls?: Record<string, string> // Playback URLs for media kept in this browser, by media id
+  unsaved?: boolean // The data is a draft that hasn't been saved to the project yet
 }
 
+// Unsaved edits are written to this browser this long after the last change
+const DRAFT_DELAY_MS = 300
+
 interface EditorContextType {
   // Project
   projectId: string | null
   setProjectId: (id: string | null) => void
   projectResolution: string | null // Project resolution (e.g., "1920x1080")
   setProjectResolution: (resolution: string | null) => void
+  projectFrameRate: number // Project frame rate (e.g., 30)
+  setProjectFrameRate: (frameRate: number) => void
   
   // Media pool
   mediaFiles: MediaFile[]
   addMediaFiles: (files: MediaFile[]) => void
   removeMediaFile: (id: string) => void
+  defaultImageDuration: number // Seconds a still image lasts when dropped on the timeline
+  setDefaultImageDuration: (seconds: number) => void
+
+  // Tracks (topmost first)
+  tracks: TrackData[]
+  addTrack: (type: TrackType) => TrackData
+  removeTrack: (id: string) => void // Only empty tracks can be removed
+  updateTrack: (id: string, updates: Partial<Omit<TrackData, "id" | "type">>) => void
+  moveTrack: (id: string, toIndex: number) => void
+
+  // Transitions between adjacent clips (see lib/transitions)
+  transitions: TimelineTransition[]
+  // Returns the new transition, or an error if the clips aren't adjacent on one track
+  addTransition: (fromClipId: string, toClipId: string, type: TransitionType, duration: number, direction?: TransitionDirection) => { data: TimelineTransition | null; error: string | null }
+  updateTransition: (id: string, updates: Partial<Omit<TimelineTransition, "id" | "fromClipId" | "toClipId">>) => void
+  removeTransition: (id: string) => void
 
   // Timeline
   timelineClips: TimelineClip[]
   addClipToTimeline: (clip: TimelineClip) => void
   updateClip: (id: string, updates: Partial<TimelineClip>) => void
+  // Update several clips as one undo step, each from its own current state
+  updateClips: (ids: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>) => void
   removeClip: (id: string) => void
+  removeClips: (ids: string[]) => void // Clips on locked tracks are kept
+  // Move clips by the same number of ticks (clamped to the timeline start), returning the ticks moved
+  moveClips: (ids: string[], delta: number) => { data: number | null; error: string | null }
   splitClip: (clipId: string, splitTime: number) => void // Split a clip at the given timeline time (in seconds)
+  // Hold the frame at a timeline time (in seconds) for `duration` seconds, pushing the rest of the track later
+  freezeFrame: (clipId: string, time: number, duration?: number) => { data: TimelineClip | null; error: string | null }
+
+  // Ripple, roll, slip and slide edits (see lib/edit-modes)
+  editMode: EditMode // What dragging clips and their edges does in the timeline
+  setEditMode: (mode: EditMode) => void
+  // Apply timing from an edit to several clips as one undo step
+  updateClipTimings: (updates: ClipTimingUpdate[]) => { data: ClipTimingUpdate[] | null; error: string | null }
+  // Remove a clip and move the rest of its track back to close the gap
+  rippleDeleteClip: (clipId: string) => { data: TimelineClip | null; error: string | null }
   
   // Timeline Zoom
   zoomLevel: number // Zoom percentage (25% = zoomed out showing 10min, 500% = zoomed in)
@@ -95,15 +179,63 @@ interface EditorContextType {
   redo: () => void
   canUndo: boolean
   canRedo: boolean
+  history: HistoryItem[] // Every recorded edit, oldest first
+  historyIndex: number // The last edit applied; -1 when everything is undone
+  goToHistory: (index: number) => void // Undo or redo to just after an edit (-1 = before the first)
+  beginHistoryGroup: (label: string) => void // Record everything until endHistoryGroup as one edit
+  endHistoryGroup: () => void
 
   // Copy/Paste
-  copyClip: (clipId: string) => void
-  pasteClip: () => void
+  copyClips: (ids: string[]) => void
+  pasteClips: () => void // Paste at the playhead, keeping the copied clips' tracks and spacing
   canPaste: boolean
 
+  // Selection (see lib/clip-selection)
+  selectedClipId: string | null // The clip last clicked - single-clip panels show this one
+  setSelectedClipId: (id: string | null) => void // Select just this clip
+  selectedClipIds: string[] // Every selected clip, including selectedClipId
+  selectClips: (ids: string[], primaryId?: string, options?: { links?: boolean }) => void // Replace the selection; groups (and links, unless left out) are selected whole
+  toggleClipSelection: (id: string) => void // Add or remove a clip (and its group) from the selection
+  selectTrackClips: (trackId: string) => void
+  selectClipsForward: (time: number, trackId?: string) => void // Select clips starting at or after a time (in seconds)
+
+  // Groups
+  groupClips: (ids: string[]) => { data: string | null; error: string | null } // Returns the new group ID
+  ungroupClips: (ids: string[]) => void
+
+  // Markers - clip markers are given a timeline time and stored in source time
+  markers: Marker[] // Ruler markers
+  addMarker: (time: number, options?: { name?: string; color?: MarkerColor; clipId?: string }) => { data: Marker | null; error: string | null }
+  updateMarker: (id: string, updates: Partial<Pick<Marker, "name" | "color">>) => void
+  removeMarker: (id: string) => void
+
+  // In/out points and three-point edits (times in ticks)
+  timelineInOut: InOutPoints
+  setTimelineInOut: (points: InOutPoints) => void
+  sourceInOut: Record<string, InOutPoints> // By media ID
+  setSourceInOut: (mediaId: string, points: InOutPoints) => void
+  sourceMonitorMediaId: string | null // Media open in the source monitor
+  setSourceMonitorMediaId: (id: string | null) => void
+  threePointEdit: (mediaId: string, mode: ThreePointEditMode, trackId?: string) => { data: TimelineClip | null; error: string | null }
+
+  // Linked audio
+  detachAudio: (clipId: string, options?: { lead?: number; tail?: number }) => { data: TimelineClip | null; error: string | null } // Returns the new audio clip
+  linkClips: (ids: string[]) => { data: string | null; error: string | null } // Link a video clip and an audio clip; returns the link ID
+  unlinkClips: (ids: string[]) => void
+
+  // Nested sequences and compound clips (see lib/sequences)
+  // Opening a sequence puts its contents in the timeline; the other timeline fields then refer to it
+  sequences: TimelineSequence[]
+  openSequenceIds: string[] // Open sequences, outermost first - empty on the main timeline
+  createCompoundClip: (ids: string[], name?: string) => { data: TimelineClip | null; error: string | null } // Collapse clips into a new sequence
+  addCompoundClip: (sequenceId: string, trackId: string, startTime: number) => { data: TimelineClip | null; error: string | null }
+  openSequence: (sequenceId: string, time?: number) => { error: string | null } // Edit a sequence, with the playhead at `time` ticks into it
+  closeSequence: (depth?: number) => void // Go back out to `depth` open sequences (0 = the main timeline); one level when absent
+  renameSequence: (id: string, name: string) => void
+  removeSequence: (id: string) => { error: string | null } // Only sequences no compound clip plays
+  getClipSourceDuration: (clip: TimelineClip) => number // Length of the clip's media or sequence in ticks, for clamping trims
+
   // Playback
-  selectedClipId: string | null
-  setSelectedClipId: (id: string | null) => void
   currentTime: number // Current playback time in seconds (timeline time)
   setCurrentTime: (time: number) => void
   isPlaying: boolean
@@ -116,7 +248,8 @@ interface EditorContextType {
 
   // Currently previewing media (from selection or playhead)
   previewMedia: MediaFile | null
-  activeClip: TimelineClip | null // The clip currently at playhead
+  activeClip: TimelineClip | null // The clip currently at playhead (inside a compound clip, the clip in it)
+  activeTimelineClip: TimelineClip | null // The timeline clip activeClip belongs to, for editing at the playhead
   backgroundClip: TimelineClip | null // The clip below activeClip (for chromakey compositing)
   clipTimeOffset: number // How far into the active clip we are (in seconds)
   backgroundClipTimeOffset: number // How far into the background clip we are (in seconds)
@@ -127,13 +260,19 @@ interface EditorContextType {
   // Sorted video clips for playback
   sortedVideoClips: TimelineClip[]
 
+  // The timeline as preview and export draw it, with compound clips replaced by their contents
+  renderClips: TimelineClip[]
+  renderTracks: TrackData[]
+  renderTransitions: TimelineTransition[]
+
   // Load state from saved data
-  loadTimelineData: (data: TimelineData | null) => void
+  loadTimelineData: (data: TimelineData | null, options?: LoadTimelineOptions) => void
 
   // Save state
   saveProject: () => Promise<void>
   isSaving: boolean
   hasUnsavedChanges: boolean
+  syncStatus: SyncStatus
 
   // Thumbnail
   setProjectThumbnail: (thumbnail: string) => void
@@ -155,6 +294,191 @@ interface EditorContextType {
   
   // TwelveLabs indexing
   reindexMedia: (mediaId: string) => Promise<void>
+
+  // Media uploads
+  pauseUpload: (mediaId: string) => void
+  resumeUpload: (mediaId: string) => Promise<void>
+
+  // Proxy media
+  useProxies: boolean // Preview plays proxies where they exist
+  setUseProxies: (use: boolean) => void
+  generateProxy: (mediaId: string, force?: boolean) => Promise<void>
+}
+
+/**
+ * The two parts of a clip cut at a timeline position inside it
+ * @param splitPosition - Timeline ticks, strictly inside the clip
+ * @param secondLinkId - Link for the second part; it's left unlinked when absent
+ * @returns [first part (keeps the clip's ID), second part]
+ */
+function splitTimelineClip(clip: TimelineClip, splitPosition: number, secondLinkId?: string): [TimelineClip, TimelineClip] {
+  // Calculate durations for the two new clips
+  const firstClipDuration = splitPosition - clip.startTime
+  const secondClipDuration = clip.startTime + clip.duration - splitPosition
+
+  // Where each part starts reading the source depends on the clip's speed and direction
+  const [firstMediaOffset, secondMediaOffset] = getSplitMediaOffsets(clip, firstClipDuration)
+
+  // Update the original clip (becomes the first part)
+  // Fade-in stays on the first part and fade-out on the second
+  const updatedFirstClip: TimelineClip = {
+    ...clip,
+    duration: firstClipDuration,
+    mediaOffset: firstMediaOffset,
+    audio: { ...clip.audio, fadeOut: 0 },
+  }
+
+  // Create the second clip
+  const secondClip: TimelineClip = {
+    id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    mediaId: clip.mediaId,
+    trackId: clip.trackId,
+    startTime: splitPosition,
+    duration: secondClipDuration,
+    mediaOffset: secondMediaOffset, // Offset into source media
+    label: clip.label,
+    type: clip.type,
+    transform: { ...clip.transform },
+    effects: { ...clip.effects },
+    audio: { ...clip.audio, fadeIn: 0 },
+    keyframes: shiftKeyframes(clip.keyframes, -firstClipDuration), // Timed from the second part's own start
+    text: clip.text,
+    speed: clip.speed,
+    speedRamp: clip.speedRamp, // In source media time, so it stays on the same footage
+    reverse: clip.reverse,
+    freeze: clip.freeze,
+    groupId: clip.groupId,
+    linkId: secondLinkId,
+    markers: clip.markers, // In media time, so each part shows the ones on its own footage
+    sequenceId: clip.sequenceId,
+  }
+  return [updatedFirstClip, secondClip]
+}
+
+
+// A saved clip with defaults filled in for fields older projects didn't store
+function restoreClip(clip: TimelineClipData): TimelineClip {
+  return {
+    id: clip.id,
+    mediaId: clip.mediaId,
+    trackId: clip.trackId,
+    startTime: clip.startTime,
+    duration: clip.duration,
+    mediaOffset: clip.mediaOffset,
+    label: clip.label,
+    type: clip.type,
+    transform: clip.transform,
+    effects: clip.effects,
+    audio: clip.audio,
+    keyframes: clip.keyframes,
+    ...(clip.type === "text" ? { text: clip.text } : {}),
+    speed: clip.speed,
+    speedRamp: clip.speedRamp,
+    reverse: clip.reverse,
+    freeze: clip.freeze,
+    groupId: clip.groupId,
+    linkId: clip.linkId,
+    markers: clip.markers,
+    sequenceId: clip.sequenceId,
+  }
+}
+
+function serializeClip(clip: TimelineClip): TimelineClipData {
+  return {
+    id: clip.id,
+    mediaId: clip.mediaId,
+    trackId: clip.trackId,
+    startTime: clip.startTime,
+    duration: clip.duration,
+    mediaOffset: clip.mediaOffset,
+    label: clip.label,
+    type: clip.type,
+    transform: clip.transform,
+    effects: clip.effects,
+    audio: clip.audio,
+    keyframes: clip.keyframes,
+    text: clip.text,
+    speed: clip.speed,
+    speedRamp: clip.speedRamp,
+    reverse: clip.reverse,
+    freeze: clip.freeze,
+    groupId: clip.groupId,
+    linkId: clip.linkId,
+    markers: clip.markers,
+    sequenceId: clip.sequenceId,
+  }
+}
+
+// Transitions whose clips are both still there
+function getLiveTransitions(transitions: TimelineTransition[], clips: TimelineClip[]): TimelineTransition[] {
+  return transitions.filter((t) => clips.some((c) => c.id === t.fromClipId) && clips.some((c) => c.id === t.toClipId))
+}
+
+/**
+ * Write the contents of every open level back into its sequence
+ * @param levels - Levels opened from, outermost first, down to `depth`
+ * @param current - What the timeline holds now
+ * @returns The updated sequences, and the contents of the level at `depth`
+ */
+function foldSequenceLevels(
+  sequences: TimelineSequence[],
+  levels: SequenceLevel[],
+  current: TimelineContents,
+  depth = 0
+): { sequences: TimelineSequence[]; contents: TimelineContents } {
+  let contents = current
+  let folded = sequences
+  for (let i = levels.length - 1; i >= depth; i--) {
+    const { sequenceId } = levels[i]
+    const { clips, tracks, transitions, markers } = contents
+    folded = folded.map((s) => (s.id === sequenceId ? { ...s, clips, tracks, transitions, markers } : s))
+    contents = levels[i]
+  }
+  return { sequences: folded, contents }
+}
+
+// A recorded edit as the history panel lists it
+export interface HistoryItem {
+  id: string
+  label: string
+  time: number
+}
+
+// Everything undo and redo cover
+interface EditorDocument {
+  clips: TimelineClip[]
+  tracks: TrackData[]
+  transitions: TimelineTransition[]
+  markers: Marker[]
+  sequences: TimelineSequence[]
+  levels: SequenceLevel[] // Opening and closing a sequence is undone like an edit
+  media: MediaFile[]
+  defaultImageDuration: number
+  showCaptions: boolean
+  captionStyle: "classic" | "tiktok"
+}
+
+// Names for edits recorded without one, most telling first
+const DOCUMENT_NOUNS: Record<keyof EditorDocument, [string, string]> = {
+  clips: ["clip", "clips"],
+  media: ["media file", "media files"],
+  sequences: ["sequence", "sequences"],
+  levels: ["open sequence", "open sequences"],
+  transitions: ["transition", "transitions"],
+  markers: ["marker", "markers"],
+  tracks: ["track", "tracks"],
+  defaultImageDuration: ["image duration", "image durations"],
+  showCaptions: ["caption visibility", "caption visibility"],
+  captionStyle: ["caption style", "caption styles"],
+}
+
+// Upload, indexing and probing progress isn't an edit
+const UNTRACKED_FIELDS: UntrackedFields<EditorDocument> = {
+  media: [
+    "isUploading", "upload", "storagePath", "storageUrl", "twelveLabsVideoId", "twelveLabsIndexId", "twelveLabsStatus",
+    "twelveLabsError", "captionsGenerating", "proxyPath", "proxyUrl", "proxyStatus", "duration", "durationSeconds",
+    "thumbnail", "thumbnailPath", "metadata", "filmstrip",
+  ],
 }
 
 const EditorContext = createContext<EditorContextType | null>(null)
@@ -162,9 +486,22 @@ const EditorContext = createContext<EditorContextType | null>(null)
 export function EditorProvider({ children }: { children: ReactNode }) {
   const [projectId, setProjectId] = useState<string | null>(null)
   const [projectResolution, setProjectResolution] = useState<string | null>(null)
+  const [projectFrameRate, setProjectFrameRate] = useState(30)
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([])
   const [timelineClips, setTimelineClips] = useState<TimelineClip[]>([])
-  const [selectedClipId, setSelectedClipId] = useState<string | null>(null)
+  const [tracks, setTracks] = useState<TrackData[]>(DEFAULT_TRACKS)
+  const [transitions, setTransitions] = useState<TimelineTransition[]>([])
+  const [markers, setMarkers] = useState<Marker[]>([])
+  const [timelineInOut, setTimelineInOutState] = useState<InOutPoints>({})
+  const [sourceInOut, setSourceInOutState] = useState<Record<string, InOutPoints>>({})
+  const [sourceMonitorMediaId, setSourceMonitorMediaId] = useState<string | null>(null)
+  const [sequences, setSequences] = useState<TimelineSequence[]>([])
+  const [sequenceLevels, setSequenceLevels] = useState<SequenceLevel[]>([])
+  const [defaultImageDuration, setDefaultImageDurationState] = useState(DEFAULT_IMAGE_DURATION)
+  const [selection, setSelection] = useState<{ primary: string | null; ids: string[] }>({ primary: null, ids: [] })
+  const selectedClipId = selection.primary
+  const selectedClipIds = selection.ids
+  const [editMode, setEditMode] = useState<EditMode>("select")
   const [currentTime, setCurrentTime] = useState(0) // Time in seconds
   const [isPlaying, setIsPlaying] = useState(false)
   const [isScrubbing, setIsScrubbing] = useState(false)
@@ -181,77 +518,129 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   const pixelsPerSecond = (PIXELS_PER_SECOND * zoomLevel) / 100
 
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine)
+  const [syncRequest, setSyncRequest] = useState(0) // Bumped to upload media kept in this browser
+  const uploadControllers = useRef(new Map<string, AbortController>()) // Running media uploads, by media id
+  const [useProxies, setUseProxies] = useState(true)
 
-  // Undo/Redo history
-  const historyRef = useRef<TimelineClip[][]>([])
-  const historyIndexRef = useRef<number>(-1)
-  const copiedClipRef = useRef<TimelineClip | null>(null)
-  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false })
+  const copiedClipsRef = useRef<TimelineClip[]>([])
+
+  // Undo/Redo history - every change to the document is recorded as a patch (see lib/history)
+  const historyDocument = useMemo<EditorDocument>(
+    () => ({ clips: timelineClips, tracks, transitions, markers, sequences, levels: sequenceLevels, media: mediaFiles, defaultImageDuration, showCaptions, captionStyle }),
+    [timelineClips, tracks, transitions, markers, sequences, sequenceLevels, mediaFiles, defaultImageDuration, showCaptions, captionStyle]
+  )
+  const historyRef = useRef<HistoryEntry<EditorDocument>[]>([])
+  const historyIndexRef = useRef(-1)
+  const historyBaselineRef = useRef<EditorDocument | null>(null) // The document as history last saw it
+  const historyLabelRef = useRef<string | null>(null) // Name for the next edit
+  const historyGroupRef = useRef<{ label: string; open: boolean } | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0) // Bumped to record without a document change
+  const [historyState, setHistoryState] = useState<{ items: HistoryItem[]; index: number }>({ items: [], index: -1 })
 
-  // Update history state
   const updateHistoryState = useCallback(() => {
-    const history = historyRef.current
-    const index = historyIndexRef.current
     setHistoryState({
-      canUndo: history.length > 0 && index > 0,
-      canRedo: index < history.length - 1
+      items: historyRef.current.map(({ id, label, time }) => ({ id, label, time })),
+      index: historyIndexRef.current,
     })
   }, [])
 
-  // Save state to history before making changes
-  const saveToHistory = useCallback(() => {
-    const currentState = [...timelineClips]
-    const history = historyRef.current
-    const index = historyIndexRef.current
+  // Name the edit about to be made; edits without a name are described from what they change
+  const labelEdit = useCallback((label: string) => {
+    historyLabelRef.current = label
+  }, [])
 
-    // Remove any future history if we're not at the end
-    if (index < history.length - 1) {
-      history.splice(index + 1)
+  // Record each change against the last document history saw
+  useEffect(() => {
+    const baseline = historyBaselineRef.current
+    if (!baseline) {
+      historyBaselineRef.current = historyDocument
+      return
     }
-
-    // Add new state
-    history.push(JSON.parse(JSON.stringify(currentState)))
-    historyIndexRef.current = history.length - 1
-
-    // Limit history size to 50
-    if (history.length > 50) {
-      history.shift()
-      historyIndexRef.current = history.length - 1
+    if (historyGroupRef.current?.open) return
+
+    const label = historyGroupRef.current?.label ?? historyLabelRef.current
+    historyGroupRef.current = null
+    historyLabelRef.current = null
+    historyBaselineRef.current = historyDocument
+    if (historyDocument.media !== baseline.media) {
+      historyRef.current = refreshUntrackedFields(historyRef.current, historyDocument, UNTRACKED_FIELDS)
     }
 
+    const patch = diffDocument(baseline, historyDocument, UNTRACKED_FIELDS)
+    if (!patch) return
+    const { entries, index } = addHistoryEntry(historyRef.current, historyIndexRef.current, createHistoryEntry(label ?? describePatch(patch, DOCUMENT_NOUNS), patch))
+    historyRef.current = entries
+    historyIndexRef.current = index
+    updateHistoryState()
+  }, [historyDocument, historyVersion, updateHistoryState])
+
+  // Undo or redo every edit between here and there in one go
+  const goToHistory = useCallback((target: number) => {
+    const entries = historyRef.current
+    let index = historyIndexRef.current
+    target = Math.max(-1, Math.min(target, entries.length - 1))
+    if (target === index) return
+
+    let document = historyDocument
+    for (; index > target; index--) document = applyPatch(document, entries[index].patch, "undo")
+    for (; index < target; index++) document = applyPatch(document, entries[index + 1].patch, "redo")
+    historyIndexRef.current = index
+    historyBaselineRef.current = document
+
+    setTimelineClips(document.clips)
+    setTracks(document.tracks)
+    setTransitions(document.transitions)
+    setMarkers(document.markers)
+    setSequences(document.sequences)
+    setSequenceLevels(document.levels)
+    if (document.levels.length < historyDocument.levels.length) {
+      // Back out of a sequence to where it was opened from
+      const level = historyDocument.levels[document.levels.length]
+      setTimelineInOutState(level.inOut)
+      setCurrentTime(level.currentTime)
+    } else if (document.levels.length > historyDocument.levels.length) {
+      setTimelineInOutState({})
+    }
+    setMediaFiles(document.media)
+    setDefaultImageDurationState(document.defaultImageDuration)
+    setShowCaptions(document.showCaptions)
+    setCaptionStyle(document.captionStyle)
+    setSelection((prev) => {
+      const ids = prev.ids.filter((id) => document.clips.some((c) => c.id === id))
+      return { primary: prev.primary && ids.includes(prev.primary) ? prev.primary : null, ids }
+    })
+    setHasUnsavedChanges(true)
     updateHistoryState()
-  }, [timelineClips, updateHistoryState])
+  }, [historyDocument, updateHistoryState])
 
-  // Undo
-  const undo = useCallback(() => {
-    const history = historyRef.current
-    const index = historyIndexRef.current
+  const undo = useCallback(() => goToHistory(historyIndexRef.current - 1), [goToHistory])
+  const redo = useCallback(() => goToHistory(historyIndexRef.current + 1), [goToHistory])
+  const canUndo = historyState.index >= 0
+  const canRedo = historyState.index < historyState.items.length - 1
 
-    if (index > 0) {
-      historyIndexRef.current = index - 1
-      const previousState = history[index - 1]
-      setTimelineClips(JSON.parse(JSON.stringify(previousState)))
-      setHasUnsavedChanges(true)
-      updateHistoryState()
+  // An agent turn, say, undoes as a single edit; groups don't nest
+  const beginHistoryGroup = useCallback((label: string) => {
+    if (!historyGroupRef.current?.open) {
+      historyGroupRef.current = { label, open: true }
     }
-  }, [updateHistoryState])
+  }, [])
 
-  // Redo
-  const redo = useCallback(() => {
-    const history = historyRef.current
-    const index = historyIndexRef.current
+  const endHistoryGroup = useCallback(() => {
+    if (!historyGroupRef.current) return
+    historyGroupRef.current.open = false
+    setHistoryVersion((v) => v + 1)
+  }, [])
 
-    if (index < history.length - 1) {
-      historyIndexRef.current = index + 1
-      const nextState = history[index + 1]
-      setTimelineClips(JSON.parse(JSON.stringify(nextState)))
-      setHasUnsavedChanges(true)
-      updateHistoryState()
-    }
+  // History starts again with a new project
+  const resetHistory = useCallback(() => {
+    historyRef.current = []
+    historyIndexRef.current = -1
+    historyBaselineRef.current = null
+    historyLabelRef.current = null
+    setHistoryVersion((v) => v + 1)
+    updateHistoryState()
   }, [updateHistoryState])
-
-  const canUndo = historyState.canUndo
-  const canRedo = historyState.canRedo
   
   // Zoom functions
   const zoomIn = useCallback(() => {
@@ -270,7 +659,7 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     
     // Find the rightmost clip end (in seconds)
     const maxTime = Math.max(
-      ...timelineClips.map((clip) => (clip.startTime + clip.duration) / PIXELS_PER_SECOND)
+      ...timelineClips.map((clip) => ticksToSeconds(clip.startTime + clip.duration))
     )
     
     // Target: fit all clips in ~1000px viewport
@@ -281,40 +670,172 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     setZoomLevel(Math.round(requiredZoom / 25) * 25) // Round to nearest 25%
   }, [timelineClips])
 
-  // Copy clip
-  const copyClip = useCallback((clipId: string) => {
-    const clip = timelineClips.find(c => c.id === clipId)
-    if (clip) {
-      copiedClipRef.current = JSON.parse(JSON.stringify(clip))
+  // Copy clips, along with anything grouped with them
+  const copyClips = useCallback((ids: string[]) => {
+    const copyIds = expandClipGroups(timelineClips, ids)
+    const clips = timelineClips.filter((c) => copyIds.includes(c.id))
+    if (clips.length > 0) {
+      copiedClipsRef.current = JSON.parse(JSON.stringify(clips))
       setCanPasteState(true)
     }
   }, [timelineClips])
 
-  // Paste clip
-  const pasteClip = useCallback(() => {
-    const copied = copiedClipRef.current
-    if (!copied) return
+  // Paste clips
+  const pasteClips = useCallback(() => {
+    const copied: TimelineClip[] = JSON.parse(JSON.stringify(copiedClipsRef.current))
+    if (copied.length === 0) return
 
-    saveToHistory()
+    labelEdit("Paste clips")
 
-    const newClip: TimelineClip = {
-      ...JSON.parse(JSON.stringify(copied)),
-      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      startTime: currentTime * PIXELS_PER_SECOND, // Paste at current playhead position
-    }
+    // Paste at current playhead position
+    const newClips = getPastedClips(copied, secondsToFrameTicks(currentTime, projectFrameRate))
 
-    setTimelineClips(prev => [...prev, newClip])
-    setSelectedClipId(newClip.id)
+    setTimelineClips(prev => [...prev, ...newClips])
+    setSelection({ primary: newClips[0].id, ids: newClips.map((c) => c.id) })
     setHasUnsavedChanges(true)
-  }, [currentTime, saveToHistory])
+  }, [currentTime, projectFrameRate, labelEdit])
 
   const [canPasteState, setCanPasteState] = useState(false)
 
   // Update canPaste state
   useEffect(() => {
-    setCanPasteState(copiedClipRef.current !== null)
+    setCanPasteState(copiedClipsRef.current.length > 0)
   }, [timelineClips]) // Re-check when clips change
 
+  const setSelectedClipId = useCallback((id: string | null) => {
+    setSelection(id ? { primary: id, ids: [id] } : { primary: null, ids: [] })
+  }, [])
+
+  const selectClips = useCallback((ids: string[], primaryId?: string, options?: { links?: boolean }) => {
+    const expanded = expandClipGroups(timelineClips, ids, options)
+    const primary = primaryId ?? ids[ids.length - 1]
+    setSelection({ primary: primary && expanded.includes(primary) ? primary : expanded[0] ?? null, ids: expanded })
+  }, [timelineClips])
+
+  const toggleClipSelection = useCallback((id: string) => {
+    const group = expandClipGroups(timelineClips, [id])
+    setSelection((prev) => {
+      if (prev.ids.includes(id)) {
+        const ids = prev.ids.filter((i) => !group.includes(i))
+        return { primary: group.includes(prev.primary ?? "") ? ids[ids.length - 1] ?? null : prev.primary, ids }
+      }
+      return { primary: id, ids: [...prev.ids, ...group.filter((i) => !prev.ids.includes(i))] }
+    })
+  }, [timelineClips])
+
+  const selectTrackClips = useCallback((trackId: string) => {
+    const ids = getTrackClipIds(timelineClips, trackId)
+    setSelection({ primary: ids[0] ?? null, ids })
+  }, [timelineClips])
+
+  const selectClipsForward = useCallback((time: number, trackId?: string) => {
+    const ids = getClipIdsFrom(timelineClips, secondsToTicks(time), trackId)
+    setSelection({ primary: ids[0] ?? null, ids })
+  }, [timelineClips])
+
+  // Removed clips (including ones undone away) drop out of the selection
+  useEffect(() => {
+    setSelection((prev) => {
+      const ids = prev.ids.filter((id) => timelineClips.some((c) => c.id === id))
+      if (ids.length === prev.ids.length) return prev
+      return { primary: prev.primary && ids.includes(prev.primary) ? prev.primary : ids[ids.length - 1] ?? null, ids }
+    })
+  }, [timelineClips])
+
+  const groupClips = useCallback((ids: string[]) => {
+    const clipIds = expandClipGroups(timelineClips, ids)
+    if (clipIds.length < 2) return { data: null, error: "Select at least two clips to group" }
+    const groupId = createGroupId()
+    labelEdit("Group clips")
+    setTimelineClips((prev) => prev.map((c) => (clipIds.includes(c.id) ? { ...c, groupId } : c)))
+    setHasUnsavedChanges(true)
+    return { data: groupId, error: null }
+  }, [timelineClips, labelEdit])
+
+  const ungroupClips = useCallback((ids: string[]) => {
+    const clipIds = expandClipGroups(timelineClips, ids)
+    if (!timelineClips.some((c) => clipIds.includes(c.id) && c.groupId)) return
+    labelEdit("Ungroup clips")
+    setTimelineClips((prev) => prev.map((c) => (clipIds.includes(c.id) ? { ...c, groupId: undefined } : c)))
+    setHasUnsavedChanges(true)
+  }, [timelineClips, labelEdit])
+
+  // Put a video clip's sound on an audio track as a linked clip, muting the video's own audio
+  // A lead or tail (in ticks) runs the sound on before or after the picture for a J-cut or L-cut,
+  // as far as the media allows
+  const detachAudio = useCallback((clipId: string, options: { lead?: number; tail?: number } = {}) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    if (!clip) return { data: null, error: "Clip not found" }
+    const media = mediaFiles.find((m) => m.id === clip.mediaId)
+    if (clip.type !== "video" || !media || getMediaKind(media) !== "video") return { data: null, error: "Only video clips have audio to detach" }
+    if (clip.freeze) return { data: null, error: "Freeze frames have no audio" }
+    if (getLinkedClips(timelineClips, clip).length > 0) return { data: null, error: "This clip's audio is already detached" }
+    if (isTrackLocked(clip.trackId, tracks)) return { data: null, error: `Track ${clip.trackId} is locked` }
+
+    const linkId = createLinkId()
+    let audioClip: TimelineClip = {
+      ...clip,
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      label: `${clip.label} (Audio)`,
+      type: "audio",
+      transform: { ...DEFAULT_CLIP_TRANSFORM },
+      effects: { ...DEFAULT_CLIP_EFFECTS },
+      audio: { ...clip.audio },
+      keyframes: undefined, // Keyframes only animate the picture
+      linkId,
+    }
+    const mediaTicks = getMediaDurationTicks(media)
+    const lead = Math.max(0, Math.min(options.lead ?? 0, audioClip.startTime, Math.floor(getTrimRoom(audioClip, "left", mediaTicks))))
+    if (lead > 0) {
+      const duration = audioClip.duration + lead
+      audioClip = { ...audioClip, startTime: audioClip.startTime - lead, duration, mediaOffset: getTrimmedMediaOffset(audioClip, "left", duration) }
+    }
+    const tail = Math.max(0, Math.min(options.tail ?? 0, Math.floor(getTrimRoom(audioClip, "right", mediaTicks))))
+    if (tail > 0) {
+      const duration = audioClip.duration + tail
+      audioClip = { ...audioClip, duration, mediaOffset: getTrimmedMediaOffset(audioClip, "right", duration) }
+    }
+
+    // The audio goes on the first unlocked audio track that's free under it, or a new one
+    const audioEnd = audioClip.startTime + audioClip.duration
+    const freeTrack = tracks.find((t) =>
+      t.type === "audio" && !t.locked &&
+      !timelineClips.some((c) => c.trackId === t.id && c.startTime < audioEnd && c.startTime + c.duration > audioClip.startTime)
+    )
+    const track = freeTrack ?? createTrack("audio", tracks)
+    if (!freeTrack) {
+      setTracks((prev) => [...prev, track])
+    }
+    audioClip = { ...audioClip, trackId: track.id }
+
+    labelEdit("Detach audio")
+    setTimelineClips((prev) =>
+      prev.map((c) => (c.id === clipId ? { ...c, audio: { ...c.audio, muted: true }, linkId } : c)).concat(audioClip)
+    )
+    setHasUnsavedChanges(true)
+    return { data: audioClip, error: null }
+  }, [timelineClips, mediaFiles, tracks, labelEdit])
+
+  const linkClips = useCallback((ids: string[]) => {
+    const clips = timelineClips.filter((c) => ids.includes(c.id))
+    const video = clips.find((c) => c.type === "video")
+    const audio = clips.find((c) => c.type === "audio")
+    if (clips.length !== 2 || !video || !audio) return { data: null, error: "Select one video clip and one audio clip to link" }
+    const linkId = createLinkId()
+    labelEdit("Link clips")
+    setTimelineClips((prev) => prev.map((c) => (c.id === video.id || c.id === audio.id ? { ...c, linkId } : c)))
+    setHasUnsavedChanges(true)
+    return { data: linkId, error: null }
+  }, [timelineClips, labelEdit])
+
+  const unlinkClips = useCallback((ids: string[]) => {
+    if (!timelineClips.some((c) => ids.includes(c.id) && c.linkId)) return
+    const links = new Set(timelineClips.filter((c) => ids.includes(c.id)).map((c) => c.linkId))
+    labelEdit("Unlink clips")
+    setTimelineClips((prev) => prev.map((c) => (c.linkId && links.has(c.linkId) ? { ...c, linkId: undefined } : c)))
+    setHasUnsavedChanges(true)
+  }, [timelineClips, labelEdit])
+
   const canPaste = canPasteState
 
   // Function to index a video to TwelveLabs (called after upload)
@@ -437,13 +958,163 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     setTimeout(poll, 3000)
   }, [])
 
+  /**
+   * Have the server make a playback proxy for an uploaded video (see lib/proxy-media)
+   * @param force - Make one even for footage that doesn't look heavy
+   */
+  const requestProxy = useCallback(async (mediaId: string, storagePath: string, force: boolean) => {
+    const setProxy = (changes: Partial<MediaFile>) =>
+      setMediaFiles((prev) => prev.map((m) => (m.id === mediaId ? { ...m, ...changes } : m)))
+
+    setProxy({ proxyStatus: "generating" })
+    try {
+      const response = await fetch("/api/proxy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storagePath, force }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Proxy generation failed")
+      }
+      if (!result.proxyUrl) {
+        // Plays fine as it is
+        setProxy({ proxyStatus: undefined })
+        return
+      }
+      console.log("[EditorContext] Proxy ready for", mediaId, `(${result.reason ?? "requested"})`)
+      setProxy({ proxyPath: result.proxyPath, proxyUrl: result.proxyUrl, proxyStatus: "ready" })
+      setHasUnsavedChanges(true)
+    } catch (error) {
+      console.error("[EditorContext] Failed to make a proxy for", mediaId, error)
+      setProxy({ proxyStatus: "failed" })
+    }
+  }, [])
+
+  /**
+   * Have the server probe an uploaded file (see lib/media-probe)
+   * Its stored thumbnail replaces the one made in the browser, and its duration fills in for
+   * files the browser couldn't read.
+   */
+  const requestProbe = useCallback(async (mediaId: string, storagePath: string) => {
+    try {
+      const response = await fetch("/api/probe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storagePath }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Probe failed")
+      }
+      const metadata = result.metadata as MediaMetadata
+      if (metadata.variableFrameRate) {
+        console.warn("[EditorContext] Media", mediaId, "has a variable frame rate - clips from it may drift out of sync")
+      }
+      setMediaFiles((prev) =>
+        prev.map((m) => {
+          if (m.id !== mediaId) return m
+          const duration = !m.durationSeconds && metadata.duration
+            ? { durationSeconds: metadata.duration, duration: formatMediaDuration(metadata.duration) }
+            : {}
+          return {
+            ...m,
+            ...duration,
+            metadata,
+            thumbnail: result.thumbnailUrl ?? m.thumbnail,
+            thumbnailPath: result.thumbnailPath ?? m.thumbnailPath,
+            filmstrip: result.filmstrip ?? m.filmstrip,
+          }
+        })
+      )
+      setHasUnsavedChanges(true)
+    } catch (error) {
+      // The browser's thumbnail and duration stand
+      console.error("[EditorContext] Failed to probe", mediaId, error)
+    }
+  }, [])
+
+  /**
+   * Upload one media file to the project, in resumable chunks
+   * The upload session is remembered in this browser until the file is stored, so an upload
+   * cut off by a reload picks up where it was. Progress is kept on the media's upload field.
+   * @returns The stored file, or null if the upload failed or was paused
+   */
+  const uploadMedia = useCallback(async (media: MediaFile, file: File): Promise<{ path: string; url: string } | null> => {
+    if (!projectId) return null
+    const setUpload = (upload: MediaUpload | undefined, isUploading: boolean) =>
+      setMediaFiles((prev) => prev.map((m) => (m.id === media.id ? { ...m, upload, isUploading } : m)))
+
+    const controller = new AbortController()
+    uploadControllers.current.set(media.id, controller)
+    const { data: pending } = await getPendingUpload(media.id)
+    setUpload({ status: "uploading", uploadedBytes: 0, totalBytes: file.size }, true)
+
+    const { data, error } = await uploadMediaFileResumable(projectId, file, {
+      uploadId: pending?.projectId === projectId && pending.size === file.size ? pending.uploadId : undefined,
+      signal: controller.signal,
+      onStart: (uploadId) => {
+        putPendingUpload({ mediaId: media.id, projectId, uploadId, size: file.size })
+      },
+      onProgress: (uploadedBytes, totalBytes) => setUpload({ status: "uploading", uploadedBytes, totalBytes }, true),
+      onRetry: (attempt, delayMs, retryError) => {
+        console.warn(`[EditorContext] Upload of ${media.name} failed (${retryError.message}), retry ${attempt} in ${delayMs}ms`)
+        setMediaFiles((prev) =>
+          prev.map((m) => (m.id === media.id && m.upload ? { ...m, upload: { ...m.upload, status: "retrying" } } : m))
+        )
+      },
+    })
+    uploadControllers.current.delete(media.id)
+
+    if (error || !data) {
+      const paused = controller.signal.aborted
+      if (!paused) console.error("[EditorContext] Failed to upload", media.name, "- keeping it in this browser:", error)
+      setMediaFiles((prev) =>
+        prev.map((m) =>
+          m.id === media.id
+            ? {
+              ...m,
+              isUploading: false,
+              upload: {
+                uploadedBytes: m.upload?.uploadedBytes ?? 0,
+                totalBytes: file.size,
+                status: paused ? "paused" : "failed",
+                error: paused ? undefined : error?.message,
+              },
+            }
+            : m
+        )
+      )
+      return null
+    }
+
+    await clearPendingUpload(media.id)
+    setMediaFiles((prev) =>
+      prev.map((m) =>
+        m.id === media.id ? { ...m, storagePath: data.path, storageUrl: data.url, isUploading: false, upload: undefined } : m
+      )
+    )
+
+    // Probe it, auto-index to TwelveLabs for NLP search, and make a proxy if the footage is heavy (async, non-blocking)
+    // Only video can be indexed - audio files and images are skipped
+    requestProbe(media.id, data.path)
+    if (getMediaKind(media) === "video") {
+      indexToTwelveLabs(media.id, data.url, media.name)
+      requestProxy(media.id, data.path, false)
+    }
+    return data
+  }, [projectId, indexToTwelveLabs, requestProxy, requestProbe])
+
   const addMediaFiles = useCallback(async (files: MediaFile[]) => {
     // Add files immediately with uploading state
     // Only mark as uploading if it doesn't already have a storageUrl (e.g., from voice isolation)
+    // Local projects and imports while offline keep the file in this browser instead
+    const canUpload = !!projectId && !isLocalProjectId(projectId) && navigator.onLine
     const filesWithUploading = files.map(f => ({ 
       ...f, 
-      isUploading: f.storageUrl ? false : !!projectId 
+      isUploading: f.storageUrl ? false : canUpload 
     }))
+    labelEdit(files.length > 1 ? `Import ${files.length} files` : "Import media")
     setMediaFiles((prev) => [...prev, ...filesWithUploading])
     setHasUnsavedChanges(true)
 
@@ -456,47 +1127,59 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         }
         
         if (file.file) {
-          try {
-            const { data, error } = await uploadMediaFile(projectId, file.file)
-            if (data && !error) {
-              // Update the media file with storage info
-              setMediaFiles((prev) =>
-                prev.map((m) =>
-                  m.id === file.id
-                    ? {
-                      ...m,
-                      storagePath: data.path,
-                      storageUrl: data.url,
-                      isUploading: false,
-                    }
-                    : m
-                )
-              )
-
-              // Auto-index to TwelveLabs for NLP search (async, non-blocking)
-              indexToTwelveLabs(file.id, data.url, file.name)
-            } else {
-              console.error("Failed to upload file:", file.name, error)
-              // Mark as not uploading even on error
-              setMediaFiles((prev) =>
-                prev.map((m) =>
-                  m.id === file.id ? { ...m, isUploading: false } : m
-                )
-              )
-            }
-          } catch (err) {
-            console.error("Error uploading file:", file.name, err)
-            // Mark as not uploading on exception
+          // Keep the original here first, so the media survives a reload before - or without - the upload
+          const { error: storeError } = await putLocalMedia({ id: file.id, projectId, name: file.name, type: file.type, blob: file.file })
+          if (!storeError) {
             setMediaFiles((prev) =>
-              prev.map((m) =>
-                m.id === file.id ? { ...m, isUploading: false } : m
-              )
+              prev.map((m) => (m.id === file.id && !m.storageUrl ? { ...m, storagePath: `${LOCAL_MEDIA_PREFIX}${file.id}` } : m))
             )
           }
+          if (!canUpload) continue
+
+          await uploadMedia(file, file.file)
         }
       }
     }
-  }, [projectId, indexToTwelveLabs])
+  }, [projectId, uploadMedia, labelEdit])
+
+  // Upload media that was only kept in this browser - imported offline, interrupted by a reload, or whose upload failed
+  // Uploads paused by hand wait for resumeUpload
+  const uploadPendingMedia = useCallback(async () => {
+    if (!projectId || isLocalProjectId(projectId) || !navigator.onLine) return
+    const pending = mediaFiles.filter((m) => isLocalMediaPath(m.storagePath) && !m.isUploading && m.upload?.status !== "paused")
+    for (const media of pending) {
+      const { data: record } = await getLocalMedia(media.id)
+      if (!record) continue
+      const stored = await uploadMedia(media, new File([record.blob], record.name, { type: record.type }))
+      if (stored) setHasUnsavedChanges(true)
+    }
+  }, [projectId, mediaFiles, uploadMedia])
+
+  // Make (or remake) a media item's proxy by hand, e.g. for footage that stutters but wasn't picked up as heavy
+  const generateProxy = useCallback(async (mediaId: string, force = true) => {
+    const media = mediaFiles.find((m) => m.id === mediaId)
+    if (!media?.storagePath || !media.storageUrl || media.proxyStatus === "generating") return
+    await requestProxy(mediaId, media.storagePath, force)
+  }, [mediaFiles, requestProxy])
+
+  // Stop a media upload part-way; resumeUpload carries on from the last chunk that arrived
+  const pauseUpload = useCallback((mediaId: string) => {
+    uploadControllers.current.get(mediaId)?.abort()
+  }, [])
+
+  // Carry on with a paused or failed upload, from the imported file or the copy kept in this browser
+  const resumeUpload = useCallback(async (mediaId: string) => {
+    const media = mediaFiles.find((m) => m.id === mediaId)
+    if (!media || media.isUploading || media.storageUrl) return
+    const { data: record } = media.file ? { data: null } : await getLocalMedia(mediaId)
+    const file = media.file ?? (record && new File([record.blob], record.name, { type: record.type }))
+    if (!file) {
+      console.error("[EditorContext] No local copy of", media.name, "to upload")
+      return
+    }
+    const stored = await uploadMedia(media, file)
+    if (stored) setHasUnsavedChanges(true)
+  }, [mediaFiles, uploadMedia])
 
   // Manually re-index a media file to TwelveLabs (for existing media without indexing)
   const reindexMedia = useCallback(async (mediaId: string) => {
@@ -511,8 +1194,14 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   }, [mediaFiles, indexToTwelveLabs])
 
   const removeMediaFile = useCallback((id: string) => {
-    // Save to history before making changes (for undo/redo)
-    saveToHistory()
+    labelEdit("Remove media")
+    uploadControllers.current.get(id)?.abort()
+    // An unfinished upload is cancelled too, so the backend drops the parts it has
+    getPendingUpload(id).then(({ data: pending }) => {
+      if (!pending) return
+      cancelResumableUpload(pending.uploadId)
+      clearPendingUpload(id)
+    })
 
     // Remove the media file
     setMediaFiles((prev) => prev.filter((f) => f.id !== id))
@@ -530,107 +1219,609 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       return prev.filter((clip) => clip.mediaId !== id)
     })
 
+    // And from every sequence, including the levels open sequences were opened from
+    const withoutMedia = <T extends TimelineContents>(contents: T): T =>
+      contents.clips.some((clip) => clip.mediaId === id)
+        ? { ...contents, clips: contents.clips.filter((clip) => clip.mediaId !== id) }
+        : contents
+    setSequences((prev) => prev.map(withoutMedia))
+    setSequenceLevels((prev) => prev.map(withoutMedia))
+
     setHasUnsavedChanges(true)
-  }, [saveToHistory, selectedClipId])
+  }, [labelEdit, selectedClipId])
 
   const addClipToTimeline = useCallback((clip: TimelineClip) => {
-    saveToHistory()
+    labelEdit("Add clip")
     setTimelineClips((prev) => [...prev, clip])
     setSelectedClipId(clip.id)
     setHasUnsavedChanges(true)
-  }, [saveToHistory])
+  }, [labelEdit])
 
   const updateClip = useCallback((id: string, updates: Partial<TimelineClip>) => {
     console.log("[EditorContext] updateClip called:", id, updates)
-    saveToHistory()
+    // Clips on locked tracks keep their position - effects and transforms can still change
+    const clip = timelineClips.find((c) => c.id === id)
+    const movesClip = ["startTime", "duration", "mediaOffset", "trackId"].some((key) => key in updates)
+    if (clip && movesClip && (isTrackLocked(clip.trackId, tracks) || (updates.trackId && isTrackLocked(updates.trackId, tracks)))) {
+      console.warn("[EditorContext] Track is locked, not moving clip:", id)
+      return
+    }
     setTimelineClips((prev) => {
       const newClips = prev.map((clip) => (clip.id === id ? { ...clip, ...updates } : clip))
       console.log("[EditorContext] Updated clips, new effects:", newClips.find(c => c.id === id)?.effects)
       return newClips
     })
     setHasUnsavedChanges(true)
-  }, [saveToHistory])
+  }, [timelineClips, tracks])
 
   const removeClip = useCallback((id: string) => {
-    saveToHistory()
+    const clip = timelineClips.find((c) => c.id === id)
+    if (clip && isTrackLocked(clip.trackId, tracks)) {
+      console.warn("[EditorContext] Track is locked, not removing clip:", id)
+      return
+    }
+    labelEdit("Delete clip")
     setTimelineClips((prev) => prev.filter((c) => c.id !== id))
     if (selectedClipId === id) {
       setSelectedClipId(null)
     }
     setHasUnsavedChanges(true)
-  }, [selectedClipId, saveToHistory])
+  }, [timelineClips, tracks, selectedClipId, labelEdit])
+
+  const removeClips = useCallback((ids: string[]) => {
+    const removable = timelineClips.filter((c) => ids.includes(c.id) && !isTrackLocked(c.trackId, tracks)).map((c) => c.id)
+    if (removable.length < ids.length) {
+      console.warn("[EditorContext] Track is locked, not removing some clips:", ids.filter((id) => !removable.includes(id)))
+    }
+    if (removable.length === 0) return
+    labelEdit("Delete clips")
+    setTimelineClips((prev) => prev.filter((c) => !removable.includes(c.id)))
+    setHasUnsavedChanges(true)
+  }, [timelineClips, tracks, labelEdit])
+
+  const updateClips = useCallback((ids: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>) => {
+    const updates = new Map<string, Partial<TimelineClip>>()
+    for (const clip of timelineClips.filter((c) => ids.includes(c.id))) {
+      const clipUpdates = getUpdates(clip)
+      // Same rule as updateClip: clips on locked tracks keep their position
+      const movesClip = ["startTime", "duration", "mediaOffset", "trackId"].some((key) => key in clipUpdates)
+      if (movesClip && (isTrackLocked(clip.trackId, tracks) || (clipUpdates.trackId && isTrackLocked(clipUpdates.trackId, tracks)))) {
+        console.warn("[EditorContext] Track is locked, not moving clip:", clip.id)
+        continue
+      }
+      updates.set(clip.id, clipUpdates)
+    }
+    if (updates.size === 0) return
+    setTimelineClips((prev) => prev.map((clip) => (updates.has(clip.id) ? { ...clip, ...updates.get(clip.id) } : clip)))
+    setHasUnsavedChanges(true)
+  }, [timelineClips, tracks])
+
+  const moveClips = useCallback((ids: string[], delta: number) => {
+    const clips = timelineClips.filter((c) => ids.includes(c.id))
+    if (clips.length === 0) return { data: null, error: "Clip not found" }
+    // Moving part of a selection would pull grouped clips apart, so a locked clip stops the move
+    const locked = clips.find((c) => isTrackLocked(c.trackId, tracks))
+    if (locked) return { data: null, error: `Track ${locked.trackId} is locked` }
+
+    const moved = clampSelectionMove(clips, ids, delta)
+    if (moved === 0) return { data: 0, error: null }
+    labelEdit("Move clips")
+    setTimelineClips((prev) => prev.map((c) => (ids.includes(c.id) ? { ...c, startTime: c.startTime + moved } : c)))
+    setHasUnsavedChanges(true)
+    return { data: moved, error: null }
+  }, [timelineClips, tracks, labelEdit])
+
+  const addTrack = useCallback((type: TrackType) => {
+    const track = createTrack(type, tracks)
+    // New video tracks go on top, new audio tracks at the bottom
+    setTracks((prev) => (type === "video" ? [track, ...prev] : [...prev, track]))
+    setHasUnsavedChanges(true)
+    return track
+  }, [tracks])
+
+  const removeTrack = useCallback((id: string) => {
+    if (timelineClips.some((c) => c.trackId === id)) {
+      console.warn("[EditorContext] Track still has clips, not removing:", id)
+      return
+    }
+    setTracks((prev) => prev.filter((t) => t.id !== id))
+    setHasUnsavedChanges(true)
+  }, [timelineClips])
+
+  const updateTrack = useCallback((id: string, updates: Partial<Omit<TrackData, "id" | "type">>) => {
+    setTracks((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t)))
+    setHasUnsavedChanges(true)
+  }, [])
+
+  // Add a transition over the cut between two clips, replacing any transition already there
+  const addTransition = useCallback((
+    fromClipId: string,
+    toClipId: string,
+    type: TransitionType,
+    duration: number,
+    direction?: TransitionDirection
+  ) => {
+    const from = timelineClips.find((c) => c.id === fromClipId)
+    const to = timelineClips.find((c) => c.id === toClipId)
+    const error = validateTransitionClips(from, to)
+    if (error || !from || !to) {
+      console.warn("[EditorContext] Can't add transition:", error)
+      return { data: null, error }
+    }
+    if (isTrackLocked(from.trackId, tracks)) {
+      return { data: null, error: `Track ${from.trackId} is locked` }
+    }
+    // A compound clip is drawn as the clips inside it, so there's no single picture to transition
+    if (from.sequenceId || to.sequenceId) {
+      return { data: null, error: "Compound clips can't take transitions - add them inside the sequence" }
+    }
+
+    const transition: TimelineTransition = {
+      id: `transition-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      fromClipId,
+      toClipId,
+      type,
+      // Whole frames, and no longer than the clips it overlaps
+      duration: Math.max(1, Math.min(secondsToFrameTicks(ticksToSeconds(duration), projectFrameRate), getMaxTransitionDuration(from, to))),
+      ...(direction ? { direction } : {}),
+    }
+    setTransitions((prev) => [...prev.filter((t) => t.fromClipId !== fromClipId && t.toClipId !== toClipId), transition])
+    setHasUnsavedChanges(true)
+    return { data: transition, error: null }
+  }, [timelineClips, tracks, projectFrameRate])
+
+  const updateTransition = useCallback((id: string, updates: Partial<Omit<TimelineTransition, "id" | "fromClipId" | "toClipId">>) => {
+    setTransitions((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t)))
+    setHasUnsavedChanges(true)
+  }, [])
+
+  const removeTransition = useCallback((id: string) => {
+    setTransitions((prev) => prev.filter((t) => t.id !== id))
+    setHasUnsavedChanges(true)
+  }, [])
+
+  const setDefaultImageDuration = useCallback((seconds: number) => {
+    setDefaultImageDurationState(seconds)
+    setHasUnsavedChanges(true)
+  }, [])
+
+  // Move a track to a new position in the stacking order
+  const moveTrack = useCallback((id: string, toIndex: number) => {
+    setTracks((prev) => {
+      const fromIndex = prev.findIndex((t) => t.id === id)
+      if (fromIndex < 0) return prev
+      const next = [...prev]
+      const [track] = next.splice(fromIndex, 1)
+      next.splice(Math.max(0, Math.min(next.length, toIndex)), 0, track)
+      return next
+    })
+    setHasUnsavedChanges(true)
+  }, [])
 
   // Split a clip at the given timeline time (in seconds)
   const splitClip = useCallback((clipId: string, splitTime: number) => {
     const clip = timelineClips.find((c) => c.id === clipId)
-    if (!clip) return
+    if (!clip || isTrackLocked(clip.trackId, tracks)) return
 
-    const splitPositionPixels = splitTime * PIXELS_PER_SECOND
-    const clipStart = clip.startTime
-    const clipEnd = clip.startTime + clip.duration
+    // Split on the nearest frame boundary
+    const splitPosition = secondsToFrameTicks(splitTime, projectFrameRate)
 
     // Check if split point is within the clip
-    if (splitPositionPixels <= clipStart || splitPositionPixels >= clipEnd) return
+    const spansSplit = (c: TimelineClip) => splitPosition > c.startTime && splitPosition < c.startTime + c.duration
+    if (!spansSplit(clip)) return
 
-    saveToHistory()
+    // Linked clips under the split point are cut too, and their second parts stay linked
+    const clipsToSplit = [clip, ...getLinkedClips(timelineClips, clip).filter((c) => spansSplit(c) && !isTrackLocked(c.trackId, tracks))]
+    const secondLinkId = clipsToSplit.length > 1 ? createLinkId() : undefined
+
+    labelEdit("Split clip")
+
+    const parts = new Map(clipsToSplit.map((c) => [c.id, splitTimelineClip(c, splitPosition, secondLinkId)]))
+    setTimelineClips((prev) =>
+      prev.map((c) => parts.get(c.id)?.[0] ?? c).concat([...parts.values()].map(([, second]) => second))
+    )
+    // A transition out of the clip now follows the second part
+    setTransitions((prev) => prev.map((t) => (parts.has(t.fromClipId) ? { ...t, fromClipId: parts.get(t.fromClipId)![1].id } : t)))
+    const seconds = [...parts.values()].map(([, second]) => second.id)
+    setSelection({ primary: seconds[0], ids: seconds })
+    setHasUnsavedChanges(true)
+  }, [timelineClips, tracks, projectFrameRate, labelEdit])
+
+  // Split a clip at a timeline time and insert a still of the frame there
+  // Later clips on the same track move along to make room for the still
+  const freezeFrame = useCallback((clipId: string, time: number, duration: number = DEFAULT_FREEZE_DURATION) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    const media = clip ? mediaFiles.find((m) => m.id === clip.mediaId) : undefined
+    if (!clip) return { data: null, error: "Clip not found" }
+    if (clip.type !== "video" || !media || getMediaKind(media) !== "video") {
+      return { data: null, error: "Freeze frames need a video clip" }
+    }
+    if (clip.freeze) return { data: null, error: "Clip is already a freeze frame" }
+    if (isTrackLocked(clip.trackId, tracks)) return { data: null, error: `Track ${clip.trackId} is locked` }
+
+    const at = secondsToFrameTicks(time, projectFrameRate)
+    const clipEnd = clip.startTime + clip.duration
+    if (at < clip.startTime || at >= clipEnd) return { data: null, error: "Time is outside the clip" }
 
-    // Calculate durations for the two new clips
-    const firstClipDuration = splitPositionPixels - clipStart
-    const secondClipDuration = clipEnd - splitPositionPixels
+    labelEdit("Freeze frame")
 
-    // Update the original clip (becomes the first part)
-    const updatedFirstClip: TimelineClip = {
+    const holdDuration = Math.max(1, secondsToFrameTicks(duration, projectFrameRate))
+    const firstDuration = at - clip.startTime
+    const still: TimelineClip = {
       ...clip,
-      duration: firstClipDuration,
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startTime: at,
+      duration: holdDuration,
+      mediaOffset: Math.round(getClipSourceTime(clip, at)),
+      label: `${clip.label} (Freeze)`,
+      // The animation holds too, at its value on the frozen frame
+      transform: getAnimatedTransform(clip, firstDuration),
+      effects: getAnimatedEffects(clip, firstDuration),
+      keyframes: undefined,
+      audio: { ...clip.audio, fadeIn: 0, fadeOut: 0 },
+      speed: undefined,
+      speedRamp: undefined,
+      reverse: undefined,
+      freeze: true,
     }
 
-    // Create the second clip
-    const secondClip: TimelineClip = {
+    // The part of the clip after the playhead, if the freeze isn't at its start
+    const [firstMediaOffset, secondMediaOffset] = getSplitMediaOffsets(clip, firstDuration)
+    const rest: TimelineClip | null = firstDuration > 0 ? {
+      ...clip,
       id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      mediaId: clip.mediaId,
-      trackId: clip.trackId,
-      startTime: splitPositionPixels,
-      duration: secondClipDuration,
-      mediaOffset: clip.mediaOffset + firstClipDuration, // Offset into source media
-      label: clip.label,
-      type: clip.type,
-      transform: { ...clip.transform },
-      effects: { ...clip.effects },
+      startTime: at + holdDuration,
+      duration: clipEnd - at,
+      mediaOffset: secondMediaOffset,
+      keyframes: shiftKeyframes(clip.keyframes, -firstDuration),
+      audio: { ...clip.audio, fadeIn: 0 },
+    } : null
+
+    setTimelineClips((prev) => {
+      const shifted = prev.map((c) => {
+        if (c.id === clipId) {
+          return rest ? { ...c, duration: firstDuration, mediaOffset: firstMediaOffset, audio: { ...c.audio, fadeOut: 0 } } : { ...c, startTime: c.startTime + holdDuration }
+        }
+        if (c.trackId === clip.trackId && c.startTime >= at) return { ...c, startTime: c.startTime + holdDuration }
+        return c
+      })
+      return [...shifted, still, ...(rest ? [rest] : [])]
+    })
+    // Transitions follow the footage: out of the clip from its second part, into it onto the still
+    setTransitions((prev) => prev.map((t) => {
+      if (rest && t.fromClipId === clipId) return { ...t, fromClipId: rest.id }
+      if (!rest && t.toClipId === clipId) return { ...t, toClipId: still.id }
+      return t
+    }))
+    setSelectedClipId(still.id)
+    setHasUnsavedChanges(true)
+    return { data: still, error: null }
+  }, [timelineClips, mediaFiles, tracks, projectFrameRate, labelEdit])
+
+  const updateClipTimings = useCallback((updates: ClipTimingUpdate[]) => {
+    const locked = updates
+      .map((u) => timelineClips.find((c) => c.id === u.id)?.trackId)
+      .find((trackId) => trackId && isTrackLocked(trackId, tracks))
+    if (locked) return { data: null, error: `Track ${locked} is locked` }
+    if (updates.length === 0) return { data: updates, error: null }
+
+    setTimelineClips((prev) => applyClipTimingUpdates(prev, updates))
+    setHasUnsavedChanges(true)
+    return { data: updates, error: null }
+  }, [timelineClips, tracks])
+
+  const rippleDeleteClip = useCallback((clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    if (!clip) return { data: null, error: "Clip not found" }
+    if (isTrackLocked(clip.trackId, tracks)) return { data: null, error: `Track ${clip.trackId} is locked` }
+    const { data } = getRippleDeleteUpdates(timelineClips, clipId)
+
+    labelEdit("Ripple delete")
+    setTimelineClips((prev) => applyClipTimingUpdates(prev.filter((c) => c.id !== clipId), data?.updates ?? []))
+    if (selectedClipId === clipId) {
+      setSelectedClipId(null)
+    }
+    setHasUnsavedChanges(true)
+    return { data: clip, error: null }
+  }, [timelineClips, tracks, selectedClipId, labelEdit])
+
+  // Add a marker on the ruler, or on a clip when a clip ID is given
+  const addMarker = useCallback((time: number, options: { name?: string; color?: MarkerColor; clipId?: string } = {}) => {
+    const marker: Marker = {
+      id: createMarkerId(),
+      time,
+      name: options.name?.trim() || getDefaultMarkerName([...markers, ...timelineClips.flatMap((c) => c.markers ?? [])]),
+      color: options.color ?? DEFAULT_MARKER_COLOR,
+    }
+    if (!options.clipId) {
+      setMarkers((prev) => [...prev, marker].sort((a, b) => a.time - b.time))
+      setHasUnsavedChanges(true)
+      return { data: marker, error: null }
     }
 
+    const clip = timelineClips.find((c) => c.id === options.clipId)
+    if (!clip) return { data: null, error: "Clip not found" }
+    if (clip.freeze) return { data: null, error: "Freeze frames can't hold markers" }
+    if (time < clip.startTime || time >= clip.startTime + clip.duration) return { data: null, error: "The marker time is outside the clip" }
+    const clipMarker: Marker = { ...marker, time: Math.round(getClipSourceTime(clip, time)) }
+    labelEdit("Add marker")
     setTimelineClips((prev) =>
-      prev.map((c) => (c.id === clipId ? updatedFirstClip : c)).concat(secondClip)
+      prev.map((c) => (c.id === clip.id ? { ...c, markers: [...(c.markers ?? []), clipMarker].sort((a, b) => a.time - b.time) } : c))
     )
-    setSelectedClipId(secondClip.id)
     setHasUnsavedChanges(true)
-  }, [timelineClips])
+    return { data: clipMarker, error: null }
+  }, [markers, timelineClips, labelEdit])
+
+  const updateMarker = useCallback((id: string, updates: Partial<Pick<Marker, "name" | "color">>) => {
+    if (markers.some((m) => m.id === id)) {
+      setMarkers((prev) => prev.map((m) => (m.id === id ? { ...m, ...updates } : m)))
+    } else if (timelineClips.some((c) => c.markers?.some((m) => m.id === id))) {
+      labelEdit("Edit marker")
+      setTimelineClips((prev) =>
+        prev.map((c) => (c.markers?.some((m) => m.id === id) ? { ...c, markers: c.markers.map((m) => (m.id === id ? { ...m, ...updates } : m)) } : c))
+      )
+    } else {
+      return
+    }
+    setHasUnsavedChanges(true)
+  }, [markers, timelineClips, labelEdit])
+
+  const removeMarker = useCallback((id: string) => {
+    if (markers.some((m) => m.id === id)) {
+      setMarkers((prev) => prev.filter((m) => m.id !== id))
+    } else if (timelineClips.some((c) => c.markers?.some((m) => m.id === id))) {
+      labelEdit("Remove marker")
+      setTimelineClips((prev) =>
+        prev.map((c) => {
+          if (!c.markers?.some((m) => m.id === id)) return c
+          const remaining = c.markers.filter((m) => m.id !== id)
+          return { ...c, markers: remaining.length > 0 ? remaining : undefined }
+        })
+      )
+    } else {
+      return
+    }
+    setHasUnsavedChanges(true)
+  }, [markers, timelineClips, labelEdit])
+
+  const setTimelineInOut = useCallback((points: InOutPoints) => {
+    setTimelineInOutState(points)
+    setHasUnsavedChanges(true)
+  }, [])
+
+  const setSourceInOut = useCallback((mediaId: string, points: InOutPoints) => {
+    setSourceInOutState((prev) => ({ ...prev, [mediaId]: points }))
+  }, [])
+
+  // Insert or overwrite media from the source monitor using the source and timeline in/out points
+  const threePointEdit = useCallback((mediaId: string, mode: ThreePointEditMode, trackId?: string) => {
+    const media = mediaFiles.find((m) => m.id === mediaId)
+    if (!media) return { data: null, error: "Media not found" }
+
+    // Default to the first unlocked track the media can go on (tracks are topmost first)
+    const target = trackId ?? tracks.find((t) => !t.locked && canPlaceMediaOnTrack(media, t.type))?.id
+    if (!target) return { data: null, error: `No unlocked track for ${media.name}` }
+    const trackType = getTrackType(target, tracks)
+    if (!canPlaceMediaOnTrack(media, trackType)) return { data: null, error: `${media.name} can't be placed on ${trackType} track ${target}` }
+    if (isTrackLocked(target, tracks)) return { data: null, error: `Track ${target} is locked` }
+
+    // Stills have no length of their own, so they're marked out at the default image duration
+    // Other media is used in whole frames, so the clip never runs past the end of the media
+    const isImage = getMediaKind(media) === "image"
+    const source = isImage ? { out: secondsToFrameTicks(defaultImageDuration, projectFrameRate) } : sourceInOut[mediaId] ?? {}
+    const length = isImage ? Infinity : framesToTicks(Math.floor(media.durationSeconds * projectFrameRate), projectFrameRate)
+    const { data: edit, error } = resolveThreePointEdit(source, length, timelineInOut, secondsToFrameTicks(currentTime, projectFrameRate))
+    if (!edit) return { data: null, error }
+    const end = edit.start + edit.duration
+
+    // Split clips that cross the edit points so only whole clips move or go
+    let clips = timelineClips
+    const splitParts = new Map<string, string>() // Split clip ID -> second part ID, for transitions
+    for (const time of mode === "insert" ? [edit.start] : [edit.start, end]) {
+      for (const clip of getClipsAcross(clips, target, time)) {
+        const [first, second] = splitTimelineClip(clip, time)
+        clips = clips.map((c) => (c.id === clip.id ? first : c)).concat(second)
+        splitParts.set(clip.id, second.id)
+      }
+    }
+    if (mode === "insert") {
+      clips = applyClipTimingUpdates(clips, getInsertUpdates(clips, target, edit.start, edit.duration))
+    } else {
+      const overwritten = getOverwrittenClipIds(clips, target, edit.start, end)
+      clips = clips.filter((c) => !overwritten.includes(c.id))
+    }
+
+    const newClip: TimelineClip = {
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      mediaId: media.id,
+      trackId: target,
+      startTime: edit.start,
+      duration: edit.duration,
+      mediaOffset: edit.mediaOffset,
+      label: media.name,
+      type: trackType,
+      transform: { ...DEFAULT_CLIP_TRANSFORM },
+      effects: { ...DEFAULT_CLIP_EFFECTS },
+      audio: { ...DEFAULT_CLIP_AUDIO },
+    }
+
+    labelEdit(mode === "insert" ? "Insert edit" : "Overwrite edit")
+    setTimelineClips(clips.concat(newClip))
+    // A transition out of a split clip now follows its second part
+    setTransitions((prev) => prev.map((t) => (splitParts.has(t.fromClipId) ? { ...t, fromClipId: splitParts.get(t.fromClipId)! } : t)))
+    setSelection({ primary: newClip.id, ids: [newClip.id] })
+    setHasUnsavedChanges(true)
+    return { data: newClip, error: null }
+  }, [mediaFiles, tracks, defaultImageDuration, projectFrameRate, sourceInOut, timelineInOut, currentTime, timelineClips, labelEdit])
+
+  // Put a level's contents in the timeline; the switch is recorded in history with the level change
+  const showTimelineLevel = useCallback((contents: TimelineContents, inOut: InOutPoints, time: number) => {
+    setTimelineClips(contents.clips)
+    setTracks(contents.tracks)
+    setTransitions(contents.transitions)
+    setMarkers(contents.markers)
+    setTimelineInOutState(inOut)
+    setCurrentTime(time)
+    setIsPlaying(false)
+    setSelection({ primary: null, ids: [] })
+  }, [])
+
+  // Collapse clips into a new sequence, played by a compound clip where they were
+  const createCompoundClip = useCallback((ids: string[], name?: string) => {
+    const selected = timelineClips.filter((c) => ids.includes(c.id))
+    const locked = selected.find((c) => isTrackLocked(c.trackId, tracks))
+    if (locked) return { data: null, error: `Track ${locked.trackId} is locked` }
+    const selectedIds = selected.map((c) => c.id)
+    const { data: collapsed, error } = collapseClips({ clips: timelineClips, tracks, transitions }, selectedIds)
+    if (!collapsed) return { data: null, error }
+
+    // The compound clip goes on the topmost of the clips' tracks with room once they're gone
+    const type: TrackType = selected.some((c) => c.type !== "audio") ? "video" : "audio"
+    const start = collapsed.start
+    const end = start + collapsed.duration
+    const trackId = collapsed.contents.tracks.find((t) =>
+      t.type === type &&
+      !timelineClips.some((c) => c.trackId === t.id && !selectedIds.includes(c.id) && c.startTime < end && c.startTime + c.duration > start)
+    )?.id
+    if (!trackId) return { data: null, error: "Other clips are in the way on the selected clips' tracks" }
+
+    const sequence: TimelineSequence = {
+      id: createSequenceId(),
+      name: name?.trim() || getDefaultSequenceName(sequences),
+      ...collapsed.contents,
+      markers: [],
+    }
+    const compound: TimelineClip = {
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      mediaId: "",
+      trackId,
+      startTime: start,
+      duration: collapsed.duration,
+      mediaOffset: 0,
+      label: sequence.name,
+      type,
+      transform: { ...DEFAULT_CLIP_TRANSFORM },
+      effects: { ...DEFAULT_CLIP_EFFECTS },
+      audio: { ...DEFAULT_CLIP_AUDIO },
+      sequenceId: sequence.id,
+    }
+
+    labelEdit("Make compound clip")
+    setSequences((prev) => [...prev, sequence])
+    setTimelineClips((prev) => prev.filter((c) => !selectedIds.includes(c.id)).concat(compound))
+    setTransitions((prev) => prev.filter((t) => !selectedIds.includes(t.fromClipId) && !selectedIds.includes(t.toClipId)))
+    setSelection({ primary: compound.id, ids: [compound.id] })
+    setHasUnsavedChanges(true)
+    return { data: compound, error: null }
+  }, [timelineClips, tracks, transitions, sequences, labelEdit])
+
+  // Put another use of a sequence on the timeline
+  const addCompoundClip = useCallback((sequenceId: string, trackId: string, startTime: number) => {
+    // Open sequences are checked with their current contents, so none ends up inside itself
+    const { sequences: current } = foldSequenceLevels(sequences, sequenceLevels, { clips: timelineClips, tracks, transitions, markers })
+    const sequence = current.find((s) => s.id === sequenceId)
+    if (!sequence) return { data: null, error: "Sequence not found" }
+    if (sequenceLevels.some((level) => sequenceContains(current, sequenceId, level.sequenceId))) {
+      return { data: null, error: `${sequence.name} can't be put inside itself` }
+    }
+    const duration = getSequenceDuration(sequence)
+    if (duration === 0) return { data: null, error: `${sequence.name} is empty` }
+    const type: TrackType = sequence.clips.some((c) => c.type !== "audio") ? "video" : "audio"
+    if (getTrackType(trackId, tracks) !== type) return { data: null, error: `${sequence.name} goes on ${type === "video" ? "a video" : "an audio"} track` }
+    if (isTrackLocked(trackId, tracks)) return { data: null, error: `Track ${trackId} is locked` }
+
+    const clip: TimelineClip = {
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      mediaId: "",
+      trackId,
+      startTime: Math.max(0, startTime),
+      duration,
+      mediaOffset: 0,
+      label: sequence.name,
+      type,
+      transform: { ...DEFAULT_CLIP_TRANSFORM },
+      effects: { ...DEFAULT_CLIP_EFFECTS },
+      audio: { ...DEFAULT_CLIP_AUDIO },
+      sequenceId,
+    }
+    labelEdit("Add compound clip")
+    setTimelineClips((prev) => [...prev, clip])
+    setSelection({ primary: clip.id, ids: [clip.id] })
+    setHasUnsavedChanges(true)
+    return { data: clip, error: null }
+  }, [sequences, sequenceLevels, timelineClips, tracks, transitions, markers, labelEdit])
+
+  const openSequence = useCallback((sequenceId: string, time = 0) => {
+    const sequence = sequences.find((s) => s.id === sequenceId)
+    if (!sequence) return { error: "Sequence not found" }
+    if (sequenceLevels.some((level) => level.sequenceId === sequenceId)) return { error: `${sequence.name} is already open` }
+
+    labelEdit(`Open ${sequence.name}`)
+    setSequenceLevels((prev) => [
+      ...prev,
+      { sequenceId, clips: timelineClips, tracks, transitions, markers, inOut: timelineInOut, currentTime },
+    ])
+    showTimelineLevel(sequence, {}, ticksToSeconds(Math.max(0, time)))
+    return { error: null }
+  }, [sequences, sequenceLevels, timelineClips, tracks, transitions, markers, timelineInOut, currentTime, showTimelineLevel, labelEdit])
+
+  const closeSequence = useCallback((depth = sequenceLevels.length - 1) => {
+    if (depth < 0 || depth >= sequenceLevels.length) return
+    const { sequences: folded, contents } = foldSequenceLevels(sequences, sequenceLevels, { clips: timelineClips, tracks, transitions, markers }, depth)
+    const level = sequenceLevels[depth]
+    const name = sequences.find((s) => s.id === level.sequenceId)?.name ?? "sequence"
+    labelEdit(depth === sequenceLevels.length - 1 ? `Close ${name}` : "Close sequences")
+    setSequences(folded)
+    setSequenceLevels((prev) => prev.slice(0, depth))
+    showTimelineLevel(contents, level.inOut, level.currentTime)
+  }, [sequences, sequenceLevels, timelineClips, tracks, transitions, markers, showTimelineLevel, labelEdit])
+
+  const renameSequence = useCallback((id: string, name: string) => {
+    if (!name.trim()) return
+    setSequences((prev) => prev.map((s) => (s.id === id ? { ...s, name: name.trim() } : s)))
+    setHasUnsavedChanges(true)
+  }, [])
+
+  const removeSequence = useCallback((id: string) => {
+    const { sequences: current, contents: main } = foldSequenceLevels(sequences, sequenceLevels, { clips: timelineClips, tracks, transitions, markers })
+    if ([main, ...current].some((level) => level.clips.some((c) => c.sequenceId === id))) {
+      return { error: "A compound clip still plays this sequence" }
+    }
+    setSequences((prev) => prev.filter((s) => s.id !== id))
+    setHasUnsavedChanges(true)
+    return { error: null }
+  }, [sequences, sequenceLevels, timelineClips, tracks, transitions, markers])
+
+  const getClipSourceDuration = useCallback((clip: TimelineClip) => {
+    if (clip.sequenceId) {
+      const sequence = sequences.find((s) => s.id === clip.sequenceId)
+      return sequence ? getSequenceDuration(sequence) : clip.mediaOffset + clip.duration
+    }
+    return getMediaDurationTicks(mediaFiles.find((m) => m.id === clip.mediaId))
+  }, [sequences, mediaFiles])
+
+  // Preview and export draw compound clips from the clips inside them
+  const renderTimeline = useMemo(
+    () => flattenSequences({ clips: timelineClips, tracks, transitions }, sequences),
+    [timelineClips, tracks, transitions, sequences]
+  )
 
   const getMediaForClip = useCallback(
     (clipId: string) => {
-      const clip = timelineClips.find((c) => c.id === clipId)
+      const clip = timelineClips.find((c) => c.id === clipId) ?? renderTimeline.clips.find((c) => c.id === clipId)
       if (!clip) return undefined
       return mediaFiles.find((m) => m.id === clip.mediaId)
     },
-    [timelineClips, mediaFiles]
+    [timelineClips, renderTimeline, mediaFiles]
   )
 
   // Load timeline data from saved project
-  const loadTimelineData = useCallback((data: TimelineData | null) => {
+  // The data has already been migrated and checked against the current schema (see lib/projects)
+  const loadTimelineData = useCallback((data: TimelineData | null, options: LoadTimelineOptions = {}) => {
     if (!data) return
 
     // Restore clips
-    const restoredClips: TimelineClip[] = data.clips.map((clip: TimelineClipData) => ({
-      id: clip.id,
-      mediaId: clip.mediaId,
-      trackId: clip.trackId,
-      startTime: clip.startTime,
-      duration: clip.duration,
-      mediaOffset: clip.mediaOffset ?? 0,
-      label: clip.label,
-      type: clip.type,
-      transform: clip.transform ?? DEFAULT_CLIP_TRANSFORM,
-      effects: clip.effects ?? DEFAULT_CLIP_EFFECTS,
-    }))
+    const restoredClips: TimelineClip[] = data.clips.map(restoreClip)
 
     // Restore media files from storage URLs
     const restoredMedia: MediaFile[] = data.media.map((m: MediaFileData) => ({
@@ -642,7 +1833,7 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       thumbnail: m.thumbnail,
       storagePath: m.storagePath,
       storageUrl: m.storageUrl,
-      objectUrl: m.storageUrl, // Use storage URL for playback
+      objectUrl: options.localMediaUrls?.[m.id] ?? m.storageUrl, // Play the copy in this browser if there is one
       isUploading: false,
       captions: m.captions, // Restore generated captions
       captionsGenerating: false,
@@ -650,35 +1841,66 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       twelveLabsVideoId: m.twelveLabsVideoId,
       twelveLabsIndexId: m.twelveLabsIndexId,
       twelveLabsStatus: m.twelveLabsStatus,
+      proxyPath: m.proxyPath,
+      proxyUrl: m.proxyUrl,
+      proxyStatus: m.proxyUrl ? "ready" as const : undefined,
+      thumbnailPath: m.thumbnailPath,
+      metadata: m.metadata,
+      filmstrip: m.filmstrip,
     }))
 
     setMediaFiles(restoredMedia)
+    setTracks(resolveTracks(data))
+    setDefaultImageDurationState(data.defaultImageDuration ?? DEFAULT_IMAGE_DURATION)
+    setTransitions(data.transitions ?? [])
+    setMarkers(data.markers ?? [])
+    setTimelineInOutState(data.inOut ?? {})
+    setSequences((data.sequences ?? []).map((sequence) => ({
+      id: sequence.id,
+      name: sequence.name,
+      tracks: sequence.tracks,
+      clips: sequence.clips.map(restoreClip),
+      transitions: sequence.transitions ?? [],
+      markers: sequence.markers ?? [],
+    })))
+    setSequenceLevels([])
     setTimelineClips(restoredClips)
-    setHasUnsavedChanges(false)
-  }, [])
-
-  // Save project to Supabase
-  const saveProject = useCallback(async () => {
-    if (!projectId) return
-
-    setIsSaving(true)
+    setHasUnsavedChanges(!!options.unsaved)
+    resetHistory()
+    setSyncRequest((n) => n + 1)
+  }, [resetHistory])
+
+  // The project as it would be saved now
+  const buildProjectSave = useCallback((): { timelineData: TimelineData; duration: string } => {
+    // Save the main timeline, with the edits in any open sequences written back to them
+    const { sequences: projectSequences, contents: main } = foldSequenceLevels(sequences, sequenceLevels, {
+      clips: timelineClips,
+      tracks,
+      transitions,
+      markers,
+    })
 
-    // Prepare timeline data (only save media that has been uploaded)
+    // Prepare timeline data (only save media that has been uploaded or is kept in this browser)
     const timelineData: TimelineData = {
-      clips: timelineClips.map((clip): TimelineClipData => ({
-        id: clip.id,
-        mediaId: clip.mediaId,
-        trackId: clip.trackId,
-        startTime: clip.startTime,
-        duration: clip.duration,
-        mediaOffset: clip.mediaOffset,
-        label: clip.label,
-        type: clip.type,
-        transform: clip.transform,
-        effects: clip.effects,
+      schemaVersion: TIMELINE_SCHEMA_VERSION,
+      timeBase: TICKS_PER_SECOND,
+      tracks: main.tracks,
+      defaultImageDuration,
+      // Drop transitions whose clips have been deleted
+      transitions: getLiveTransitions(main.transitions, main.clips),
+      markers: main.markers,
+      inOut: sequenceLevels[0]?.inOut ?? timelineInOut,
+      sequences: projectSequences.map((sequence) => ({
+        id: sequence.id,
+        name: sequence.name,
+        tracks: sequence.tracks,
+        clips: sequence.clips.map(serializeClip),
+        transitions: getLiveTransitions(sequence.transitions, sequence.clips),
+        markers: sequence.markers,
       })),
+      clips: main.clips.map(serializeClip),
       media: mediaFiles
-        .filter((m) => m.storagePath && m.storageUrl) // Only save uploaded media
+        .filter((m) => m.storagePath && (m.storageUrl || isLocalMediaPath(m.storagePath)))
         .map((m): MediaFileData => ({
           id: m.id,
           name: m.name,
@@ -686,19 +1908,24 @@ export function EditorProvider({ children }: { children: ReactNode }) {
           durationSeconds: m.durationSeconds,
           type: m.type,
           storagePath: m.storagePath!,
-          storageUrl: m.storageUrl!,
+          storageUrl: m.storageUrl ?? "",
           thumbnail: m.thumbnail,
           captions: m.captions, // Include generated captions
           // Include TwelveLabs fields
           twelveLabsVideoId: m.twelveLabsVideoId,
           twelveLabsIndexId: m.twelveLabsIndexId,
           twelveLabsStatus: m.twelveLabsStatus,
+          proxyPath: m.proxyPath,
+          proxyUrl: m.proxyUrl,
+          thumbnailPath: m.thumbnailPath,
+          metadata: m.metadata,
+          filmstrip: m.filmstrip,
         })),
     }
 
     // Calculate duration
-    const totalDuration = timelineClips.reduce((max, clip) => {
-      const clipEnd = (clip.startTime + clip.duration) / PIXELS_PER_SECOND
+    const totalDuration = main.clips.reduce((max, clip) => {
+      const clipEnd = ticksToSeconds(clip.startTime + clip.duration)
       return Math.max(max, clipEnd)
     }, 0)
 
@@ -707,19 +1934,87 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     const seconds = Math.floor(totalDuration % 60)
     const durationStr = `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`
 
-    await updateProject(projectId, {
+    return { timelineData, duration: durationStr }
+  }, [tracks, defaultImageDuration, transitions, markers, timelineInOut, sequences, sequenceLevels, timelineClips, mediaFiles])
+
+  // Save project to Supabase, or to this browser for local projects
+  // While offline there's nothing to do - the draft below keeps the edits until the connection is back
+  const saveProject = useCallback(async () => {
+    if (!projectId) return
+    if (!isLocalProjectId(projectId) && !navigator.onLine) return
+
+    setIsSaving(true)
+    const startedAt = new Date().toISOString()
+    const { timelineData, duration } = buildProjectSave()
+
+    const { error } = await updateProject(projectId, {
       timeline_data: timelineData,
-      duration: durationStr,
+      duration,
       thumbnail: projectThumbnail,
     })
 
-    setHasUnsavedChanges(false)
+    // Leave the changes marked unsaved so the next edit retries
+    if (error) {
+      console.error("[EditorContext] Failed to save project:", error)
+    } else {
+      setHasUnsavedChanges(false)
+      await clearProjectDraft(projectId, startedAt)
+      // Keep an occasional copy in the version history (see lib/project-versions)
+      const { error: snapshotError } = await snapshotProjectIfDue(projectId, timelineData, duration)
+      if (snapshotError) {
+        console.error("[EditorContext] Failed to snapshot project:", snapshotError)
+      }
+    }
     setIsSaving(false)
-  }, [projectId, timelineClips, mediaFiles, projectThumbnail])
+  }, [projectId, buildProjectSave, projectThumbnail])
 
-  // Auto-save with debounce
+  // Write unsaved edits to this browser as they happen, so a closed tab or a dropped connection doesn't lose them
   useEffect(() => {
     if (!projectId || !hasUnsavedChanges) return
+    const timeout = setTimeout(() => {
+      const { timelineData, duration } = buildProjectSave()
+      putProjectDraft({ projectId, timeline_data: timelineData, duration, savedAt: new Date().toISOString() })
+    }, DRAFT_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [projectId, hasUnsavedChanges, buildProjectSave])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      setSyncRequest((n) => n + 1)
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [])
+
+  // Upload media kept in this browser when a project opens and when the connection comes back
+  // Only on those occasions - a failed upload waits for the next one rather than retrying in a loop
+  const uploadPendingMediaRef = useRef(uploadPendingMedia)
+  useEffect(() => {
+    uploadPendingMediaRef.current = uploadPendingMedia
+  }, [uploadPendingMedia])
+  useEffect(() => {
+    if (syncRequest > 0) uploadPendingMediaRef.current()
+  }, [syncRequest])
+
+  const syncStatus: SyncStatus = !projectId || isLocalProjectId(projectId)
+    ? "local"
+    : !isOnline
+      ? "offline"
+      : isSaving || mediaFiles.some((m) => m.isUploading)
+        ? "syncing"
+        : hasUnsavedChanges || mediaFiles.some((m) => isLocalMediaPath(m.storagePath))
+          ? "pending"
+          : "synced"
+
+  // Auto-save with debounce - and replay unsaved edits once the connection is back
+  useEffect(() => {
+    if (!projectId || !hasUnsavedChanges || (!isOnline && !isLocalProjectId(projectId))) return
 
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current)
@@ -734,20 +2029,19 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         clearTimeout(saveTimeoutRef.current)
       }
     }
-  }, [projectId, hasUnsavedChanges, saveProject])
+  }, [projectId, hasUnsavedChanges, isOnline, saveProject])
 
   // Convert current time to pixel position for timeline (for visual rendering)
   const playheadPixels = currentTime * pixelsPerSecond
 
   // Get video clips sorted by start time
-  const sortedVideoClips = timelineClips
+  const sortedVideoClips = renderTimeline.clips
     .filter((clip) => clip.type === "video")
     .sort((a, b) => a.startTime - b.startTime)
 
-  // Calculate timeline end time (end of last clip)
-  // Use base PIXELS_PER_SECOND since clip positions are stored in base pixels
-  const timelineEndTime = sortedVideoClips.reduce((max, clip) => {
-    const clipEnd = (clip.startTime + clip.duration) / PIXELS_PER_SECOND
+  // Calculate timeline end time (end of last clip, including audio-only clips)
+  const timelineEndTime = timelineClips.reduce((max, clip) => {
+    const clipEnd = ticksToSeconds(clip.startTime + clip.duration)
     return Math.max(max, clipEnd)
   }, 0)
 
@@ -767,44 +2061,49 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   }, [timelineEndTime, currentTime, isScrubbing, isPlaying, setIsPlaying])
 
   // Find clip under the playhead
-  // When multiple clips overlap, prioritize the topmost track (V2 > V1 > A2 > A1)
-  // Convert currentTime to base pixels to compare with stored clip positions
-  const tracks = ["V2", "V1", "A2", "A1"]
-  const playheadBasePixels = currentTime * PIXELS_PER_SECOND
+  // When multiple clips overlap, prioritize the topmost visible track
+  // Convert currentTime to ticks to compare with stored clip positions
+  const playheadTicks = secondsToTicks(currentTime)
   const clipsAtPlayhead = sortedVideoClips.filter(
     (clip) =>
-      playheadBasePixels >= clip.startTime &&
-      playheadBasePixels < clip.startTime + clip.duration
+      playheadTicks >= clip.startTime &&
+      playheadTicks < clip.startTime + clip.duration &&
+      isTrackVisible(clip.trackId, renderTimeline.tracks)
   )
   
   // Sort clips by track (topmost first)
+  const trackOrder = renderTimeline.tracks.map((t) => t.id)
   const sortedClipsAtPlayhead = [...clipsAtPlayhead].sort((a, b) => {
-    const aIndex = tracks.indexOf(a.trackId)
-    const bIndex = tracks.indexOf(b.trackId)
+    const aIndex = trackOrder.indexOf(a.trackId)
+    const bIndex = trackOrder.indexOf(b.trackId)
     return aIndex - bIndex // Lower index = higher track = comes first
   })
   
   const activeClip = sortedClipsAtPlayhead.length > 0 ? sortedClipsAtPlayhead[0] : null
   const backgroundClip = sortedClipsAtPlayhead.length > 1 ? sortedClipsAtPlayhead[1] : null
+  const activeTimelineClip = activeClip ? timelineClips.find((c) => c.id === getTimelineClipId(activeClip.id)) ?? null : null
 
   // Calculate how far into the active clip we are (in seconds)
   // Calculate how far into the source media we should be
-  // This accounts for both the position on the timeline AND the clip's mediaOffset (for split clips)
-  // Use base pixels for all calculations since clip positions are stored in base pixels
+  // This accounts for the position on the timeline, the clip's mediaOffset (for split clips) and its speed
   const clipTimeOffset = activeClip
-    ? ((playheadBasePixels - activeClip.startTime) + activeClip.mediaOffset) / PIXELS_PER_SECOND
+    ? ticksToSeconds(getClipSourceTime(activeClip, playheadTicks))
     : 0
   
   // Calculate how far into the background clip we are (in seconds)
   const backgroundClipTimeOffset = backgroundClip
-    ? ((playheadBasePixels - backgroundClip.startTime) + backgroundClip.mediaOffset) / PIXELS_PER_SECOND
+    ? ticksToSeconds(getClipSourceTime(backgroundClip, playheadTicks))
     : 0
 
   // Determine preview media based on selection or active clip
   const previewMedia = (() => {
     // If a clip is selected and we're not playing, preview that
+    // Audio-only media has nothing to show, so fall through to the clip under the playhead
     if (selectedClipId && !isPlaying) {
-      return getMediaForClip(selectedClipId) ?? null
+      const selectedMedia = getMediaForClip(selectedClipId)
+      if (selectedMedia && getMediaKind(selectedMedia) !== "audio") {
+        return selectedMedia
+      }
     }
 
     // Otherwise use active clip under playhead
@@ -849,6 +2148,7 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       const data = await response.json()
 
       // Update media with captions
+      labelEdit("Generate captions")
       setMediaFiles((prev) =>
         prev.map((m) =>
           m.id === mediaId
@@ -866,17 +2166,18 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         )
       )
     }
-  }, [mediaFiles])
+  }, [mediaFiles, labelEdit])
 
   // Update captions for a media file directly
   const updateMediaCaptions = useCallback((mediaId: string, captions: Caption[]) => {
+    labelEdit("Edit captions")
     setMediaFiles((prev) =>
       prev.map((m) =>
         m.id === mediaId ? { ...m, captions } : m
       )
     )
     setHasUnsavedChanges(true)
-  }, [])
+  }, [labelEdit])
 
   // Get captions for a specific clip, filtered by the clip's time range in the source media
   const getCaptionsForClip = useCallback((clipId: string): Caption[] => {
@@ -886,9 +2187,9 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     const media = mediaFiles.find((m) => m.id === clip.mediaId)
     if (!media || !media.captions) return []
 
-    // Calculate clip's time range in source media
-    const clipStartInMedia = clip.mediaOffset / PIXELS_PER_SECOND
-    const clipEndInMedia = clipStartInMedia + (clip.duration / PIXELS_PER_SECOND)
+    // Calculate clip's time range in source media (a sped-up clip covers more than its duration)
+    const clipStartInMedia = ticksToSeconds(clip.mediaOffset)
+    const clipEndInMedia = clipStartInMedia + ticksToSeconds(getClipSourceSpan(clip))
 
     // Filter captions that fall within the clip's range
     return media.captions.filter((caption) =>
@@ -903,14 +2204,35 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         setProjectId,
         projectResolution,
         setProjectResolution: setProjectResolution,
+        projectFrameRate,
+        setProjectFrameRate,
         mediaFiles,
         addMediaFiles,
         removeMediaFile,
+        defaultImageDuration,
+        setDefaultImageDuration,
+        transitions,
+        addTransition,
+        updateTransition,
+        removeTransition,
+        tracks,
+        addTrack,
+        removeTrack,
+        updateTrack,
+        moveTrack,
         timelineClips,
         addClipToTimeline,
         updateClip,
+        updateClips,
         removeClip,
+        removeClips,
+        moveClips,
         splitClip,
+        freezeFrame,
+        editMode,
+        setEditMode,
+        updateClipTimings,
+        rippleDeleteClip,
         zoomLevel,
         setZoomLevel,
         zoomIn,
@@ -921,29 +2243,69 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         redo,
         canUndo,
         canRedo,
-        copyClip,
-        pasteClip,
+        history: historyState.items,
+        historyIndex: historyState.index,
+        goToHistory,
+        beginHistoryGroup,
+        endHistoryGroup,
+        copyClips,
+        pasteClips,
         canPaste,
         selectedClipId,
         setSelectedClipId,
+        selectedClipIds,
+        selectClips,
+        toggleClipSelection,
+        selectTrackClips,
+        selectClipsForward,
+        groupClips,
+        ungroupClips,
+        markers,
+        addMarker,
+        updateMarker,
+        removeMarker,
+        timelineInOut,
+        setTimelineInOut,
+        sourceInOut,
+        setSourceInOut,
+        sourceMonitorMediaId,
+        setSourceMonitorMediaId,
+        threePointEdit,
+        detachAudio,
+        linkClips,
+        unlinkClips,
         currentTime,
         setCurrentTime,
         isPlaying,
         setIsPlaying,
         isScrubbing,
         setIsScrubbing,
+        sequences,
+        openSequenceIds: sequenceLevels.map((level) => level.sequenceId),
+        createCompoundClip,
+        addCompoundClip,
+        openSequence,
+        closeSequence,
+        renameSequence,
+        removeSequence,
+        getClipSourceDuration,
         getMediaForClip,
         previewMedia,
         activeClip,
+        activeTimelineClip,
         backgroundClip,
         clipTimeOffset,
         backgroundClipTimeOffset,
         timelineEndTime,
         sortedVideoClips,
+        renderClips: renderTimeline.clips,
+        renderTracks: renderTimeline.tracks,
+        renderTransitions: renderTimeline.transitions,
         loadTimelineData,
         saveProject,
         isSaving,
         hasUnsavedChanges,
+        syncStatus,
         setProjectThumbnail,
         isEyedropperActive,
         setIsEyedropperActive,
@@ -957,6 +2319,11 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         captionStyle,
         setCaptionStyle,
         reindexMedia,
+        pauseUpload,
+        resumeUpload,
+        useProxies,
+        setUseProxies,
+        generateProxy,
       }}
     >
       {children}
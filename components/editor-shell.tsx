@@ -3,15 +3,23 @@
 import { useEffect, useState, useCallback, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { motion } from "framer-motion"
-import { ArrowLeft, Save, Loader2, Download } from "lucide-react"
+import { ArrowLeft, Save, Loader2, Download, FileWarning, History, Cloud, CloudOff, CloudUpload, HardDrive } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ExportModal } from "./export-modal"
+import { ProjectVersionsModal } from "./project-versions-modal"
+import { SourceMonitor } from "./source-monitor"
 import { MediaPanel } from "./media-panel"
 import { VideoPreview } from "./video-preview"
 import { Timeline } from "./timeline"
 import { InspectorPanel } from "./inspector-panel"
-import { EditorProvider, useEditor } from "./editor-context"
+import { EditorProvider, useEditor, type SyncStatus } from "./editor-context"
 import { getProject, updateProject, type ProjectData } from "@/lib/projects"
+import { getLocalMediaUrls, getProjectDraft, isLocalProjectId, releaseLocalMediaUrls } from "@/lib/local-store"
+import { parseTimelineData } from "@/lib/timeline-schema"
+import { EDIT_MODES } from "@/lib/edit-modes"
+import { framesToTicks, secondsToFrameTicks, secondsToTicks, ticksToSeconds } from "@/lib/timecode"
+import { getMarkerPositions, getNextMarkerTime, getPreviousMarkerTime } from "@/lib/markers"
+import { setInPoint, setOutPoint } from "@/lib/three-point-edit"
 import {
   ResizablePanelGroup,
   ResizablePanel,
@@ -22,38 +30,114 @@ interface EditorShellProps {
   projectId: string
 }
 
+const SYNC_STATUS: Record<SyncStatus, { icon: typeof Cloud; label: string; title: string }> = {
+  local: { icon: HardDrive, label: "Local", title: "This project is kept in this browser" },
+  synced: { icon: Cloud, label: "Synced", title: "All changes are saved to the cloud" },
+  pending: { icon: CloudUpload, label: "Not synced", title: "Some changes haven't reached the cloud yet" },
+  syncing: { icon: Loader2, label: "Syncing", title: "Saving changes to the cloud" },
+  offline: { icon: CloudOff, label: "Offline", title: "Changes are kept in this browser and sync when the connection is back" },
+}
+
 function EditorContent({ projectId }: { projectId: string }) {
   const [project, setProject] = useState<ProjectData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [unreadable, setUnreadable] = useState<ProjectData | null>(null) // Loaded, but its timeline couldn't be read
   const [isEditingName, setIsEditingName] = useState(false)
   const [editedName, setEditedName] = useState("")
   const [isUpdatingName, setIsUpdatingName] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
+  const [showVersions, setShowVersions] = useState(false)
   const nameInputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
-  const { setProjectId, setProjectResolution, loadTimelineData, saveProject, isSaving, hasUnsavedChanges, isPlaying, setIsPlaying, sortedVideoClips, currentTime, setCurrentTime, timelineEndTime, activeClip, splitClip, selectedClipId, removeClip, undo, redo, canUndo, canRedo, copyClip, pasteClip, canPaste } = useEditor()
+  const { setProjectId, setProjectResolution, setProjectFrameRate, loadTimelineData, saveProject, isSaving, hasUnsavedChanges, syncStatus, isPlaying, setIsPlaying, sortedVideoClips, currentTime, setCurrentTime, timelineEndTime, activeTimelineClip: activeClip, splitClip, selectedClipId, selectedClipIds, selectClips, selectClipsForward, removeClips, moveClips, groupClips, ungroupClips, timelineClips, projectFrameRate, undo, redo, canUndo, canRedo, copyClips, pasteClips, canPaste, setEditMode, rippleDeleteClip, markers, addMarker, timelineInOut, setTimelineInOut, sourceMonitorMediaId } = useEditor()
+
+  // Edits that never reached the project - a tab closed before saving, or a save while offline -
+  // are kept as a draft in this browser and win over the saved timeline when they're newer
+  const openProject = useCallback(async (data: ProjectData, useDraft = true) => {
+    const { data: draft } = useDraft ? await getProjectDraft(data.id) : { data: null }
+    let timeline = data.timeline_data
+    let unsaved = false
+    if (draft && draft.savedAt > data.updated_at) {
+      const { data: draftTimeline, error } = parseTimelineData(draft.timeline_data)
+      if (error) {
+        console.error("[Editor] Ignoring unreadable draft:", error)
+      } else {
+        timeline = draftTimeline
+        unsaved = true
+      }
+    }
+    const { data: localMediaUrls } = await getLocalMediaUrls(timeline?.media.map((m) => m.id) ?? [])
+
+    setProject(data)
+    setProjectId(data.id)
+    setProjectResolution(data.resolution)
+    setProjectFrameRate(data.frame_rate)
+    loadTimelineData(timeline, { localMediaUrls: localMediaUrls ?? {}, unsaved })
+  }, [setProjectId, setProjectResolution, setProjectFrameRate, loadTimelineData])
 
   useEffect(() => {
     async function loadProject() {
       setIsLoading(true)
-      const { data, error } = await getProject(projectId)
+      const { data, error, unreadable } = await getProject(projectId)
       
       if (error || !data) {
         setError(error?.message || "Project not found")
+        setUnreadable(unreadable ?? null)
         setIsLoading(false)
         return
       }
       
-      setProject(data)
-      setProjectId(data.id)
-      setProjectResolution(data.resolution)
-      loadTimelineData(data.timeline_data)
+      await openProject(data)
       setIsLoading(false)
       }
     
     loadProject()
-  }, [projectId, setProjectId, loadTimelineData])
+    // Removed media can come back with undo, so its URLs are only let go with the project
+    return () => releaseLocalMediaUrls()
+  }, [projectId, openProject])
+
+  // Recovery for a project whose timeline couldn't be read: keep a copy of the saved data...
+  const downloadUnreadableTimeline = useCallback(() => {
+    if (!unreadable) return
+    const blob = new Blob([JSON.stringify(unreadable.timeline_data, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${unreadable.name} timeline backup.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }, [unreadable])
+
+  // ...or start over on an empty timeline, which replaces the saved one at the next save
+  const openWithEmptyTimeline = useCallback(() => {
+    if (!unreadable) return
+    openProject({ ...unreadable, timeline_data: null }, false)
+    setUnreadable(null)
+    setError(null)
+  }, [unreadable, openProject])
+
+  // A restored version replaces the open timeline - and rescues a project that couldn't be read
+  const handleVersionRestored = useCallback((restored: ProjectData) => {
+    openProject(restored, false)
+    setUnreadable(null)
+    setError(null)
+  }, [openProject])
+
+  const handleVersionForked = useCallback((forked: ProjectData) => {
+    router.push(`/projects/${forked.id}`)
+  }, [router])
+
+  const versionsModal = (
+    <ProjectVersionsModal
+      project={unreadable ?? project}
+      open={showVersions}
+      onOpenChange={setShowVersions}
+      beforeChange={unreadable ? undefined : saveProject}
+      onRestored={handleVersionRestored}
+      onForked={handleVersionForked}
+    />
+  )
 
   // Keyboard shortcuts
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -62,6 +146,11 @@ function EditorContent({ projectId }: { projectId: string }) {
       return
     }
 
+    // The source monitor has its own shortcuts while it's open
+    if (sourceMonitorMediaId) {
+      return
+    }
+
     // Ctrl+Z or Cmd+Z - Undo
     if ((e.ctrlKey || e.metaKey) && e.key === "z" && !e.shiftKey) {
       e.preventDefault()
@@ -80,28 +169,68 @@ function EditorContent({ projectId }: { projectId: string }) {
       return
     }
 
-    // Ctrl+C or Cmd+C - Copy selected clip
+    // Ctrl+C or Cmd+C - Copy selected clips
     if ((e.ctrlKey || e.metaKey) && e.key === "c") {
       e.preventDefault()
-      if (selectedClipId) {
-        copyClip(selectedClipId)
+      if (selectedClipIds.length > 0) {
+        copyClips(selectedClipIds)
       }
       return
     }
 
-    // Ctrl+V or Cmd+V - Paste clip
+    // Ctrl+V or Cmd+V - Paste clips
     if ((e.ctrlKey || e.metaKey) && e.key === "v") {
       e.preventDefault()
       if (canPaste) {
-        pasteClip()
+        pasteClips()
       }
       return
     }
 
-    // Delete or Backspace - Delete selected clip
-    if ((e.key === "Delete" || e.key === "Backspace") && selectedClipId) {
+    // Ctrl+A or Cmd+A - Select every clip
+    if ((e.ctrlKey || e.metaKey) && e.key === "a") {
+      e.preventDefault()
+      selectClips(timelineClips.map((c) => c.id))
+      return
+    }
+
+    // Ctrl+G or Cmd+G - Group selected clips, with Shift - Ungroup
+    if ((e.ctrlKey || e.metaKey) && e.code === "KeyG") {
+      e.preventDefault()
+      if (e.shiftKey) {
+        ungroupClips(selectedClipIds)
+      } else {
+        groupClips(selectedClipIds)
+      }
+      return
+    }
+
+    // Shift+Delete or Shift+Backspace - Delete selected clip and close the gap
+    if ((e.key === "Delete" || e.key === "Backspace") && e.shiftKey && selectedClipId) {
+      e.preventDefault()
+      rippleDeleteClip(selectedClipId)
+      return
+    }
+
+    // Delete or Backspace - Delete selected clips
+    if ((e.key === "Delete" || e.key === "Backspace") && selectedClipIds.length > 0) {
+      e.preventDefault()
+      removeClips(selectedClipIds)
+      return
+    }
+
+    // Left/Right arrows - Nudge selected clips a frame (10 frames with Shift)
+    if ((e.key === "ArrowLeft" || e.key === "ArrowRight") && selectedClipIds.length > 0) {
+      e.preventDefault()
+      const frames = (e.shiftKey ? 10 : 1) * (e.key === "ArrowLeft" ? -1 : 1)
+      moveClips(selectedClipIds, framesToTicks(frames, projectFrameRate))
+      return
+    }
+
+    // A key - Select every clip from the playhead onwards
+    if (e.code === "KeyA" && !e.metaKey && !e.ctrlKey) {
       e.preventDefault()
-      removeClip(selectedClipId)
+      selectClipsForward(currentTime)
       return
     }
 
@@ -125,7 +254,41 @@ function EditorContent({ projectId }: { projectId: string }) {
         splitClip(activeClip.id, currentTime)
       }
     }
-  }, [isPlaying, setIsPlaying, sortedVideoClips.length, currentTime, timelineEndTime, setCurrentTime, activeClip, splitClip, selectedClipId, removeClip, undo, redo, canUndo, canRedo, copyClip, pasteClip, canPaste])
+
+    // M - Add a marker at the playhead; Shift+M / Ctrl+Shift+M jump to the next / previous marker
+    if (e.code === "KeyM" && !e.altKey) {
+      e.preventDefault()
+      const playhead = secondsToTicks(currentTime)
+      if (e.shiftKey) {
+        const positions = getMarkerPositions(markers, timelineClips)
+        const time = e.metaKey || e.ctrlKey ? getPreviousMarkerTime(positions, playhead) : getNextMarkerTime(positions, playhead)
+        if (time !== null) setCurrentTime(ticksToSeconds(time))
+      } else if (!e.metaKey && !e.ctrlKey) {
+        addMarker(secondsToFrameTicks(currentTime, projectFrameRate))
+      }
+      return
+    }
+
+    // I / O - Mark the timeline in / out point at the playhead; Alt+X clears both
+    if ((e.code === "KeyI" || e.code === "KeyO") && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      e.preventDefault()
+      const time = secondsToFrameTicks(currentTime, projectFrameRate)
+      setTimelineInOut(e.code === "KeyI" ? setInPoint(timelineInOut, time) : setOutPoint(timelineInOut, time))
+      return
+    }
+    if (e.code === "KeyX" && e.altKey) {
+      e.preventDefault()
+      setTimelineInOut({})
+      return
+    }
+
+    // V, B, N, Y, U - Select, ripple, roll, slip and slide edit modes
+    const editMode = EDIT_MODES.find((mode) => e.code === `Key${mode.shortcut}`)
+    if (editMode && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      e.preventDefault()
+      setEditMode(editMode.id)
+    }
+  }, [isPlaying, setIsPlaying, sortedVideoClips.length, currentTime, timelineEndTime, setCurrentTime, activeClip, splitClip, selectedClipId, selectedClipIds, selectClips, selectClipsForward, removeClips, moveClips, groupClips, ungroupClips, timelineClips, projectFrameRate, undo, redo, canUndo, canRedo, copyClips, pasteClips, canPaste, setEditMode, rippleDeleteClip, markers, addMarker, timelineInOut, setTimelineInOut, sourceMonitorMediaId])
 
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown)
@@ -197,6 +360,37 @@ function EditorContent({ projectId }: { projectId: string }) {
     )
   }
 
+  const SyncIcon = SYNC_STATUS[syncStatus].icon
+
+  if (unreadable) {
+    return (
+      <div className="flex h-screen w-screen items-center justify-center bg-background">
+        <div className="flex max-w-md flex-col items-center gap-4 text-center">
+          <FileWarning className="h-8 w-8 text-destructive" />
+          <p className="text-sm font-semibold text-foreground">&ldquo;{unreadable.name}&rdquo; couldn&apos;t be opened</p>
+          <p className="text-sm text-destructive">{error}</p>
+          <p className="text-xs text-muted-foreground">
+            Download a backup of the saved timeline before starting over - opening with an empty
+            timeline replaces it the next time the project saves.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleBackToProjects}>Back to Projects</Button>
+            <Button variant="outline" className="gap-2" onClick={downloadUnreadableTimeline}>
+              <Download className="h-4 w-4" />
+              Download Backup
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => setShowVersions(true)}>
+              <History className="h-4 w-4" />
+              Restore a Version
+            </Button>
+            <Button onClick={openWithEmptyTimeline}>Open with Empty Timeline</Button>
+          </div>
+        </div>
+        {versionsModal}
+      </div>
+    )
+  }
+
   if (error || !project) {
     return (
       <div className="flex h-screen w-screen items-center justify-center bg-background">
@@ -255,6 +449,13 @@ function EditorContent({ projectId }: { projectId: string }) {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <div
+            className={`flex items-center gap-1.5 text-xs ${syncStatus === "offline" || syncStatus === "pending" ? "text-yellow-500" : "text-muted-foreground"}`}
+            title={SYNC_STATUS[syncStatus].title}
+          >
+            <SyncIcon className={`h-3.5 w-3.5 ${syncStatus === "syncing" ? "animate-spin" : ""}`} />
+            {SYNC_STATUS[syncStatus].label}
+          </div>
           <Button
             variant="ghost"
             size="sm"
@@ -269,6 +470,12 @@ function EditorContent({ projectId }: { projectId: string }) {
             )}
             {isSaving ? "Saving..." : hasUnsavedChanges ? "Save" : "Saved"}
           </Button>
+          {!isLocalProjectId(project.id) && (
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setShowVersions(true)}>
+              <History className="h-4 w-4" />
+              Versions
+            </Button>
+          )}
           <motion.div
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
@@ -289,6 +496,8 @@ function EditorContent({ projectId }: { projectId: string }) {
 
       {/* Export Modal */}
       <ExportModal open={showExportModal} onOpenChange={setShowExportModal} />
+      {versionsModal}
+      <SourceMonitor />
 
       {/* Main Content Area - Resizable Panels */}
       <ResizablePanelGroup direction="vertical" className="flex-1">
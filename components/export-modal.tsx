@@ -10,18 +10,31 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { useEditor, PIXELS_PER_SECOND, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS, type TimelineClip } from "./editor-context"
+import { useEditor, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS, type TimelineClip } from "./editor-context"
 import type { ClipEffects } from "@/lib/projects"
 import { ChromakeyProcessor, type ChromakeyOptions } from "@/lib/chromakey"
+import { secondsToTicks, ticksToSeconds } from "@/lib/timecode"
+import { getTrackDrawOrder, isTrackAudible, isTrackVisible } from "@/lib/tracks"
+import { getMediaKind } from "@/lib/media-import"
+import { getAnimatedEffects, getAnimatedTransform, getClipKeyframeTime } from "@/lib/keyframes"
+import { drawTextClip } from "@/lib/text-clips"
+import { getClipSourceTime } from "@/lib/clip-speed"
+import { applyTransitionLayer, findActiveTransitions, getTransitionFrame, getValidTransitions, type TransitionLayer } from "@/lib/transitions"
+import { FRAGMENTED_MP4_THRESHOLD_SECONDS, createExportEncoder, isFragmentedExport, renderTimelineAudio, supportsWebCodecsExport, supportsExportFormat, type ExportEncoder, type ExportFormat } from "@/lib/export-encoder"
 
 interface ExportModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-type ExportFormat = "mp4" | "webm"
 type ExportQuality = "low" | "medium" | "high"
 
+const FORMAT_LABELS: Record<ExportFormat, { label: string; detail: string }> = {
+  webm: { label: "WEBM", detail: "VP9 / Opus" },
+  mp4: { label: "MP4", detail: "H.264 / AAC" },
+  "mp4-intra": { label: "MP4 INTRA", detail: "All keyframes, for editing" },
+}
+
 const QUALITY_SETTINGS: Record<ExportQuality, { bitrate: number; label: string }> = {
   low: { bitrate: 2_500_000, label: "Low (2.5 Mbps)" },
   medium: { bitrate: 5_000_000, label: "Medium (5 Mbps)" },
@@ -69,30 +82,26 @@ function buildFilterString(effects: ClipEffects): string {
   return filters.join(" ")
 }
 
-// Check if requestVideoFrameCallback is supported
-const supportsVideoFrameCallback = typeof HTMLVideoElement !== 'undefined' &&
-  'requestVideoFrameCallback' in HTMLVideoElement.prototype
-
-// Type for requestVideoFrameCallback
-type VideoFrameCallbackMetadata = {
-  presentationTime: number
-  expectedDisplayTime: number
-  width: number
-  height: number
-  mediaTime: number
-  presentedFrames: number
-  processingDuration?: number
-}
-
 export function ExportModal({ open, onOpenChange }: ExportModalProps) {
-  const { sortedVideoClips, mediaFiles } = useEditor()
+  // Compound clips are exported from the clips inside them (see lib/sequences)
+  const {
+    sortedVideoClips,
+    renderClips: timelineClips,
+    renderTracks: tracks,
+    renderTransitions: transitions,
+    mediaFiles,
+    projectFrameRate,
+  } = useEditor()
 
   const [format, setFormat] = useState<ExportFormat>("webm")
   const [quality, setQuality] = useState<ExportQuality>("medium")
   const [isExporting, setIsExporting] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const [warning, setWarning] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [frameCount, setFrameCount] = useState({ current: 0, total: 0 })
+  const [supportedFormats, setSupportedFormats] = useState<Record<ExportFormat, boolean>>({ webm: true, mp4: true, "mp4-intra": true })
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const abortRef = useRef(false)
@@ -102,25 +111,60 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
   // Update synchronously during render (not via useEffect which runs after render)
   const sortedVideoClipsRef = useRef(sortedVideoClips)
   sortedVideoClipsRef.current = sortedVideoClips
+  const timelineClipsRef = useRef(timelineClips)
+  timelineClipsRef.current = timelineClips
+  const tracksRef = useRef(tracks)
+  tracksRef.current = tracks
+  const transitionsRef = useRef(transitions)
+  transitionsRef.current = transitions
 
   // Reset state when modal opens
   useEffect(() => {
     if (open) {
       setProgress(0)
       setError(null)
+      setWarning(null)
       setSuccess(false)
       abortRef.current = false
     }
   }, [open])
 
+  // Check which containers this browser can encode at the export size
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    const checkOptions = { width: 1920, height: 1080, frameRate: projectFrameRate, bitrate: QUALITY_SETTINGS[quality].bitrate }
+    Promise.all(
+      (Object.keys(FORMAT_LABELS) as ExportFormat[]).map(async f => [f, await supportsExportFormat(f, checkOptions)] as const)
+    ).then(results => {
+      if (cancelled) return
+      const supported = Object.fromEntries(results) as Record<ExportFormat, boolean>
+      setSupportedFormats(supported)
+      setFormat(current => supported[current] ? current : (results.find(([, ok]) => ok)?.[0] ?? current))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, projectFrameRate, quality])
+
   const handleExport = useCallback(async () => {
     // Use ref to get the latest clips, avoiding stale closure issues
-    const currentClips = sortedVideoClipsRef.current
+    // Text clips have no media but are drawn alongside video and image clips
+    const currentClips = [...sortedVideoClipsRef.current, ...timelineClipsRef.current.filter(c => c.type === "text")]
+    const currentTracks = tracksRef.current
+    // Audio comes from every clip, including audio-only clips that aren't drawn
+    const currentAudioClips = timelineClipsRef.current
     if (!canvasRef.current || currentClips.length === 0) return
 
+    if (!supportsWebCodecsExport()) {
+      setError("Export requires a browser with WebCodecs support (Chrome, Edge or Firefox)")
+      return
+    }
+
     setIsExporting(true)
     setProgress(0)
     setError(null)
+    setWarning(null)
     setSuccess(false)
     abortRef.current = false
 
@@ -142,11 +186,13 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
 
     // Sort clips by start time
     const clips = [...currentClips].sort((a, b) => a.startTime - b.startTime)
+    // Transitions whose clips have since been separated are skipped
+    const currentTransitions = getValidTransitions(transitionsRef.current, clips)
 
     // Calculate timeline end time from the clips we're actually exporting
     // This ensures consistency and avoids stale closure values
-    const exportEndTime = clips.reduce((max, clip) => {
-      const clipEnd = (clip.startTime + clip.duration) / PIXELS_PER_SECOND
+    const exportEndTime = [...clips, ...currentAudioClips].reduce((max, clip) => {
+      const clipEnd = ticksToSeconds(clip.startTime + clip.duration)
       return Math.max(max, clipEnd)
     }, 0)
 
@@ -157,11 +203,13 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       console.log(`  [${i + 1}] ${c.label}: preset=${effects.preset}, brightness=${effects.brightness}%, contrast=${effects.contrast}%, blur=${effects.blur}px`)
     })
 
-    // Create and preload video elements for each clip
+    // Create and preload video elements for each clip (image elements for stills)
     const videoElements: Map<string, HTMLVideoElement> = new Map()
+    const imageElements: Map<string, HTMLImageElement> = new Map()
 
     try {
       for (const clip of clips) {
+        if (clip.type === "text") continue
         const media = mediaFiles.find(m => m.id === clip.mediaId)
         if (!media) {
           console.warn(`[Export] Media not found for clip: ${clip.id}`)
@@ -184,6 +232,19 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
           isBlob: media.objectUrl?.startsWith('blob:'),
         })
 
+        // Stills only need to load once - every frame draws the same image
+        if (getMediaKind(media) === "image") {
+          const img = new Image()
+          img.crossOrigin = "anonymous"
+          await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve()
+            img.onerror = () => reject(new Error(`Failed to load image: ${media.name}`))
+            img.src = videoUrl
+          })
+          imageElements.set(clip.id, img)
+          continue
+        }
+
         const video = document.createElement("video")
         video.muted = true
         video.playsInline = true
@@ -223,9 +284,8 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
           video.load()
         })
 
-        // Pre-seek to the clip's media offset
-        const mediaOffset = clip.mediaOffset / PIXELS_PER_SECOND
-        video.currentTime = mediaOffset
+        // Pre-seek to the clip's first frame (the end of its range when reversed)
+        video.currentTime = ticksToSeconds(getClipSourceTime(clip, clip.startTime))
 
         await new Promise<void>(resolve => {
           video.onseeked = () => resolve()
@@ -236,15 +296,15 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       }
 
       // Check if all clips have videos loaded
-      const missingClips = clips.filter(c => !videoElements.has(c.id))
+      const missingClips = clips.filter(c => c.type !== "text" && !videoElements.has(c.id) && !imageElements.has(c.id))
       if (missingClips.length > 0) {
         console.warn(`[Export] Missing videos for clips:`, missingClips.map(c => c.label))
-        if (videoElements.size === 0) {
+        if (videoElements.size === 0 && imageElements.size === 0) {
           throw new Error("No videos could be loaded for export")
         }
       }
 
-      console.log(`[Export] Successfully loaded ${videoElements.size}/${clips.length} videos`)
+      console.log(`[Export] Successfully loaded ${videoElements.size + imageElements.size}/${clips.length} videos and images`)
     } catch (e) {
       console.error("[Export] Failed to load videos:", e)
       setError(e instanceof Error ? e.message : "Failed to load videos")
@@ -252,75 +312,9 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       return
     }
 
-    // Setup MediaRecorder with supported codec
-    let mimeType = "video/webm;codecs=vp9,opus"
-    if (!MediaRecorder.isTypeSupported(mimeType)) {
-      mimeType = "video/webm;codecs=vp8,opus"
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        mimeType = "video/webm"
-      }
-    }
-
-    const stream = canvas.captureStream(30)
-
-    // Setup audio capture using Web Audio API
-    let audioContext: AudioContext | null = null
-    let audioDestination: MediaStreamAudioDestinationNode | null = null
-    const audioSources: Map<string, MediaElementAudioSourceNode> = new Map()
-
-    try {
-      audioContext = new AudioContext()
-      audioDestination = audioContext.createMediaStreamDestination()
-
-      // Create audio sources for each video element
-      // Connect to Web Audio BEFORE unmuting to prevent audio leak to speakers
-      for (const [clipId, video] of videoElements) {
-        const source = audioContext.createMediaElementSource(video)
-        source.connect(audioDestination)
-        audioSources.set(clipId, source)
-
-        // Now unmute - audio will only flow through Web Audio graph, not speakers
-        video.muted = false
-        video.volume = 1
-      }
-
-      // Add audio track to the stream
-      const audioTracks = audioDestination.stream.getAudioTracks()
-      if (audioTracks.length > 0) {
-        stream.addTrack(audioTracks[0])
-      }
-    } catch (e) {
-      console.warn("Could not setup audio capture:", e)
-      // Continue without audio if it fails
-    }
-
-    const recorder = new MediaRecorder(stream, {
-      mimeType,
-      videoBitsPerSecond: QUALITY_SETTINGS[quality].bitrate,
-    })
-
-    const chunks: Blob[] = []
-    recorder.ondataavailable = (e) => {
-      if (e.data.size > 0) {
-        chunks.push(e.data)
-      }
-    }
-
-    const exportPromise = new Promise<Blob>((resolve, reject) => {
-      recorder.onerror = () => reject(new Error("Recording failed"))
-      recorder.onstop = () => {
-        if (abortRef.current) {
-          reject(new Error("Export cancelled"))
-          return
-        }
-        resolve(new Blob(chunks, { type: mimeType }))
-      }
-    })
-
-    recorder.start(100)
-
-    // Track export state
-    let exportStartTime = performance.now()
+    const frameRate = projectFrameRate > 0 ? projectFrameRate : 30
+    const totalFrames = Math.max(1, Math.ceil(exportEndTime * frameRate))
+    setFrameCount({ current: 0, total: totalFrames })
 
     // Track logged clips to avoid flooding console
     const loggedClips = new Set<string>()
@@ -344,25 +338,32 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
 
     // Helper to find all clips at a given timeline time, sorted by track
-    // Returns clips sorted for drawing order (bottom to top): A1, A2, V1, V2
+    // Returns clips on visible tracks sorted for drawing order (bottom to top)
+    // Both clips of a playing transition are included, even outside their own range
+    const trackDrawOrder = getTrackDrawOrder(currentTracks)
     const findClipsAtTime = (timelineTime: number): TimelineClip[] => {
-      const timePixels = timelineTime * PIXELS_PER_SECOND
+      const timeTicks = secondsToTicks(timelineTime)
+      const transitionClipIds = new Set(
+        findActiveTransitions(currentTransitions, clips, timeTicks).flatMap(t => [t.from.id, t.to.id])
+      )
       const clipsAtTime = clips.filter(c => {
-        return timePixels >= c.startTime && timePixels < c.startTime + c.duration
+        const inRange = timeTicks >= c.startTime && timeTicks < c.startTime + c.duration
+        return (inRange || transitionClipIds.has(c.id)) && isTrackVisible(c.trackId, currentTracks)
       })
-      // Sort by track for drawing order - bottom first (A1 < A2 < V1 < V2)
-      const trackDrawOrder = ["A1", "A2", "V1", "V2"]
+      // Sort by track for drawing order - bottom first, then the outgoing clip under the incoming one
       return clipsAtTime.sort((a, b) => {
         const aIndex = trackDrawOrder.indexOf(a.trackId)
         const bIndex = trackDrawOrder.indexOf(b.trackId)
-        return aIndex - bIndex
+        return aIndex - bIndex || a.startTime - b.startTime
       })
     }
 
-    // Helper to calculate draw dimensions and position for a video
-    const getDrawParams = (video: HTMLVideoElement, clip: TimelineClip) => {
+    // Helper to calculate draw dimensions and position for a video or image
+    const getDrawParams = (video: HTMLVideoElement | HTMLImageElement, clip: TimelineClip) => {
       const transform = clip.transform ?? DEFAULT_CLIP_TRANSFORM
-      const videoAspect = video.videoWidth / video.videoHeight
+      const videoAspect = video instanceof HTMLVideoElement
+        ? video.videoWidth / video.videoHeight
+        : (video.naturalWidth || canvas.width) / (video.naturalHeight || canvas.height)
       const canvasAspect = canvas.width / canvas.height
 
       let drawWidth: number, drawHeight: number
@@ -386,19 +387,15 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
 
     // Helper to draw a single video layer (without chromakey)
-    const drawVideoLayer = (video: HTMLVideoElement, clip: TimelineClip, clearCanvas: boolean = true) => {
+    const drawVideoLayer = (video: HTMLVideoElement | HTMLImageElement, clip: TimelineClip, layer: TransitionLayer | null = null) => {
       const effects = clip.effects ?? DEFAULT_CLIP_EFFECTS
       const { drawX, drawY, drawWidth, drawHeight, transform } = getDrawParams(video, clip)
 
-      if (clearCanvas) {
-        ctx.fillStyle = "#000000"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-      }
-
       ctx.save()
+      if (layer) applyTransitionLayer(ctx, layer, canvas.width, canvas.height)
       const filterString = buildFilterString(effects)
       ctx.filter = filterString || "none"
-      ctx.globalAlpha = transform.opacity / 100
+      ctx.globalAlpha = (transform.opacity / 100) * (layer?.opacity ?? 1)
 
       try {
         ctx.drawImage(video, drawX, drawY, drawWidth, drawHeight)
@@ -409,240 +406,192 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       ctx.restore()
     }
 
-    // Helper to draw a frame with chromakey compositing
-    const drawFrameWithChromakey = (
-      foregroundVideo: HTMLVideoElement,
-      foregroundClip: TimelineClip,
-      backgroundVideo: HTMLVideoElement | null,
-      backgroundClip: TimelineClip | null
-    ) => {
-      const effects = foregroundClip.effects ?? DEFAULT_CLIP_EFFECTS
-      const { drawX, drawY, drawWidth, drawHeight, transform } = getDrawParams(foregroundVideo, foregroundClip)
-
-      // Clear canvas
-      ctx.fillStyle = "#000000"
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    // Helper to draw a text clip - drawn straight onto the canvas, so chromakey doesn't apply
+    const drawTextLayer = (clip: TimelineClip, layer: TransitionLayer | null = null) => {
+      if (!clip.text) return
+      ctx.save()
+      if (layer) applyTransitionLayer(ctx, layer, canvas.width, canvas.height)
+      const filterString = buildFilterString(clip.effects ?? DEFAULT_CLIP_EFFECTS)
+      ctx.filter = filterString || "none"
+      ctx.globalAlpha = layer?.opacity ?? 1
+      drawTextClip(ctx, clip.text, clip.transform ?? DEFAULT_CLIP_TRANSFORM, canvas.width, canvas.height)
+      ctx.restore()
+    }
 
-      // Draw background first if available
-      if (backgroundVideo && backgroundClip) {
-        drawVideoLayer(backgroundVideo, backgroundClip, false)
+    // Helper to draw a video layer through chromakey
+    // The background is already drawn by the layers below, so only the keyed foreground is composited
+    const drawChromakeyLayer = (video: HTMLVideoElement | HTMLImageElement, clip: TimelineClip, layer: TransitionLayer | null = null) => {
+      const effects = clip.effects ?? DEFAULT_CLIP_EFFECTS
+      if (!chromakeyProcessor || !chromakeyProcessor.isReady()) {
+        // Fallback: draw without chromakey if processor not available
+        drawVideoLayer(video, clip, layer)
+        return
       }
 
-      // Process foreground through chromakey
-      if (chromakeyProcessor && chromakeyProcessor.isReady()) {
-        const chromakeyOptions: ChromakeyOptions = {
-          keyColor: effects.chromakey?.keyColor ?? "#00FF00",
-          similarity: effects.chromakey?.similarity ?? 0.4,
-          smoothness: effects.chromakey?.smoothness ?? 0.1,
-          spill: effects.chromakey?.spill ?? 0.3,
-        }
+      const chromakeyOptions: ChromakeyOptions = {
+        keyColor: effects.chromakey?.keyColor ?? "#00FF00",
+        similarity: effects.chromakey?.similarity ?? 0.4,
+        smoothness: effects.chromakey?.smoothness ?? 0.1,
+        spill: effects.chromakey?.spill ?? 0.3,
+      }
 
-        // Process the foreground video through chromakey
-        chromakeyProcessor.processFrame(foregroundVideo, chromakeyOptions)
+      chromakeyProcessor.processFrame(video, chromakeyOptions)
 
-        // Draw the chromakeyed result onto the main canvas
-        ctx.save()
-        const filterString = buildFilterString(effects)
-        ctx.filter = filterString || "none"
-        ctx.globalAlpha = transform.opacity / 100
+      const { drawX, drawY, drawWidth, drawHeight, transform } = getDrawParams(video, clip)
+      ctx.save()
+      if (layer) applyTransitionLayer(ctx, layer, canvas.width, canvas.height)
+      const filterString = buildFilterString(effects)
+      ctx.filter = filterString || "none"
+      ctx.globalAlpha = (transform.opacity / 100) * (layer?.opacity ?? 1)
+      try {
+        ctx.drawImage(chromakeyCanvas, drawX, drawY, drawWidth, drawHeight)
+      } catch (e) {
+        console.warn("Chromakey draw error:", e)
+      }
+      ctx.restore()
+    }
 
-        try {
-          ctx.drawImage(chromakeyCanvas, drawX, drawY, drawWidth, drawHeight)
-        } catch (e) {
-          console.warn("Chromakey draw error:", e)
+    // Seek a video to an exact source time and wait until that frame is decoded
+    const seekVideo = (video: HTMLVideoElement, time: number) => {
+      return new Promise<void>(resolve => {
+        if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) {
+          resolve()
+          return
         }
+        const done = () => {
+          clearTimeout(timeoutId)
+          video.removeEventListener("seeked", done)
+          resolve()
+        }
+        const timeoutId = setTimeout(done, 5000) // Timeout fallback
+        video.addEventListener("seeked", done)
+        video.currentTime = time
+      })
+    }
 
-        ctx.restore()
-      } else {
-        // Fallback: draw without chromakey if processor not available
-        drawVideoLayer(foregroundVideo, foregroundClip, false)
+    // Seek a clip's media to the frame at a timeline time and draw it with its keyframes applied
+    const drawClip = async (video: HTMLVideoElement | HTMLImageElement | null, clip: TimelineClip, timelineTime: number, layer: TransitionLayer | null) => {
+      // Transitions read past the clip's own range; the seek is clamped to the media so the frame holds
+      // Speed, reverse and freeze frames are all in the mapping from timeline to source time
+      const timeTicks = secondsToTicks(timelineTime)
+      const sourceTime = ticksToSeconds(getClipSourceTime(clip, timeTicks))
+      if (video instanceof HTMLVideoElement) {
+        await seekVideo(video, Math.max(0, Math.min(sourceTime, video.duration - 0.001)))
       }
-    }
 
-    // Main helper to draw a frame to canvas
-    const drawFrame = (video: HTMLVideoElement, clip: TimelineClip, timelineTime: number) => {
-      const effects = clip.effects ?? DEFAULT_CLIP_EFFECTS
+      // Keyframes are timed from the clip's start, like the preview evaluates them
+      const keyframeTime = getClipKeyframeTime(clip, timeTicks)
+      const frameClip: TimelineClip = {
+        ...clip,
+        transform: getAnimatedTransform(clip, keyframeTime),
+        effects: getAnimatedEffects(clip, keyframeTime),
+      }
+
+      const effects = frameClip.effects
+      if (clip.type === "text") {
+        drawTextLayer(frameClip, layer)
+      } else if (!video) {
+        return
+      } else if (effects.chromakey?.enabled && chromakeyProcessor) {
+        drawChromakeyLayer(video, frameClip, layer)
+      } else {
+        drawVideoLayer(video, frameClip, layer)
+      }
 
-      // Debug: Log effects only once per clip
+      // Log clip rendering once
       if (!loggedClips.has(clip.id)) {
-        const filterString = buildFilterString(effects)
-        console.log("[Export] Rendering clip:", clip.id, {
+        console.log("[Export] Rendering clip:", clip.label, "on track", clip.trackId, {
           preset: effects.preset,
-          brightness: effects.brightness,
-          contrast: effects.contrast,
-          saturate: effects.saturate,
-          blur: effects.blur,
           chromakeyEnabled: effects.chromakey?.enabled ?? false,
-          filterString: filterString || "(none)",
         })
         loggedClips.add(clip.id)
       }
-
-      // Check if chromakey is enabled for this clip
-      if (effects.chromakey?.enabled && chromakeyProcessor) {
-        // Find the background clip (the next clip in the layer order)
-        const clipsAtTime = findClipsAtTime(timelineTime)
-        const clipIndex = clipsAtTime.findIndex(c => c.id === clip.id)
-        const backgroundClip = clipIndex >= 0 && clipIndex < clipsAtTime.length - 1
-          ? clipsAtTime[clipIndex + 1]
-          : null
-        const backgroundVideo = backgroundClip ? videoElements.get(backgroundClip.id) ?? null : null
-
-        drawFrameWithChromakey(video, clip, backgroundVideo, backgroundClip)
-      } else {
-        // Regular drawing without chromakey
-        drawVideoLayer(video, clip, true)
-      }
-    }
-
-    // Calculate timeline time from elapsed export time
-    const getTimelineTime = () => {
-      return (performance.now() - exportStartTime) / 1000
     }
 
-    // Track which videos are currently active for audio management
-    const activeVideoIds = new Set<string>()
-
-    // Main render loop using requestAnimationFrame with explicit time sync
-    const renderLoop = async () => {
-      if (abortRef.current) {
-        // Pause all videos
-        videoElements.forEach(video => video.pause())
-        recorder.stop()
-        return
-      }
-
-      const timelineTime = getTimelineTime()
+    // Composite every layer visible at the given timeline time onto the canvas
+    const renderFrame = async (timelineTime: number) => {
+      ctx.fillStyle = "#000000"
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
 
-      // Check if export is complete
-      if (timelineTime >= exportEndTime) {
-        videoElements.forEach(video => video.pause())
-        recorder.stop()
-        return
+      // Layer state for clips in a transition, and the dip colour drawn over each incoming clip
+      const transitionLayers = new Map<string, TransitionLayer>()
+      const transitionOverlays = new Map<string, { color: string; opacity: number }>()
+      for (const active of findActiveTransitions(currentTransitions, clips, secondsToTicks(timelineTime))) {
+        const frame = getTransitionFrame(active.transition, active.progress)
+        transitionLayers.set(active.from.id, frame.outgoing)
+        transitionLayers.set(active.to.id, frame.incoming)
+        if (frame.overlay) transitionOverlays.set(active.to.id, frame.overlay)
       }
 
-      // Update progress
-      setProgress(Math.round((timelineTime / exportEndTime) * 100))
-
-      // Find ALL clips at the current time, sorted for drawing (bottom to top)
-      const clipsAtTime = findClipsAtTime(timelineTime)
-
-      if (clipsAtTime.length > 0) {
-        // Clear canvas once before drawing all layers
-        ctx.fillStyle = "#000000"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-        // Track which clips are currently active
-        const newActiveVideoIds = new Set<string>()
-
-        // Draw each clip in order (bottom to top)
-        for (const clip of clipsAtTime) {
-          const video = videoElements.get(clip.id)
-          if (!video || video.readyState < 2) continue
-
-          newActiveVideoIds.add(clip.id)
-
-          // Calculate expected video position
-          const clipStart = clip.startTime / PIXELS_PER_SECOND
-          const mediaOffset = clip.mediaOffset / PIXELS_PER_SECOND
-          const expectedVideoTime = mediaOffset + (timelineTime - clipStart)
-
-          // Check if we need to sync position
-          const drift = Math.abs(video.currentTime - expectedVideoTime)
-          if (drift > 0.1) {
-            video.currentTime = Math.max(mediaOffset, Math.min(expectedVideoTime, video.duration - 0.1))
-          }
-
-          // Start/resume playback if needed
-          if (video.paused) {
-            try {
-              await video.play()
-            } catch (e) {
-              console.warn("Play failed for clip:", clip.id, e)
-            }
-          }
-
-          // Check if this clip has chromakey enabled
-          const effects = clip.effects ?? DEFAULT_CLIP_EFFECTS
-          if (effects.chromakey?.enabled && chromakeyProcessor) {
-            // For chromakey, the background is already drawn by previous clips
-            // Just draw this clip with chromakey (transparency)
-            if (chromakeyProcessor.isReady()) {
-              const chromakeyOptions: ChromakeyOptions = {
-                keyColor: effects.chromakey?.keyColor ?? "#00FF00",
-                similarity: effects.chromakey?.similarity ?? 0.4,
-                smoothness: effects.chromakey?.smoothness ?? 0.1,
-                spill: effects.chromakey?.spill ?? 0.3,
-              }
-
-              chromakeyProcessor.processFrame(video, chromakeyOptions)
-
-              const { drawX, drawY, drawWidth, drawHeight, transform } = getDrawParams(video, clip)
-              ctx.save()
-              const filterString = buildFilterString(effects)
-              ctx.filter = filterString || "none"
-              ctx.globalAlpha = transform.opacity / 100
-              try {
-                ctx.drawImage(chromakeyCanvas, drawX, drawY, drawWidth, drawHeight)
-              } catch (e) {
-                console.warn("Chromakey draw error:", e)
-              }
-              ctx.restore()
-            }
-          } else {
-            // Draw without chromakey (don't clear canvas - we're layering)
-            drawVideoLayer(video, clip, false)
-          }
+      // Draw each clip in order (bottom to top)
+      for (const clip of findClipsAtTime(timelineTime)) {
+        const video = videoElements.get(clip.id) ?? imageElements.get(clip.id) ?? null
+        if (!video && clip.type !== "text") continue
 
-          // Log clip rendering once
-          if (!loggedClips.has(clip.id)) {
-            console.log("[Export] Rendering clip:", clip.label, "on track", clip.trackId)
-            loggedClips.add(clip.id)
-          }
+        const layer = transitionLayers.get(clip.id) ?? null
+        if (!layer || layer.opacity > 0) {
+          await drawClip(video, clip, timelineTime, layer)
         }
 
-        // Pause videos that are no longer active
-        for (const clipId of activeVideoIds) {
-          if (!newActiveVideoIds.has(clipId)) {
-            const video = videoElements.get(clipId)
-            if (video && !video.paused) {
-              video.pause()
-            }
-          }
+        // The dip colour covers both sides of the transition but not the tracks above
+        const overlay = transitionOverlays.get(clip.id)
+        if (overlay) {
+          ctx.save()
+          ctx.globalAlpha = overlay.opacity
+          ctx.fillStyle = overlay.color
+          ctx.fillRect(0, 0, canvas.width, canvas.height)
+          ctx.restore()
         }
+      }
+    }
 
-        // Update active video set
-        activeVideoIds.clear()
-        newActiveVideoIds.forEach(id => activeVideoIds.add(id))
+    let encoder: ExportEncoder | null = null
 
-      } else {
-        // No clips at this time, draw black
-        ctx.fillStyle = "#000000"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
+    try {
+      // Mix audio offline first so the encoder knows whether to add an audio track
+      // Muted tracks (or tracks silenced by another track's solo) are left out of the mix
+      const audibleClips = currentAudioClips.filter(c => isTrackAudible(c.trackId, currentTracks))
+      const audioBuffer = await renderTimelineAudio(audibleClips, mediaFiles, exportEndTime)
+
+      encoder = await createExportEncoder({
+        format,
+        width: canvas.width,
+        height: canvas.height,
+        frameRate,
+        bitrate: QUALITY_SETTINGS[quality].bitrate,
+        includeAudio: audioBuffer !== null,
+        durationSeconds: exportEndTime,
+      })
+      if (audioBuffer && !encoder.hasAudio) {
+        setWarning(`This browser can't encode ${FORMAT_LABELS[format].label} audio, so the export will be silent. Try another format to keep the sound.`)
+      }
 
-        // Pause all videos if we're in a gap
-        videoElements.forEach(video => {
-          if (!video.paused) video.pause()
-        })
-        activeVideoIds.clear()
+      if (audioBuffer) {
+        await encoder.encodeAudio(audioBuffer)
       }
 
-      // Schedule next frame
-      requestAnimationFrame(renderLoop)
-    }
+      // Step through the timeline one output frame at a time
+      const renderStart = performance.now()
+      for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+        if (abortRef.current) {
+          throw new Error("Export cancelled")
+        }
 
-    // Start the render loop - it will handle clip initialization
-    exportStartTime = performance.now()
-    renderLoop()
+        await renderFrame(frameIndex / frameRate)
+        await encoder.encodeFrame(canvas, frameIndex)
 
-    try {
-      const blob = await exportPromise
+        setProgress(Math.round(((frameIndex + 1) / totalFrames) * 100))
+        setFrameCount({ current: frameIndex + 1, total: totalFrames })
+      }
+
+      const blob = await encoder.finalize()
+      console.log(`[Export] Rendered ${totalFrames} frames in ${((performance.now() - renderStart) / 1000).toFixed(1)}s`)
 
       // Download the file
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `export-${Date.now()}.webm`
+      a.download = `export-${Date.now()}.${encoder.extension}`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
@@ -651,18 +600,12 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       setSuccess(true)
     } catch (e) {
       if (!abortRef.current) {
+        console.error("[Export] Export failed:", e)
         setError(e instanceof Error ? e.message : "Export failed")
       }
     } finally {
       setIsExporting(false)
-      // Cleanup audio context
-      if (audioContext) {
-        try {
-          await audioContext.close()
-        } catch (e) {
-          console.warn("Error closing audio context:", e)
-        }
-      }
+      encoder?.close()
       // Cleanup video elements
       videoElements.forEach(video => {
         video.pause()
@@ -675,7 +618,7 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
       }
     }
 
-  }, [mediaFiles, quality])
+  }, [mediaFiles, quality, format, projectFrameRate])
 
   const handleCancel = () => {
     if (isExporting) {
@@ -685,7 +628,10 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
   }
 
-  const hasClips = sortedVideoClips.length > 0
+  const hasClips = sortedVideoClips.length > 0 || timelineClips.some(c => c.type === "text")
+  // Same end as the export uses, so the modal can say up front when the MP4 will be fragmented
+  const timelineSeconds = timelineClips.reduce((max, clip) => Math.max(max, ticksToSeconds(clip.startTime + clip.duration)), 0)
+  const fragmented = isFragmentedExport(format, timelineSeconds)
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -712,12 +658,12 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
             {/* Format Selection */}
             <div>
               <label className="text-sm font-medium mb-2 block">Format</label>
-              <div className="grid grid-cols-2 gap-2">
-                {(["webm", "mp4"] as ExportFormat[]).map((f) => (
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
                   <motion.button
                     key={f}
                     onClick={() => setFormat(f)}
-                    disabled={isExporting}
+                    disabled={isExporting || !supportedFormats[f]}
                     className={`px-4 py-2 rounded-md text-sm font-medium transition-colors cursor-pointer disabled:opacity-50 ${
                       format === f
                         ? "bg-primary text-primary-foreground"
@@ -727,15 +673,24 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
                     whileTap={{ scale: 0.98 }}
                     transition={{ type: "spring", stiffness: 400, damping: 17 }}
                   >
-                    {f.toUpperCase()}
-                    {f === "mp4" && (
-                      <span className="block text-[10px] opacity-70">
-                        (exported as WebM)
-                      </span>
-                    )}
+                    {FORMAT_LABELS[f].label}
+                    <span className="block text-[10px] opacity-70">
+                      {supportedFormats[f] ? FORMAT_LABELS[f].detail : "Not supported"}
+                    </span>
                   </motion.button>
                 ))}
               </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                MOV and ProRes aren&apos;t supported - browsers can&apos;t encode them. For an edit-friendly
+                file, MP4 INTRA makes every frame a keyframe.
+              </p>
+              {fragmented && (
+                <p className="flex items-start gap-1.5 text-xs text-amber-600 mt-2">
+                  <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                  Over {FRAGMENTED_MP4_THRESHOLD_SECONDS / 60} minutes, MP4 is saved fragmented to keep memory down.
+                  Some players won&apos;t show its length or let you seek - choose WebM if that matters.
+                </p>
+              )}
             </div>
 
             {/* Quality Selection */}
@@ -785,9 +740,7 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
                     />
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    {supportsVideoFrameCallback
-                      ? "Using frame-accurate rendering"
-                      : "Export runs at 1x speed"}
+                    Frame {frameCount.current} of {frameCount.total}
                   </p>
                 </motion.div>
               )}
@@ -808,6 +761,21 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
               )}
             </AnimatePresence>
 
+            {/* Warning */}
+            <AnimatePresence>
+              {warning && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="flex items-center gap-2 text-sm text-amber-600 bg-amber-500/10 px-3 py-2 rounded-md"
+                >
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {warning}
+                </motion.div>
+              )}
+            </AnimatePresence>
+
             {/* Success */}
             <AnimatePresence>
               {success && (
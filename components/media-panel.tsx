@@ -2,17 +2,25 @@
 
 import { useState, useRef, useCallback, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Film, FolderOpen, Search, Upload, X, Play, Loader2, Cloud, CloudOff, Wand2, Eye, EyeOff, Captions, AlertCircle, Clock, Zap, GripVertical } from "lucide-react"
-import { useEditor, MediaFile, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS } from "./editor-context"
-import type { EffectPreset, ClipEffects, ClipTransform } from "@/lib/projects"
+import { Film, FolderOpen, Search, Upload, X, Play, Loader2, Cloud, CloudOff, Wand2, Eye, EyeOff, Captions, AlertCircle, Clock, Zap, GripVertical, Volume2, VolumeX, Music, ImageIcon, Diamond, Layers, Pause, RotateCw, Gauge, AlertTriangle } from "lucide-react"
+import { useEditor, MediaFile, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS, DEFAULT_CLIP_AUDIO } from "./editor-context"
+import type { EffectPreset, ClipAudio, ClipTransform, AnimatableProperty, ClipKeyframes, Keyframe, KeyframeInterpolation, TextClipStyle, TextAlign, TextVerticalAlign } from "@/lib/projects"
+import { formatTimecode, secondsToTicks, ticksToSeconds } from "@/lib/timecode"
+import { getSequenceDuration } from "@/lib/sequences"
 import type { TimelineClip } from "./editor-context"
+import { formatBytes } from "@/lib/storage"
+import { formatMediaDuration, getMediaKind, getMediaMimeType, loadAudioMetadata, generateImageThumbnail } from "@/lib/media-import"
+import { describeMediaMetadata } from "@/lib/media-probe"
+import { EFFECT_PROPERTIES, findKeyframe, getAnimatedEffects, getAnimatedTransform, getClipKeyframeTime, isPropertyAnimated, removeKeyframe, setKeyframe } from "@/lib/keyframes"
 import { ColorPicker } from "./ui/color-picker"
+import { TEXT_FONTS, getTextClipLabel, resolveTextStyle } from "@/lib/text-clips"
+import { MAX_CLIP_SPEED, MIN_CLIP_SPEED, clampClipSpeed, getClipSourceTime, getClipSpeedAt, getRetimedDuration } from "@/lib/clip-speed"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 
 
 export function MediaPanel() {
   const [activeTab, setActiveTab] = useState("media")
-  const { mediaFiles, addMediaFiles, removeMediaFile, projectId, reindexMedia } = useEditor()
+  const { mediaFiles, addMediaFiles, removeMediaFile, projectId, reindexMedia, pauseUpload, resumeUpload, generateProxy, defaultImageDuration, setDefaultImageDuration, setSourceMonitorMediaId } = useEditor()
 
   const tabs = [
     { id: "media", label: "Media", icon: FolderOpen },
@@ -98,6 +106,12 @@ export function MediaPanel() {
                 onRemoveFile={removeMediaFile}
                 projectId={projectId}
                 onReindexMedia={reindexMedia}
+                defaultImageDuration={defaultImageDuration}
+                onDefaultImageDurationChange={setDefaultImageDuration}
+                onOpenSource={setSourceMonitorMediaId}
+                onPauseUpload={pauseUpload}
+                onResumeUpload={resumeUpload}
+                onGenerateProxy={generateProxy}
               />
             </motion.div>
           )}
@@ -119,6 +133,78 @@ export function MediaPanel() {
   )
 }
 
+// Compound clip sequences - drag one onto the timeline to reuse it, click to edit it
+function SequenceList() {
+  const { sequences, openSequence, renameSequence, removeSequence, projectFrameRate } = useEditor()
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+
+  if (sequences.length === 0) return null
+
+  return (
+    <div className="border-b border-border px-3 py-2 space-y-1">
+      <div className="text-[10px] font-medium text-muted-foreground">Sequences</div>
+      {sequences.map((sequence) => (
+        <div
+          key={sequence.id}
+          className="group flex items-center gap-2 rounded border border-border bg-muted px-2 py-1.5 hover:border-primary cursor-grab active:cursor-grabbing"
+          draggable={renamingId !== sequence.id}
+          onDragStart={(e) => {
+            e.dataTransfer.setData("application/x-sequence-id", sequence.id)
+            e.dataTransfer.effectAllowed = "copy"
+          }}
+          onClick={() => {
+            const { error } = openSequence(sequence.id)
+            if (error) {
+              console.error("[MediaPanel] Failed to open sequence:", error)
+            }
+          }}
+          onDoubleClick={(e) => {
+            e.stopPropagation()
+            setRenamingId(sequence.id)
+          }}
+          title="Click to edit, drag onto the timeline to use again, double-click to rename"
+        >
+          <Layers className="h-3.5 w-3.5 shrink-0 text-chart-5" />
+          {renamingId === sequence.id ? (
+            <input
+              autoFocus
+              defaultValue={sequence.name}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => {
+                renameSequence(sequence.id, e.target.value)
+                setRenamingId(null)
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur()
+                if (e.key === "Escape") setRenamingId(null)
+              }}
+              className="min-w-0 flex-1 rounded border border-input bg-background px-1 text-xs text-foreground focus:border-primary focus:outline-none"
+            />
+          ) : (
+            <span className="min-w-0 flex-1 truncate text-xs text-foreground">{sequence.name}</span>
+          )}
+          <span className="text-[10px] font-mono text-muted-foreground">
+            {formatTimecode(ticksToSeconds(getSequenceDuration(sequence)), projectFrameRate)}
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              const { error } = removeSequence(sequence.id)
+              if (error) {
+                console.error("[MediaPanel] Failed to remove sequence:", error)
+              }
+            }}
+            className="rounded p-0.5 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground cursor-pointer"
+            title="Remove (only when no compound clip uses it)"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // TwelveLabs search result type
 interface NLPSearchResult {
   videoId: string // TwelveLabs video ID
@@ -135,9 +221,15 @@ interface MediaTabProps {
   onRemoveFile: (id: string) => void
   projectId: string | null
   onReindexMedia: (mediaId: string) => Promise<void>
+  defaultImageDuration: number
+  onDefaultImageDurationChange: (seconds: number) => void
+  onOpenSource: (mediaId: string) => void // Open in the source monitor
+  onPauseUpload: (mediaId: string) => void
+  onResumeUpload: (mediaId: string) => Promise<void>
+  onGenerateProxy: (mediaId: string) => Promise<void>
 }
 
-function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindexMedia }: MediaTabProps) {
+function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindexMedia, defaultImageDuration, onDefaultImageDurationChange, onOpenSource, onPauseUpload, onResumeUpload, onGenerateProxy }: MediaTabProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [isDragOver, setIsDragOver] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -300,12 +392,6 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
     })
   }, [])
 
-  const formatDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
-  }
-
   const getVideoDuration = useCallback((file: File): Promise<{ formatted: string; seconds: number }> => {
     return new Promise((resolve) => {
       const video = document.createElement("video")
@@ -320,7 +406,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
 
       video.onloadedmetadata = () => {
         clearTimeout(timeout)
-        resolve({ formatted: formatDuration(video.duration), seconds: video.duration })
+        resolve({ formatted: formatMediaDuration(video.duration), seconds: video.duration })
         URL.revokeObjectURL(video.src)
       }
 
@@ -337,26 +423,39 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
 
   const processFiles = useCallback(
     async (files: FileList | File[]) => {
-      const videoFiles = Array.from(files).filter((file) => {
-        // Accept video files or mp4/mov/webm/avi by extension if MIME type is missing
-        const isVideoType = file.type.startsWith("video/")
-        const hasVideoExt = /\.(mp4|mov|webm|avi|mkv|m4v)$/i.test(file.name)
-        return isVideoType || hasVideoExt
-      })
+      // Accept video, audio and image files, by extension if MIME type is missing
+      const supportedFiles = Array.from(files).filter((file) => getMediaKind(file) !== null)
 
-      if (videoFiles.length === 0) {
-        console.warn("No video files found in selection")
+      if (supportedFiles.length === 0) {
+        console.warn("No supported media files found in selection")
         return
       }
 
       const processedFiles: MediaFile[] = []
 
-      for (const file of videoFiles) {
+      for (const file of supportedFiles) {
+        const kind = getMediaKind(file)
+        const type = getMediaMimeType(file) ?? "video/mp4"
         try {
-          const [thumbnail, durationData] = await Promise.all([
-            generateThumbnail(file).catch(() => null),
-            getVideoDuration(file).catch(() => ({ formatted: "00:00", seconds: 0 })),
-          ])
+          let thumbnail: string | null
+          let durationData: { formatted: string; seconds: number }
+
+          if (kind === "audio") {
+            const audio = await loadAudioMetadata(file)
+            thumbnail = audio?.thumbnail ?? null
+            durationData = audio
+              ? { formatted: formatMediaDuration(audio.seconds), seconds: audio.seconds }
+              : { formatted: "00:00", seconds: 0 }
+          } else if (kind === "image") {
+            // Images have no length of their own - clips take the default image duration when placed
+            thumbnail = await generateImageThumbnail(file)
+            durationData = { formatted: formatMediaDuration(defaultImageDuration), seconds: defaultImageDuration }
+          } else {
+            [thumbnail, durationData] = await Promise.all([
+              generateThumbnail(file).catch(() => null),
+              getVideoDuration(file).catch(() => ({ formatted: "00:00", seconds: 0 })),
+            ])
+          }
 
           processedFiles.push({
             id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -365,7 +464,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
             duration: durationData.formatted,
             durationSeconds: durationData.seconds,
             thumbnail,
-            type: file.type || "video/mp4", // Default to mp4 if type is missing
+            type,
             objectUrl: URL.createObjectURL(file),
           })
         } catch (err) {
@@ -378,7 +477,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
             duration: "00:00",
             durationSeconds: 0,
             thumbnail: null,
-            type: file.type || "video/mp4",
+            type,
             objectUrl: URL.createObjectURL(file),
           })
         }
@@ -389,7 +488,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
         onFilesAdded(processedFiles)
       }
     },
-    [generateThumbnail, getVideoDuration, onFilesAdded]
+    [generateThumbnail, getVideoDuration, onFilesAdded, defaultImageDuration]
   )
 
   const handleMediaDragStart = useCallback((e: React.DragEvent, media: MediaFile) => {
@@ -427,7 +526,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
         <line x1="17" y1="17" x2="22" y2="17"></line>
         <line x1="17" y1="7" x2="22" y2="7"></line>
       </svg>
-      <span>📹 ${media.name}</span>
+      <span>${{ video: "📹", audio: "🎵", image: "🖼️" }[getMediaKind(media) ?? "video"]} ${media.name}</span>
     `
     document.body.appendChild(dragPreview)
     e.dataTransfer.setDragImage(dragPreview, 20, 20)
@@ -592,6 +691,27 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
             <span>Try natural language: "person walking", "sunset scene", etc.</span>
           </div>
         )}
+        {/* Length given to still images when they're placed on the timeline */}
+        <div className="mt-2 flex items-center justify-between text-[10px] text-muted-foreground">
+          <span>Image duration</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0.5}
+              max={60}
+              step={0.5}
+              value={defaultImageDuration}
+              onChange={(e) => {
+                const seconds = parseFloat(e.target.value)
+                if (!isNaN(seconds) && seconds > 0) {
+                  onDefaultImageDurationChange(Math.min(60, seconds))
+                }
+              }}
+              className="w-12 rounded border border-input bg-background px-1 py-0.5 text-right text-[10px] text-foreground focus:border-primary focus:outline-none"
+            />
+            <span>s</span>
+          </div>
+        </div>
         {indexingCount > 0 && (
           <div className="mt-1.5 flex items-center gap-1 text-[10px] text-muted-foreground">
             <Loader2 className="h-3 w-3 animate-spin" />
@@ -600,6 +720,8 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
         )}
       </div>
 
+      <SequenceList />
+
       {/* Drop zone & media grid */}
       <div
         className={`flex-1 overflow-y-auto p-3 scrollbar-thin transition-colors ${isDragOver ? "bg-primary/10" : ""
@@ -611,7 +733,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
         <input
           ref={fileInputRef}
           type="file"
-          accept="video/*"
+          accept="video/*,audio/*,image/*"
           multiple
           className="hidden"
           onChange={handleFileSelect}
@@ -631,13 +753,13 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                 }`}
             />
             <p className="text-sm font-medium text-foreground mb-1">
-              Drop videos here
+              Drop media here
             </p>
             <p className="text-xs text-muted-foreground">
               or click to browse
             </p>
             <p className="text-[10px] text-muted-foreground/60 mt-2">
-              MP4, MOV, WebM, AVI
+              MP4, MOV, WebM, MP3, WAV, M4A, PNG, JPG, WebP, SVG
             </p>
           </div>
         ) : (
@@ -651,7 +773,7 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
               whileTap={{ scale: 0.98 }}
             >
               <Upload className="h-3.5 w-3.5" />
-              Add more videos
+              Add more media
             </motion.button>
 
             {/* Media items */}
@@ -676,6 +798,8 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                   }`}
                   draggable={!media.isUploading}
                   onDragStart={(e) => !media.isUploading && handleMediaDragStart(e as unknown as React.DragEvent<Element>, media)}
+                  onClick={() => !media.isUploading && onOpenSource(media.id)}
+                  title={media.isUploading ? undefined : "Click to open in the source monitor"}
                 >
                   {media.thumbnail ? (
                     <img
@@ -685,7 +809,13 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                     />
                   ) : (
                     <div className="flex h-full items-center justify-center">
-                      <Film className="h-8 w-8 text-muted-foreground" />
+                      {getMediaKind(media) === "audio" ? (
+                        <Music className="h-8 w-8 text-muted-foreground" />
+                      ) : getMediaKind(media) === "image" ? (
+                        <ImageIcon className="h-8 w-8 text-muted-foreground" />
+                      ) : (
+                        <Film className="h-8 w-8 text-muted-foreground" />
+                      )}
                     </div>
                   )}
 
@@ -696,9 +826,35 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                     >
-                      <div className="flex flex-col items-center gap-1">
+                      <div className="flex w-full flex-col items-center gap-1 px-4">
                         <Loader2 className="h-6 w-6 text-white animate-spin" />
-                        <span className="text-[10px] text-white">Uploading...</span>
+                        <span className="text-[10px] text-white">
+                          {media.upload?.status === "retrying" ? "Connection lost, retrying..." : "Uploading..."}
+                        </span>
+                        {media.upload && media.upload.totalBytes > 0 && (
+                          <>
+                            <div className="h-1 w-full overflow-hidden rounded-full bg-white/20">
+                              <div
+                                className="h-full rounded-full bg-primary transition-[width]"
+                                style={{ width: `${(media.upload.uploadedBytes / media.upload.totalBytes) * 100}%` }}
+                              />
+                            </div>
+                            <span className="text-[9px] text-white/70">
+                              {formatBytes(media.upload.uploadedBytes)} / {formatBytes(media.upload.totalBytes)}
+                            </span>
+                          </>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onPauseUpload(media.id)
+                          }}
+                          className="mt-0.5 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-[10px] text-white hover:bg-black/80 cursor-pointer"
+                          title="Pause upload"
+                        >
+                          <Pause className="h-2.5 w-2.5" />
+                          Pause
+                        </button>
                       </div>
                     </motion.div>
                   )}
@@ -767,12 +923,55 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                         <AlertCircle className="h-2.5 w-2.5 text-white" />
                       </motion.div>
                     ) : null}
+
+                    {/* Proxy status */}
+                    {media.proxyStatus === "generating" ? (
+                      <motion.div
+                        className="rounded-full bg-violet-500/80 p-1"
+                        title="Creating proxy..."
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                      >
+                        <Loader2 className="h-2.5 w-2.5 text-white animate-spin" />
+                      </motion.div>
+                    ) : media.proxyStatus === "ready" ? (
+                      <motion.div
+                        className="rounded-full bg-violet-500/80 p-1"
+                        title="Previews with a proxy (exports use the original)"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                      >
+                        <Gauge className="h-2.5 w-2.5 text-white" />
+                      </motion.div>
+                    ) : media.proxyStatus === "failed" ? (
+                      <motion.div
+                        className="rounded-full bg-red-500/80 p-1"
+                        title="Proxy failed"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                      >
+                        <Gauge className="h-2.5 w-2.5 text-white" />
+                      </motion.div>
+                    ) : null}
+
+                    {/* Variable frame rate warning */}
+                    {media.metadata?.variableFrameRate && (
+                      <div
+                        className="rounded-full bg-amber-500/80 p-1"
+                        title="Variable frame rate - audio may drift out of sync and cuts may land between frames. Convert it to a constant frame rate for best results."
+                      >
+                        <AlertTriangle className="h-2.5 w-2.5 text-white" />
+                      </div>
+                    )}
                   </div>
 
                   {/* Action buttons */}
                   <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     {/* Index button - show if not indexed, failed, or no status (and has storageUrl) */}
-                    {media.storageUrl && (!media.twelveLabsStatus || media.twelveLabsStatus === "failed") && (
+                    {media.storageUrl && getMediaKind(media) === "video" && (!media.twelveLabsStatus || media.twelveLabsStatus === "failed") && (
                       <motion.button
                         onClick={(e) => {
                           e.stopPropagation()
@@ -787,6 +986,22 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                       </motion.button>
                     )}
 
+                    {/* Proxy button - for uploaded videos without one */}
+                    {media.storageUrl && getMediaKind(media) === "video" && !media.proxyUrl && media.proxyStatus !== "generating" && (
+                      <motion.button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onGenerateProxy(media.id)
+                        }}
+                        className="rounded-full bg-violet-500/80 p-1 hover:bg-violet-500 cursor-pointer"
+                        title={media.proxyStatus === "failed" ? "Retry proxy" : "Create proxy for smoother preview"}
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                      >
+                        <Gauge className="h-3 w-3 text-white" />
+                      </motion.button>
+                    )}
+
                     {/* Remove button */}
                     <motion.button
                       onClick={(e) => {
@@ -807,7 +1022,35 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
                     <div className="text-xs font-medium text-white truncate">
                       {media.name}
                     </div>
-                    <div className="text-[10px] text-white/60">{media.duration}</div>
+                    <div
+                      className="text-[10px] text-white/60"
+                      title={media.metadata ? describeMediaMetadata(media.metadata) : undefined}
+                    >
+                      {getMediaKind(media) === "image" ? "Image" : media.duration}
+                    </div>
+                    {/* Paused or failed upload */}
+                    {!media.isUploading && media.upload && (
+                      <div className="mt-1 flex items-center gap-1.5">
+                        <span
+                          className={`flex-1 truncate text-[10px] ${media.upload.status === "failed" ? "text-red-400" : "text-white/80"}`}
+                          title={media.upload.error}
+                        >
+                          {media.upload.status === "failed" ? "Upload failed" : "Upload paused"} ·{" "}
+                          {formatBytes(media.upload.uploadedBytes)} / {formatBytes(media.upload.totalBytes)}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onResumeUpload(media.id)
+                          }}
+                          className="flex items-center gap-1 rounded-full bg-primary/80 px-2 py-0.5 text-[10px] text-white hover:bg-primary cursor-pointer"
+                          title={media.upload.status === "failed" ? "Retry upload" : "Resume upload"}
+                        >
+                          {media.upload.status === "failed" ? <RotateCw className="h-2.5 w-2.5" /> : <Play className="h-2.5 w-2.5 fill-white" />}
+                          {media.upload.status === "failed" ? "Retry" : "Resume"}
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </motion.div>
               ))}
@@ -975,6 +1218,15 @@ function MediaTab({ mediaFiles, onFilesAdded, onRemoveFile, projectId, onReindex
   )
 }
 
+// Chromakey settings for a clip that hasn't had it turned on
+const DEFAULT_CHROMAKEY = {
+  enabled: false,
+  keyColor: "#00FF00",
+  similarity: 0.4,
+  smoothness: 0.1,
+  spill: 0.3,
+}
+
 const EFFECT_PRESETS: { id: EffectPreset; label: string }[] = [
   { id: "none", label: "None" },
   { id: "grayscale", label: "Black & White" },
@@ -987,17 +1239,70 @@ const EFFECT_PRESETS: { id: EffectPreset; label: string }[] = [
   { id: "ascii", label: "Dreamy" },
 ]
 
+interface KeyframeToggleProps {
+  property: AnimatableProperty
+  keyframes: ClipKeyframes | undefined
+  time: number | null // Media time under the playhead, null when the playhead is outside the clip
+  value: number // Current value, used for a new keyframe
+  onChange: (keyframes: ClipKeyframes | undefined) => void
+}
+
+// Diamond button that adds or removes a property's keyframe at the playhead, with the
+// keyframe's interpolation picker next to it
+function KeyframeToggle({ property, keyframes, time, value, onChange }: KeyframeToggleProps) {
+  const keyframe = time !== null ? findKeyframe(keyframes, property, time) : undefined
+  const animated = isPropertyAnimated(keyframes, property)
+
+  const toggle = () => {
+    if (time === null) return
+    if (keyframe) {
+      onChange(removeKeyframe(keyframes, property, time))
+    } else {
+      onChange(setKeyframe(keyframes, property, { time, value, interpolation: "linear" }))
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {keyframe && (
+        <select
+          value={keyframe.interpolation}
+          onChange={(e) => onChange(setKeyframe(keyframes, property, { ...keyframe, interpolation: e.target.value as KeyframeInterpolation }))}
+          className="rounded border border-input bg-background px-1 text-[10px] text-foreground"
+          title="Interpolation to the next keyframe"
+        >
+          <option value="linear">Linear</option>
+          <option value="ease">Ease</option>
+          <option value="bezier">Bezier</option>
+        </select>
+      )}
+      <button
+        onClick={toggle}
+        disabled={time === null}
+        className={`p-0.5 transition-colors cursor-pointer disabled:cursor-not-allowed disabled:opacity-40 ${animated ? "text-primary" : "text-muted-foreground hover:text-foreground"}`}
+        title={time === null ? "Move the playhead over the clip to set keyframes" : keyframe ? "Remove keyframe" : "Add keyframe at playhead"}
+      >
+        <Diamond className={`h-3 w-3 ${keyframe ? "fill-current" : ""}`} />
+      </button>
+    </div>
+  )
+}
+
 function EffectsTab() {
   const { 
     selectedClipId, 
+    selectedClipIds,
     timelineClips, 
     updateClip, 
+    updateClips,
     mediaFiles,
+    currentTime,
     generateCaptions,
     showCaptions,
     setShowCaptions,
     captionStyle,
     setCaptionStyle,
+    freezeFrame,
   } = useEditor()
 
   const selectedClip = timelineClips.find(c => c.id === selectedClipId)
@@ -1010,78 +1315,118 @@ function EffectsTab() {
     )
   }
   
-  const transform = selectedClip.transform ?? DEFAULT_CLIP_TRANSFORM
-  const effects = selectedClip.effects ?? DEFAULT_CLIP_EFFECTS
+  // Keyframes are timed from the clip's start - find where the playhead is in the clip
+  const playheadTicks = secondsToTicks(currentTime)
+  const getKeyframeTime = (clip: TimelineClip) => playheadTicks >= clip.startTime && playheadTicks < clip.startTime + clip.duration
+    ? getClipKeyframeTime(clip, playheadTicks)
+    : null
+  const keyframeTime = getKeyframeTime(selectedClip)
+  const keyframes = selectedClip.keyframes
+  const selectedClipMedia = mediaFiles.find((m) => m.id === selectedClip.mediaId)
+  // Animated properties show their value at the playhead (or at the clip start when it's elsewhere)
+  const evaluateAt = keyframeTime ?? 0
+  const staticEffects = selectedClip.effects ?? DEFAULT_CLIP_EFFECTS
+  const transform = getAnimatedTransform({ transform: selectedClip.transform ?? DEFAULT_CLIP_TRANSFORM, keyframes }, evaluateAt)
+  const effects = getAnimatedEffects({ effects: staticEffects, keyframes }, evaluateAt)
+  const audio = selectedClip.audio ?? DEFAULT_CLIP_AUDIO
+  // Fades can't be longer than the clip
+  const maxFadeSeconds = Math.floor(ticksToSeconds(selectedClip.duration) * 10) / 10
+
+  // With several clips selected the panel shows the clicked clip's values, and a change sets
+  // that one property on every selected clip, leaving the rest of each clip's settings alone
+  const isMultiSelect = selectedClipIds.length > 1
+  // A compound clip plays its sequence's clips, and those carry the animation and fades
+  const isCompound = !!selectedClip.sequenceId
+  const canKeyframe = !isMultiSelect && !isCompound
+  const updateSelection = (getUpdates: (clip: TimelineClip) => Partial<TimelineClip>) => {
+    updateClips(selectedClipIds.length > 0 ? selectedClipIds : [selectedClip.id], getUpdates)
+  }
 
-  const handleTransformChange = (key: keyof ClipTransform, value: number) => {
+  const handleKeyframesChange = (next: ClipKeyframes | undefined) => {
     if (!selectedClipId) return
-    updateClip(selectedClipId, {
-      transform: { ...transform, [key]: value }
+    updateClip(selectedClipId, { keyframes: next })
+  }
+
+  // Editing an animated property keys it at the playhead instead of changing the static value
+  // Returns null when the property isn't animated on the clip
+  const getAnimatedUpdate = (clip: TimelineClip, property: AnimatableProperty, value: number): Partial<TimelineClip> | null => {
+    if (!isPropertyAnimated(clip.keyframes, property)) return null
+    const time = getKeyframeTime(clip)
+    if (time === null) return {}
+    const existing = findKeyframe(clip.keyframes, property, time)
+    return {
+      keyframes: setKeyframe(clip.keyframes, property, {
+        ...existing,
+        time,
+        value,
+        interpolation: existing?.interpolation ?? "linear",
+      }),
+    }
+  }
+
+  const handleTransformChange = (key: keyof ClipTransform, value: number) => {
+    updateSelection((clip) => getAnimatedUpdate(clip, key, value) ?? {
+      transform: { ...(clip.transform ?? DEFAULT_CLIP_TRANSFORM), [key]: value }
     })
   }
 
-  const handlePresetChange = (preset: EffectPreset) => {
-    if (!selectedClipId) return
-    console.log("[Effects] Changing preset for clip:", selectedClipId, "from", effects.preset, "to", preset)
-    updateClip(selectedClipId, {
-      effects: { ...effects, preset }
+  const handleAudioChange = (key: keyof ClipAudio, value: number | boolean) => {
+    updateSelection((clip) => clip.sequenceId && (key === "fadeIn" || key === "fadeOut") ? {} : {
+      audio: { ...(clip.audio ?? DEFAULT_CLIP_AUDIO), [key]: value }
     })
   }
 
-  const handleEffectChange = (key: keyof ClipEffects, value: number) => {
-    if (!selectedClipId) return
-    console.log("[Effects] Changing", key, "for clip:", selectedClipId, "to", value)
-    updateClip(selectedClipId, {
-      effects: { ...effects, [key]: value }
+  const handlePresetChange = (preset: EffectPreset) => {
+    console.log("[Effects] Changing preset for clips:", selectedClipIds, "from", effects.preset, "to", preset)
+    updateSelection((clip) => ({
+      effects: { ...(clip.effects ?? DEFAULT_CLIP_EFFECTS), preset }
+    }))
+  }
+
+  const handleEffectChange = (key: typeof EFFECT_PROPERTIES[number], value: number) => {
+    console.log("[Effects] Changing", key, "for clips:", selectedClipIds, "to", value)
+    updateSelection((clip) => getAnimatedUpdate(clip, key, value) ?? {
+      effects: { ...(clip.effects ?? DEFAULT_CLIP_EFFECTS), [key]: value }
     })
   }
 
   const handleChromakeyToggle = (enabled: boolean) => {
-    if (!selectedClipId) return
-    const currentChromakey = effects.chromakey ?? {
-      enabled: false,
-      keyColor: "#00FF00",
-      similarity: 0.4,
-      smoothness: 0.1,
-      spill: 0.3,
-    }
-    updateClip(selectedClipId, {
-      effects: {
-        ...effects,
-        chromakey: {
-          ...currentChromakey,
-          enabled,
+    updateSelection((clip) => {
+      const clipEffects = clip.effects ?? DEFAULT_CLIP_EFFECTS
+      return {
+        effects: {
+          ...clipEffects,
+          chromakey: {
+            ...(clipEffects.chromakey ?? DEFAULT_CHROMAKEY),
+            enabled,
+          },
         },
-      },
+      }
     })
   }
 
   const handleChromakeyChange = (key: "keyColor" | "similarity" | "smoothness" | "spill", value: string | number) => {
-    if (!selectedClipId) return
-    const currentChromakey = effects.chromakey ?? {
-      enabled: false,
-      keyColor: "#00FF00",
-      similarity: 0.4,
-      smoothness: 0.1,
-      spill: 0.3,
-    }
-    updateClip(selectedClipId, {
-      effects: {
-        ...effects,
-        chromakey: {
-          ...currentChromakey,
-          [key]: value,
+    updateSelection((clip) => {
+      const clipEffects = clip.effects ?? DEFAULT_CLIP_EFFECTS
+      return {
+        effects: {
+          ...clipEffects,
+          chromakey: {
+            ...(clipEffects.chromakey ?? DEFAULT_CHROMAKEY),
+            [key]: value,
+          },
         },
-      },
+      }
     })
   }
 
   const resetAll = () => {
-    if (!selectedClipId) return
-    updateClip(selectedClipId, { 
+    updateSelection(() => ({ 
       transform: DEFAULT_CLIP_TRANSFORM,
-      effects: DEFAULT_CLIP_EFFECTS 
-    })
+      effects: DEFAULT_CLIP_EFFECTS,
+      audio: DEFAULT_CLIP_AUDIO,
+      keyframes: undefined,
+    }))
   }
 
   const currentPresetLabel = EFFECT_PRESETS.find(p => p.id === effects.preset)?.label ?? "None"
@@ -1095,7 +1440,7 @@ function EffectsTab() {
           animate={{ opacity: 1, x: 0 }}
           transition={{ type: "spring", stiffness: 300, damping: 25 }}
         >
-          {selectedClip.label}
+          {isMultiSelect ? `${selectedClipIds.length} clips selected` : selectedClip.label}
         </motion.span>
         <motion.button
           onClick={resetAll}
@@ -1108,7 +1453,23 @@ function EffectsTab() {
         </motion.button>
       </div>
       
-      <Accordion type="multiple" className="w-full">
+      {/* Text clips open on their text settings; remount when switching clip kinds so that applies */}
+      <Accordion key={selectedClip.type} type="multiple" defaultValue={selectedClip.type === "text" ? ["text"] : []} className="w-full">
+        {/* Text Accordion */}
+        {selectedClip.type === "text" && !isMultiSelect && (
+          <AccordionItem value="text" className="border-border">
+            <AccordionTrigger className="px-3 py-2 text-xs font-medium hover:no-underline">
+              Text
+            </AccordionTrigger>
+            <AccordionContent className="px-3 pb-3">
+              <TextSection
+                text={resolveTextStyle(selectedClip.text)}
+                onChange={(text) => updateClip(selectedClip.id, { text, label: getTextClipLabel(text.content) })}
+              />
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
         {/* Transform Accordion */}
         <AccordionItem value="transform" className="border-border">
           <AccordionTrigger className="px-3 py-2 text-xs font-medium hover:no-underline">
@@ -1118,19 +1479,25 @@ function EffectsTab() {
             <div className="space-y-3">
               <div className="grid grid-cols-2 gap-2">
                 <div>
-                  <label className="text-xs text-muted-foreground mb-1 block">Position X</label>
+                  <div className="mb-1 flex items-center justify-between">
+                    <label className="text-xs text-muted-foreground">Position X</label>
+                    {canKeyframe && <KeyframeToggle property="positionX" keyframes={keyframes} time={keyframeTime} value={transform.positionX} onChange={handleKeyframesChange} />}
+                  </div>
                   <input
                     type="number"
-                    value={transform.positionX}
+                    value={Math.round(transform.positionX)}
                     onChange={(e) => handleTransformChange("positionX", parseInt(e.target.value) || 0)}
                     className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
                   />
                 </div>
                 <div>
-                  <label className="text-xs text-muted-foreground mb-1 block">Position Y</label>
+                  <div className="mb-1 flex items-center justify-between">
+                    <label className="text-xs text-muted-foreground">Position Y</label>
+                    {canKeyframe && <KeyframeToggle property="positionY" keyframes={keyframes} time={keyframeTime} value={transform.positionY} onChange={handleKeyframesChange} />}
+                  </div>
                   <input
                     type="number"
-                    value={transform.positionY}
+                    value={Math.round(transform.positionY)}
                     onChange={(e) => handleTransformChange("positionY", parseInt(e.target.value) || 0)}
                     className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
                   />
@@ -1140,7 +1507,10 @@ function EffectsTab() {
               <div>
                 <div className="flex items-center justify-between text-xs mb-1">
                   <span className="text-muted-foreground">Scale</span>
-                  <span className="text-muted-foreground">{transform.scale}%</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(transform.scale)}%</span>
+                    {canKeyframe && <KeyframeToggle property="scale" keyframes={keyframes} time={keyframeTime} value={transform.scale} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1155,7 +1525,10 @@ function EffectsTab() {
               <div>
                 <div className="flex items-center justify-between text-xs mb-1">
                   <span className="text-muted-foreground">Opacity</span>
-                  <span className="text-muted-foreground">{transform.opacity}%</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(transform.opacity)}%</span>
+                    {canKeyframe && <KeyframeToggle property="opacity" keyframes={keyframes} time={keyframeTime} value={transform.opacity} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1170,6 +1543,131 @@ function EffectsTab() {
           </AccordionContent>
         </AccordionItem>
 
+        {/* Speed Accordion - only clips that play media can be retimed */}
+        {selectedClipMedia && getMediaKind(selectedClipMedia) !== "image" && !isMultiSelect && (
+          <AccordionItem value="speed" className="border-border">
+            <AccordionTrigger className="px-3 py-2 text-xs font-medium hover:no-underline">
+              Speed
+            </AccordionTrigger>
+            <AccordionContent className="px-3 pb-3">
+              <SpeedSection
+                clip={selectedClip}
+                time={keyframeTime}
+                onChange={(updates) => updateClip(selectedClip.id, updates)}
+                onFreeze={selectedClip.type === "video" && getMediaKind(selectedClipMedia) === "video"
+                  ? () => {
+                    const { error } = freezeFrame(selectedClip.id, currentTime)
+                    if (error) console.error("[MediaPanel] Failed to freeze frame:", error)
+                  }
+                  : undefined}
+              />
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {/* Audio Accordion - text clips are silent */}
+        {selectedClip.type !== "text" && (
+          <AccordionItem value="audio" className="border-border">
+            <div className="flex items-center justify-between border-b border-border px-3 py-2">
+              <AccordionTrigger className="flex-1 text-xs font-medium hover:no-underline py-0">
+                <span>Audio</span>
+              </AccordionTrigger>
+              <motion.button
+                type="button"
+                onClick={() => handleAudioChange("muted", !audio.muted)}
+                className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs transition-colors cursor-pointer ${
+                  audio.muted
+                    ? "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                    : "bg-primary/10 text-primary hover:bg-primary/20"
+                }`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ type: "spring", stiffness: 400, damping: 17 }}
+                title={selectedClip.type === "video" ? "Mute the clip's embedded audio" : "Mute clip"}
+              >
+                {audio.muted ? <VolumeX className="h-3.5 w-3.5" /> : <Volume2 className="h-3.5 w-3.5" />}
+                <span>{audio.muted ? "Muted" : "On"}</span>
+              </motion.button>
+            </div>
+            <AccordionContent className="px-3 pb-3">
+              <div className={`space-y-3 pt-2 ${audio.muted ? "opacity-50 pointer-events-none" : ""}`}>
+                <div>
+                  <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="text-muted-foreground">Volume</span>
+                    <span className="text-muted-foreground">{audio.volume}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="200"
+                    value={audio.volume}
+                    onChange={(e) => handleAudioChange("volume", parseInt(e.target.value))}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between text-xs mb-1">
+                    <span className="text-muted-foreground">Pan</span>
+                    <span className="text-muted-foreground">
+                      {audio.pan === 0 ? "Center" : audio.pan < 0 ? `L ${-audio.pan}` : `R ${audio.pan}`}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min="-100"
+                    max="100"
+                    value={audio.pan}
+                    onChange={(e) => handleAudioChange("pan", parseInt(e.target.value))}
+                    onDoubleClick={() => handleAudioChange("pan", 0)}
+                    className="w-full accent-primary"
+                  />
+                </div>
+
+                {isCompound ? (
+                  <p className="text-xs text-muted-foreground">
+                    Fades and keyframes go on the clips inside a compound clip - open it to add them.
+                  </p>
+                ) : (
+                  <>
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="text-muted-foreground">Fade In</span>
+                        <span className="text-muted-foreground">{ticksToSeconds(audio.fadeIn).toFixed(1)}s</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max={maxFadeSeconds}
+                        step="0.1"
+                        value={ticksToSeconds(audio.fadeIn)}
+                        onChange={(e) => handleAudioChange("fadeIn", secondsToTicks(parseFloat(e.target.value)))}
+                        className="w-full accent-primary"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="text-muted-foreground">Fade Out</span>
+                        <span className="text-muted-foreground">{ticksToSeconds(audio.fadeOut).toFixed(1)}s</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max={maxFadeSeconds}
+                        step="0.1"
+                        value={ticksToSeconds(audio.fadeOut)}
+                        onChange={(e) => handleAudioChange("fadeOut", secondsToTicks(parseFloat(e.target.value)))}
+                        className="w-full accent-primary"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
         {/* Presets Accordion */}
         <AccordionItem value="presets" className="border-border">
           <AccordionTrigger className="px-3 py-2 text-xs font-medium hover:no-underline">
@@ -1230,7 +1728,10 @@ function EffectsTab() {
               <div>
                 <div className="mb-1 flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Blur</span>
-                  <span className="text-muted-foreground">{effects.blur}px</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(effects.blur)}px</span>
+                    {canKeyframe && <KeyframeToggle property="blur" keyframes={keyframes} time={keyframeTime} value={effects.blur} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1245,7 +1746,10 @@ function EffectsTab() {
               <div>
                 <div className="mb-1 flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Brightness</span>
-                  <span className="text-muted-foreground">{effects.brightness}%</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(effects.brightness)}%</span>
+                    {canKeyframe && <KeyframeToggle property="brightness" keyframes={keyframes} time={keyframeTime} value={effects.brightness} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1260,7 +1764,10 @@ function EffectsTab() {
               <div>
                 <div className="mb-1 flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Contrast</span>
-                  <span className="text-muted-foreground">{effects.contrast}%</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(effects.contrast)}%</span>
+                    {canKeyframe && <KeyframeToggle property="contrast" keyframes={keyframes} time={keyframeTime} value={effects.contrast} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1275,7 +1782,10 @@ function EffectsTab() {
               <div>
                 <div className="mb-1 flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Saturation</span>
-                  <span className="text-muted-foreground">{effects.saturate}%</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(effects.saturate)}%</span>
+                    {canKeyframe && <KeyframeToggle property="saturate" keyframes={keyframes} time={keyframeTime} value={effects.saturate} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1290,7 +1800,10 @@ function EffectsTab() {
               <div>
                 <div className="mb-1 flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Hue Rotate</span>
-                  <span className="text-muted-foreground">{effects.hueRotate}°</span>
+                  <div className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{Math.round(effects.hueRotate)}°</span>
+                    {canKeyframe && <KeyframeToggle property="hueRotate" keyframes={keyframes} time={keyframeTime} value={effects.hueRotate} onChange={handleKeyframesChange} />}
+                  </div>
                 </div>
                 <input
                   type="range"
@@ -1305,191 +1818,195 @@ function EffectsTab() {
           </AccordionContent>
         </AccordionItem>
 
-        {/* Chromakey Accordion */}
-        <AccordionItem value="chromakey" className="border-border">
-          <div className="flex items-center justify-between border-b border-border px-3 py-2">
-            <AccordionTrigger className="flex-1 text-xs font-medium hover:no-underline py-0">
-              <span>Green Screen</span>
-            </AccordionTrigger>
-            <motion.button
-              type="button"
-              onClick={() => handleChromakeyToggle(!(effects.chromakey?.enabled ?? false))}
-              className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs transition-colors cursor-pointer ${
-                effects.chromakey?.enabled
-                  ? "bg-primary/10 text-primary hover:bg-primary/20"
-                  : "text-muted-foreground hover:bg-secondary hover:text-foreground"
-              }`}
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              transition={{ type: "spring", stiffness: 400, damping: 17 }}
-            >
-              <AnimatePresence mode="wait">
-                {effects.chromakey?.enabled ? (
-                  <motion.div
-                    key="on"
-                    className="flex items-center gap-1.5"
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 10 }}
-                    transition={{ type: "spring", stiffness: 500, damping: 25 }}
-                  >
+        {/* Chromakey Accordion - keys video and image frames only */}
+        {selectedClip.type !== "text" && (
+          <AccordionItem value="chromakey" className="border-border">
+            <div className="flex items-center justify-between border-b border-border px-3 py-2">
+              <AccordionTrigger className="flex-1 text-xs font-medium hover:no-underline py-0">
+                <span>Green Screen</span>
+              </AccordionTrigger>
+              <motion.button
+                type="button"
+                onClick={() => handleChromakeyToggle(!(effects.chromakey?.enabled ?? false))}
+                className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs transition-colors cursor-pointer ${
+                  effects.chromakey?.enabled
+                    ? "bg-primary/10 text-primary hover:bg-primary/20"
+                    : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                }`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ type: "spring", stiffness: 400, damping: 17 }}
+              >
+                <AnimatePresence mode="wait">
+                  {effects.chromakey?.enabled ? (
                     <motion.div
-                      animate={{ scale: [1, 1.2, 1] }}
-                      transition={{ duration: 0.3 }}
+                      key="on"
+                      className="flex items-center gap-1.5"
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      transition={{ type: "spring", stiffness: 500, damping: 25 }}
                     >
-                      <Eye className="h-3.5 w-3.5" />
+                      <motion.div
+                        animate={{ scale: [1, 1.2, 1] }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <Eye className="h-3.5 w-3.5" />
+                      </motion.div>
+                      <span>On</span>
                     </motion.div>
-                    <span>On</span>
-                  </motion.div>
-                ) : (
-                  <motion.div
-                    key="off"
-                    className="flex items-center gap-1.5"
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 10 }}
-                    transition={{ type: "spring", stiffness: 500, damping: 25 }}
-                  >
-                    <EyeOff className="h-3.5 w-3.5" />
-                    <span>Off</span>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </motion.button>
-          </div>
-          <AccordionContent className="px-3 pb-3">
-            <div className="space-y-3">
-              <div>
-                <label className="text-xs text-muted-foreground mb-1 block">Key Color</label>
-                <ColorPicker
-                  value={effects.chromakey?.keyColor ?? "#00FF00"}
-                  onChange={(color) => handleChromakeyChange("keyColor", color)}
-                  disabled={!effects.chromakey?.enabled}
-                />
-              </div>
+                  ) : (
+                    <motion.div
+                      key="off"
+                      className="flex items-center gap-1.5"
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                    >
+                      <EyeOff className="h-3.5 w-3.5" />
+                      <span>Off</span>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </motion.button>
+            </div>
+            <AccordionContent className="px-3 pb-3">
+              <div className="space-y-3">
+                <div>
+                  <label className="text-xs text-muted-foreground mb-1 block">Key Color</label>
+                  <ColorPicker
+                    value={effects.chromakey?.keyColor ?? "#00FF00"}
+                    onChange={(color) => handleChromakeyChange("keyColor", color)}
+                    disabled={!effects.chromakey?.enabled}
+                  />
+                </div>
 
-              <div>
-                <div className="mb-1 flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Similarity</span>
-                  <span className="text-muted-foreground">{((effects.chromakey?.similarity ?? 0.4) * 100).toFixed(0)}%</span>
+                <div>
+                  <div className="mb-1 flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">Similarity</span>
+                    <span className="text-muted-foreground">{((effects.chromakey?.similarity ?? 0.4) * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={((effects.chromakey?.similarity ?? 0.4) * 100)}
+                    onChange={(e) => handleChromakeyChange("similarity", parseInt(e.target.value) / 100)}
+                    className="w-full accent-primary"
+                    disabled={!effects.chromakey?.enabled}
+                  />
+                  <p className="text-[10px] text-muted-foreground mt-0.5">How close colors must be to be removed</p>
                 </div>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  step="1"
-                  value={((effects.chromakey?.similarity ?? 0.4) * 100)}
-                  onChange={(e) => handleChromakeyChange("similarity", parseInt(e.target.value) / 100)}
-                  className="w-full accent-primary"
-                  disabled={!effects.chromakey?.enabled}
-                />
-                <p className="text-[10px] text-muted-foreground mt-0.5">How close colors must be to be removed</p>
-              </div>
 
-              <div>
-                <div className="mb-1 flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Smoothness</span>
-                  <span className="text-muted-foreground">{((effects.chromakey?.smoothness ?? 0.1) * 100).toFixed(0)}%</span>
+                <div>
+                  <div className="mb-1 flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">Smoothness</span>
+                    <span className="text-muted-foreground">{((effects.chromakey?.smoothness ?? 0.1) * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={((effects.chromakey?.smoothness ?? 0.1) * 100)}
+                    onChange={(e) => handleChromakeyChange("smoothness", parseInt(e.target.value) / 100)}
+                    className="w-full accent-primary"
+                    disabled={!effects.chromakey?.enabled}
+                  />
+                  <p className="text-[10px] text-muted-foreground mt-0.5">Edge softness</p>
                 </div>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  step="1"
-                  value={((effects.chromakey?.smoothness ?? 0.1) * 100)}
-                  onChange={(e) => handleChromakeyChange("smoothness", parseInt(e.target.value) / 100)}
-                  className="w-full accent-primary"
-                  disabled={!effects.chromakey?.enabled}
-                />
-                <p className="text-[10px] text-muted-foreground mt-0.5">Edge softness</p>
-              </div>
 
-              <div>
-                <div className="mb-1 flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">Spill Suppression</span>
-                  <span className="text-muted-foreground">{((effects.chromakey?.spill ?? 0.3) * 100).toFixed(0)}%</span>
+                <div>
+                  <div className="mb-1 flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">Spill Suppression</span>
+                    <span className="text-muted-foreground">{((effects.chromakey?.spill ?? 0.3) * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={((effects.chromakey?.spill ?? 0.3) * 100)}
+                    onChange={(e) => handleChromakeyChange("spill", parseInt(e.target.value) / 100)}
+                    className="w-full accent-primary"
+                    disabled={!effects.chromakey?.enabled}
+                  />
+                  <p className="text-[10px] text-muted-foreground mt-0.5">Removes color bleed from edges</p>
                 </div>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  step="1"
-                  value={((effects.chromakey?.spill ?? 0.3) * 100)}
-                  onChange={(e) => handleChromakeyChange("spill", parseInt(e.target.value) / 100)}
-                  className="w-full accent-primary"
-                  disabled={!effects.chromakey?.enabled}
-                />
-                <p className="text-[10px] text-muted-foreground mt-0.5">Removes color bleed from edges</p>
               </div>
-            </div>
-          </AccordionContent>
-        </AccordionItem>
+            </AccordionContent>
+          </AccordionItem>
+        )}
 
-        {/* Captions Accordion */}
-        <AccordionItem value="captions" className="border-border">
-          <div className="flex items-center justify-between border-b border-border px-3 py-2">
-            <AccordionTrigger className="flex-1 text-xs font-medium hover:no-underline py-0">
-              <div className="flex items-center gap-1.5">
-                <Captions className="h-3.5 w-3.5" />
-                <span>Captions</span>
-              </div>
-            </AccordionTrigger>
-            <motion.button
-              type="button"
-              onClick={() => setShowCaptions(!showCaptions)}
-              className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs transition-colors cursor-pointer ${
-                showCaptions
-                  ? "bg-primary/10 text-primary hover:bg-primary/20"
-                  : "text-muted-foreground hover:bg-secondary hover:text-foreground"
-              }`}
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-              transition={{ type: "spring", stiffness: 400, damping: 17 }}
-            >
-              <AnimatePresence mode="wait">
-                {showCaptions ? (
-                  <motion.div
-                    key="show"
-                    className="flex items-center gap-1.5"
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 10 }}
-                    transition={{ type: "spring", stiffness: 500, damping: 25 }}
-                  >
+        {/* Captions Accordion - captions come from the clip's media */}
+        {selectedClip.type !== "text" && !isMultiSelect && (
+          <AccordionItem value="captions" className="border-border">
+            <div className="flex items-center justify-between border-b border-border px-3 py-2">
+              <AccordionTrigger className="flex-1 text-xs font-medium hover:no-underline py-0">
+                <div className="flex items-center gap-1.5">
+                  <Captions className="h-3.5 w-3.5" />
+                  <span>Captions</span>
+                </div>
+              </AccordionTrigger>
+              <motion.button
+                type="button"
+                onClick={() => setShowCaptions(!showCaptions)}
+                className={`flex items-center gap-1.5 px-2 py-0.5 rounded text-xs transition-colors cursor-pointer ${
+                  showCaptions
+                    ? "bg-primary/10 text-primary hover:bg-primary/20"
+                    : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                }`}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                transition={{ type: "spring", stiffness: 400, damping: 17 }}
+              >
+                <AnimatePresence mode="wait">
+                  {showCaptions ? (
                     <motion.div
-                      animate={{ scale: [1, 1.2, 1] }}
-                      transition={{ duration: 0.3 }}
+                      key="show"
+                      className="flex items-center gap-1.5"
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      transition={{ type: "spring", stiffness: 500, damping: 25 }}
                     >
-                      <Eye className="h-3.5 w-3.5" />
+                      <motion.div
+                        animate={{ scale: [1, 1.2, 1] }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <Eye className="h-3.5 w-3.5" />
+                      </motion.div>
+                      <span>Show</span>
                     </motion.div>
-                    <span>Show</span>
-                  </motion.div>
-                ) : (
-                  <motion.div
-                    key="hide"
-                    className="flex items-center gap-1.5"
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 10 }}
-                    transition={{ type: "spring", stiffness: 500, damping: 25 }}
-                  >
-                    <EyeOff className="h-3.5 w-3.5" />
-                    <span>Hide</span>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </motion.button>
-          </div>
-          <AccordionContent className="px-3 pb-3">
-            <CaptionsSection 
-              selectedClip={selectedClip} 
-              mediaFiles={mediaFiles} 
-              generateCaptions={generateCaptions}
-              captionStyle={captionStyle}
-              setCaptionStyle={setCaptionStyle}
-            />
-          </AccordionContent>
-        </AccordionItem>
+                  ) : (
+                    <motion.div
+                      key="hide"
+                      className="flex items-center gap-1.5"
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      transition={{ type: "spring", stiffness: 500, damping: 25 }}
+                    >
+                      <EyeOff className="h-3.5 w-3.5" />
+                      <span>Hide</span>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </motion.button>
+            </div>
+            <AccordionContent className="px-3 pb-3">
+              <CaptionsSection 
+                selectedClip={selectedClip} 
+                mediaFiles={mediaFiles} 
+                generateCaptions={generateCaptions}
+                captionStyle={captionStyle}
+                setCaptionStyle={setCaptionStyle}
+              />
+            </AccordionContent>
+          </AccordionItem>
+        )}
       </Accordion>
     </div>
   )
@@ -1691,3 +2208,294 @@ function CaptionsSection({ selectedClip, mediaFiles, generateCaptions, captionSt
     </div>
   )
 }
+
+interface TextSectionProps {
+  text: TextClipStyle
+  onChange: (text: TextClipStyle) => void
+}
+
+function TextSection({ text, onChange }: TextSectionProps) {
+  const set = <K extends keyof TextClipStyle>(key: K, value: TextClipStyle[K]) => onChange({ ...text, [key]: value })
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={text.content}
+        onChange={(e) => set("content", e.target.value)}
+        rows={3}
+        placeholder="Enter text"
+        className="w-full resize-none rounded border border-input bg-background px-2 py-1.5 text-xs text-foreground"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Font</label>
+          <select
+            value={text.fontFamily}
+            onChange={(e) => set("fontFamily", e.target.value)}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          >
+            {TEXT_FONTS.map((font) => (
+              <option key={font} value={font}>{font}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Size</label>
+          <input
+            type="number"
+            min={8}
+            max={400}
+            value={text.fontSize}
+            onChange={(e) => set("fontSize", Math.max(8, parseInt(e.target.value) || 8))}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Weight</label>
+          <select
+            value={text.fontWeight}
+            onChange={(e) => set("fontWeight", parseInt(e.target.value))}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          >
+            <option value={300}>Light</option>
+            <option value={400}>Regular</option>
+            <option value={700}>Bold</option>
+            <option value={900}>Black</option>
+          </select>
+        </div>
+        <div className="flex items-end">
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer pb-1">
+            <input
+              type="checkbox"
+              checked={text.italic}
+              onChange={(e) => set("italic", e.target.checked)}
+              className="accent-primary"
+            />
+            Italic
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Align</label>
+          <select
+            value={text.align}
+            onChange={(e) => set("align", e.target.value as TextAlign)}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          >
+            <option value="left">Left</option>
+            <option value="center">Center</option>
+            <option value="right">Right</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Position</label>
+          <select
+            value={text.verticalAlign}
+            onChange={(e) => set("verticalAlign", e.target.value as TextVerticalAlign)}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          >
+            <option value="top">Top</option>
+            <option value="middle">Middle</option>
+            <option value="bottom">Bottom</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Color</label>
+        <ColorPicker value={text.color} onChange={(color) => set("color", color)} />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between text-xs mb-1">
+          <span className="text-muted-foreground">Outline</span>
+          <span className="text-muted-foreground">{text.strokeWidth}px</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="20"
+          value={text.strokeWidth}
+          onChange={(e) => set("strokeWidth", parseInt(e.target.value))}
+          className="w-full accent-primary"
+        />
+        {text.strokeWidth > 0 && (
+          <div className="mt-1">
+            <ColorPicker value={text.strokeColor} onChange={(color) => set("strokeColor", color)} />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between text-xs mb-1">
+          <span className="text-muted-foreground">Shadow</span>
+          <span className="text-muted-foreground">{text.shadowBlur}px</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="50"
+          value={text.shadowBlur}
+          onChange={(e) => set("shadowBlur", parseInt(e.target.value))}
+          className="w-full accent-primary"
+        />
+        {text.shadowBlur > 0 && (
+          <div className="mt-1">
+            <ColorPicker value={text.shadowColor} onChange={(color) => set("shadowColor", color)} />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between text-xs mb-1">
+          <span className="text-muted-foreground">Background</span>
+          <span className="text-muted-foreground">{text.backgroundOpacity}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={text.backgroundOpacity}
+          onChange={(e) => set("backgroundOpacity", parseInt(e.target.value))}
+          className="w-full accent-primary"
+        />
+        {text.backgroundOpacity > 0 && (
+          <div className="mt-1">
+            <ColorPicker value={text.backgroundColor} onChange={(color) => set("backgroundColor", color)} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const SPEED_PRESETS = [0.25, 0.5, 1, 2, 4]
+
+interface SpeedSectionProps {
+  clip: TimelineClip
+  time: number | null // Source media time under the playhead, or null when it's off the clip
+  onChange: (updates: Partial<TimelineClip>) => void
+  onFreeze?: () => void // Only video clips can be frozen
+}
+
+function SpeedSection({ clip, time, onChange, onFreeze }: SpeedSectionProps) {
+  const ramp = clip.speedRamp ?? []
+
+  if (clip.freeze) {
+    return <p className="text-xs text-muted-foreground">Freeze frame - holds a single frame for the whole clip.</p>
+  }
+
+  // The clip keeps the same footage, so its length follows the speed
+  const setSpeed = (speed: number) => {
+    const next = clampClipSpeed(speed)
+    onChange({ speed: next === 1 ? undefined : next, duration: getRetimedDuration(clip, { speed: next, speedRamp: clip.speedRamp }) })
+  }
+  const setRamp = (next: Keyframe[]) => {
+    const speedRamp = next.length > 0 ? [...next].sort((a, b) => a.time - b.time) : undefined
+    onChange({ speedRamp, duration: getRetimedDuration(clip, { speed: clip.speed, speedRamp }) })
+  }
+  const addRampKeyframe = () => {
+    if (time === null) return
+    setRamp([...ramp.filter((k) => k.time !== time), { time, value: getClipSpeedAt(clip, time), interpolation: "ease" }])
+  }
+
+  return (
+    <div className="space-y-3">
+      {ramp.length === 0 ? (
+        <div>
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="text-muted-foreground">Speed</span>
+            <span className="text-muted-foreground">{clip.speed ?? 1}x</span>
+          </div>
+          <input
+            type="number"
+            min={MIN_CLIP_SPEED}
+            max={MAX_CLIP_SPEED}
+            step={0.05}
+            value={clip.speed ?? 1}
+            onChange={(e) => setSpeed(parseFloat(e.target.value) || 1)}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+          />
+          <div className="mt-1.5 flex gap-1">
+            {SPEED_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => setSpeed(preset)}
+                className={`flex-1 rounded px-1 py-0.5 text-[10px] cursor-pointer transition-colors ${
+                  (clip.speed ?? 1) === preset ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {preset}x
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          <span className="text-xs text-muted-foreground">Speed ramp</span>
+          {ramp.map((keyframe) => (
+            <div key={keyframe.time} className="flex items-center gap-1.5">
+              <span className="w-14 font-mono text-[10px] text-muted-foreground">
+                {ticksToSeconds(keyframe.time - clip.mediaOffset).toFixed(2)}s
+              </span>
+              <input
+                type="number"
+                min={MIN_CLIP_SPEED}
+                max={MAX_CLIP_SPEED}
+                step={0.05}
+                value={keyframe.value}
+                onChange={(e) => setRamp(ramp.map((k) => (k.time === keyframe.time ? { ...k, value: clampClipSpeed(parseFloat(e.target.value) || 1) } : k)))}
+                className="flex-1 rounded border border-input bg-background px-2 py-0.5 text-xs text-foreground"
+              />
+              <button
+                type="button"
+                onClick={() => setRamp(ramp.filter((k) => k.time !== keyframe.time))}
+                className="rounded p-0.5 text-muted-foreground hover:text-foreground cursor-pointer"
+                title="Remove keyframe"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={addRampKeyframe}
+        disabled={time === null}
+        className="flex w-full items-center justify-center gap-1.5 rounded bg-secondary px-2 py-1 text-xs text-foreground hover:bg-secondary/80 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+        title={time === null ? "Move the playhead over the clip to key its speed" : "Key the speed at the playhead"}
+      >
+        <Diamond className="h-3 w-3" />
+        Add Speed Keyframe
+      </button>
+
+      <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!clip.reverse}
+          onChange={(e) => onChange({ reverse: e.target.checked || undefined })}
+          className="accent-primary"
+        />
+        Reverse
+      </label>
+
+      {onFreeze && (
+        <button
+          type="button"
+          onClick={onFreeze}
+          disabled={time === null}
+          className="w-full rounded bg-secondary px-2 py-1 text-xs text-foreground hover:bg-secondary/80 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+          title="Hold the frame under the playhead, pushing the rest of the track later"
+        >
+          Freeze Frame at Playhead
+        </button>
+      )}
+    </div>
+  )
+}
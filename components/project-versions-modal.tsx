@@ -0,0 +1,245 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { getProject, type ProjectData } from "@/lib/projects"
+import {
+  createProjectVersion,
+  deleteProjectVersion,
+  forkProjectVersion,
+  getProjectVersion,
+  getProjectVersions,
+  getVersionLabel,
+  restoreProjectVersion,
+  summarizeTimelineChanges,
+  type ProjectVersion,
+  type ProjectVersionSummary,
+} from "@/lib/project-versions"
+import { Bookmark, Clock, Copy, Loader2, RotateCcw, Trash2 } from "lucide-react"
+
+interface ProjectVersionsModalProps {
+  project: ProjectData | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  beforeChange?: () => Promise<void> // Runs before a checkpoint or restore, e.g. to save pending edits
+  onRestored?: (project: ProjectData) => void
+  onForked?: (project: ProjectData) => void
+}
+
+// e.g. "Since this version: 2 clips added, 1 removed, 3 changed"
+function describeChanges(version: ProjectVersion, current: ProjectData | null): string {
+  const { added, removed, changed } = summarizeTimelineChanges(version.timeline_data, current?.timeline_data ?? null)
+  if (added + removed + changed === 0) return "Same clips as the project now"
+  const parts = [
+    added > 0 && `${added} clip${added === 1 ? "" : "s"} added`,
+    removed > 0 && `${removed} removed`,
+    changed > 0 && `${changed} changed`,
+  ].filter(Boolean)
+  return `Since this version: ${parts.join(", ")}`
+}
+
+export function ProjectVersionsModal({
+  project,
+  open,
+  onOpenChange,
+  beforeChange,
+  onRestored,
+  onForked,
+}: ProjectVersionsModalProps) {
+  const [versions, setVersions] = useState<ProjectVersionSummary[]>([])
+  const [current, setCurrent] = useState<ProjectData | null>(null) // The project as saved now
+  const [selected, setSelected] = useState<ProjectVersion | null>(null)
+  const [checkpointName, setCheckpointName] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadVersions = useCallback(async () => {
+    if (!project) return
+    setIsLoading(true)
+    const [{ data: saved, unreadable }, { data, error }] = await Promise.all([getProject(project.id), getProjectVersions(project.id)])
+    // A project whose timeline can't be read can still have a version restored over it
+    setCurrent(saved ?? (unreadable ? { ...unreadable, timeline_data: null } : null))
+    setVersions(data ?? [])
+    setError(error?.message ?? null)
+    setIsLoading(false)
+  }, [project])
+
+  // Refresh each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSelected(null)
+    setCheckpointName("")
+    loadVersions()
+  }, [open, loadVersions])
+
+  const handleSelect = async (id: string) => {
+    setError(null)
+    const { data, error } = await getProjectVersion(id)
+    if (error) {
+      setError(error.message)
+      return
+    }
+    setSelected(data)
+  }
+
+  const handleCheckpoint = async () => {
+    if (!project) return
+    setIsWorking(true)
+    setError(null)
+    await beforeChange?.()
+    const { data: saved, error: projectError } = await getProject(project.id)
+    if (projectError || !saved?.timeline_data) {
+      setError(projectError?.message ?? "There's nothing saved to checkpoint yet")
+      setIsWorking(false)
+      return
+    }
+    const { error } = await createProjectVersion(project.id, saved.timeline_data, saved.duration, checkpointName.trim() || "Checkpoint")
+    if (error) {
+      setError(error.message)
+    } else {
+      setCheckpointName("")
+      await loadVersions()
+    }
+    setIsWorking(false)
+  }
+
+  const handleRestore = async () => {
+    if (!selected || !current) return
+    setIsWorking(true)
+    setError(null)
+    await beforeChange?.()
+    const { data: saved } = await getProject(current.id)
+    const { data, error } = await restoreProjectVersion(saved ?? current, selected)
+    setIsWorking(false)
+    if (error || !data) {
+      setError(error?.message ?? "Failed to restore version")
+      return
+    }
+    onRestored?.(data)
+    onOpenChange(false)
+  }
+
+  const handleFork = async () => {
+    if (!selected || !project) return
+    setIsWorking(true)
+    setError(null)
+    const { data, error } = await forkProjectVersion(project, selected)
+    setIsWorking(false)
+    if (error || !data) {
+      setError(error?.message ?? "Failed to create project")
+      return
+    }
+    onForked?.(data)
+    onOpenChange(false)
+  }
+
+  const handleDelete = async (id: string) => {
+    const { error } = await deleteProjectVersion(id)
+    if (error) {
+      console.error("[ProjectVersions] Failed to delete version:", error)
+      setError(error.message)
+      return
+    }
+    setVersions((prev) => prev.filter((v) => v.id !== id))
+    if (selected?.id === id) setSelected(null)
+  }
+
+  if (!project) return null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Saving keeps an automatic snapshot every few minutes. Save a checkpoint to keep a version by name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !isWorking && handleCheckpoint()}
+            placeholder="Checkpoint name"
+          />
+          <Button className="gap-2" onClick={handleCheckpoint} disabled={isWorking}>
+            <Bookmark className="h-4 w-4" />
+            Save Checkpoint
+          </Button>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto rounded-md border border-border">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No versions yet</p>
+          ) : (
+            versions.map((version) => (
+              <div
+                key={version.id}
+                className={`group flex cursor-pointer items-center gap-3 border-b border-border px-3 py-2 last:border-b-0 hover:bg-muted/50 ${
+                  selected?.id === version.id ? "bg-primary/10" : ""
+                }`}
+                onClick={() => handleSelect(version.id)}
+              >
+                {version.name ? (
+                  <Bookmark className="h-4 w-4 shrink-0 text-primary" />
+                ) : (
+                  <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm text-foreground">{getVersionLabel(version)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {version.name && `${new Date(version.created_at).toLocaleString()} • `}
+                    {version.duration}
+                  </p>
+                </div>
+                <button
+                  className="rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleDelete(version.id)
+                  }}
+                  title="Delete version"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {selected && (
+          <div className="space-y-3 rounded-md bg-muted p-3">
+            <div>
+              <p className="text-sm font-medium text-foreground">{getVersionLabel(selected)}</p>
+              <p className="text-xs text-muted-foreground">{describeChanges(selected, current)}</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" className="gap-2" onClick={handleFork} disabled={isWorking}>
+                <Copy className="h-4 w-4" />
+                Open as New Project
+              </Button>
+              <Button size="sm" className="gap-2" onClick={handleRestore} disabled={isWorking || !current}>
+                {isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                Restore
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 p-2 rounded-md">
+            {error}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
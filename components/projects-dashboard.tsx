@@ -3,12 +3,13 @@
 import { useState, useEffect, useCallback } from "react"
 import { useRouter } from "next/navigation"
 import { motion } from "framer-motion"
-import { Film, Plus, Search, Grid3x3, List, Clock, MoreVertical, Play, Copy, Trash2, Settings, LogOut, User, Loader2 } from "lucide-react"
+import { Film, Plus, Search, Grid3x3, List, Clock, MoreVertical, Play, Copy, Trash2, Settings, LogOut, User, Loader2, History } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { NewProjectModal } from "./new-project-modal"
 import { ProjectSettingsModal } from "./project-settings-modal"
+import { ProjectVersionsModal } from "./project-versions-modal"
 import { AccountSettingsModal } from "./account-settings-modal"
 import { DeleteProjectDialog } from "./delete-project-dialog"
 import { useAuth } from "./auth-provider"
@@ -22,11 +23,13 @@ export function ProjectsDashboard() {
   const [showAccountSettings, setShowAccountSettings] = useState(false)
   const [selectedProject, setSelectedProject] = useState<ProjectData | null>(null)
   const [showProjectSettings, setShowProjectSettings] = useState(false)
+  const [versionsProject, setVersionsProject] = useState<ProjectData | null>(null)
+  const [showVersions, setShowVersions] = useState(false)
   const [projectToDelete, setProjectToDelete] = useState<ProjectData | null>(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
-  const { user, signOut } = useAuth()
+  const { user, isLocalMode, signOut } = useAuth()
 
   const loadProjects = useCallback(async () => {
     setIsLoading(true)
@@ -38,10 +41,10 @@ export function ProjectsDashboard() {
   }, [])
 
   useEffect(() => {
-    if (user) {
+    if (user || isLocalMode) {
       loadProjects()
     }
-  }, [user, loadProjects])
+  }, [user, isLocalMode, loadProjects])
 
   const handleOpenProject = (projectId: string) => {
     router.push(`/projects/${projectId}`)
@@ -76,6 +79,11 @@ export function ProjectsDashboard() {
     setShowProjectSettings(true)
   }
 
+  const handleOpenVersions = (project: ProjectData) => {
+    setVersionsProject(project)
+    setShowVersions(true)
+  }
+
   const handleProjectUpdated = (updatedProject: ProjectData) => {
     setProjects((prev) => 
       prev.map((p) => p.id === updatedProject.id ? updatedProject : p)
@@ -127,23 +135,27 @@ export function ProjectsDashboard() {
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-56">
                 <div className="px-2 py-1.5">
-                  <p className="text-sm font-medium">{user?.user_metadata?.full_name || "User"}</p>
-                  <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
+                  <p className="text-sm font-medium">{isLocalMode ? "Local mode" : user?.user_metadata?.full_name || "User"}</p>
+                  <p className="text-xs text-muted-foreground truncate">{isLocalMode ? "Projects are kept in this browser" : user?.email}</p>
                 </div>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={() => router.push("/")}>
                   <Film className="mr-2 h-4 w-4" />
                   Home
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setShowAccountSettings(true)}>
-                  <Settings className="mr-2 h-4 w-4" />
-                  Account Settings
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
-                  <LogOut className="mr-2 h-4 w-4" />
-                  Sign out
-                </DropdownMenuItem>
+                {!isLocalMode && (
+                  <>
+                    <DropdownMenuItem onClick={() => setShowAccountSettings(true)}>
+                      <Settings className="mr-2 h-4 w-4" />
+                      Account Settings
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Sign out
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -310,6 +322,12 @@ export function ProjectsDashboard() {
                           <Copy className="mr-2 h-4 w-4" />
                           Duplicate
                         </DropdownMenuItem>
+                        {!isLocalMode && (
+                          <DropdownMenuItem onClick={() => handleOpenVersions(project)}>
+                            <History className="mr-2 h-4 w-4" />
+                            Version History
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem onClick={() => handleOpenProjectSettings(project)}>
                           <Settings className="mr-2 h-4 w-4" />
                           Settings
@@ -341,6 +359,14 @@ export function ProjectsDashboard() {
         onProjectUpdated={handleProjectUpdated}
       />
 
+      <ProjectVersionsModal
+        project={versionsProject}
+        open={showVersions}
+        onOpenChange={setShowVersions}
+        onRestored={handleProjectUpdated}
+        onForked={(project) => setProjects((prev) => [project, ...prev])}
+      />
+
       <AccountSettingsModal
         open={showAccountSettings}
         onOpenChange={setShowAccountSettings}
@@ -0,0 +1,243 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Play, Pause, BetweenHorizontalStart, Replace, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useEditor } from "./editor-context"
+import { canPlaceMediaOnTrack, getMediaKind } from "@/lib/media-import"
+import { getPlaybackUrl } from "@/lib/proxy-media"
+import { formatTimecode, secondsToFrameTicks, ticksToSeconds } from "@/lib/timecode"
+import { setInPoint, setOutPoint, type ThreePointEditMode } from "@/lib/three-point-edit"
+
+/**
+ * Source monitor
+ * Previews a media pool item so in and out points can be marked on it, then insert or
+ * overwrite edits it into the timeline at the timeline in/out points or the playhead.
+ */
+export function SourceMonitor() {
+  const {
+    mediaFiles,
+    tracks,
+    projectFrameRate,
+    sourceInOut,
+    setSourceInOut,
+    sourceMonitorMediaId,
+    setSourceMonitorMediaId,
+    threePointEdit,
+    useProxies,
+  } = useEditor()
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null)
+  const [time, setTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [trackId, setTrackId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const media = mediaFiles.find((m) => m.id === sourceMonitorMediaId)
+  const kind = media ? getMediaKind(media) : null
+  const points = (media && sourceInOut[media.id]) || {}
+  const targetTracks = media ? tracks.filter((t) => !t.locked && canPlaceMediaOnTrack(media, t.type)) : []
+  const target = targetTracks.some((t) => t.id === trackId) ? trackId! : targetTracks[0]?.id
+
+  // Start each opened item from the top
+  useEffect(() => {
+    setTime(0)
+    setIsPlaying(false)
+    setError(null)
+  }, [sourceMonitorMediaId])
+
+  const close = useCallback(() => setSourceMonitorMediaId(null), [setSourceMonitorMediaId])
+
+  const togglePlay = useCallback(() => {
+    const el = mediaRef.current
+    if (!el) return
+    if (el.paused) {
+      el.play().catch(() => {})
+    } else {
+      el.pause()
+    }
+  }, [])
+
+  const markIn = useCallback(() => {
+    if (!media || kind === "image") return
+    setSourceInOut(media.id, setInPoint(points, secondsToFrameTicks(time, projectFrameRate)))
+  }, [media, kind, points, time, projectFrameRate, setSourceInOut])
+
+  const markOut = useCallback(() => {
+    if (!media || kind === "image") return
+    setSourceInOut(media.id, setOutPoint(points, secondsToFrameTicks(time, projectFrameRate)))
+  }, [media, kind, points, time, projectFrameRate, setSourceInOut])
+
+  const edit = useCallback((mode: ThreePointEditMode) => {
+    if (!media) return
+    const { error } = threePointEdit(media.id, mode, target)
+    if (error) {
+      console.error("[SourceMonitor] Edit failed:", error)
+      setError(error)
+      return
+    }
+    close()
+  }, [media, target, threePointEdit, close])
+
+  // I / O mark, Space plays, comma inserts and period overwrites
+  useEffect(() => {
+    if (!media) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) {
+        return
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return
+      if (e.code === "KeyI") {
+        e.preventDefault()
+        markIn()
+      } else if (e.code === "KeyO") {
+        e.preventDefault()
+        markOut()
+      } else if (e.code === "Space") {
+        e.preventDefault()
+        togglePlay()
+      } else if (e.key === ",") {
+        e.preventDefault()
+        edit("insert")
+      } else if (e.key === ".") {
+        e.preventDefault()
+        edit("overwrite")
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [media, markIn, markOut, togglePlay, edit])
+
+  const duration = media?.durationSeconds || 0
+  const markedIn = points.in !== undefined ? ticksToSeconds(points.in) : 0
+  const markedOut = points.out !== undefined ? ticksToSeconds(points.out) : duration
+
+  return (
+    <Dialog open={!!media} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="truncate">{media?.name ?? "Source"}</DialogTitle>
+          <DialogDescription>
+            {kind === "image"
+              ? "Stills are edited in at the default image duration."
+              : "Mark in (I) and out (O), then insert (,) or overwrite (.) into the timeline."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {media && (
+          <div className="space-y-3">
+            <div className="flex aspect-video items-center justify-center overflow-hidden rounded bg-black">
+              {kind === "image" ? (
+                <img src={media.objectUrl} alt={media.name} className="max-h-full max-w-full object-contain" />
+              ) : kind === "audio" ? (
+                <audio
+                  ref={mediaRef}
+                  src={media.objectUrl}
+                  onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                />
+              ) : (
+                <video
+                  ref={mediaRef}
+                  src={getPlaybackUrl(media, useProxies)}
+                  className="max-h-full max-w-full"
+                  onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                />
+              )}
+            </div>
+
+            {kind !== "image" && (
+              <>
+                {/* Scrub bar with the marked range */}
+                <div className="relative h-2 rounded bg-muted">
+                  {duration > 0 && (
+                    <div
+                      className="absolute top-0 bottom-0 rounded bg-primary/40"
+                      style={{ left: `${(markedIn / duration) * 100}%`, width: `${((markedOut - markedIn) / duration) * 100}%` }}
+                    />
+                  )}
+                  <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={1 / projectFrameRate}
+                    value={time}
+                    onChange={(e) => {
+                      const seconds = Number(e.target.value)
+                      setTime(seconds)
+                      if (mediaRef.current) mediaRef.current.currentTime = seconds
+                    }}
+                    className="absolute inset-0 w-full cursor-pointer opacity-0"
+                  />
+                  {duration > 0 && (
+                    <div className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-foreground pointer-events-none" style={{ left: `${(time / duration) * 100}%` }} />
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 text-xs">
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={togglePlay} title="Play / pause (Space)">
+                    {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                  </Button>
+                  <span className="font-mono text-muted-foreground">{formatTimecode(time, projectFrameRate)}</span>
+                  <div className="flex-1" />
+                  <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={markIn} title="Mark in (I)">
+                    In {points.in !== undefined ? formatTimecode(ticksToSeconds(points.in), projectFrameRate) : "--"}
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={markOut} title="Mark out (O)">
+                    Out {points.out !== undefined ? formatTimecode(ticksToSeconds(points.out), projectFrameRate) : "--"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setSourceInOut(media.id, {})}
+                    disabled={points.in === undefined && points.out === undefined}
+                    title="Clear in and out"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center gap-2">
+              <select
+                value={target ?? ""}
+                onChange={(e) => setTrackId(e.target.value)}
+                className="h-8 rounded border border-input bg-background px-2 text-xs text-foreground"
+                disabled={targetTracks.length === 0}
+                title="Target track"
+              >
+                {targetTracks.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+              <div className="flex-1" />
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={() => edit("insert")} disabled={!target} title="Insert (,)">
+                <BetweenHorizontalStart className="h-3.5 w-3.5" />
+                Insert
+              </Button>
+              <Button size="sm" className="gap-1.5" onClick={() => edit("overwrite")} disabled={!target} title="Overwrite (.)">
+                <Replace className="h-3.5 w-3.5" />
+                Overwrite
+              </Button>
+            </div>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,10 +2,32 @@
 
 import type React from "react"
 import { useState, useRef, useEffect, useCallback } from "react"
-import { Video, Volume2, Lock, Eye, Film, Trash2, Scissors, Undo2, Redo2, Copy, Clipboard } from "lucide-react"
+import { Video, Volume2, VolumeX, Lock, Unlock, Eye, EyeOff, Film, Trash2, Scissors, Undo2, Redo2, Copy, Clipboard, ChevronUp, ChevronDown, Plus, Blend, Type, Snowflake, MousePointer2, FoldHorizontal, Columns2, ArrowRightLeft, MoveHorizontal, Link2, LinkIcon, Unlink, AudioLines, BookmarkPlus, Layers, FolderOpen, ChevronRight, History, type LucideIcon } from "lucide-react"
 import { motion } from "framer-motion"
 import { Button } from "@/components/ui/button"
-import { useEditor, TimelineClip, PIXELS_PER_SECOND, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS } from "./editor-context"
+import { useEditor, TimelineClip, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS, DEFAULT_CLIP_AUDIO } from "./editor-context"
+import { secondsToTicks, ticksToSeconds, secondsToFrameTicks, snapSecondsToFrame } from "@/lib/timecode"
+import { getTrackType, isTrackLocked } from "@/lib/tracks"
+import { getMediaKind, canPlaceMediaOnTrack } from "@/lib/media-import"
+import { TRANSITION_TYPES, getMaxTransitionDuration, getTransitionWindow, getValidTransitions, transitionHasDirection } from "@/lib/transitions"
+import type { TransitionDirection, TransitionType } from "@/lib/projects"
+import { DEFAULT_TEXT_DURATION, DEFAULT_TEXT_STYLE, getTextClipLabel } from "@/lib/text-clips"
+import { describeClipSpeed, getClipSourceSpan, getClipSourceTime, getTrimRoom, getTrimmedMediaOffset, isClipRetimed } from "@/lib/clip-speed"
+import { shiftKeyframes } from "@/lib/keyframes"
+import { getFilmstrip, getFilmstripFrame, getPeakBetween, getWaveform, type Filmstrip, type PreviewMedia, type WaveformPeaks } from "@/lib/clip-previews"
+import { expandClipGroups, getClipIdsInRange } from "@/lib/clip-selection"
+import { formatSyncOffset, getLinkedClips, getSyncOffset } from "@/lib/linked-clips"
+import { MARKER_COLORS, getClipMarkerPositions, getMarkerColor, getMarkerPositions } from "@/lib/markers"
+import { getSequenceDuration } from "@/lib/sequences"
+import { EDIT_MODES, MIN_CLIP_TICKS, rippleTrim, rollEdit, slideClip, slipClip, type ClipTimingUpdate, type EditMode } from "@/lib/edit-modes"
+
+const EDIT_MODE_ICONS: Record<EditMode, LucideIcon> = {
+  select: MousePointer2,
+  ripple: FoldHorizontal,
+  roll: Columns2,
+  slip: ArrowRightLeft,
+  slide: MoveHorizontal,
+}
 
 export function Timeline() {
   const {
@@ -14,8 +36,25 @@ export function Timeline() {
     addClipToTimeline,
     updateClip,
     removeClip,
+    removeClips,
+    moveClips,
     selectedClipId,
     setSelectedClipId,
+    selectedClipIds,
+    selectClips,
+    toggleClipSelection,
+    selectTrackClips,
+    selectClipsForward,
+    groupClips,
+    ungroupClips,
+    detachAudio,
+    linkClips,
+    unlinkClips,
+    markers,
+    addMarker,
+    updateMarker,
+    removeMarker,
+    timelineInOut,
     currentTime,
     setCurrentTime,
     isPlaying,
@@ -23,20 +62,46 @@ export function Timeline() {
     timelineEndTime,
     isScrubbing,
     setIsScrubbing,
-    activeClip,
+    activeTimelineClip: activeClip, // The compound clip, when the playhead is over one
     splitClip,
+    freezeFrame,
+    editMode,
+    setEditMode,
+    updateClipTimings,
+    rippleDeleteClip,
     undo,
     redo,
     canUndo,
     canRedo,
-    copyClip,
-    pasteClip,
+    history,
+    historyIndex,
+    goToHistory,
+    copyClips,
+    pasteClips,
     canPaste,
     zoomLevel,
     zoomIn,
     zoomOut,
     zoomToFit,
     pixelsPerSecond,
+    projectFrameRate,
+    tracks,
+    addTrack,
+    removeTrack,
+    updateTrack,
+    moveTrack,
+    defaultImageDuration,
+    transitions,
+    addTransition,
+    updateTransition,
+    removeTransition,
+    sequences,
+    openSequenceIds,
+    createCompoundClip,
+    addCompoundClip,
+    openSequence,
+    closeSequence,
+    getClipSourceDuration,
   } = useEditor()
 
   // Editing actions
@@ -47,18 +112,38 @@ export function Timeline() {
   }
 
   const handleDelete = () => {
-    if (selectedClipId) {
-      removeClip(selectedClipId)
+    if (selectedClipIds.length > 0) {
+      removeClips(selectedClipIds)
     } else if (activeClip) {
       removeClip(activeClip.id)
     }
   }
 
+  // Add a text clip at the playhead on the topmost unlocked video track
+  const handleAddText = () => {
+    const track = tracks.find((t) => t.type === "video" && !t.locked)
+    if (!track) return
+    addClipToTimeline({
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      mediaId: "",
+      trackId: track.id,
+      startTime: secondsToFrameTicks(currentTime, projectFrameRate),
+      duration: secondsToFrameTicks(DEFAULT_TEXT_DURATION, projectFrameRate),
+      mediaOffset: 0,
+      label: getTextClipLabel(DEFAULT_TEXT_STYLE.content),
+      type: "text",
+      transform: DEFAULT_CLIP_TRANSFORM,
+      effects: DEFAULT_CLIP_EFFECTS,
+      audio: DEFAULT_CLIP_AUDIO,
+      text: { ...DEFAULT_TEXT_STYLE },
+    })
+  }
+
   const handleCopy = () => {
-    if (selectedClipId) {
-      copyClip(selectedClipId)
+    if (selectedClipIds.length > 0) {
+      copyClips(selectedClipIds)
     } else if (activeClip) {
-      copyClip(activeClip.id)
+      copyClips([activeClip.id])
     }
   }
 
@@ -103,11 +188,16 @@ export function Timeline() {
 
   const [draggedClip, setDraggedClip] = useState<string | null>(null)
   const [dragOffset, setDragOffset] = useState(0)
-  const [liveTransform, setLiveTransform] = useState<{ clipId: string; x: number; trackId?: string } | null>(null)
+  // followers are the other selected clips, which move by the same amount
+  const [liveTransform, setLiveTransform] = useState<{ clipId: string; x: number; trackId?: string; followers?: string[] } | null>(null)
   const draggedClipRef = useRef<string | null>(null)
+  const dragSelectionRef = useRef<string[]>([]) // Clips moving with the dragged one, including it
   const lastUpdateTimeRef = useRef<number>(0)
   const rafRef = useRef<number | null>(null)
   const pendingUpdateRef = useRef<{ clipId: string; updates: Partial<TimelineClip> } | null>(null)
+  // Ripple, roll, slip and slide drags touch several clips and are committed together
+  const pendingEditRef = useRef<ClipTimingUpdate[] | null>(null)
+  const [liveEdit, setLiveEdit] = useState<{ clipId: string; updates: ClipTimingUpdate[]; slipTicks?: number } | null>(null)
   const [trimState, setTrimState] = useState<{
     clipId: string
     edge: 'left' | 'right'
@@ -134,20 +224,57 @@ export function Timeline() {
     y: number
     clipId: string
   } | null>(null)
+  const [transitionMenu, setTransitionMenu] = useState<{
+    x: number
+    y: number
+    transitionId: string
+  } | null>(null)
+  const [markerMenu, setMarkerMenu] = useState<{ x: number; y: number; markerId: string } | null>(null)
+  const [historyMenu, setHistoryMenu] = useState<{ x: number; y: number } | null>(null)
+  const [renamingTrackId, setRenamingTrackId] = useState<string | null>(null)
+  // Selection box in pixels from the top left of the tracks
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; x: number; y: number; additive: boolean } | null>(null)
   const timelineRef = useRef<HTMLDivElement>(null)
+  const tracksContentRef = useRef<HTMLDivElement>(null)
 
-  const tracks = ["V2", "V1", "A2", "A1"]
-  
   // Timeline layout constants
   const TRACK_HEIGHT = 48 // Track height in pixels (h-12)
   const RULER_HEIGHT = 24 // Ruler height in pixels (h-6)
 
+  // Scrolled part of the timeline, so clip previews only draw what's on screen
+  const [viewport, setViewport] = useState({ left: 0, width: 0 })
+  useEffect(() => {
+    const el = timelineRef.current
+    if (!el) return
+    let frame: number | null = null
+    const update = () => {
+      frame = null
+      setViewport({ left: el.scrollLeft, width: el.clientWidth })
+    }
+    const scheduleUpdate = () => {
+      if (frame === null) frame = requestAnimationFrame(update)
+    }
+    update()
+    el.addEventListener("scroll", scheduleUpdate, { passive: true })
+    const observer = new ResizeObserver(scheduleUpdate)
+    observer.observe(el)
+    return () => {
+      el.removeEventListener("scroll", scheduleUpdate)
+      observer.disconnect()
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [])
+
   const handleTrimStart = useCallback((e: React.MouseEvent, clipId: string, edge: 'left' | 'right') => {
     e.stopPropagation()
     e.preventDefault()
     
     const clip = timelineClips.find(c => c.id === clipId)
     if (!clip || !timelineRef.current) return
+    if (isTrackLocked(clip.trackId, tracks)) {
+      setSelectedClipId(clipId)
+      return
+    }
     
     const timelineRect = timelineRef.current.getBoundingClientRect()
     const mouseXInTimeline = e.clientX - timelineRect.left - 96
@@ -161,7 +288,7 @@ export function Timeline() {
       initialMediaOffset: clip.mediaOffset,
     })
     setSelectedClipId(clipId)
-  }, [timelineClips, setSelectedClipId])
+  }, [timelineClips, tracks, setSelectedClipId])
 
   const handleClipContextMenu = useCallback((e: React.MouseEvent, clipId: string) => {
     e.preventDefault()
@@ -171,8 +298,11 @@ export function Timeline() {
       y: e.clientY,
       clipId,
     })
-    setSelectedClipId(clipId)
-  }, [setSelectedClipId])
+    // Right-clicking inside the selection keeps it so the menu acts on all of it
+    if (!selectedClipIds.includes(clipId)) {
+      selectClips([clipId])
+    }
+  }, [selectedClipIds, selectClips])
 
   const handleClipMouseDown = useCallback((e: React.MouseEvent, clipId: string) => {
     // Don't start dragging if we're on a trim handle
@@ -183,24 +313,44 @@ export function Timeline() {
     e.preventDefault() // Prevent text selection and default drag behavior
     e.stopPropagation()
     setContextMenu(null) // Close context menu on any click
+    setTransitionMenu(null)
     if (!timelineRef.current) return
     
     // Calculate offset relative to timeline, not the clip itself
     const timelineRect = timelineRef.current.getBoundingClientRect()
     const clip = timelineClips.find(c => c.id === clipId)
     if (!clip) return
+
+    // Shift/Ctrl/Cmd-click adds the clip to the selection (or takes it out) instead of dragging
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      toggleClipSelection(clipId)
+      return
+    }
+
+    // Dragging a selected clip moves the whole selection; any other clip is selected with its group
+    // and linked clips. Alt-drag leaves linked clips behind, to slip a clip's sound out of sync.
+    const moving = e.altKey
+      ? expandClipGroups(timelineClips, [clipId], { links: false })
+      : selectedClipIds.includes(clipId) ? selectedClipIds : expandClipGroups(timelineClips, [clipId])
+    selectClips(moving, clipId, { links: !e.altKey })
+
+    // Clips on locked tracks can be selected but not dragged
+    if (isTrackLocked(clip.trackId, tracks)) {
+      return
+    }
     
     // Calculate where the mouse is within the timeline (visual pixels)
     const mouseXInTimeline = e.clientX - timelineRect.left - 96 // Subtract track label width
     
     // Calculate where the clip starts (visual pixels)
-    const clipVisualStart = (clip.startTime / PIXELS_PER_SECOND) * pixelsPerSecond
+    const clipVisualStart = ticksToSeconds(clip.startTime) * pixelsPerSecond
     
     // The drag offset is how far into the clip the user clicked (visual pixels)
     setDragOffset(mouseXInTimeline - clipVisualStart)
     setDraggedClip(clipId)
-    setSelectedClipId(clipId)
-  }, [timelineClips, pixelsPerSecond, setSelectedClipId])
+    draggedClipRef.current = clipId
+    dragSelectionRef.current = moving
+  }, [timelineClips, tracks, pixelsPerSecond, selectedClipIds, selectClips, toggleClipSelection])
 
   const handleMouseMove = useCallback(
     (e: MouseEvent) => {
@@ -211,62 +361,54 @@ export function Timeline() {
       const deltaVisual = mouseXInTimeline - trimState.initialX
       
       // Check bounds before showing visual feedback
-      const deltaBase = (deltaVisual / pixelsPerSecond) * PIXELS_PER_SECOND
+      // Trim by whole frames so edit points stay frame-accurate
+      const deltaTicks = secondsToFrameTicks(deltaVisual / pixelsPerSecond, projectFrameRate)
       const clip = timelineClips.find(c => c.id === trimState.clipId)
-      const media = clip ? mediaFiles.find(m => m.id === clip.mediaId) : null
-      if (!clip || !media) return
+      const media = clip ? mediaFiles.find(m => m.id === clip.mediaId) : undefined
+      if (!clip || (!media && clip.type !== "text" && !clip.sequenceId)) return
       
-      const maxMediaDuration = media.durationSeconds * PIXELS_PER_SECOND
-      let validDeltaVisual = deltaVisual
+      // Ripple trims move the rest of the track and roll trims move the neighbour's edge too;
+      // a roll at an edge with nothing on the other side is an ordinary trim
+      const edit = editMode === "ripple"
+        ? rippleTrim(timelineClips, clip.id, trimState.edge, deltaTicks, getClipSourceDuration)
+        : editMode === "roll" ? rollEdit(timelineClips, clip.id, trimState.edge, deltaTicks, getClipSourceDuration) : null
+      if (edit?.data) {
+        pendingEditRef.current = edit.data.updates
+        setLiveEdit({ clipId: clip.id, updates: edit.data.updates })
+        return
+      }
+      
+      // Stills and text can be stretched to any length, compound clips to the end of their sequence
+      const maxMediaDuration = getClipSourceDuration(clip)
+      const ticksToVisual = (ticks: number) => ticksToSeconds(ticks) * pixelsPerSecond
+      
+      // How far each edge can go depends on the clip's speed and direction (see lib/clip-speed)
+      const room = Math.floor(getTrimRoom(clip, trimState.edge, maxMediaDuration))
+      let validDeltaVisual: number
       
       if (trimState.edge === 'left') {
-        const newStartTime = Math.max(0, trimState.initialStartTime + deltaBase)
-        const actualDelta = newStartTime - trimState.initialStartTime
+        // Can't extend before media or timeline start, or shrink below the minimum duration
+        const actualDelta = Math.max(-room, -trimState.initialStartTime, Math.min(deltaTicks, trimState.initialDuration - MIN_CLIP_TICKS))
         const newDuration = trimState.initialDuration - actualDelta
-        const newMediaOffset = trimState.initialMediaOffset + actualDelta
-        
-        // Clamp the delta to valid bounds
-        if (newMediaOffset < 0) {
-          // Can't trim before media start
-          const maxDelta = -trimState.initialMediaOffset
-          validDeltaVisual = (maxDelta / PIXELS_PER_SECOND) * pixelsPerSecond
-        } else if (newMediaOffset >= maxMediaDuration) {
-          // Can't trim past media end
-          const maxDelta = maxMediaDuration - trimState.initialMediaOffset
-          validDeltaVisual = (maxDelta / PIXELS_PER_SECOND) * pixelsPerSecond
-        } else if (newDuration < PIXELS_PER_SECOND * 0.1) {
-          // Minimum duration
-          const maxDelta = trimState.initialDuration - PIXELS_PER_SECOND * 0.1
-          validDeltaVisual = (maxDelta / PIXELS_PER_SECOND) * pixelsPerSecond
-        }
-        
-        if (newMediaOffset >= 0 && newMediaOffset < maxMediaDuration && newDuration > PIXELS_PER_SECOND * 0.1) {
-          pendingUpdateRef.current = {
-            clipId: trimState.clipId,
-            updates: { startTime: newStartTime, duration: newDuration, mediaOffset: newMediaOffset }
+        validDeltaVisual = ticksToVisual(actualDelta)
+        pendingUpdateRef.current = {
+          clipId: trimState.clipId,
+          updates: {
+            startTime: trimState.initialStartTime + actualDelta,
+            duration: newDuration,
+            mediaOffset: getTrimmedMediaOffset(clip, 'left', newDuration),
+            // Keyframes are timed from the clip's start, so they move back to stay on the same frames
+            keyframes: shiftKeyframes(clip.keyframes, -actualDelta),
           }
         }
       } else {
-        const newDuration = Math.max(PIXELS_PER_SECOND * 0.1, trimState.initialDuration + deltaBase)
-        const endInMedia = trimState.initialMediaOffset + newDuration
-        
-        // Clamp the delta to valid bounds
-        if (endInMedia > maxMediaDuration) {
-          // Can't extend past media end
-          const maxDuration = maxMediaDuration - trimState.initialMediaOffset
-          const maxDelta = maxDuration - trimState.initialDuration
-          validDeltaVisual = (maxDelta / PIXELS_PER_SECOND) * pixelsPerSecond
-        } else if (newDuration < PIXELS_PER_SECOND * 0.1) {
-          // Minimum duration
-          const minDelta = PIXELS_PER_SECOND * 0.1 - trimState.initialDuration
-          validDeltaVisual = (minDelta / PIXELS_PER_SECOND) * pixelsPerSecond
-        }
-        
-        if (endInMedia <= maxMediaDuration && newDuration > PIXELS_PER_SECOND * 0.1) {
-          pendingUpdateRef.current = {
-            clipId: trimState.clipId,
-            updates: { duration: newDuration }
-          }
+        // Can't extend past media end, or shrink below the minimum duration
+        const actualDelta = Math.min(room, Math.max(deltaTicks, MIN_CLIP_TICKS - trimState.initialDuration))
+        const newDuration = trimState.initialDuration + actualDelta
+        validDeltaVisual = ticksToVisual(actualDelta)
+        pendingUpdateRef.current = {
+          clipId: trimState.clipId,
+          updates: { duration: newDuration, mediaOffset: getTrimmedMediaOffset(clip, 'right', newDuration) }
         }
       }
       
@@ -290,22 +432,41 @@ export function Timeline() {
     const clip = timelineClips.find(c => c.id === draggedClip)
     if (!clip) return
 
-    const clipVisualDuration = (clip.duration / PIXELS_PER_SECOND) * pixelsPerSecond
+    // Slip and slide edit the clip where it is instead of moving it around
+    if (editMode === "slip" || editMode === "slide") {
+      const deltaTicks = secondsToFrameTicks(relativeX / pixelsPerSecond, projectFrameRate) - clip.startTime
+      // Dragging right pulls earlier footage into the clip, as if sliding the film under it
+      const sourceRate = clip.freeze ? 1 : getClipSourceSpan(clip) / clip.duration
+      const edit = editMode === "slip"
+        ? slipClip(timelineClips, clip.id, -deltaTicks * sourceRate, getClipSourceDuration)
+        : slideClip(timelineClips, clip.id, deltaTicks, getClipSourceDuration)
+      if (edit.data) {
+        pendingEditRef.current = edit.data.updates
+        setLiveEdit({ clipId: clip.id, updates: edit.data.updates, slipTicks: editMode === "slip" ? edit.data.delta : undefined })
+      }
+      return
+    }
+
+    // Several selected clips move together and stay on their own tracks
+    const moving = dragSelectionRef.current
+    const isSelectionMove = moving.length > 1
+
+    const clipVisualDuration = ticksToSeconds(clip.duration) * pixelsPerSecond
     const gridSize = pixelsPerSecond
     let snappedVisualX = Math.max(0, Math.round(relativeX / gridSize) * gridSize)
     
     const snapThreshold = 15
     const trackIndex = Math.floor((relativeY - RULER_HEIGHT) / TRACK_HEIGHT)
-    const targetTrack = trackIndex >= 0 && trackIndex < tracks.length ? tracks[trackIndex] : null
+    const targetTrack = trackIndex >= 0 && trackIndex < tracks.length ? tracks[trackIndex].id : null
     
     if (targetTrack) {
       const otherClips = timelineClips.filter(c => 
-        c.trackId === targetTrack && c.id !== draggedClip
+        c.trackId === targetTrack && c.id !== draggedClip && !moving.includes(c.id)
       )
       
       for (const otherClip of otherClips) {
-        const otherVisualStart = (otherClip.startTime / PIXELS_PER_SECOND) * pixelsPerSecond
-        const otherVisualEnd = otherVisualStart + (otherClip.duration / PIXELS_PER_SECOND) * pixelsPerSecond
+        const otherVisualStart = ticksToSeconds(otherClip.startTime) * pixelsPerSecond
+        const otherVisualEnd = otherVisualStart + ticksToSeconds(otherClip.duration) * pixelsPerSecond
         
         if (Math.abs(relativeX - otherVisualEnd) < snapThreshold) {
           snappedVisualX = otherVisualEnd
@@ -330,13 +491,20 @@ export function Timeline() {
       }
     }
     
+    // The earliest selected clip can't go before the timeline start
+    if (isSelectionMove) {
+      const earliest = Math.min(...timelineClips.filter((c) => moving.includes(c.id)).map((c) => c.startTime))
+      snappedVisualX = Math.max(snappedVisualX, ticksToSeconds(clip.startTime - earliest) * pixelsPerSecond)
+    }
+    
     // Validate target track compatibility
-    const snappedX = (snappedVisualX / pixelsPerSecond) * PIXELS_PER_SECOND
+    // Other clips' edges are already on frame boundaries, so frame rounding keeps edge snaps exact
+    const snappedX = secondsToFrameTicks(snappedVisualX / pixelsPerSecond, projectFrameRate)
     let validTargetTrack: string | undefined = undefined
     
-    if (targetTrack) {
-      const isVideoTrack = targetTrack.startsWith("V")
-      const isVideoClip = clip.type === "video"
+    if (targetTrack && !isSelectionMove && !isTrackLocked(targetTrack, tracks)) {
+      const isVideoTrack = getTrackType(targetTrack, tracks) === "video"
+      const isVideoClip = clip.type !== "audio" // Text clips go on video tracks too
       
       if ((isVideoClip && isVideoTrack) || (!isVideoClip && !isVideoTrack)) {
         validTargetTrack = targetTrack
@@ -347,7 +515,8 @@ export function Timeline() {
     setLiveTransform({
       clipId: draggedClip,
       x: snappedVisualX,
-      trackId: validTargetTrack
+      trackId: validTargetTrack,
+      followers: isSelectionMove ? moving : undefined,
     })
 
     const updates: Partial<TimelineClip> = { startTime: snappedX }
@@ -357,15 +526,37 @@ export function Timeline() {
 
     pendingUpdateRef.current = { clipId: draggedClip, updates }
     },
-    [draggedClip, dragOffset, timelineClips, tracks, pixelsPerSecond, trimState, mediaFiles]
+    [draggedClip, dragOffset, timelineClips, tracks, pixelsPerSecond, projectFrameRate, trimState, mediaFiles, editMode, getClipSourceDuration]
     )
 
   const handleMouseUp = useCallback(() => {
+    const moving = dragSelectionRef.current
+    // A click on a selected clip without dragging narrows the selection to it (and its group)
+    if (draggedClipRef.current && moving.length > 1 && !pendingUpdateRef.current && !pendingEditRef.current) {
+      selectClips([draggedClipRef.current])
+    }
+
     // Apply any pending updates
     if (pendingUpdateRef.current) {
-      updateClip(pendingUpdateRef.current.clipId, pendingUpdateRef.current.updates)
+      const { clipId, updates } = pendingUpdateRef.current
+      const clip = timelineClips.find((c) => c.id === clipId)
+      if (moving.length > 1 && clip && updates.startTime !== undefined) {
+        const { error } = moveClips(moving, updates.startTime - clip.startTime)
+        if (error) {
+          console.error("[Timeline] Failed to move clips:", error)
+        }
+      } else {
+        updateClip(clipId, updates)
+      }
       pendingUpdateRef.current = null
     }
+    if (pendingEditRef.current) {
+      const { error } = updateClipTimings(pendingEditRef.current)
+      if (error) {
+        console.error("[Timeline] Failed to apply edit:", error)
+      }
+      pendingEditRef.current = null
+    }
     
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current)
@@ -374,18 +565,30 @@ export function Timeline() {
     
     setDraggedClip(null)
     draggedClipRef.current = null
+    dragSelectionRef.current = []
     setDragOffset(0)
     setLiveTransform(null)
     setLiveTrim(null)
+    setLiveEdit(null)
     setTrimState(null)
     lastUpdateTimeRef.current = 0
-  }, [updateClip])
+  }, [updateClip, updateClipTimings, moveClips, selectClips, timelineClips])
 
   // Close context menu on click anywhere
   useEffect(() => {
-    const handleClick = () => setContextMenu(null)
-    const handleScroll = () => setContextMenu(null)
-    if (contextMenu) {
+    const handleClick = () => {
+      setContextMenu(null)
+      setTransitionMenu(null)
+      setMarkerMenu(null)
+      setHistoryMenu(null)
+    }
+    const handleScroll = () => {
+      setContextMenu(null)
+      setTransitionMenu(null)
+      setMarkerMenu(null)
+      setHistoryMenu(null)
+    }
+    if (contextMenu || transitionMenu || markerMenu || historyMenu) {
       document.addEventListener('click', handleClick)
       document.addEventListener('scroll', handleScroll, true)
       return () => {
@@ -393,7 +596,69 @@ export function Timeline() {
         document.removeEventListener('scroll', handleScroll, true)
       }
     }
-  }, [contextMenu])
+  }, [contextMenu, transitionMenu, markerMenu, historyMenu])
+
+  // Clip that starts where this one ends on the same track - the only clip a transition can go to
+  const getNextAdjacentClip = (clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    if (!clip) return undefined
+    return timelineClips.find((c) => c.trackId === clip.trackId && c.startTime === clip.startTime + clip.duration)
+  }
+
+  // Freeze frames are taken from video clips under the playhead
+  const canFreezeClip = (clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    const media = clip ? mediaFiles.find((m) => m.id === clip.mediaId) : undefined
+    if (!clip || !media || clip.type !== "video" || clip.freeze || getMediaKind(media) !== "video") return false
+    const playheadTicks = secondsToTicks(currentTime)
+    return playheadTicks >= clip.startTime && playheadTicks < clip.startTime + clip.duration && !isTrackLocked(clip.trackId, tracks)
+  }
+
+  // Video clips that still carry their own sound can have it detached
+  const canDetachAudio = (clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    const media = clip ? mediaFiles.find((m) => m.id === clip.mediaId) : undefined
+    if (!clip || !media || clip.type !== "video" || clip.freeze || getMediaKind(media) !== "video") return false
+    return getLinkedClips(timelineClips, clip).length === 0 && !isTrackLocked(clip.trackId, tracks)
+  }
+
+  // How far the dragged clip has moved, for the selected clips that follow it
+  const draggedTimelineClip = liveTransform ? timelineClips.find((c) => c.id === liveTransform.clipId) : undefined
+  const dragDeltaX = liveTransform && draggedTimelineClip ? liveTransform.x - ticksToSeconds(draggedTimelineClip.startTime) * pixelsPerSecond : 0
+
+  // Transitions drawn over cuts; ones whose clips were pulled apart aren't shown
+  const visibleTransitions = getValidTransitions(transitions, timelineClips)
+  const menuTransition = transitionMenu ? transitions.find((t) => t.id === transitionMenu.transitionId) : undefined
+  const menuMarker = markerMenu
+    ? getMarkerPositions(markers, timelineClips).find((p) => p.marker.id === markerMenu.markerId)?.marker
+    : undefined
+
+  // Right-clicking a marker opens its settings
+  const handleMarkerContextMenu = (e: React.MouseEvent, markerId: string) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setContextMenu(null)
+    setTransitionMenu(null)
+    setMarkerMenu({ x: e.clientX, y: e.clientY, markerId })
+  }
+
+  // Markers on a clip's footage can only go where the playhead is over the clip
+  const canMarkClip = (clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    const playheadTicks = secondsToTicks(currentTime)
+    return !!clip && !clip.freeze && playheadTicks >= clip.startTime && playheadTicks < clip.startTime + clip.duration
+  }
+
+  // Compound clips open in their own timeline, at the frame the playhead is on
+  const openCompoundClip = (clipId: string) => {
+    const clip = timelineClips.find((c) => c.id === clipId)
+    if (!clip?.sequenceId) return
+    const offset = Math.max(0, Math.min(secondsToTicks(currentTime) - clip.startTime, clip.duration))
+    const { error } = openSequence(clip.sequenceId, clip.mediaOffset + offset)
+    if (error) {
+      console.error("[Timeline] Failed to open compound clip:", error)
+    }
+  }
 
   useEffect(() => {
     if (draggedClip || trimState) {
@@ -436,12 +701,31 @@ export function Timeline() {
     e.stopPropagation()
     setDropTargetTrack(trackId)
 
+    // Sequences from the media panel drop as compound clips, on the grid
+    const sequenceId = e.dataTransfer.getData("application/x-sequence-id")
+    const sequence = sequences.find((s) => s.id === sequenceId)
+    if (sequence && timelineRef.current) {
+      const relativeX = e.clientX - timelineRef.current.getBoundingClientRect().left - 96
+      setDragPreview({
+        x: Math.max(0, Math.round(relativeX / pixelsPerSecond) * pixelsPerSecond),
+        trackId,
+        duration: Math.max(80, ticksToSeconds(getSequenceDuration(sequence)) * pixelsPerSecond),
+        label: sequence.name,
+        isSnapped: false,
+      })
+      return
+    }
+
     // Get media info for preview
     const mediaId = e.dataTransfer.getData("application/x-media-id")
     if (!mediaId || !timelineRef.current) return
 
     const media = mediaFiles.find((m) => m.id === mediaId)
     if (!media) return
+    if (!canPlaceMediaOnTrack(media, getTrackType(trackId, tracks))) {
+      setDragPreview(null)
+      return
+    }
 
     // Calculate position relative to timeline
     const timelineRect = timelineRef.current.getBoundingClientRect()
@@ -458,7 +742,8 @@ export function Timeline() {
       const clipEnd = parseFloat(clipEndStr)
       clipDuration = (clipEnd - clipStart) * pixelsPerSecond
     } else {
-      clipDuration = Math.max(80, media.durationSeconds * pixelsPerSecond)
+      const seconds = getMediaKind(media) === "image" ? defaultImageDuration : media.durationSeconds
+      clipDuration = Math.max(80, seconds * pixelsPerSecond)
     }
 
     // Snap to grid based on zoom level (visual pixels)
@@ -471,8 +756,8 @@ export function Timeline() {
     let isSnapped = false
     
     for (const clip of clipsOnTrack) {
-      const clipVisualStart = (clip.startTime / PIXELS_PER_SECOND) * pixelsPerSecond
-      const clipVisualEnd = clipVisualStart + (clip.duration / PIXELS_PER_SECOND) * pixelsPerSecond
+      const clipVisualStart = ticksToSeconds(clip.startTime) * pixelsPerSecond
+      const clipVisualEnd = clipVisualStart + ticksToSeconds(clip.duration) * pixelsPerSecond
       
       // Snap to the end of existing clip (place new clip right after)
       if (Math.abs(relativeX - clipVisualEnd) < snapThreshold) {
@@ -524,7 +809,7 @@ export function Timeline() {
       label: clipLabel,
       isSnapped,
     })
-  }, [mediaFiles, pixelsPerSecond, timelineClips])
+  }, [mediaFiles, sequences, pixelsPerSecond, timelineClips, tracks, defaultImageDuration])
 
   const handleTrackDragLeave = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -546,11 +831,21 @@ export function Timeline() {
       setDropTargetTrack(null)
       setDragPreview(null)
 
+      const sequenceId = e.dataTransfer.getData("application/x-sequence-id")
+      if (sequenceId) {
+        const startTime = previewPosition !== undefined ? secondsToFrameTicks(previewPosition / pixelsPerSecond, projectFrameRate) : 0
+        const { error } = addCompoundClip(sequenceId, trackId, startTime)
+        if (error) {
+          console.error("[Timeline] Failed to add compound clip:", error)
+        }
+        return
+      }
+
       const mediaId = e.dataTransfer.getData("application/x-media-id")
-      if (!mediaId) return
+      if (!mediaId || isTrackLocked(trackId, tracks)) return
 
       const media = mediaFiles.find((m) => m.id === mediaId)
-      if (!media) return
+      if (!media || !canPlaceMediaOnTrack(media, getTrackType(trackId, tracks))) return
 
       // Check for NLP search result time range (from AI search)
       const clipStartStr = e.dataTransfer.getData("application/x-clip-start")
@@ -564,8 +859,8 @@ export function Timeline() {
         // NLP search result with specific time range
         const clipStart = parseFloat(clipStartStr)
         const clipEnd = parseFloat(clipEndStr)
-        mediaOffset = clipStart * PIXELS_PER_SECOND // Convert seconds to base pixels
-        clipDuration = Math.max(80, (clipEnd - clipStart) * PIXELS_PER_SECOND)
+        mediaOffset = secondsToFrameTicks(clipStart, projectFrameRate)
+        clipDuration = secondsToFrameTicks(clipEnd - clipStart, projectFrameRate)
         
         // Format time for label
         const formatTime = (s: number) => {
@@ -574,16 +869,18 @@ export function Timeline() {
           return `${mins}:${secs.toString().padStart(2, "0")}`
         }
         clipLabel = `${media.name} (${formatTime(clipStart)} - ${formatTime(clipEnd)})`
+      } else if (getMediaKind(media) === "image") {
+        clipDuration = secondsToFrameTicks(defaultImageDuration, projectFrameRate)
       } else {
-        // Full media clip
-        clipDuration = Math.max(80, media.durationSeconds * PIXELS_PER_SECOND)
+        // Full media clip, rounded down to a whole number of frames
+        clipDuration = secondsToFrameTicks(Math.max(0, media.durationSeconds - 0.5 / projectFrameRate), projectFrameRate)
       }
 
       // Use preview position if available (includes snapping), otherwise calculate position
       let startPosition: number
       if (previewPosition !== undefined) {
-        // Convert visual pixels from preview to base pixels
-        startPosition = (previewPosition / pixelsPerSecond) * PIXELS_PER_SECOND
+        // Convert visual pixels from preview to ticks
+        startPosition = secondsToFrameTicks(previewPosition / pixelsPerSecond, projectFrameRate)
       } else {
         // Fallback: Find clips on this track and get the end position of the last one
         const clipsOnTrack = timelineClips.filter((clip) => clip.trackId === trackId)
@@ -609,14 +906,15 @@ export function Timeline() {
         duration: clipDuration,
         mediaOffset: mediaOffset,
         label: clipLabel,
-        type: trackId.startsWith("V") ? "video" : "audio",
+        type: getTrackType(trackId, tracks),
         transform: DEFAULT_CLIP_TRANSFORM,
         effects: DEFAULT_CLIP_EFFECTS,
+        audio: DEFAULT_CLIP_AUDIO,
       }
 
       addClipToTimeline(newClip)
     },
-    [mediaFiles, timelineClips, addClipToTimeline, dragPreview, pixelsPerSecond]
+    [mediaFiles, timelineClips, tracks, addClipToTimeline, addCompoundClip, dragPreview, pixelsPerSecond, projectFrameRate, defaultImageDuration]
   )
 
   // Calculate time from mouse position
@@ -625,10 +923,11 @@ export function Timeline() {
     const timelineRect = timelineRef.current.getBoundingClientRect()
     const relativeX = e.clientX - timelineRect.left
     if (relativeX >= 0) {
-      return Math.max(0, relativeX / pixelsPerSecond)
+      // Land the playhead on a frame so splits happen on frame boundaries
+      return snapSecondsToFrame(Math.max(0, relativeX / pixelsPerSecond), projectFrameRate)
     }
     return null
-  }, [pixelsPerSecond])
+  }, [pixelsPerSecond, projectFrameRate])
 
   // Handle scrubbing (drag to move playhead)
   const handleTimelineMouseDown = useCallback(
@@ -643,6 +942,17 @@ export function Timeline() {
       const target = e.target as HTMLElement
       if (target.closest("[data-clip-id]")) return
 
+      // Dragging across the tracks draws a selection box; the ruler scrubs
+      if (target.closest("[data-track-row]") && tracksContentRef.current) {
+        const rect = tracksContentRef.current.getBoundingClientRect()
+        const x = e.clientX - rect.left
+        const y = e.clientY - rect.top
+        setContextMenu(null)
+        setTransitionMenu(null)
+        setMarquee({ startX: x, startY: y, x, y, additive: e.shiftKey || e.ctrlKey || e.metaKey })
+        return
+      }
+
       const newTime = getTimeFromMouseEvent(e)
       if (newTime !== null) {
         // Pause playback if playing
@@ -659,6 +969,54 @@ export function Timeline() {
     [setCurrentTime, setSelectedClipId, getTimeFromMouseEvent, setIsScrubbing, isPlaying, setIsPlaying]
   )
 
+  // Follow the selection box and select what it covers on release
+  useEffect(() => {
+    if (!marquee) return
+
+    const getPoint = (e: MouseEvent) => {
+      const rect = tracksContentRef.current?.getBoundingClientRect()
+      return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : { x: marquee.x, y: marquee.y }
+    }
+    const handleMove = (e: MouseEvent) => {
+      setMarquee((prev) => (prev ? { ...prev, ...getPoint(e) } : prev))
+    }
+    const handleUp = (e: MouseEvent) => {
+      const { x, y } = getPoint(e)
+      const left = Math.max(0, Math.min(marquee.startX, x))
+      const right = Math.max(marquee.startX, x)
+      const top = Math.min(marquee.startY, y)
+      const bottom = Math.max(marquee.startY, y)
+
+      if (right - left < 3 && bottom - top < 3) {
+        // A click on an empty part of a track moves the playhead there
+        if (isPlaying) {
+          setIsPlaying(false)
+        }
+        setCurrentTime(snapSecondsToFrame(left / pixelsPerSecond, projectFrameRate))
+        if (!marquee.additive) {
+          setSelectedClipId(null)
+        }
+      } else {
+        const boxTracks = tracks.slice(Math.max(0, Math.floor(top / TRACK_HEIGHT)), Math.floor(bottom / TRACK_HEIGHT) + 1)
+        const ids = getClipIdsInRange(
+          timelineClips,
+          secondsToTicks(left / pixelsPerSecond),
+          secondsToTicks(right / pixelsPerSecond),
+          boxTracks.map((t) => t.id)
+        )
+        selectClips(marquee.additive ? [...selectedClipIds, ...ids] : ids)
+      }
+      setMarquee(null)
+    }
+
+    window.addEventListener("mousemove", handleMove)
+    window.addEventListener("mouseup", handleUp)
+    return () => {
+      window.removeEventListener("mousemove", handleMove)
+      window.removeEventListener("mouseup", handleUp)
+    }
+  }, [marquee, tracks, timelineClips, selectedClipIds, selectClips, setSelectedClipId, pixelsPerSecond, projectFrameRate, isPlaying, setIsPlaying, setCurrentTime])
+
   // Handle scrubbing mousemove
   const handleScrubMove = useCallback(
     (e: MouseEvent) => {
@@ -774,7 +1132,32 @@ export function Timeline() {
       {/* Timeline Header */}
       <div className="flex items-center justify-between border-b border-border px-4 py-2">
         <div className="flex items-center gap-3">
-          <div className="text-xs font-medium text-foreground">Timeline</div>
+          {openSequenceIds.length === 0 ? (
+            <div className="text-xs font-medium text-foreground">Timeline</div>
+          ) : (
+            // Inside a compound clip - each crumb goes back out to that level
+            <div className="flex items-center gap-1 text-xs">
+              {["Timeline", ...openSequenceIds.map((id) => sequences.find((s) => s.id === id)?.name ?? "Sequence")].map((name, depth) => (
+                <div key={depth} className="flex items-center gap-1">
+                  {depth > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                  {depth === openSequenceIds.length ? (
+                    <span className="flex items-center gap-1 font-medium text-foreground">
+                      <Layers className="h-3 w-3" />
+                      {name}
+                    </span>
+                  ) : (
+                    <button
+                      className="text-muted-foreground hover:text-foreground cursor-pointer"
+                      onClick={() => closeSequence(depth)}
+                      title={`Back to ${name}`}
+                    >
+                      {name}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
           {/* Editing Toolbar */}
           <div className="flex items-center gap-1 border-l border-border pl-3 ml-3">
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
@@ -797,8 +1180,8 @@ export function Timeline() {
                 size="sm"
                 className="h-7 w-7 p-0"
                 onClick={handleDelete}
-                disabled={!selectedClipId && !activeClip}
-                title="Delete clip (Delete)"
+                disabled={selectedClipIds.length === 0 && !activeClip}
+                title="Delete selected clips (Delete)"
               >
                 <Trash2 className="h-3.5 w-3.5" />
               </Button>
@@ -828,6 +1211,22 @@ export function Timeline() {
                 <Redo2 className="h-3.5 w-3.5" />
               </Button>
             </motion.div>
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  setHistoryMenu(historyMenu ? null : { x: rect.left, y: rect.bottom + 4 })
+                }}
+                disabled={history.length === 0}
+                title="Edit history"
+              >
+                <History className="h-3.5 w-3.5" />
+              </Button>
+            </motion.div>
             <div className="w-px h-3 bg-border mx-0.5" />
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Button
@@ -835,8 +1234,8 @@ export function Timeline() {
                 size="sm"
                 className="h-7 w-7 p-0"
                 onClick={handleCopy}
-                disabled={!selectedClipId && !activeClip}
-                title="Copy clip (Ctrl+C / Cmd+C)"
+                disabled={selectedClipIds.length === 0 && !activeClip}
+                title="Copy selected clips (Ctrl+C / Cmd+C)"
               >
                 <Copy className="h-3.5 w-3.5" />
               </Button>
@@ -846,13 +1245,79 @@ export function Timeline() {
                 variant="ghost"
                 size="sm"
                 className="h-7 w-7 p-0"
-                onClick={pasteClip}
+                onClick={pasteClips}
                 disabled={!canPaste}
-                title="Paste clip (Ctrl+V / Cmd+V)"
+                title="Paste clips at playhead (Ctrl+V / Cmd+V)"
               >
                 <Clipboard className="h-3.5 w-3.5" />
               </Button>
             </motion.div>
+            <div className="w-px h-3 bg-border mx-0.5" />
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={handleAddText}
+                disabled={!tracks.some((t) => t.type === "video" && !t.locked)}
+                title="Add text at playhead"
+              >
+                <Type className="h-3.5 w-3.5" />
+              </Button>
+            </motion.div>
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => addMarker(secondsToFrameTicks(currentTime, projectFrameRate))}
+                title="Add marker at playhead (M)"
+              >
+                <BookmarkPlus className="h-3.5 w-3.5" />
+              </Button>
+            </motion.div>
+            <div className="w-px h-3 bg-border mx-0.5" />
+            {EDIT_MODES.map((mode) => {
+              const Icon = EDIT_MODE_ICONS[mode.id]
+              return (
+                <motion.div key={mode.id} whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <Button
+                    variant={editMode === mode.id ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setEditMode(mode.id)}
+                    title={`${mode.label} (${mode.shortcut}) - ${mode.description}`}
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                  </Button>
+                </motion.div>
+              )
+            })}
+            <div className="w-px h-3 bg-border mx-0.5" />
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-0.5 px-1.5 text-xs"
+                onClick={() => addTrack("video")}
+                title="Add video track"
+              >
+                <Plus className="h-3 w-3" />
+                <Video className="h-3.5 w-3.5" />
+              </Button>
+            </motion.div>
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-0.5 px-1.5 text-xs"
+                onClick={() => addTrack("audio")}
+                title="Add audio track"
+              >
+                <Plus className="h-3 w-3" />
+                <Volume2 className="h-3.5 w-3.5" />
+              </Button>
+            </motion.div>
           </div>
           <div className="font-mono text-xs text-muted-foreground bg-secondary px-2 py-0.5 rounded">
             {formatRulerTime(currentTime)}
@@ -899,21 +1364,108 @@ export function Timeline() {
       {/* Timeline Tracks */}
       <div className="flex flex-1 overflow-hidden">
         {/* Track Labels */}
-        <div className="w-24 border-r border-border bg-secondary">
-          {tracks.map((track) => (
-            <div key={track} className="flex h-12 items-center gap-2 border-b border-border px-2">
-              <div className="flex items-center gap-1">
-                {track.startsWith("V") ? (
-                  <Video className="h-3 w-3 text-muted-foreground" />
-                ) : (
-                  <Volume2 className="h-3 w-3 text-muted-foreground" />
-                )}
-                <Lock className="h-2.5 w-2.5 text-muted-foreground/50" />
-                <Eye className="h-2.5 w-2.5 text-muted-foreground/50" />
+        <div className="w-32 border-r border-border bg-secondary">
+          {tracks.map((track, index) => {
+            const hasClips = timelineClips.some((c) => c.trackId === track.id)
+            const toggleClass = (active: boolean) =>
+              `rounded p-0.5 cursor-pointer hover:bg-background/60 ${active ? "text-foreground" : "text-muted-foreground/50"}`
+            return (
+              <div key={track.id} className="group/track flex h-12 flex-col justify-center gap-0.5 border-b border-border px-2">
+                <div className="flex items-center gap-1 min-w-0">
+                  {track.type === "video" ? (
+                    <Video className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <Volume2 className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  )}
+                  {renamingTrackId === track.id ? (
+                    <input
+                      autoFocus
+                      defaultValue={track.name}
+                      className="w-full min-w-0 rounded bg-background px-1 text-xs text-foreground outline-none ring-1 ring-border"
+                      onBlur={(e) => {
+                        const name = e.target.value.trim()
+                        if (name && name !== track.name) updateTrack(track.id, { name })
+                        setRenamingTrackId(null)
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur()
+                        if (e.key === "Escape") setRenamingTrackId(null)
+                        e.stopPropagation()
+                      }}
+                    />
+                  ) : (
+                    <div
+                      className="truncate text-xs font-medium text-foreground cursor-text"
+                      onDoubleClick={() => setRenamingTrackId(track.id)}
+                      title={`${track.name} - double-click to rename`}
+                    >
+                      {track.name}
+                    </div>
+                  )}
+                  <div className="ml-auto flex shrink-0 items-center opacity-0 transition-opacity group-hover/track:opacity-100">
+                    <button
+                      className="rounded text-muted-foreground hover:text-foreground cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                      onClick={() => moveTrack(track.id, index - 1)}
+                      disabled={index === 0}
+                      title="Move track up"
+                    >
+                      <ChevronUp className="h-3 w-3" />
+                    </button>
+                    <button
+                      className="rounded text-muted-foreground hover:text-foreground cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                      onClick={() => moveTrack(track.id, index + 1)}
+                      disabled={index === tracks.length - 1}
+                      title="Move track down"
+                    >
+                      <ChevronDown className="h-3 w-3" />
+                    </button>
+                    <button
+                      className="rounded text-muted-foreground hover:text-red-500 cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                      onClick={() => removeTrack(track.id)}
+                      disabled={hasClips}
+                      title={hasClips ? "Remove this track's clips first" : "Remove track"}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-0.5">
+                  <button
+                    className={toggleClass(track.locked)}
+                    onClick={() => updateTrack(track.id, { locked: !track.locked })}
+                    title={track.locked ? "Unlock track" : "Lock track"}
+                  >
+                    {track.locked ? <Lock className="h-2.5 w-2.5" /> : <Unlock className="h-2.5 w-2.5" />}
+                  </button>
+                  {track.type === "video" && (
+                    <button
+                      className={toggleClass(track.hidden)}
+                      onClick={() => updateTrack(track.id, { hidden: !track.hidden })}
+                      title={track.hidden ? "Show track" : "Hide track"}
+                    >
+                      {track.hidden ? <EyeOff className="h-2.5 w-2.5" /> : <Eye className="h-2.5 w-2.5" />}
+                    </button>
+                  )}
+                  <button
+                    className={toggleClass(track.muted)}
+                    onClick={() => updateTrack(track.id, { muted: !track.muted })}
+                    title={track.muted ? "Unmute track" : "Mute track"}
+                  >
+                    {track.muted ? <VolumeX className="h-2.5 w-2.5" /> : <Volume2 className="h-2.5 w-2.5" />}
+                  </button>
+                  <button
+                    className={`rounded px-1 text-[9px] font-bold leading-3 cursor-pointer ${
+                      track.solo ? "bg-yellow-500 text-black" : "text-muted-foreground/50 hover:bg-background/60"
+                    }`}
+                    onClick={() => updateTrack(track.id, { solo: !track.solo })}
+                    title={track.solo ? "Unsolo track" : "Solo track"}
+                  >
+                    S
+                  </button>
+                </div>
               </div>
-              <div className="text-xs font-medium text-foreground">{track}</div>
-            </div>
-          ))}
+            )
+          })}
         </div>
 
         {/* Timeline Grid */}
@@ -953,11 +1505,61 @@ export function Timeline() {
                 </div>
               ))
             })()}
+
+            {/* Timeline in/out points, with the marked range shaded */}
+            {timelineInOut.in !== undefined && timelineInOut.out !== undefined && (
+              <div
+                className="absolute top-0 bottom-0 bg-primary/20 pointer-events-none"
+                style={{
+                  left: `${ticksToSeconds(timelineInOut.in) * pixelsPerSecond}px`,
+                  width: `${ticksToSeconds(timelineInOut.out - timelineInOut.in) * pixelsPerSecond}px`,
+                }}
+              />
+            )}
+            {timelineInOut.in !== undefined && (
+              <div
+                className="absolute top-0 bottom-0 w-1.5 border-y-2 border-l-2 border-primary pointer-events-none"
+                style={{ left: `${ticksToSeconds(timelineInOut.in) * pixelsPerSecond}px` }}
+              />
+            )}
+            {timelineInOut.out !== undefined && (
+              <div
+                className="absolute top-0 bottom-0 w-1.5 -translate-x-full border-y-2 border-r-2 border-primary pointer-events-none"
+                style={{ left: `${ticksToSeconds(timelineInOut.out) * pixelsPerSecond}px` }}
+              />
+            )}
+
+            {/* Ruler markers - click to jump there, right-click to edit */}
+            {markers.map((marker) => (
+              <div
+                key={marker.id}
+                className="absolute top-0 z-10 h-3.5 w-2.5 -translate-x-1/2 rounded-b-sm cursor-pointer hover:scale-125 transition-transform"
+                style={{ left: `${ticksToSeconds(marker.time) * pixelsPerSecond}px`, backgroundColor: getMarkerColor(marker.color) }}
+                title={marker.name}
+                onMouseDown={(e) => {
+                  e.stopPropagation()
+                  if (e.button === 0) setCurrentTime(ticksToSeconds(marker.time))
+                }}
+                onContextMenu={(e) => handleMarkerContextMenu(e, marker.id)}
+              />
+            ))}
           </div>
 
           {/* Tracks Content */}
-          <div className="relative">
-            {tracks.map((track, index) => (
+          <div ref={tracksContentRef} className="relative">
+            {/* Selection box */}
+            {marquee && (
+              <div
+                className="absolute z-40 border border-primary bg-primary/10 pointer-events-none"
+                style={{
+                  left: Math.min(marquee.startX, marquee.x),
+                  top: Math.min(marquee.startY, marquee.y),
+                  width: Math.abs(marquee.x - marquee.startX),
+                  height: Math.abs(marquee.y - marquee.startY),
+                }}
+              />
+            )}
+            {tracks.map(({ id: track, type: trackType, hidden: trackHidden }) => (
               <div
                 key={track}
                 className={`flex h-12 border-b transition-all relative ${
@@ -968,8 +1570,9 @@ export function Timeline() {
                 style={{
                   background: dropTargetTrack === track 
                     ? undefined 
-                    : index < 2 ? "oklch(0.10 0 0)" : "oklch(0.12 0 0)",
+                    : trackType === "video" ? "oklch(0.10 0 0)" : "oklch(0.12 0 0)",
                 }}
+                data-track-row
                 onDragOver={(e) => handleTrackDragOver(e, track)}
                 onDragLeave={handleTrackDragLeave}
                 onDrop={(e) => handleTrackDrop(e, track)}
@@ -1061,13 +1664,15 @@ export function Timeline() {
                   })
                   .map((clip) => {
                     const media = mediaFiles.find((m) => m.id === clip.mediaId)
-                    // Convert stored base pixels to visual pixels based on zoom
-                    let visualStartTime = (clip.startTime / PIXELS_PER_SECOND) * pixelsPerSecond
-                    let visualDuration = (clip.duration / PIXELS_PER_SECOND) * pixelsPerSecond
+                    // Convert stored ticks to visual pixels based on zoom
+                    let visualStartTime = ticksToSeconds(clip.startTime) * pixelsPerSecond
+                    let visualDuration = ticksToSeconds(clip.duration) * pixelsPerSecond
                     
                     // Apply live transform for instant feedback
                     if (liveTransform && liveTransform.clipId === clip.id) {
                       visualStartTime = liveTransform.x
+                    } else if (liveTransform?.followers?.includes(clip.id)) {
+                      visualStartTime += dragDeltaX
                     }
                     
                     // Apply live trim for instant feedback
@@ -1080,52 +1685,129 @@ export function Timeline() {
                       }
                     }
                     
+                    // Ripple, roll and slide drags move this clip's neighbours as well
+                    const liveTiming = liveEdit?.updates.find((u) => u.id === clip.id)
+                    const linkedClip = getLinkedClips(timelineClips, clip)[0]
+                    const syncOffset = linkedClip ? formatSyncOffset(getSyncOffset(linkedClip, clip), projectFrameRate) : null
+                    if (liveTiming) {
+                      visualStartTime = ticksToSeconds(liveTiming.startTime) * pixelsPerSecond
+                      visualDuration = ticksToSeconds(liveTiming.duration) * pixelsPerSecond
+                    }
+                    // On-screen part of the clip, in pixels from its left edge (past the mx-1 margin)
+                    const visibleLeft = viewport.left - visualStartTime - 4
+                    const visibleRight = visibleLeft + viewport.width
+                    
                     return (
                     <div
                       key={clip.id}
                         data-clip-id={clip.id}
                       onMouseDown={(e) => handleClipMouseDown(e, clip.id)}
                       onContextMenu={(e) => handleClipContextMenu(e, clip.id)}
+                      onDoubleClick={() => openCompoundClip(clip.id)}
                         className={`absolute z-10 mx-1 my-1.5 h-9 rounded border overflow-hidden group ${
-                        clip.type === "video" ? "bg-primary/80 border-primary" : "bg-chart-2/80 border-chart-2"
-                        } ${draggedClip === clip.id ? "opacity-70 cursor-grabbing z-50" : trimState?.clipId === clip.id ? "cursor-ew-resize z-50" : "cursor-grab"} ${
-                          selectedClipId === clip.id ? "ring-2 ring-white" : ""
-                        } ${activeClip?.id === clip.id ? "ring-2 ring-red-500/50" : ""}`}
+                        clip.sequenceId ? "bg-chart-5/80 border-chart-5" : clip.type === "video" ? "bg-primary/80 border-primary" : clip.type === "text" ? "bg-chart-4/80 border-chart-4" : "bg-chart-2/80 border-chart-2"
+                        } ${draggedClip === clip.id ? "opacity-70 cursor-grabbing z-50" : trimState?.clipId === clip.id || editMode === "slip" || editMode === "slide" ? "cursor-ew-resize z-50" : "cursor-grab"} ${
+                          selectedClipIds.includes(clip.id) ? "ring-2 ring-white" : ""
+                        } ${activeClip?.id === clip.id ? "ring-2 ring-red-500/50" : ""} ${trackHidden ? "opacity-40" : ""}`}
                       style={{ left: `${visualStartTime}px`, width: `${Math.max(20, visualDuration)}px` }}
                     >
-                      {clip.type === "video" ? (
+                      {clip.sequenceId ? (
+                          <div className="flex h-full items-center gap-1.5 px-2" title="Double-click to open">
+                            <Layers className="h-3 w-3 text-foreground/80 shrink-0" />
+                            <div className="text-[10px] font-medium text-foreground truncate">
+                              {sequences.find((s) => s.id === clip.sequenceId)?.name ?? clip.label}
+                            </div>
+                        </div>
+                      ) : clip.type === "text" ? (
                           <div className="flex h-full items-center gap-1.5 px-2">
-                            {media?.thumbnail ? (
-                              <img 
-                                src={media.thumbnail} 
-                                alt="" 
-                                className="h-6 w-10 object-cover rounded-sm shrink-0"
-                              />
-                            ) : (
-                              <Film className="h-3 w-3 text-primary-foreground/80 shrink-0" />
-                            )}
-                            <div className="text-[10px] font-medium text-primary-foreground truncate">
+                            <Type className="h-3 w-3 text-foreground/80 shrink-0" />
+                            <div className="text-[10px] font-medium text-foreground truncate">
                               {clip.label}
                             </div>
                         </div>
+                      ) : clip.type === "video" ? (
+                          <>
+                            {media && (
+                              <ClipPreview
+                                clip={clip}
+                                media={media}
+                                width={Math.max(20, visualDuration)}
+                                pixelsPerSecond={pixelsPerSecond}
+                                visibleLeft={visibleLeft}
+                                visibleRight={visibleRight}
+                                filmstrip
+                                waveform={getMediaKind(media) === "video" && !clip.audio.muted && !clip.freeze}
+                              />
+                            )}
+                            <div className="relative flex h-full items-center gap-1.5 px-2">
+                              <Film className="h-3 w-3 text-primary-foreground/80 shrink-0 drop-shadow" />
+                              <div className="text-[10px] font-medium text-primary-foreground truncate drop-shadow">
+                                {clip.label}
+                              </div>
+                            </div>
+                          </>
                       ) : (
-                        <div className="h-full">
-                          <div className="flex h-full items-center gap-1.5 px-2">
+                          <>
+                            {media && (
+                              <ClipPreview
+                                clip={clip}
+                                media={media}
+                                width={Math.max(20, visualDuration)}
+                                pixelsPerSecond={pixelsPerSecond}
+                                visibleLeft={visibleLeft}
+                                visibleRight={visibleRight}
+                                waveform={!clip.freeze}
+                              />
+                            )}
+                            <div className="relative flex h-full items-center px-2">
                               <Volume2 className="h-3 w-3 shrink-0 text-foreground/60" />
-                            {/* Simple waveform visualization */}
-                            <div className="flex h-full flex-1 items-center gap-px">
-                                {Array.from({ length: Math.min(40, Math.floor(clip.duration / 8)) }).map((_, i) => (
-                                <div
-                                  key={i}
-                                  className="flex-1 bg-foreground/60"
-                                  style={{ height: `${30 + Math.random() * 70}%` }}
-                                />
-                              ))}
                             </div>
-                          </div>
-                        </div>
+                          </>
                       )}
-                        
+
+                        {/* Speed badge for slowed, sped-up, reversed and frozen clips */}
+                        {isClipRetimed(clip) && (
+                          <div className="absolute bottom-0.5 left-3 z-10 rounded-sm bg-black/60 px-1 text-[9px] font-medium text-white pointer-events-none">
+                            {describeClipSpeed(clip)}
+                          </div>
+                        )}
+
+                        {/* Grouped clips move together, and so do linked video and audio */}
+                        {(clip.groupId || clip.linkId) && (
+                          <div className="absolute bottom-0.5 right-3 z-10 flex gap-0.5 pointer-events-none">
+                            {clip.linkId && <LinkIcon className="h-2.5 w-2.5 text-white/80" />}
+                            {clip.groupId && <Link2 className="h-2.5 w-2.5 text-white/80" />}
+                          </div>
+                        )}
+
+                        {/* How far a linked clip has drifted from its partner */}
+                        {syncOffset && (
+                          <div
+                            className="absolute top-0.5 left-3 z-10 rounded-sm bg-destructive px-1 text-[9px] font-medium text-white"
+                            title="Out of sync with its linked clip"
+                          >
+                            {syncOffset}
+                          </div>
+                        )}
+
+                        {/* Clip markers, on the footage they were added to */}
+                        {getClipMarkerPositions(clip).map(({ marker, time }) => (
+                          <div
+                            key={marker.id}
+                            className="absolute top-0 z-20 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-pointer"
+                            style={{ left: `${ticksToSeconds(time - clip.startTime) * pixelsPerSecond}px`, backgroundColor: getMarkerColor(marker.color) }}
+                            title={marker.name}
+                            onContextMenu={(e) => handleMarkerContextMenu(e, marker.id)}
+                          />
+                        ))}
+
+                        {/* How far a slip has moved the footage */}
+                        {liveEdit?.clipId === clip.id && liveEdit.slipTicks !== undefined && (
+                          <div className="absolute top-0.5 right-3 z-10 rounded-sm bg-black/60 px-1 text-[9px] font-medium text-white pointer-events-none">
+                            {liveEdit.slipTicks >= 0 ? "+" : "-"}{ticksToSeconds(Math.abs(liveEdit.slipTicks)).toFixed(2)}s
+                          </div>
+                        )}
+
                         {/* Trim handles - always visible */}
                         <div
                           data-trim-handle="true"
@@ -1164,9 +1846,44 @@ export function Timeline() {
                     </div>
                     )
                   })}
+
+                {/* Transitions, centred on the cut they cover */}
+                {visibleTransitions.map((transition) => {
+                  const to = timelineClips.find((c) => c.id === transition.toClipId)
+                  if (!to || to.trackId !== track) return null
+                  const { start, end } = getTransitionWindow(transition, to)
+                  const label = TRANSITION_TYPES.find((t) => t.id === transition.type)?.label ?? transition.type
+                  return (
+                    <div
+                      key={transition.id}
+                      className={`absolute bottom-0.5 z-30 mx-1 flex h-3 items-center justify-center rounded-sm border border-white/70 bg-white/30 backdrop-blur-sm cursor-pointer hover:bg-white/50 ${
+                        transitionMenu?.transitionId === transition.id ? "ring-1 ring-white" : ""
+                      }`}
+                      style={{ left: `${ticksToSeconds(start) * pixelsPerSecond}px`, width: `${Math.max(8, ticksToSeconds(end - start) * pixelsPerSecond)}px` }}
+                      title={`${label} (${ticksToSeconds(transition.duration).toFixed(2)}s)`}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setContextMenu(null)
+                        setTransitionMenu({ x: e.clientX, y: e.clientY, transitionId: transition.id })
+                      }}
+                    >
+                      <Blend className="h-2.5 w-2.5 text-white" />
+                    </div>
+                  )
+                })}
               </div>
             ))}
 
+            {/* Ruler markers carry down through the tracks */}
+            {markers.map((marker) => (
+              <div
+                key={marker.id}
+                className="absolute top-0 z-0 h-full w-px opacity-50 pointer-events-none"
+                style={{ left: `${ticksToSeconds(marker.time) * pixelsPerSecond}px`, backgroundColor: getMarkerColor(marker.color) }}
+              />
+            ))}
+
             {/* Playhead - synced with video */}
             <div
               className="absolute top-0 z-20 h-full w-0.5 bg-red-500"
@@ -1228,10 +1945,84 @@ export function Timeline() {
             Split at Playhead
             <span className="ml-auto text-xs text-muted-foreground">S</span>
           </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => {
+              const { error } = freezeFrame(contextMenu.clipId, currentTime)
+              if (error) {
+                console.error("[Timeline] Failed to freeze frame:", error)
+              }
+              setContextMenu(null)
+            }}
+            disabled={!canFreezeClip(contextMenu.clipId)}
+            title="Hold the frame under the playhead, pushing the rest of the track later"
+          >
+            <Snowflake className="h-3.5 w-3.5" />
+            Freeze Frame
+          </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => {
+              const { error } = addMarker(secondsToFrameTicks(currentTime, projectFrameRate), { clipId: contextMenu.clipId })
+              if (error) {
+                console.error("[Timeline] Failed to add clip marker:", error)
+              }
+              setContextMenu(null)
+            }}
+            disabled={!canMarkClip(contextMenu.clipId)}
+            title="Mark the frame under the playhead on this clip"
+          >
+            <BookmarkPlus className="h-3.5 w-3.5" />
+            Add Clip Marker
+          </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => {
+              const { error } = detachAudio(contextMenu.clipId)
+              if (error) {
+                console.error("[Timeline] Failed to detach audio:", error)
+              }
+              setContextMenu(null)
+            }}
+            disabled={!canDetachAudio(contextMenu.clipId)}
+            title="Move the clip's sound to an audio track, linked to the video"
+          >
+            <AudioLines className="h-3.5 w-3.5" />
+            Detach Audio
+          </button>
+          {timelineClips.find((c) => c.id === contextMenu.clipId)?.linkId ? (
+            <button
+              className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
+              onClick={() => {
+                unlinkClips([contextMenu.clipId])
+                setContextMenu(null)
+              }}
+              title="Let the video and its audio move on their own"
+            >
+              <Unlink className="h-3.5 w-3.5" />
+              Unlink
+            </button>
+          ) : (
+            <button
+              className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => {
+                const { error } = linkClips(selectedClipIds)
+                if (error) {
+                  console.error("[Timeline] Failed to link clips:", error)
+                }
+                setContextMenu(null)
+              }}
+              disabled={selectedClipIds.length !== 2 || !timelineClips.some((c) => selectedClipIds.includes(c.id) && c.type === "video") || !timelineClips.some((c) => selectedClipIds.includes(c.id) && c.type === "audio")}
+              title="Keep the selected video and audio clips together"
+            >
+              <LinkIcon className="h-3.5 w-3.5" />
+              Link
+            </button>
+          )}
           <button
             className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
             onClick={() => {
-              copyClip(contextMenu.clipId)
+              copyClips(selectedClipIds)
               setContextMenu(null)
             }}
           >
@@ -1239,11 +2030,117 @@ export function Timeline() {
             Copy
             <span className="ml-auto text-xs text-muted-foreground">Ctrl+C</span>
           </button>
+          {timelineClips.find((c) => c.id === contextMenu.clipId)?.groupId ? (
+            <button
+              className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
+              onClick={() => {
+                ungroupClips(selectedClipIds)
+                setContextMenu(null)
+              }}
+            >
+              <Unlink className="h-3.5 w-3.5" />
+              Ungroup
+              <span className="ml-auto text-xs text-muted-foreground">Ctrl+Shift+G</span>
+            </button>
+          ) : (
+            <button
+              className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => {
+                const { error } = groupClips(selectedClipIds)
+                if (error) {
+                  console.error("[Timeline] Failed to group clips:", error)
+                }
+                setContextMenu(null)
+              }}
+              disabled={selectedClipIds.length < 2}
+              title="Keep the selected clips together when moving them"
+            >
+              <Link2 className="h-3.5 w-3.5" />
+              Group
+              <span className="ml-auto text-xs text-muted-foreground">Ctrl+G</span>
+            </button>
+          )}
+          {timelineClips.find((c) => c.id === contextMenu.clipId)?.sequenceId && (
+            <button
+              className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
+              onClick={() => {
+                openCompoundClip(contextMenu.clipId)
+                setContextMenu(null)
+              }}
+              title="Edit the clips inside in their own timeline"
+            >
+              <FolderOpen className="h-3.5 w-3.5" />
+              Open Compound Clip
+            </button>
+          )}
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => {
+              const { error } = createCompoundClip(selectedClipIds)
+              if (error) {
+                console.error("[Timeline] Failed to make compound clip:", error)
+              }
+              setContextMenu(null)
+            }}
+            disabled={selectedClipIds.length === 0}
+            title="Collapse the selected clips into one clip that plays them as a sequence"
+          >
+            <Layers className="h-3.5 w-3.5" />
+            Make Compound Clip
+          </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
+            onClick={() => {
+              const clip = timelineClips.find((c) => c.id === contextMenu.clipId)
+              if (clip) {
+                selectTrackClips(clip.trackId)
+              }
+              setContextMenu(null)
+            }}
+          >
+            <MousePointer2 className="h-3.5 w-3.5" />
+            Select All on Track
+          </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer"
+            onClick={() => {
+              const clip = timelineClips.find((c) => c.id === contextMenu.clipId)
+              if (clip) {
+                selectClipsForward(ticksToSeconds(clip.startTime))
+              }
+              setContextMenu(null)
+            }}
+            title="Select this clip and every clip after it on all tracks"
+          >
+            <MoveHorizontal className="h-3.5 w-3.5" />
+            Select Forward
+          </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            onClick={() => {
+              const next = getNextAdjacentClip(contextMenu.clipId)
+              if (next) {
+                const { data, error } = addTransition(contextMenu.clipId, next.id, "crossfade", secondsToTicks(1))
+                if (error) {
+                  console.error("[Timeline] Failed to add transition:", error)
+                } else if (data) {
+                  // Open the new transition for editing
+                  setTransitionMenu({ x: contextMenu.x, y: contextMenu.y, transitionId: data.id })
+                }
+              }
+              setContextMenu(null)
+            }}
+            disabled={!getNextAdjacentClip(contextMenu.clipId)}
+            title="Cross dissolve into the clip that starts where this one ends"
+          >
+            <Blend className="h-3.5 w-3.5" />
+            Add Transition
+          </button>
           <div className="h-px bg-border my-1" />
           <button
             className="w-full px-3 py-2 text-sm text-left hover:bg-destructive hover:text-destructive-foreground flex items-center gap-2 cursor-pointer"
             onClick={() => {
-              removeClip(contextMenu.clipId)
+              removeClips(selectedClipIds)
               setContextMenu(null)
             }}
           >
@@ -1251,8 +2148,270 @@ export function Timeline() {
             Delete
             <span className="ml-auto text-xs text-muted-foreground">Del</span>
           </button>
+          <button
+            className="w-full px-3 py-2 text-sm text-left hover:bg-destructive hover:text-destructive-foreground flex items-center gap-2 cursor-pointer"
+            onClick={() => {
+              const { error } = rippleDeleteClip(contextMenu.clipId)
+              if (error) {
+                console.error("[Timeline] Failed to ripple delete:", error)
+              }
+              setContextMenu(null)
+            }}
+            title="Delete the clip and close the gap it leaves"
+          >
+            <FoldHorizontal className="h-3.5 w-3.5" />
+            Ripple Delete
+            <span className="ml-auto text-xs text-muted-foreground">Shift+Del</span>
+          </button>
+        </div>
+      )}
+
+      {/* Transition settings */}
+      {transitionMenu && menuTransition && (() => {
+        const from = timelineClips.find((c) => c.id === menuTransition.fromClipId)
+        const to = timelineClips.find((c) => c.id === menuTransition.toClipId)
+        const maxSeconds = from && to ? ticksToSeconds(getMaxTransitionDuration(from, to)) : ticksToSeconds(menuTransition.duration)
+        return (
+          <div
+            className="fixed z-50 bg-popover border border-border rounded-md shadow-lg p-3 w-[200px] space-y-2 animate-in fade-in slide-in-from-top-1 duration-150"
+            style={{ left: transitionMenu.x, top: transitionMenu.y }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="text-xs font-medium text-foreground">Transition</div>
+            <select
+              value={menuTransition.type}
+              onChange={(e) => updateTransition(menuTransition.id, { type: e.target.value as TransitionType })}
+              className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+            >
+              {TRANSITION_TYPES.map((t) => (
+                <option key={t.id} value={t.id}>{t.label}</option>
+              ))}
+            </select>
+            {transitionHasDirection(menuTransition.type) && (
+              <select
+                value={menuTransition.direction ?? "left"}
+                onChange={(e) => updateTransition(menuTransition.id, { direction: e.target.value as TransitionDirection })}
+                className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+                <option value="up">Up</option>
+                <option value="down">Down</option>
+              </select>
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-xs text-muted-foreground">Duration (s)</label>
+              <input
+                type="number"
+                min={0.1}
+                max={maxSeconds}
+                step={0.1}
+                value={Number(ticksToSeconds(menuTransition.duration).toFixed(2))}
+                onChange={(e) => {
+                  const seconds = parseFloat(e.target.value)
+                  if (!isNaN(seconds) && seconds > 0) {
+                    // Whole frames, and no longer than the shorter clip
+                    const duration = Math.min(secondsToFrameTicks(seconds, projectFrameRate), secondsToTicks(maxSeconds))
+                    updateTransition(menuTransition.id, { duration: Math.max(1, duration) })
+                  }
+                }}
+                className="w-16 rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+              />
+            </div>
+            <button
+              className="w-full rounded px-2 py-1 text-xs text-left hover:bg-destructive hover:text-destructive-foreground flex items-center gap-2 cursor-pointer"
+              onClick={() => {
+                removeTransition(menuTransition.id)
+                setTransitionMenu(null)
+              }}
+            >
+              <Trash2 className="h-3 w-3" />
+              Remove Transition
+            </button>
+          </div>
+        )
+      })()}
+
+      {/* Marker settings */}
+      {markerMenu && menuMarker && (
+        <div
+          className="fixed z-50 bg-popover border border-border rounded-md shadow-lg p-3 w-[200px] space-y-2 animate-in fade-in slide-in-from-top-1 duration-150"
+          style={{ left: markerMenu.x, top: markerMenu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="text-xs font-medium text-foreground">Marker</div>
+          <input
+            type="text"
+            value={menuMarker.name}
+            onChange={(e) => updateMarker(menuMarker.id, { name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === "Escape") setMarkerMenu(null)
+            }}
+            className="w-full rounded border border-input bg-background px-2 py-1 text-xs text-foreground"
+            autoFocus
+          />
+          <div className="flex items-center gap-1.5">
+            {MARKER_COLORS.map((color) => (
+              <button
+                key={color.id}
+                className={`h-4 w-4 rounded-full cursor-pointer ${menuMarker.color === color.id ? "ring-2 ring-foreground ring-offset-1 ring-offset-popover" : ""}`}
+                style={{ backgroundColor: color.hex }}
+                onClick={() => updateMarker(menuMarker.id, { color: color.id })}
+                title={color.label}
+              />
+            ))}
+          </div>
+          <button
+            className="w-full rounded px-2 py-1 text-xs text-left hover:bg-destructive hover:text-destructive-foreground flex items-center gap-2 cursor-pointer"
+            onClick={() => {
+              removeMarker(menuMarker.id)
+              setMarkerMenu(null)
+            }}
+          >
+            <Trash2 className="h-3 w-3" />
+            Remove Marker
+          </button>
+        </div>
+      )}
+
+      {/* Edit history - click an edit to go back or forward to just after it */}
+      {historyMenu && (
+        <div
+          className="fixed z-50 bg-popover border border-border rounded-md shadow-lg py-1 w-[240px] max-h-[280px] overflow-y-auto animate-in fade-in slide-in-from-top-1 duration-150"
+          style={{ left: historyMenu.x, top: historyMenu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {[{ id: "start", label: openSequenceIds.length > 0 ? "Opened sequence" : "Opened project", time: null as number | null }, ...history].map((item, i) => {
+            const index = i - 1
+            return (
+              <button
+                key={item.id}
+                className={`w-full px-3 py-1.5 text-xs text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2 cursor-pointer ${
+                  index === historyIndex ? "bg-accent/60 font-medium text-foreground" : index > historyIndex ? "text-muted-foreground/50" : "text-foreground"
+                }`}
+                onClick={() => goToHistory(index)}
+              >
+                <span className="truncate">{item.label}</span>
+                {item.time !== null && (
+                  <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">
+                    {new Date(item.time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </span>
+                )}
+              </button>
+            )
+          })}
         </div>
       )}
     </div>
   )
 }
+
+interface ClipPreviewProps {
+  clip: TimelineClip
+  media: PreviewMedia
+  width: number // Of the clip, in pixels
+  pixelsPerSecond: number
+  visibleLeft: number // On-screen part of the clip, in pixels from its left edge
+  visibleRight: number
+  filmstrip?: boolean
+  waveform?: boolean
+}
+
+// Clip body height inside its 1px border (h-9)
+const CLIP_PREVIEW_HEIGHT = 34
+
+/**
+ * Filmstrip and waveform drawn behind a clip's label
+ * Only the on-screen part of the clip gets a canvas, so long clips and long timelines cost
+ * no more to draw than what fits in the window. Frames and peaks follow the clip's speed,
+ * reverse and trim, and frames are spaced to the zoom so closer zoom shows more of them.
+ */
+function ClipPreview({ clip, media, width, pixelsPerSecond, visibleLeft, visibleRight, filmstrip: showFilmstrip, waveform: showWaveform }: ClipPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [filmstrip, setFilmstrip] = useState<Filmstrip | null>(null)
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null)
+  const left = Math.max(0, Math.floor(visibleLeft))
+  const right = Math.min(width, Math.ceil(visibleRight))
+  const isVisible = right > left
+
+  // Loaded once the clip is first on screen; both are cached per media
+  useEffect(() => {
+    if (!showFilmstrip || !isVisible) return
+    let cancelled = false
+    getFilmstrip(media).then((result) => !cancelled && setFilmstrip(result))
+    return () => {
+      cancelled = true
+    }
+  }, [media, showFilmstrip, isVisible])
+
+  useEffect(() => {
+    if (!showWaveform || !isVisible) return
+    let cancelled = false
+    getWaveform(media).then((result) => !cancelled && setWaveform(result))
+    return () => {
+      cancelled = true
+    }
+  }, [media, showWaveform, isVisible])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !isVisible) return
+    const dpr = window.devicePixelRatio || 1
+    const drawWidth = right - left
+    const height = CLIP_PREVIEW_HEIGHT
+    canvas.width = Math.round(drawWidth * dpr)
+    canvas.height = Math.round(height * dpr)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, drawWidth, height)
+
+    // Media time shown at a pixel from the clip's left edge
+    const sourceSecondsAt = (x: number) =>
+      ticksToSeconds(getClipSourceTime(clip, clip.startTime + secondsToTicks(x / pixelsPerSecond)))
+
+    if (showFilmstrip && filmstrip && filmstrip.frameWidth > 0 && filmstrip.frameHeight > 0) {
+      // Tiles line up with the clip's start, so they stay put as the timeline scrolls
+      const tileWidth = (filmstrip.frameWidth * height) / filmstrip.frameHeight
+      for (let tile = Math.floor(left / tileWidth); tile * tileWidth < right; tile++) {
+        const x = tile * tileWidth
+        const frame = getFilmstripFrame(filmstrip, sourceSecondsAt(x + tileWidth / 2))
+        ctx.drawImage(
+          filmstrip.image,
+          frame * filmstrip.frameWidth, 0, filmstrip.frameWidth, filmstrip.frameHeight,
+          x - left, 0, tileWidth, height
+        )
+      }
+    }
+
+    if (showWaveform && waveform) {
+      // Over a filmstrip the waveform sits along the bottom; on its own it fills the clip
+      const waveHeight = showFilmstrip ? height * 0.4 : height
+      const baseline = showFilmstrip ? height : height / 2
+      const gain = Math.min(2, clip.audio.volume / 100)
+      if (showFilmstrip) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.35)"
+        ctx.fillRect(0, height - waveHeight, drawWidth, waveHeight)
+        ctx.fillStyle = "rgba(255, 255, 255, 0.8)"
+      } else {
+        // The canvas's text colour, so audio clips match the theme
+        ctx.fillStyle = getComputedStyle(canvas).color
+      }
+      for (let x = left; x < right; x++) {
+        const peak = Math.min(1, getPeakBetween(waveform, sourceSecondsAt(x), sourceSecondsAt(x + 1)) * gain)
+        const barHeight = Math.max(1, peak * (waveHeight - 2))
+        const top = showFilmstrip ? baseline - barHeight : baseline - barHeight / 2
+        ctx.fillRect(x - left, top, 1, barHeight)
+      }
+    }
+  }, [clip, pixelsPerSecond, left, right, isVisible, filmstrip, waveform, showFilmstrip, showWaveform])
+
+  if (!isVisible || ((!showFilmstrip || !filmstrip) && (!showWaveform || !waveform))) return null
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 pointer-events-none text-foreground/60"
+      style={{ left: `${left}px`, width: `${right - left}px`, height: `${CLIP_PREVIEW_HEIGHT}px` }}
+    />
+  )
+}
@@ -2,7 +2,16 @@
 
 import { Play, Pause, SkipBack, SkipForward, Film, Maximize, Minimize } from "lucide-react"
 import { useRef, useEffect, useState, useCallback } from "react"
-import { useEditor, PIXELS_PER_SECOND, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS } from "./editor-context"
+import { useEditor, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS } from "./editor-context"
+import { secondsToTicks, ticksToSeconds } from "@/lib/timecode"
+import { getAnimatedEffects, getAnimatedTransform, getClipKeyframeTime } from "@/lib/keyframes"
+import { getTrackDrawOrder, isTrackVisible } from "@/lib/tracks"
+import { getMediaKind } from "@/lib/media-import"
+import { getPlaybackUrl } from "@/lib/proxy-media"
+import { applyTransitionLayer, findActiveTransitions, getTransitionFrame, getTransitionLayerStyle, getValidTransitions, type TransitionLayer } from "@/lib/transitions"
+import { drawTextClip, TEXT_CANVAS_HEIGHT, TEXT_CANVAS_WIDTH } from "@/lib/text-clips"
+import { getClipSourceTime, getClipSpeedAt } from "@/lib/clip-speed"
+import { useTimelineAudio } from "@/lib/use-timeline-audio"
 import type { ClipEffects } from "@/lib/projects"
 import { ChromakeyProcessor, type ChromakeyOptions } from "@/lib/chromakey"
 
@@ -61,20 +70,33 @@ export function VideoPreview() {
     clipTimeOffset,
     backgroundClipTimeOffset,
     timelineEndTime,
-    sortedVideoClips,
+    sortedVideoClips: allVideoClips,
+    // Compound clips are drawn from the clips inside them (see lib/sequences)
+    renderTracks: tracks,
     setProjectThumbnail,
     isEyedropperActive,
     onColorSampled,
     showCaptions,
     mediaFiles,
+    renderClips: timelineClips,
     captionStyle,
     getMediaForClip,
     projectResolution,
+    renderTransitions: transitions,
+    useProxies,
+    setUseProxies,
   } = useEditor()
 
+  // Clips on hidden tracks are skipped, so don't preload them as the next clip either
+  const sortedVideoClips = allVideoClips.filter((clip) => isTrackVisible(clip.trackId, tracks))
+
+  // All clip audio (video and audio tracks) is mixed through Web Audio, so the <video> elements stay muted
+  useTimelineAudio({ clips: timelineClips, mediaFiles, tracks, currentTime, isPlaying })
+
   const videoRef = useRef<HTMLVideoElement>(null)
   const nextVideoRef = useRef<HTMLVideoElement>(null) // Buffer for next clip
   const backgroundVideoRef = useRef<HTMLVideoElement>(null)
+  const transitionVideoRef = useRef<HTMLVideoElement>(null) // The other clip of a playing transition
   const scrubberRef = useRef<HTMLDivElement>(null)
   const animationRef = useRef<number | null>(null)
   const lastActiveClipIdRef = useRef<string | null>(null)
@@ -88,6 +110,8 @@ export function VideoPreview() {
   const chromakeyProcessorRef = useRef<ChromakeyProcessor | null>(null)
   const chromakeyAnimationRef = useRef<number | null>(null)
   const previewContainerRef = useRef<HTMLDivElement>(null)
+  const stillImageRef = useRef<HTMLImageElement>(null) // Source for image clips, drawn to the same canvas as video
+  const textCanvasRef = useRef<HTMLCanvasElement>(null) // Text clips, drawn over the video
 
   const [displayTime, setDisplayTime] = useState(0)
   const [duration, setDuration] = useState(0)
@@ -101,25 +125,67 @@ export function VideoPreview() {
   const hideControlsTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
 
-  const activeClipTransform = activeClip?.transform ?? DEFAULT_CLIP_TRANSFORM
-  const activeClipEffects = activeClip?.effects ?? DEFAULT_CLIP_EFFECTS
+  // Keyframed properties are evaluated at the playhead's place in the clip, whatever its speed
+  const activeKeyframeTime = activeClip ? getClipKeyframeTime(activeClip, secondsToTicks(currentTime)) : 0
+  const activeClipTransform = activeClip ? getAnimatedTransform(activeClip, activeKeyframeTime) : DEFAULT_CLIP_TRANSFORM
+  const activeClipEffects = activeClip ? getAnimatedEffects(activeClip, activeKeyframeTime) : DEFAULT_CLIP_EFFECTS
   const chromakeyEnabled = activeClipEffects.chromakey?.enabled ?? false
+  const previewIsImage = previewMedia ? getMediaKind(previewMedia) === "image" : false
   
   // Get background clip media and transform
   const backgroundMedia = backgroundClip ? getMediaForClip(backgroundClip.id) ?? null : null
-  const backgroundClipTransform = backgroundClip?.transform ?? DEFAULT_CLIP_TRANSFORM
-  const backgroundClipEffects = backgroundClip?.effects ?? DEFAULT_CLIP_EFFECTS
+  const backgroundIsImage = backgroundMedia ? getMediaKind(backgroundMedia) === "image" : false
+  const backgroundKeyframeTime = backgroundClip ? getClipKeyframeTime(backgroundClip, secondsToTicks(currentTime)) : 0
+  const backgroundClipTransform = backgroundClip ? getAnimatedTransform(backgroundClip, backgroundKeyframeTime) : DEFAULT_CLIP_TRANSFORM
+  const backgroundClipEffects = backgroundClip ? getAnimatedEffects(backgroundClip, backgroundKeyframeTime) : DEFAULT_CLIP_EFFECTS
   const backgroundFilterString = buildFilterString(backgroundClipEffects)
   
   // Build the filter string from effects
   const filterString = buildFilterString(activeClipEffects)
 
+  // Video elements only play forwards, so reversed clips and freeze frames are paused and
+  // seeked to each frame instead; other clips play at their speed under the playhead
+  const activePlaysNatively = !activeClip?.reverse && !activeClip?.freeze
+  const activeClipSpeed = activeClip ? getClipSpeedAt(activeClip, secondsToTicks(clipTimeOffset)) : 1
+  const backgroundPlaysNatively = !backgroundClip?.reverse && !backgroundClip?.freeze
+  const backgroundClipSpeed = backgroundClip ? getClipSpeedAt(backgroundClip, secondsToTicks(backgroundClipTimeOffset)) : 1
+
+  // Transition the active clip is part of - the other clip is drawn alongside it, reading past its own range
+  const activeTransition = activeClip
+    ? findActiveTransitions(getValidTransitions(transitions, sortedVideoClips), sortedVideoClips, secondsToTicks(currentTime))
+        .find((t) => t.from.id === activeClip.id || t.to.id === activeClip.id) ?? null
+    : null
+  const transitionFrame = activeTransition ? getTransitionFrame(activeTransition.transition, activeTransition.progress) : null
+  const activeIsIncoming = activeTransition?.to.id === activeClip?.id
+  const transitionPartner = activeTransition ? (activeIsIncoming ? activeTransition.from : activeTransition.to) : null
+  const transitionPartnerMedia = transitionPartner ? getMediaForClip(transitionPartner.id) ?? null : null
+  const transitionPartnerIsImage = transitionPartnerMedia ? getMediaKind(transitionPartnerMedia) === "image" : false
+  const transitionPartnerTimeOffset = transitionPartner
+    ? ticksToSeconds(getClipSourceTime(transitionPartner, secondsToTicks(currentTime)))
+    : 0
+  const partnerKeyframeTime = transitionPartner ? getClipKeyframeTime(transitionPartner, secondsToTicks(currentTime)) : 0
+  const transitionPartnerTransform = transitionPartner ? getAnimatedTransform(transitionPartner, partnerKeyframeTime) : DEFAULT_CLIP_TRANSFORM
+  const transitionPartnerEffects = transitionPartner ? getAnimatedEffects(transitionPartner, partnerKeyframeTime) : DEFAULT_CLIP_EFFECTS
+  const transitionPartnerPlaysNatively = !transitionPartner?.reverse && !transitionPartner?.freeze
+  const transitionPartnerSpeed = transitionPartner ? getClipSpeedAt(transitionPartner, secondsToTicks(transitionPartnerTimeOffset)) : 1
+  const activeLayerStyle = transitionFrame ? getTransitionLayerStyle(activeIsIncoming ? transitionFrame.incoming : transitionFrame.outgoing) : null
+  const partnerLayerStyle = transitionFrame ? getTransitionLayerStyle(activeIsIncoming ? transitionFrame.outgoing : transitionFrame.incoming) : null
+
   // This applies the transformations and effects to the video
+  // The transition's movement wraps the clip's own transform, matching the export compositor
   const videoStyle: React.CSSProperties = {
-    transform: `translate(${activeClipTransform.positionX}px, ${activeClipTransform.positionY}px) scale(${activeClipTransform.scale / 100})`,
-    opacity: activeClipTransform.opacity / 100,
+    transform: `${activeLayerStyle ? `${activeLayerStyle.transform} ` : ""}translate(${activeClipTransform.positionX}px, ${activeClipTransform.positionY}px) scale(${activeClipTransform.scale / 100})`,
+    opacity: (activeClipTransform.opacity / 100) * (activeLayerStyle?.opacity ?? 1),
     filter: filterString || undefined,
+    clipPath: activeLayerStyle?.clipPath,
   }
+  const transitionPartnerStyle: React.CSSProperties | null = partnerLayerStyle ? {
+    transform: `${partnerLayerStyle.transform} translate(${transitionPartnerTransform.positionX}px, ${transitionPartnerTransform.positionY}px) scale(${transitionPartnerTransform.scale / 100})`,
+    opacity: (transitionPartnerTransform.opacity / 100) * partnerLayerStyle.opacity,
+    filter: buildFilterString(transitionPartnerEffects) || undefined,
+    clipPath: partnerLayerStyle.clipPath,
+    zIndex: activeIsIncoming ? 0 : 1,
+  } : null
   // Animate timeline playback using requestAnimationFrame for smoothness
   useEffect(() => {
     if (!isPlaying) {
@@ -185,10 +251,11 @@ export function VideoPreview() {
     // Get next clip
     const nextClip = sortedVideoClips[currentClipIndex + 1]
     const nextMedia = mediaFiles.find((m) => m.id === nextClip.mediaId)
-    if (!nextMedia) return
+    // Image clips don't use the video elements, so there's nothing to preload
+    if (!nextMedia || getMediaKind(nextMedia) === "image") return
 
     // Calculate how far we are from the end of current clip
-    const currentClipEndTime = (activeClip!.startTime + activeClip!.duration) / PIXELS_PER_SECOND
+    const currentClipEndTime = ticksToSeconds(activeClip!.startTime + activeClip!.duration)
     const timeUntilNextClip = currentClipEndTime - currentTime
 
     const targetVideoRef = useNextVideo ? videoRef : nextVideoRef
@@ -198,14 +265,14 @@ export function VideoPreview() {
       if (targetVideoRef.current) {
         console.log("🔄 Preloading next clip:", nextClip.label, `(${timeUntilNextClip.toFixed(2)}s until transition)`)
 
-        targetVideoRef.current.src = nextMedia.objectUrl
+        targetVideoRef.current.src = getPlaybackUrl(nextMedia, useProxies)
         targetVideoRef.current.load()
         nextClipIdRef.current = nextClip.id
 
         // Seek to the start position of the next clip
         targetVideoRef.current.onloadedmetadata = () => {
           if (!targetVideoRef.current) return
-          const nextClipOffset = nextClip.mediaOffset / PIXELS_PER_SECOND
+          const nextClipOffset = ticksToSeconds(getClipSourceTime(nextClip, nextClip.startTime))
           targetVideoRef.current.currentTime = nextClipOffset
           console.log("✅ Next clip metadata loaded, seeked to", nextClipOffset)
 
@@ -235,7 +302,7 @@ export function VideoPreview() {
         })
       }
     }
-  }, [currentTime, activeClip, sortedVideoClips, mediaFiles, isPlaying, useNextVideo])
+  }, [currentTime, activeClip, sortedVideoClips, mediaFiles, isPlaying, useNextVideo, useProxies])
 
   // Continuous canvas rendering for zero-gap playback
   useEffect(() => {
@@ -332,8 +399,8 @@ export function VideoPreview() {
       }
 
       // For non-sequential changes, update the current video normally
-      if (currentVideoRef.current.src !== previewMedia.objectUrl) {
-        currentVideoRef.current.src = previewMedia.objectUrl
+      if (currentVideoRef.current.src !== getPlaybackUrl(previewMedia, useProxies)) {
+        currentVideoRef.current.src = getPlaybackUrl(previewMedia, useProxies)
       }
 
       // Clamp clipTimeOffset to valid video duration range
@@ -369,7 +436,7 @@ export function VideoPreview() {
         }
       }
     }
-  }, [activeClip?.id, previewMedia, clipTimeOffset, isPlaying, useNextVideo, sortedVideoClips])
+  }, [activeClip?.id, previewMedia, clipTimeOffset, isPlaying, useNextVideo, sortedVideoClips, useProxies])
 
   // Sync background video when chromakey is enabled (only on clip change)
   useEffect(() => {
@@ -427,15 +494,23 @@ export function VideoPreview() {
   // Keep background video in sync during playback (throttled to prevent lag)
   useEffect(() => {
     if (!backgroundVideoRef.current || !backgroundClip || !isPlaying || isSeeking) return
+
+    // Reversed and frozen clips are stepped frame by frame rather than played
+    if (!backgroundPlaysNatively) {
+      const video = backgroundVideoRef.current
+      if (!video.paused) video.pause()
+      if (video.duration > 0 && Math.abs(video.currentTime - backgroundClipTimeOffset) > 0.02) {
+        video.currentTime = Math.max(0, Math.min(backgroundClipTimeOffset, video.duration))
+      }
+      return
+    }
     
     // Use a throttled interval to check sync instead of running on every frame
     const syncInterval = setInterval(() => {
       if (!backgroundVideoRef.current || !backgroundClip || !isPlaying) return
       
       // Calculate expected time from current timeline position
-      // Use base PIXELS_PER_SECOND since clip positions are stored in base pixels
-      const playheadPixels = currentTime * PIXELS_PER_SECOND
-      const expectedTime = ((playheadPixels - backgroundClip.startTime) + backgroundClip.mediaOffset) / PIXELS_PER_SECOND
+      const expectedTime = ticksToSeconds(getClipSourceTime(backgroundClip, secondsToTicks(currentTime)))
       const actualTime = backgroundVideoRef.current.currentTime
       const drift = Math.abs(expectedTime - actualTime)
       
@@ -447,7 +522,92 @@ export function VideoPreview() {
     }, 2000) // Check every 2 seconds instead of every frame
     
     return () => clearInterval(syncInterval)
-  }, [backgroundClip, isPlaying, isSeeking, currentTime])
+  }, [backgroundClip, isPlaying, isSeeking, currentTime, backgroundPlaysNatively, backgroundClipTimeOffset])
+
+  // Play each clip at its speed (ramps update this as the playhead moves)
+  useEffect(() => {
+    const video = (useNextVideo ? nextVideoRef : videoRef).current
+    if (video) video.playbackRate = activeClipSpeed
+  }, [activeClipSpeed, activeClip?.id, useNextVideo])
+
+  useEffect(() => {
+    if (backgroundVideoRef.current) backgroundVideoRef.current.playbackRate = backgroundClipSpeed
+  }, [backgroundClipSpeed, backgroundClip?.id])
+
+  useEffect(() => {
+    if (transitionVideoRef.current) transitionVideoRef.current.playbackRate = transitionPartnerSpeed
+  }, [transitionPartnerSpeed, transitionPartner?.id])
+
+  // Text clips under the playhead, including both sides of a transition between text clips
+  const playheadTicks = secondsToTicks(currentTime)
+  const textClips = timelineClips.filter((clip) => clip.type === "text" && clip.text && isTrackVisible(clip.trackId, tracks))
+  const textTransitions = findActiveTransitions(getValidTransitions(transitions, textClips), textClips, playheadTicks)
+  const textClipsAtPlayhead = textClips.filter((clip) =>
+    (playheadTicks >= clip.startTime && playheadTicks < clip.startTime + clip.duration) ||
+    textTransitions.some((t) => t.from.id === clip.id || t.to.id === clip.id)
+  )
+
+  // Draw text clips the same way the export does, bottom track first
+  useEffect(() => {
+    const canvas = textCanvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    const layers = new Map<string, TransitionLayer>()
+    for (const active of textTransitions) {
+      const frame = getTransitionFrame(active.transition, active.progress)
+      layers.set(active.from.id, frame.outgoing)
+      layers.set(active.to.id, frame.incoming)
+    }
+
+    const drawOrder = getTrackDrawOrder(tracks)
+    const ordered = [...textClipsAtPlayhead].sort((a, b) =>
+      drawOrder.indexOf(a.trackId) - drawOrder.indexOf(b.trackId) || a.startTime - b.startTime
+    )
+    for (const clip of ordered) {
+      const time = getClipKeyframeTime(clip, playheadTicks)
+      const layer = layers.get(clip.id)
+      ctx.save()
+      if (layer) {
+        applyTransitionLayer(ctx, layer, canvas.width, canvas.height)
+        ctx.globalAlpha = layer.opacity
+      }
+      ctx.filter = buildFilterString(getAnimatedEffects(clip, time)) || "none"
+      drawTextClip(ctx, clip.text!, getAnimatedTransform(clip, time), canvas.width, canvas.height)
+      ctx.restore()
+    }
+  }, [timelineClips, tracks, transitions, playheadTicks])
+
+  // Keep the transition partner on the frame under the playhead
+  // Outside its media (before the start or past the end) it holds the nearest frame
+  useEffect(() => {
+    const video = transitionVideoRef.current
+    if (!video || !transitionPartner) return
+
+    const sync = () => {
+      const videoDuration = video.duration
+      if (isNaN(videoDuration) || videoDuration === 0) return
+      const holding = transitionPartnerTimeOffset < 0 || transitionPartnerTimeOffset >= videoDuration
+      const targetTime = Math.max(0, Math.min(transitionPartnerTimeOffset, videoDuration - 0.001))
+
+      if (isPlaying && !holding && transitionPartnerPlaysNatively) {
+        // Only correct significant drift while playing to avoid micro-seeks
+        if (Math.abs(video.currentTime - targetTime) > 0.3) video.currentTime = targetTime
+        if (video.paused) video.play().catch(() => {})
+      } else {
+        if (!video.paused) video.pause()
+        if (Math.abs(video.currentTime - targetTime) > 0.01) video.currentTime = targetTime
+      }
+    }
+
+    if (video.readyState >= 1) {
+      sync()
+      return
+    }
+    video.addEventListener("loadedmetadata", sync, { once: true })
+    return () => video.removeEventListener("loadedmetadata", sync)
+  }, [transitionPartner?.id, transitionPartnerMedia?.id, transitionPartnerTimeOffset, transitionPartnerPlaysNatively, isPlaying])
 
   // Seek video when scrubbing (not playing) and draw frame to canvas
   useEffect(() => {
@@ -498,10 +658,17 @@ export function VideoPreview() {
     const actualTime = currentVideoRef.current.currentTime
     const drift = Math.abs(expectedTime - actualTime)
 
+    // Reversed and frozen clips are stepped frame by frame rather than played
+    if (!activePlaysNatively) {
+      if (!currentVideoRef.current.paused) currentVideoRef.current.pause()
+      if (drift > 0.02) currentVideoRef.current.currentTime = Math.max(0, expectedTime)
+      return
+    }
+
     if (drift > 0.5) {
       currentVideoRef.current.currentTime = expectedTime
     }
-  }, [clipTimeOffset, activeClip, isPlaying, isSeeking, useNextVideo])
+  }, [clipTimeOffset, activeClip, isPlaying, isSeeking, useNextVideo, activePlaysNatively])
 
   // Handle play/pause state changes
   useEffect(() => {
@@ -515,6 +682,12 @@ export function VideoPreview() {
         inactiveVideoRef.current.pause()
       }
 
+      // Reversed and frozen clips stay paused - the sync effect steps them
+      if (!activePlaysNatively) {
+        currentVideoRef.current.pause()
+        return
+      }
+
       // If video is ready, play immediately
       // Otherwise, wait for it to be ready (handles clip transitions where source just changed)
       const video = currentVideoRef.current
@@ -544,20 +717,20 @@ export function VideoPreview() {
     } else {
       currentVideoRef.current.pause()
     }
-  }, [isPlaying, previewMedia, setIsPlaying, useNextVideo])
+  }, [isPlaying, previewMedia, setIsPlaying, useNextVideo, activePlaysNatively])
 
   // Handle play/pause for background video
   useEffect(() => {
     if (!backgroundVideoRef.current || !backgroundMedia || !chromakeyEnabled) return
 
-    if (isPlaying) {
+    if (isPlaying && backgroundPlaysNatively) {
       backgroundVideoRef.current.play().catch(() => {
         // Silently fail - background video play errors shouldn't stop playback
       })
     } else {
       backgroundVideoRef.current.pause()
     }
-  }, [isPlaying, backgroundMedia, chromakeyEnabled])
+  }, [isPlaying, backgroundMedia, chromakeyEnabled, backgroundPlaysNatively])
 
   // Update duration when video metadata loads and draw initial frame
   const handleLoadedMetadata = useCallback(() => {
@@ -588,6 +761,21 @@ export function VideoPreview() {
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
   }, [useNextVideo])
 
+  // Draw an image clip to the canvas - a still only needs drawing once, when it loads
+  const drawStillToCanvas = useCallback(() => {
+    const image = stillImageRef.current
+    const canvas = seamlessCanvasRef.current
+    if (!image || !canvas || !image.complete) return
+
+    const ctx = canvas.getContext('2d', { alpha: false })
+    if (!ctx) return
+
+    // SVGs without intrinsic dimensions report 0x0
+    canvas.width = image.naturalWidth || 1920
+    canvas.height = image.naturalHeight || 1080
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  }, [])
+
   // Capture thumbnail from canvas
   const captureThumbnail = useCallback(() => {
     if (!seamlessCanvasRef.current || thumbnailCaptured) return
@@ -653,7 +841,8 @@ export function VideoPreview() {
   // Process chromakey frames when enabled
   useEffect(() => {
     const currentVideoRef = useNextVideo ? nextVideoRef : videoRef
-    if (!chromakeyEnabled || !chromakeyProcessorRef.current || !currentVideoRef.current || !chromakeyCanvasRef.current) {
+    const source = previewIsImage ? stillImageRef.current : currentVideoRef.current
+    if (!chromakeyEnabled || !chromakeyProcessorRef.current || !source || !chromakeyCanvasRef.current) {
       if (chromakeyAnimationRef.current) {
         cancelAnimationFrame(chromakeyAnimationRef.current)
         chromakeyAnimationRef.current = null
@@ -662,7 +851,6 @@ export function VideoPreview() {
     }
 
     const processor = chromakeyProcessorRef.current
-    const video = currentVideoRef.current
     const backgroundVideo = backgroundVideoRef.current
     const canvas = chromakeyCanvasRef.current
     const chromakeyOptions: ChromakeyOptions = {
@@ -674,9 +862,12 @@ export function VideoPreview() {
 
     const processFrame = () => {
       // Check if video has loaded and is ready
-      if (video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0) {
+      const isReady = source instanceof HTMLVideoElement
+        ? source.readyState >= 2 && source.videoWidth > 0 && source.videoHeight > 0
+        : source.complete && source.naturalWidth > 0
+      if (isReady) {
         // Process chromakey - transparency will show background video through
-        const success = processor.processFrame(video, chromakeyOptions)
+        const success = processor.processFrame(source, chromakeyOptions)
         if (!success) {
           console.warn("Failed to process chromakey frame")
         }
@@ -696,7 +887,7 @@ export function VideoPreview() {
         chromakeyAnimationRef.current = null
       }
     }
-  }, [chromakeyEnabled, activeClipEffects.chromakey, activeClip?.id, previewMedia?.id, backgroundClip?.id, backgroundMedia?.id, useNextVideo])
+  }, [chromakeyEnabled, activeClipEffects.chromakey, activeClip?.id, previewMedia?.id, previewIsImage, backgroundClip?.id, backgroundMedia?.id, useNextVideo])
 
   // Keep display time in sync during playback via animation frame
   useEffect(() => {
@@ -771,7 +962,7 @@ export function VideoPreview() {
     const newTime = Math.max(0, currentTime - 5)
     setCurrentTime(newTime)
     if (currentVideoRef.current && activeClip) {
-      const newOffset = (newTime * PIXELS_PER_SECOND - activeClip.startTime) / PIXELS_PER_SECOND
+      const newOffset = newTime - ticksToSeconds(activeClip.startTime)
       if (newOffset >= 0) {
         currentVideoRef.current.currentTime = newOffset
       }
@@ -783,7 +974,7 @@ export function VideoPreview() {
     const newTime = Math.min(timelineEndTime, currentTime + 5)
     setCurrentTime(newTime)
     if (currentVideoRef.current && activeClip) {
-      const newOffset = (newTime * PIXELS_PER_SECOND - activeClip.startTime) / PIXELS_PER_SECOND
+      const newOffset = newTime - ticksToSeconds(activeClip.startTime)
       if (newOffset >= 0) {
         currentVideoRef.current.currentTime = newOffset
       }
@@ -1094,11 +1285,26 @@ export function VideoPreview() {
           {previewMedia && activeClip ? (
             <>
               {/* Background video - shown when chromakey is enabled and background clip exists */}
-              {chromakeyEnabled && backgroundMedia && backgroundClip && (
+              {chromakeyEnabled && backgroundMedia && backgroundClip && backgroundIsImage && (
+                <img
+                  key={`bg-${backgroundMedia.id}-${backgroundClip.id}`}
+                  src={getPlaybackUrl(backgroundMedia, useProxies)}
+                  alt=""
+                  crossOrigin="anonymous"
+                  className="absolute inset-0 h-full w-full object-contain pointer-events-none"
+                  style={{
+                    transform: `translate(${backgroundClipTransform.positionX}px, ${backgroundClipTransform.positionY}px) scale(${backgroundClipTransform.scale / 100})`,
+                    opacity: backgroundClipTransform.opacity / 100,
+                    filter: backgroundFilterString || undefined,
+                    zIndex: 0,
+                  }}
+                />
+              )}
+              {chromakeyEnabled && backgroundMedia && backgroundClip && !backgroundIsImage && (
                 <video
                   ref={backgroundVideoRef}
                   key={`bg-${backgroundMedia.id}-${backgroundClip.id}`}
-                  src={backgroundMedia.objectUrl}
+                  src={getPlaybackUrl(backgroundMedia, useProxies)}
                   crossOrigin="anonymous"
                   className="absolute inset-0 h-full w-full object-contain pointer-events-none"
                   style={{
@@ -1112,34 +1318,82 @@ export function VideoPreview() {
                 />
               )}
               {/* Hidden video elements - used as source for canvas rendering */}
-              {/* Only the active video plays audio, the other is muted for preloading */}
-              <video
-                ref={videoRef}
-                key={`primary-${previewMedia.id}`}
-                src={previewMedia.objectUrl}
-                crossOrigin="anonymous"
-                style={{ display: 'none' }}
-                onLoadedMetadata={handleLoadedMetadata}
-                onCanPlay={handleCanPlay}
-                muted={useNextVideo}
-                playsInline
-              />
-              <video
-                ref={nextVideoRef}
-                key={`secondary-${previewMedia.id}`}
-                src={previewMedia.objectUrl}
-                crossOrigin="anonymous"
-                style={{ display: 'none' }}
-                muted={!useNextVideo}
-                playsInline
-              />
-              {/* Canvas for seamless playback - draws from active video */}
+              {/* Audio comes from the Web Audio mix (useTimelineAudio), so both elements are muted */}
+              {previewIsImage ? (
+                <img
+                  ref={stillImageRef}
+                  key={`still-${previewMedia.id}`}
+                  src={getPlaybackUrl(previewMedia, useProxies)}
+                  alt=""
+                  crossOrigin="anonymous"
+                  style={{ display: 'none' }}
+                  onLoad={drawStillToCanvas}
+                />
+              ) : (
+                <>
+                  <video
+                    ref={videoRef}
+                    key={`primary-${previewMedia.id}`}
+                    src={getPlaybackUrl(previewMedia, useProxies)}
+                    crossOrigin="anonymous"
+                    style={{ display: 'none' }}
+                    onLoadedMetadata={handleLoadedMetadata}
+                    onCanPlay={handleCanPlay}
+                    muted
+                    playsInline
+                  />
+                  <video
+                    ref={nextVideoRef}
+                    key={`secondary-${previewMedia.id}`}
+                    src={getPlaybackUrl(previewMedia, useProxies)}
+                    crossOrigin="anonymous"
+                    style={{ display: 'none' }}
+                    muted
+                    playsInline
+                  />
+                </>
+              )}
+              {/* Canvas for seamless playback - draws from active video or still image */}
               <canvas
                 ref={seamlessCanvasRef}
                 className={chromakeyEnabled ? "absolute inset-0 h-full w-full object-contain pointer-events-none -z-10" : `h-full w-full object-contain ${isEyedropperActive ? "cursor-crosshair" : "cursor-pointer"}`}
-                style={chromakeyEnabled ? { ...videoStyle, visibility: "hidden" } : videoStyle}
+                style={chromakeyEnabled
+                  ? { ...videoStyle, visibility: "hidden" }
+                  // In a transition the incoming clip sits over the outgoing one
+                  : activeTransition ? { ...videoStyle, position: "relative", zIndex: activeIsIncoming ? 1 : 0 } : videoStyle}
                 onClick={chromakeyEnabled ? undefined : handleVideoClick}
               />
+              {/* Other clip of a playing transition, layered under or over the active clip */}
+              {transitionPartner && transitionPartnerMedia && transitionPartnerStyle && (
+                transitionPartnerIsImage ? (
+                  <img
+                    key={`transition-${transitionPartner.id}`}
+                    src={getPlaybackUrl(transitionPartnerMedia, useProxies)}
+                    alt=""
+                    crossOrigin="anonymous"
+                    className="absolute inset-0 h-full w-full object-contain pointer-events-none"
+                    style={transitionPartnerStyle}
+                  />
+                ) : (
+                  <video
+                    ref={transitionVideoRef}
+                    key={`transition-${transitionPartner.id}`}
+                    src={getPlaybackUrl(transitionPartnerMedia, useProxies)}
+                    crossOrigin="anonymous"
+                    className="absolute inset-0 h-full w-full object-contain pointer-events-none"
+                    style={transitionPartnerStyle}
+                    muted
+                    playsInline
+                  />
+                )
+              )}
+              {/* Dip colour over both sides of the transition */}
+              {transitionFrame?.overlay && (
+                <div
+                  className="pointer-events-none absolute inset-0"
+                  style={{ backgroundColor: transitionFrame.overlay.color, opacity: transitionFrame.overlay.opacity, zIndex: 2 }}
+                />
+              )}
               {/* Chromakey canvas - shown when chromakey is enabled, composited on top of background */}
               {chromakeyEnabled && (
                 <canvas
@@ -1316,7 +1570,7 @@ export function VideoPreview() {
                 </div>
               )}
             </>
-          ) : (
+          ) : textClipsAtPlayhead.length === 0 ? (
             <div className="flex h-full items-center justify-center">
               <div className="text-center">
                 <Film className="mx-auto mb-2 h-16 w-16 text-muted-foreground" />
@@ -1325,7 +1579,14 @@ export function VideoPreview() {
                 </div>
               </div>
             </div>
-          )}
+          ) : null}
+          {/* Text clips - drawn at export resolution and scaled to fit, like the export */}
+          <canvas
+            ref={textCanvasRef}
+            width={TEXT_CANVAS_WIDTH}
+            height={TEXT_CANVAS_HEIGHT}
+            className="pointer-events-none absolute inset-0 z-20 h-full w-full object-contain"
+          />
         </div>
       </div>
 
@@ -1384,6 +1645,17 @@ export function VideoPreview() {
               <SkipForward className="h-4 w-4" />
             </button>
             <div className="w-px h-6 bg-border mx-1" />
+            {mediaFiles.some((m) => m.proxyUrl) && (
+              <button
+                onClick={() => setUseProxies(!useProxies)}
+                className={`rounded-md px-2 py-1 text-xs font-medium cursor-pointer ${
+                  useProxies ? "bg-primary/20 text-primary" : "text-muted-foreground hover:bg-secondary hover:text-foreground"
+                }`}
+                title={useProxies ? "Playing proxies - click to preview originals" : "Playing originals - click to preview proxies"}
+              >
+                Proxy
+              </button>
+            )}
             <button
               onClick={toggleFullscreen}
               className="rounded-md p-2 text-muted-foreground hover:bg-secondary hover:text-foreground cursor-pointer"
@@ -102,7 +102,7 @@ function FeatureCard({
 export function WelcomeScreen() {
   const [showAuth, setShowAuth] = useState(false)
   const [videoExists, setVideoExists] = useState(true)
-  const { user, isLoading, signOut } = useAuth()
+  const { user, isLoading, isLocalMode, signOut } = useAuth()
   const router = useRouter()
   const searchParams = useSearchParams()
   const heroRef = useRef<HTMLDivElement>(null)
@@ -129,7 +129,7 @@ export function WelcomeScreen() {
   }, [searchParams])
 
   const handleGetStarted = () => {
-    if (user) {
+    if (user || isLocalMode) {
       router.push("/projects")
     } else {
       setShowAuth(true)
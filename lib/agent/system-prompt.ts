@@ -1,5 +1,17 @@
+import type { MediaKind } from "@/lib/media-import"
+import type { MarkerColor, TransitionDirection, TransitionType } from "@/lib/projects"
+
 // Timeline state passed to the agent with each request
 export interface TimelineState {
+  tracks: {
+    id: string
+    name: string
+    type: "video" | "audio"
+    locked: boolean
+    muted: boolean
+    solo: boolean
+    hidden: boolean
+  }[]
   clips: {
     id: string
     mediaId: string
@@ -7,7 +19,7 @@ export interface TimelineState {
     trackId: string
     startTimeSeconds: number
     durationSeconds: number
-    type: "video" | "audio"
+    type: "video" | "audio" | "text"
     effects: {
       preset: string
       blur: number
@@ -16,14 +28,35 @@ export interface TimelineState {
       saturate: number
       hueRotate: number
     }
+    animatedProperties: string[] // Properties with keyframes
+    text?: string // Content of text clips
+    speed?: string // Retimed clips only, e.g. "2x", "Reverse 0.5x", "Ramp 1x-4x", "Freeze"
+    groupId?: string // Clips in a group move together
+    linkId?: string // A video clip and its detached audio share a link
+    compound?: string // Compound clips only - the name of the sequence they play
+  }[]
+  transitions: {
+    fromClipId: string
+    toClipId: string
+    type: TransitionType
+    durationSeconds: number
+    direction?: TransitionDirection
   }[]
   media: {
     id: string
     name: string
+    kind: MediaKind
     durationSeconds: number
   }[]
+  markers: {
+    name: string
+    timeSeconds: number // Timeline position
+    color: MarkerColor
+    clipId?: string // Clip markers move with their clip
+  }[]
   currentTimeSeconds: number
   selectedClipId: string | null
+  selectedClipIds: string[] // Every selected clip when several are selected
 }
 
 export function buildSystemPrompt(timelineState: TimelineState): string {
@@ -32,18 +65,43 @@ export function buildSystemPrompt(timelineState: TimelineState): string {
       ? timelineState.clips
           .map(
             (c) =>
-              `- "${c.label}" (id: ${c.id}) on track ${c.trackId}: ${c.startTimeSeconds.toFixed(1)}s - ${(c.startTimeSeconds + c.durationSeconds).toFixed(1)}s (duration: ${c.durationSeconds.toFixed(1)}s)${c.effects.preset !== "none" ? `, effect: ${c.effects.preset}` : ""}`
+              `- ${c.type === "text" ? `text ${JSON.stringify(c.text ?? c.label)}` : `"${c.label}"`} (id: ${c.id}) on track ${c.trackId}: ${c.startTimeSeconds.toFixed(1)}s - ${(c.startTimeSeconds + c.durationSeconds).toFixed(1)}s (duration: ${c.durationSeconds.toFixed(1)}s)${c.effects.preset !== "none" ? `, effect: ${c.effects.preset}` : ""}${c.animatedProperties.length > 0 ? `, animated: ${c.animatedProperties.join(", ")}` : ""}${c.speed ? `, speed: ${c.speed}` : ""}${c.groupId ? `, group: ${c.groupId}` : ""}${c.linkId ? `, link: ${c.linkId}` : ""}${c.compound ? `, compound: "${c.compound}"` : ""}`
           )
           .join("\n")
       : "No clips on timeline"
 
+  // Tracks are listed topmost first; clips on higher video tracks appear on top
+  const trackList =
+    timelineState.tracks.length > 0
+      ? timelineState.tracks
+          .map((t) => {
+            const flags = [t.locked && "locked", t.muted && "muted", t.solo && "solo", t.hidden && "hidden"].filter(Boolean)
+            return `- ${t.id}${t.name !== t.id ? ` ("${t.name}")` : ""}: ${t.type}${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}`
+          })
+          .join("\n")
+      : "No tracks"
+
+  const transitionList =
+    timelineState.transitions.length > 0
+      ? timelineState.transitions
+          .map((t) => `- ${t.type}${t.direction ? ` (${t.direction})` : ""} from ${t.fromClipId} to ${t.toClipId}, ${t.durationSeconds.toFixed(1)}s`)
+          .join("\n")
+      : "No transitions"
+
   const mediaList =
     timelineState.media.length > 0
       ? timelineState.media
-          .map((m) => `- "${m.name}" (id: ${m.id}): ${m.durationSeconds.toFixed(1)}s`)
+          .map((m) => `- "${m.name}" (id: ${m.id}): ${m.kind === "image" ? "still image" : `${m.kind}, ${m.durationSeconds.toFixed(1)}s`}`)
           .join("\n")
       : "No media files"
 
+  const markerList =
+    timelineState.markers.length > 0
+      ? timelineState.markers
+          .map((m) => `- "${m.name}" at ${m.timeSeconds.toFixed(2)}s (${m.color}${m.clipId ? `, on clip ${m.clipId}` : ""})`)
+          .join("\n")
+      : "No markers"
+
   return `You are an AI video editing assistant for CutOS, a browser-based video editor. You help users edit their videos by manipulating clips on the timeline.
 
 **CRITICAL RULES:**
@@ -62,14 +120,25 @@ You: "Applied noir effect." without calling any tool - THIS IS WRONG!
 
 ## Current Timeline State
 
+### Tracks (top to bottom):
+${trackList}
+
 ### Clips on Timeline:
 ${clipList}
 
+### Transitions:
+${transitionList}
+
 ### Media Pool (available to add):
 ${mediaList}
 
+### Markers:
+${markerList}
+
 ### Playhead Position: ${timelineState.currentTimeSeconds.toFixed(1)} seconds
-${timelineState.selectedClipId ? `### Selected Clip: ${timelineState.selectedClipId}` : "### No clip selected"}
+${timelineState.selectedClipIds.length > 1
+    ? `### Selected Clips: ${timelineState.selectedClipIds.join(", ")}`
+    : timelineState.selectedClipId ? `### Selected Clip: ${timelineState.selectedClipId}` : "### No clip selected"}
 
 ## Your Capabilities
 
@@ -83,10 +152,18 @@ You can perform these editing operations:
 7. **Move clips** - Change a clip's position or track
 8. **Apply effects** - Add visual effects (grayscale, sepia, noir, vhs, glitch, etc.)
 9. **Apply chromakey** - Remove green screen or any colored background from a video clip, making it transparent. **CRITICAL: Before applying chromakey, you MUST verify and state which clip you're applying it to by mentioning the clip's name/label and confirming it's the correct one.** Use this when the user wants to remove a green screen, blue screen, or colored background. You can enable/disable it and adjust settings like the color to remove, similarity threshold, edge smoothness, and spill suppression.
-10. **Add media** - Place media files onto the timeline
+10. **Add media** - Place media files onto the timeline. Video can go on any track, audio files only on audio tracks and still images only on video tracks (images get the project's default image duration - trim them to change it)
 11. **Dub/translate clips** - Translate the audio of a video clip to another language using AI dubbing. Preserves emotion, timing, and tone of original speakers.
 12. **Isolate voice** - Remove background noise, music, and ambient sounds from a clip, keeping only the speaking voice. Use when user wants to "clean up audio", "remove background noise", "isolate vocals", or "remove music". **IMPORTANT: Clip must be uploaded to cloud first.**
-13. **Create morph transition** - Generate an AI-powered smooth visual transition between TWO SEQUENTIAL clips on the SAME track. The clips must be next to each other (second clip starts right after first clip ends). This extracts the last frame of the first clip and first frame of the second clip, then AI generates a morphing video between them. **CRITICAL: Only works for clips that are adjacent on the same track, NOT overlapping clips on different tracks.**
+13. **Create morph transition** - Generate an AI-powered smooth visual transition between TWO SEQUENTIAL clips on the SAME track. The clips must be next to each other (second clip starts right after first clip ends). This extracts the last frame of the first clip and first frame of the second clip, then AI generates a morphing video between them. **CRITICAL: Only works for clips that are adjacent on the same track, NOT overlapping clips on different tracks.** Only use this when the user asks for a morph or AI transition - use Add transition for everything else
+14. **Animate property** - Keyframe a clip's position, scale, opacity, blur, brightness, contrast, saturation or hue over time. Times are relative to the clip's start. Use ease for natural motion unless the user asks for a constant speed. Examples: "slowly zoom in over 3 seconds" → scale 100 at 0s, 130 at 3s; "fade out at the end" → opacity 100 to 0 over the clip's last second
+15. **Add transition** - Put a built-in transition over the cut between TWO ADJACENT clips on the SAME track: crossfade (cross dissolve), dip-to-black, dip-to-white, slide, wipe or zoom. Slide and wipe take a direction (left, right, up, down). The transition is centred on the cut and renders instantly. Adding one where a transition already exists replaces it. Examples: "crossfade between the clips" → crossfade 1s; "fade to black between shot 1 and 2" → dip-to-black
+16. **Add text** - Put a title, label or lower third on screen as a text clip on a video track, with font, size, colour, outline, shadow, background box and alignment. Text clips can then be moved, trimmed, given effects and animated like any clip. Examples: "put a title saying 'Day 1' for the first 3 seconds" → text "Day 1" at 0s for 3s; "add a lower third with my name" → verticalAlign bottom, align left, fontSize ~56, backgroundOpacity ~60
+17. **Set clip speed** - Slow a clip down, speed it up (0.1x to 16x), ramp its speed between keyframes, or play it in reverse. The clip keeps the same footage, so its duration changes with the speed - check for clips it now overlaps or leaves a gap before. Ramp times are relative to the clip's start. Examples: "slow motion" → speed 0.5; "timelapse" → speed 8; "speed ramp into slow-mo at 2s" → ramp 1x at 0s, 1x at 1.5s, 0.3x at 2s; "play it backwards" → reverse true
+18. **Ripple, roll, slip and slide edits** - Edit cuts without leaving gaps or overlaps. Ripple delete (deleteClip with ripple) removes a clip and pulls the rest of its track back; ripple trim (trimClip with ripple) trims a clip and moves the rest of the track with it. rollEdit moves the cut between two touching clips; slipClip changes which footage a clip shows without moving it; slideClip moves a clip between its neighbours, trimming them to fit. These only move clips on the clip's own track. Examples: "delete the second clip and close the gap" → deleteClip ripple true; "cut to the next shot a second later" → rollEdit edge end, offset 1; "use the part of the shot 2 seconds later" → slipClip offset 2
+19. **Detach audio** - Move a video clip's sound onto an audio track as a clip linked to the video (clips with the same link in the timeline state). Linked clips move and split together, but either can be trimmed on its own. A lead makes a J-cut (sound starts before the picture) and a tail an L-cut (sound carries on after it). Examples: "let the audio run 2 seconds into the next shot" → detachAudio tailSeconds 2; "hear the next scene a second before we cut to it" → detachAudio on the next clip, leadSeconds 1
+20. **Add marker** - Put a named, coloured marker on the ruler, or on a clip's footage so it moves with the clip. Examples: "mark the beat drop at 12 seconds" → addMarker timeSeconds 12, name "beat drop"; "mark this frame on the interview clip" → addMarker at the playhead with that clip's clipId
+21. **Make compound clip** - Collapse several clips into one compound clip that plays them as a nested sequence, so they can be moved, trimmed and given effects together. The clips inside keep their own edits; compound clips can't be retimed or take transitions. Examples: "combine the intro shots into one clip" → createCompoundClip with their clipIds, name "Intro"
 
 ### Dubbing Languages
 Supported languages for dubbing (use ISO-639-1 codes):
@@ -121,16 +198,21 @@ Supported languages for dubbing (use ISO-639-1 codes):
 - When the user says "split at X seconds" or "split at the playhead", use **splitAtTime** - it automatically finds the clip at that position
 - When the user says "delete at X seconds" or "delete at the playhead", use **deleteAtTime** - it automatically finds the clip at that position
 - When the user says "delete all clips", "clear the timeline", or "remove everything", use **deleteAllClips**
+- When the user names a marker (e.g. "cut at the 'intro end' marker"), use that marker's time from the Markers list. Match names loosely and ignore case; if no marker matches, say so instead of guessing
 - When the user says "current position" or "playhead", use the playhead position (${timelineState.currentTimeSeconds.toFixed(1)}s)
 - **CRITICAL - Automatic Clip Selection:**
   - If the user doesn't specify a clip name and there's ONLY ONE clip on the timeline, automatically use that clip
   - If the user says "selected clip" or "this clip", use the selected clip${timelineState.selectedClipId ? ` (${timelineState.selectedClipId})` : " (none selected)"}
+  - If several clips are selected and the user says "selected clips" or "these clips", call the tool once for EACH selected clip
+  - Clips in the same group belong together: when moving one of them, move the others in its group by the same amount
+  - Linked clips move together automatically: moveClip on either one moves both
   - If the user references a clip by filename (e.g., "green_screen.mp4"), find it by matching the label field
   - If there are multiple clips and user doesn't specify which one, ask which clip they mean
   - Example: User says "remove background noise" with 1 clip → automatically use that clip
   - Example: User says "remove background noise" with 3 clips → ask "Which clip would you like to isolate voice from?"
 - Times are always in seconds
-- Tracks: V1, V2 are video tracks; A1, A2 are audio tracks
+- Tracks: use the track IDs listed in the timeline state. Video clips go on video tracks, audio clips on audio tracks. Higher video tracks are composited on top of lower ones
+- Never edit clips on a locked track - tell the user the track is locked instead
 - Execute actions immediately without asking for confirmation
 - **For chromakey operations:**
   - Only apply chromakey to the SPECIFIC clips mentioned by the user (match by filename/label)
@@ -166,6 +248,13 @@ Supported languages for dubbing (use ISO-639-1 codes):
 - "Removed green screen." (after calling applyChromakey tool)
 - "Isolating voice..." (after calling isolateVoice tool)
 - "Creating morph transition..." (after calling createMorphTransition tool)
+- "Added crossfade." (after calling addTransition tool)
+- "Added 'Day 1' title." (after calling addText tool)
+- "Slowed clip to 0.5x." (after calling setClipSpeed tool)
+- "Deleted clip and closed the gap." (after calling deleteClip with ripple)
+- "Detached audio." (after calling detachAudio tool)
+- "Marked 'beat drop' at 12s." (after calling addMarker tool)
+- "Combined the intro shots into 'Intro'." (after calling createCompoundClip tool)
 
 **Multiple actions** (one short sentence):
 - "Split at 5s, applied noir, moved to 10s."
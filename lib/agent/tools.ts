@@ -1,12 +1,20 @@
 import { tool } from "ai"
 import { z } from "zod"
+import { KEY_COLOR_PATTERN } from "@/lib/chromakey"
+import type { AnimatableProperty, KeyframeInterpolation, MarkerColor, TextClipStyle, TransitionDirection, TransitionType } from "@/lib/projects"
 
 // Action types returned by tools - client interprets these
 export type AgentAction =
   | { action: "SPLIT_CLIP"; payload: { clipId: string; splitTimeSeconds: number } }
   | { action: "SPLIT_AT_TIME"; payload: { timeSeconds: number; trackId?: string } }
-  | { action: "TRIM_CLIP"; payload: { clipId: string; trimStartSeconds?: number; trimEndSeconds?: number } }
-  | { action: "DELETE_CLIP"; payload: { clipId: string } }
+  | { action: "TRIM_CLIP"; payload: { clipId: string; trimStartSeconds?: number; trimEndSeconds?: number; ripple?: boolean } }
+  | { action: "DELETE_CLIP"; payload: { clipId: string; ripple?: boolean } }
+  | { action: "ROLL_EDIT"; payload: { clipId: string; edge: "start" | "end"; offsetSeconds: number } }
+  | { action: "SLIP_CLIP"; payload: { clipId: string; offsetSeconds: number } }
+  | { action: "SLIDE_CLIP"; payload: { clipId: string; offsetSeconds: number } }
+  | { action: "DETACH_AUDIO"; payload: { clipId: string; leadSeconds?: number; tailSeconds?: number } }
+  | { action: "ADD_MARKER"; payload: { timeSeconds: number; name?: string; color?: MarkerColor; clipId?: string } }
+  | { action: "CREATE_COMPOUND_CLIP"; payload: { clipIds: string[]; name?: string } }
   | { action: "DELETE_AT_TIME"; payload: { timeSeconds: number; trackId?: string } }
   | { action: "DELETE_ALL_CLIPS"; payload: { trackId?: string } }
   | { action: "MOVE_CLIP"; payload: { clipId: string; newStartTimeSeconds?: number; newTrackId?: string } }
@@ -16,6 +24,36 @@ export type AgentAction =
   | { action: "DUB_CLIP"; payload: { clipId: string; targetLanguage: string } }
   | { action: "CREATE_MORPH_TRANSITION"; payload: { fromClipId: string; toClipId: string; durationSeconds: number } }
   | { action: "ISOLATE_VOICE"; payload: { clipId: string } }
+  | {
+      action: "ADD_TEXT"
+      payload: {
+        text: string
+        startTimeSeconds: number
+        durationSeconds: number
+        trackId?: string
+        style: Partial<Omit<TextClipStyle, "content">>
+        positionX?: number
+        positionY?: number
+      }
+    }
+  | {
+      action: "ADD_TRANSITION"
+      payload: { fromClipId: string; toClipId: string; type: TransitionType; durationSeconds: number; direction?: TransitionDirection }
+    }
+  | {
+      action: "SET_CLIP_SPEED"
+      payload: { clipId: string; speed?: number; reverse?: boolean; ramp?: { timeSeconds: number; speed: number }[] }
+    }
+  | {
+      action: "ANIMATE_PROPERTY"
+      payload: {
+        clipId: string
+        property: AnimatableProperty
+        keyframes: { timeSeconds: number; value: number }[]
+        interpolation: KeyframeInterpolation
+        bezier?: [number, number, number, number]
+      }
+    }
 
 // Define the input schemas
 const splitClipInput = z.object({
@@ -32,7 +70,7 @@ const splitAtTimeInput = z.object({
   trackId: z
     .string()
     .optional()
-    .describe("Optional track ID to specify which track (V1, V2, A1, A2). If not provided, splits clips on all tracks at that time."),
+    .describe("Optional track ID from the timeline state to specify which track. If not provided, splits clips on all tracks at that time."),
 })
 
 const trimClipInput = z.object({
@@ -45,10 +83,72 @@ const trimClipInput = z.object({
     .number()
     .optional()
     .describe("Seconds to trim (remove) from the end of the clip"),
+  ripple: z
+    .boolean()
+    .optional()
+    .describe("Ripple trim: keep the clip's start where it is and move the later clips on its track to close (or open) the gap. Negative trim seconds extend the clip"),
 })
 
 const deleteClipInput = z.object({
   clipId: z.string().describe("The ID of the clip to delete"),
+  ripple: z
+    .boolean()
+    .optional()
+    .describe("Ripple delete: move the later clips on the track back to close the gap the clip leaves"),
+})
+
+const rollEditInput = z.object({
+  clipId: z.string().describe("The ID of a clip next to the cut"),
+  edge: z.enum(["start", "end"]).describe("Which cut of the clip to roll: the one at its start or at its end"),
+  offsetSeconds: z
+    .number()
+    .describe("Seconds to move the cut: positive moves it later (the clip before the cut gets longer, the one after it shorter)"),
+})
+
+const slipClipInput = z.object({
+  clipId: z.string().describe("The ID of the clip to slip"),
+  offsetSeconds: z
+    .number()
+    .describe("Seconds of source footage to shift by: positive shows later footage, negative earlier. The clip doesn't move or change length"),
+})
+
+const slideClipInput = z.object({
+  clipId: z.string().describe("The ID of the clip to slide"),
+  offsetSeconds: z
+    .number()
+    .describe("Seconds to move the clip: positive moves it later. The clips touching it are trimmed so no gap or overlap opens up"),
+})
+
+const detachAudioInput = z.object({
+  clipId: z.string().describe("The ID of the video clip whose audio to detach"),
+  leadSeconds: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("J-cut: seconds the sound starts before the picture"),
+  tailSeconds: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("L-cut: seconds the sound carries on after the picture ends"),
+})
+
+const addMarkerInput = z.object({
+  timeSeconds: z.number().min(0).describe("Timeline position in seconds to mark"),
+  name: z.string().optional().describe("Marker name, e.g. 'intro end'"),
+  color: z
+    .enum(["red", "orange", "yellow", "green", "blue", "purple"])
+    .optional()
+    .describe("Marker colour (defaults to green)"),
+  clipId: z
+    .string()
+    .optional()
+    .describe("Put the marker on this clip's footage instead of the ruler, so it moves with the clip. The time must be inside the clip"),
+})
+
+const createCompoundClipInput = z.object({
+  clipIds: z.array(z.string()).min(1).describe("IDs of the clips to collapse into one compound clip"),
+  name: z.string().optional().describe("Name of the new sequence, e.g. 'Intro'"),
 })
 
 const deleteAtTimeInput = z.object({
@@ -58,14 +158,14 @@ const deleteAtTimeInput = z.object({
   trackId: z
     .string()
     .optional()
-    .describe("Optional track ID (V1, V2, A1, A2). If not provided, deletes clips on all tracks at that time."),
+    .describe("Optional track ID from the timeline state. If not provided, deletes clips on all tracks at that time."),
 })
 
 const deleteAllClipsInput = z.object({
   trackId: z
     .string()
     .optional()
-    .describe("Optional track ID (V1, V2, A1, A2). If provided, only deletes clips on that track. If not provided, deletes ALL clips from the timeline."),
+    .describe("Optional track ID from the timeline state. If provided, only deletes clips on that track. If not provided, deletes ALL clips from the timeline."),
 })
 
 const moveClipInput = z.object({
@@ -77,7 +177,7 @@ const moveClipInput = z.object({
   newTrackId: z
     .string()
     .optional()
-    .describe("ID of the track to move to (V1, V2, A1, or A2)"),
+    .describe("ID of the track to move to (must be a track of the same type as the clip)"),
 })
 
 const applyEffectInput = z.object({
@@ -92,6 +192,7 @@ const applyChromakeyInput = z.object({
   enabled: z.boolean().describe("Whether to enable or disable chromakey (green screen removal)"),
   keyColor: z
     .string()
+    .regex(KEY_COLOR_PATTERN, "Must be a six-digit hex color such as '#00FF00'")
     .optional()
     .describe("Hex color to remove (e.g., '#00FF00' for green, '#0000FF' for blue). Defaults to green (#00FF00) if not specified."),
   similarity: z
@@ -116,13 +217,41 @@ const applyChromakeyInput = z.object({
 
 const addMediaToTimelineInput = z.object({
   mediaId: z.string().describe("The ID of the media file to add from the media pool"),
-  trackId: z.string().describe("The track to add to (V1, V2 for video; A1, A2 for audio)"),
+  trackId: z.string().describe("The ID of the track to add to (a video track for video media, an audio track for audio)"),
   startTimeSeconds: z
     .number()
     .optional()
     .describe("Where to place it on the timeline in seconds (defaults to end of track)"),
 })
 
+const addTextInput = z.object({
+  text: z.string().min(1).describe("The text to show. Use \\n for line breaks"),
+  startTimeSeconds: z.number().min(0).describe("Where the text appears on the timeline in seconds"),
+  durationSeconds: z.number().positive().default(3).describe("How long the text stays on screen in seconds. Default: 3"),
+  trackId: z
+    .string()
+    .optional()
+    .describe("Video track to put the text on (defaults to the topmost unlocked video track, so it shows over the footage)"),
+  fontFamily: z
+    .enum(["Arial", "Helvetica", "Verdana", "Trebuchet MS", "Georgia", "Times New Roman", "Courier New", "Impact"])
+    .optional()
+    .describe("Font (default: Arial)"),
+  fontSize: z.number().min(8).max(400).optional().describe("Font size in pixels on the 1920x1080 frame (default: 96, ~48 for subtitles or lower thirds)"),
+  fontWeight: z.number().min(100).max(900).optional().describe("Font weight, e.g. 400 regular, 700 bold (default: 700)"),
+  italic: z.boolean().optional(),
+  color: z.string().optional().describe("Text colour as hex (default: #ffffff)"),
+  strokeColor: z.string().optional().describe("Outline colour as hex"),
+  strokeWidth: z.number().min(0).max(20).optional().describe("Outline width in pixels, 0 for none (default: 0)"),
+  shadowColor: z.string().optional().describe("Shadow colour as hex"),
+  shadowBlur: z.number().min(0).max(50).optional().describe("Shadow blur in pixels, 0 for none (default: 12)"),
+  backgroundColor: z.string().optional().describe("Colour of the box behind the text as hex"),
+  backgroundOpacity: z.number().min(0).max(100).optional().describe("Opacity of the box behind the text, 0 for no box (default: 0)"),
+  align: z.enum(["left", "center", "right"]).optional().describe("Horizontal alignment and side of the frame (default: center)"),
+  verticalAlign: z.enum(["top", "middle", "bottom"]).optional().describe("Vertical placement in the frame (default: middle). Use bottom for lower thirds"),
+  positionX: z.number().optional().describe("Extra horizontal offset in pixels after alignment"),
+  positionY: z.number().optional().describe("Extra vertical offset in pixels after alignment"),
+})
+
 const dubClipInput = z.object({
   clipId: z.string().describe("The ID of the clip to dub/translate"),
   targetLanguage: z
@@ -147,10 +276,75 @@ const createMorphTransitionInput = z.object({
     .describe("Duration of the morph transition in seconds. Only 5 or 10 seconds are supported. Will be rounded to nearest (5 or 10). Default: 5"),
 })
 
+const addTransitionInput = z.object({
+  fromClipId: z.string().describe("The ID of the outgoing clip (the one that ends at the cut)"),
+  toClipId: z.string().describe("The ID of the incoming clip (the one that starts at the cut)"),
+  type: z
+    .enum(["crossfade", "dip-to-black", "dip-to-white", "slide", "wipe", "zoom"])
+    .default("crossfade")
+    .describe("Transition style. crossfade = cross dissolve, dip-to-black/dip-to-white = fade through a colour, slide = incoming clip pushes the outgoing one out, wipe = edge reveals the incoming clip, zoom = zoom through. Default: crossfade"),
+  durationSeconds: z
+    .number()
+    .positive()
+    .default(1)
+    .describe("Length of the transition in seconds, centred on the cut. Clamped to the shorter clip. Default: 1"),
+  direction: z
+    .enum(["left", "right", "up", "down"])
+    .optional()
+    .describe("Direction of travel for slide and wipe (default: left). Ignored by other types"),
+})
+
 const isolateVoiceInput = z.object({
   clipId: z.string().describe("The ID of the clip to isolate voice/vocals from"),
 })
 
+const animatePropertyInput = z.object({
+  clipId: z.string().describe("The ID of the clip to animate"),
+  property: z
+    .enum(["positionX", "positionY", "scale", "opacity", "blur", "brightness", "contrast", "saturate", "hueRotate"])
+    .describe("The property to animate. positionX/positionY in pixels, scale 10-200 (%), opacity 0-100 (%), blur 0-20 (px), brightness/contrast/saturate 0-200 (%), hueRotate 0-360 (degrees)"),
+  keyframes: z
+    .array(
+      z.object({
+        timeSeconds: z.number().min(0).describe("Time from the start of the clip in seconds"),
+        value: z.number().describe("Property value at this time"),
+      })
+    )
+    .min(1)
+    .describe("Keyframes for the property. Replaces any existing animation of this property on the clip. The value holds before the first and after the last keyframe."),
+  interpolation: z
+    .enum(["linear", "ease", "bezier"])
+    .default("ease")
+    .describe("How values move between keyframes: linear (constant speed), ease (smooth start and stop), or bezier (custom curve). Default: ease"),
+  bezier: z
+    .tuple([z.number().min(0).max(1), z.number(), z.number().min(0).max(1), z.number()])
+    .optional()
+    .describe("Control points [x1, y1, x2, y2] for bezier interpolation, as in CSS cubic-bezier()"),
+})
+
+const setClipSpeedInput = z.object({
+  clipId: z.string().describe("The ID of the clip to retime"),
+  speed: z
+    .number()
+    .min(0.1)
+    .max(16)
+    .optional()
+    .describe("Playback speed: 0.5 = half speed (slow motion), 1 = normal, 2 = double speed, up to 16 for timelapse. The clip keeps the same footage, so its duration changes (2x halves it)"),
+  reverse: z
+    .boolean()
+    .optional()
+    .describe("Play the clip backwards (true) or forwards again (false)"),
+  ramp: z
+    .array(
+      z.object({
+        timeSeconds: z.number().min(0).describe("Time from the start of the clip in seconds"),
+        speed: z.number().min(0.1).max(16).describe("Speed at this point"),
+      })
+    )
+    .optional()
+    .describe("Speed ramp keyframes - speed eases smoothly between them and overrides `speed`. Replaces any existing ramp; pass an empty array to remove it"),
+})
+
 export const videoEditingTools = {
   // Tool: Split a clip at a specific time (requires clip ID)
   splitClip: tool({
@@ -181,12 +375,12 @@ export const videoEditingTools = {
   // Tool: Trim clip start or end
   trimClip: tool({
     description:
-      "Trim the start or end of a clip to remove unwanted parts. Specify how many seconds to remove from the beginning and/or end.",
+      "Trim the start or end of a clip to remove unwanted parts. Specify how many seconds to remove from the beginning and/or end. Set ripple to true when the user wants the rest of the track to follow the trim without leaving a gap.",
     inputSchema: trimClipInput,
     execute: async (input: z.infer<typeof trimClipInput>) => {
       return {
         action: "TRIM_CLIP" as const,
-        payload: { clipId: input.clipId, trimStartSeconds: input.trimStartSeconds, trimEndSeconds: input.trimEndSeconds },
+        payload: { clipId: input.clipId, trimStartSeconds: input.trimStartSeconds, trimEndSeconds: input.trimEndSeconds, ripple: input.ripple },
       }
     },
   }),
@@ -194,12 +388,90 @@ export const videoEditingTools = {
   // Tool: Delete a clip by ID
   deleteClip: tool({
     description:
-      "Remove a specific clip from the timeline by its ID. Use this when you know the exact clip ID to delete.",
+      "Remove a specific clip from the timeline by its ID. Use this when you know the exact clip ID to delete. Set ripple to true to close the gap it leaves (e.g. 'delete this and pull everything after it back').",
     inputSchema: deleteClipInput,
     execute: async (input: z.infer<typeof deleteClipInput>) => {
       return {
         action: "DELETE_CLIP" as const,
-        payload: { clipId: input.clipId },
+        payload: { clipId: input.clipId, ripple: input.ripple },
+      }
+    },
+  }),
+
+  // Tool: Move the cut between two adjacent clips
+  rollEdit: tool({
+    description:
+      "Roll edit: move the cut between two clips that touch on the same track, lengthening one and shortening the other. Nothing else on the timeline moves. Use this for 'cut to the next shot a second later/earlier'.",
+    inputSchema: rollEditInput,
+    execute: async (input: z.infer<typeof rollEditInput>) => {
+      return {
+        action: "ROLL_EDIT" as const,
+        payload: { clipId: input.clipId, edge: input.edge, offsetSeconds: input.offsetSeconds },
+      }
+    },
+  }),
+
+  // Tool: Change the footage a clip shows without moving it
+  slipClip: tool({
+    description:
+      "Slip edit: change which part of the source footage a clip shows while keeping its position and length on the timeline. Use this for 'use a later part of this shot' or 'start this clip 2 seconds further into the video'.",
+    inputSchema: slipClipInput,
+    execute: async (input: z.infer<typeof slipClipInput>) => {
+      return {
+        action: "SLIP_CLIP" as const,
+        payload: { clipId: input.clipId, offsetSeconds: input.offsetSeconds },
+      }
+    },
+  }),
+
+  // Tool: Move a clip between its neighbours
+  slideClip: tool({
+    description:
+      "Slide edit: move a clip earlier or later between the clips either side of it. The clip keeps its footage; the clip before it gets longer or shorter and the clip after it the opposite, so the sequence keeps its length with no gaps.",
+    inputSchema: slideClipInput,
+    execute: async (input: z.infer<typeof slideClipInput>) => {
+      return {
+        action: "SLIDE_CLIP" as const,
+        payload: { clipId: input.clipId, offsetSeconds: input.offsetSeconds },
+      }
+    },
+  }),
+
+  // Tool: Move a video clip's sound to an audio track
+  detachAudio: tool({
+    description:
+      "Detach a video clip's audio onto an audio track as its own clip, linked to the video. The linked pair still moves and splits together, but each can then be trimmed separately - use this for a J-cut (audio starts before the picture) or L-cut (audio carries on after it), or before deleting just the sound.",
+    inputSchema: detachAudioInput,
+    execute: async (input: z.infer<typeof detachAudioInput>) => {
+      return {
+        action: "DETACH_AUDIO" as const,
+        payload: { clipId: input.clipId, leadSeconds: input.leadSeconds, tailSeconds: input.tailSeconds },
+      }
+    },
+  }),
+
+  // Tool: Mark a point on the ruler or a clip
+  addMarker: tool({
+    description:
+      "Add a named, coloured marker at a timeline position, on the ruler or on a clip. Markers label points the user can refer to later, like 'intro end' or 'beat drop'.",
+    inputSchema: addMarkerInput,
+    execute: async (input: z.infer<typeof addMarkerInput>) => {
+      return {
+        action: "ADD_MARKER" as const,
+        payload: { timeSeconds: input.timeSeconds, name: input.name, color: input.color, clipId: input.clipId },
+      }
+    },
+  }),
+
+  // Tool: Collapse clips into a compound clip
+  createCompoundClip: tool({
+    description:
+      "Collapse several clips into one compound clip that plays them as a nested sequence. The clips keep their tracks and spacing inside it, and the compound clip can then be moved, trimmed and given effects as one clip.",
+    inputSchema: createCompoundClipInput,
+    execute: async (input: z.infer<typeof createCompoundClipInput>) => {
+      return {
+        action: "CREATE_COMPOUND_CLIP" as const,
+        payload: { clipIds: input.clipIds, name: input.name },
       }
     },
   }),
@@ -289,6 +561,20 @@ export const videoEditingTools = {
     },
   }),
 
+  // Tool: Add a text or title clip
+  addText: tool({
+    description:
+      "Put text on screen as a text clip on a video track - titles, captions, labels and lower thirds. Text clips work like other clips: they can be moved, trimmed, split, given effects and animated with animateProperty (e.g. fade in with opacity keyframes). Example: 'put a title saying Day 1 for the first 3 seconds' → text 'Day 1', startTimeSeconds 0, durationSeconds 3.",
+    inputSchema: addTextInput,
+    execute: async (input: z.infer<typeof addTextInput>) => {
+      const { text, startTimeSeconds, durationSeconds, trackId, positionX, positionY, ...style } = input
+      return {
+        action: "ADD_TEXT" as const,
+        payload: { text, startTimeSeconds, durationSeconds, trackId, style, positionX, positionY },
+      }
+    },
+  }),
+
   // Tool: Dub/translate a clip to another language
   dubClip: tool({
     description:
@@ -323,6 +609,25 @@ export const videoEditingTools = {
     },
   }),
 
+  // Tool: Add a built-in transition over a cut
+  addTransition: tool({
+    description:
+      "Add a built-in transition (cross dissolve, dip to black/white, slide, wipe or zoom) over the cut between TWO ADJACENT clips on the SAME track (the second clip must start exactly where the first ends). Renders instantly in the preview and export - prefer this over createMorphTransition for ordinary transitions like 'add a crossfade' or 'fade to black between these shots'. Adding a transition where one already exists replaces it.",
+    inputSchema: addTransitionInput,
+    execute: async (input: z.infer<typeof addTransitionInput>) => {
+      return {
+        action: "ADD_TRANSITION" as const,
+        payload: {
+          fromClipId: input.fromClipId,
+          toClipId: input.toClipId,
+          type: input.type,
+          durationSeconds: input.durationSeconds,
+          direction: input.direction,
+        },
+      }
+    },
+  }),
+
   // Tool: Isolate voice/vocals from audio
   isolateVoice: tool({
     description:
@@ -338,4 +643,41 @@ export const videoEditingTools = {
       }
     },
   }),
+
+  // Tool: Change a clip's playback speed, ramp or direction
+  setClipSpeed: tool({
+    description:
+      "Change how fast a clip plays: slow motion, speed up/timelapse, a speed ramp (e.g. 'ramp from normal to 4x and back'), or reverse playback. Audio follows the speed (and changes pitch). Changing the speed changes the clip's duration on the timeline because the same footage plays faster or slower.",
+    inputSchema: setClipSpeedInput,
+    execute: async (input: z.infer<typeof setClipSpeedInput>) => {
+      return {
+        action: "SET_CLIP_SPEED" as const,
+        payload: {
+          clipId: input.clipId,
+          speed: input.speed,
+          reverse: input.reverse,
+          ramp: input.ramp,
+        },
+      }
+    },
+  }),
+
+  // Tool: Animate a transform or effect property with keyframes
+  animateProperty: tool({
+    description:
+      "Animate a clip's transform or effect property over time with keyframes. Use this for moves, zooms, fades and gradual colour changes, e.g. 'slowly zoom in over 3 seconds' (scale from 100 at 0s to 130 at 3s with ease), 'fade in over 1 second' (opacity 0 at 0s to 100 at 1s), or 'pan left' (positionX keyframes). Keyframe times are relative to the start of the clip. Compound clips can't be animated - animate the clips inside their sequence instead.",
+    inputSchema: animatePropertyInput,
+    execute: async (input: z.infer<typeof animatePropertyInput>) => {
+      return {
+        action: "ANIMATE_PROPERTY" as const,
+        payload: {
+          clipId: input.clipId,
+          property: input.property,
+          keyframes: input.keyframes,
+          interpolation: input.interpolation,
+          bezier: input.bezier,
+        },
+      }
+    },
+  }),
 }
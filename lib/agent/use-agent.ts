@@ -6,11 +6,21 @@ import { useCallback, useEffect, useRef, useState } from "react"
 import { toast } from "sonner"
 import {
   useEditor,
-  PIXELS_PER_SECOND,
   DEFAULT_CLIP_TRANSFORM,
   DEFAULT_CLIP_EFFECTS,
+  DEFAULT_CLIP_AUDIO,
   type TimelineClip,
 } from "@/components/editor-context"
+import { framesToTicks, secondsToFrameTicks, secondsToTicks, ticksToSeconds } from "@/lib/timecode"
+import { getTrackType, isTrackLocked } from "@/lib/tracks"
+import { canPlaceMediaOnTrack, getMediaKind } from "@/lib/media-import"
+import { replaceKeyframes, shiftKeyframes } from "@/lib/keyframes"
+import { getTextClipLabel, resolveTextStyle } from "@/lib/text-clips"
+import { clampClipSpeed, describeClipSpeed, getClipSourceTime, getRetimedDuration, getTrimmedMediaOffset, isClipRetimed } from "@/lib/clip-speed"
+import { applyClipTimingUpdates, rippleTrim, rollEdit, slideClip, slipClip, type ClipTimingUpdate } from "@/lib/edit-modes"
+import { getLinkedClips } from "@/lib/linked-clips"
+import { getMarkerPositions } from "@/lib/markers"
+import type { AnimatableProperty, KeyframeInterpolation, MarkerColor, TextClipStyle, TransitionDirection, TransitionType } from "@/lib/projects"
 import type { TimelineState } from "./system-prompt"
 import type { AgentAction } from "./tools"
 
@@ -58,10 +68,22 @@ function getToolDescription(toolName: string, input: Record<string, unknown>): s
       const parts = []
       if (input.trimStartSeconds) parts.push(`${input.trimStartSeconds}s from start`)
       if (input.trimEndSeconds) parts.push(`${input.trimEndSeconds}s from end`)
-      return `Trim ${parts.join(" and ")}`
+      return `${input.ripple ? "Ripple trim" : "Trim"} ${parts.join(" and ")}`
     }
     case "deleteClip":
-      return "Delete clip"
+      return input.ripple ? "Ripple delete clip" : "Delete clip"
+    case "rollEdit":
+      return `Roll cut at clip ${input.edge} by ${input.offsetSeconds}s`
+    case "slipClip":
+      return `Slip clip by ${input.offsetSeconds}s`
+    case "slideClip":
+      return `Slide clip by ${input.offsetSeconds}s`
+    case "detachAudio":
+      return input.leadSeconds ? "Detach audio for a J-cut" : input.tailSeconds ? "Detach audio for an L-cut" : "Detach audio"
+    case "addMarker":
+      return `Add ${input.clipId ? "clip " : ""}marker${input.name ? ` "${input.name}"` : ""} at ${input.timeSeconds}s`
+    case "createCompoundClip":
+      return `Make compound clip${input.name ? ` "${input.name}"` : ""} from ${(input.clipIds as string[] | undefined)?.length ?? 0} clips`
     case "deleteAtTime":
       return `Delete clip at ${input.timeSeconds}s${input.trackId ? ` on track ${input.trackId}` : ""}`
     case "deleteAllClips":
@@ -84,6 +106,14 @@ function getToolDescription(toolName: string, input: Record<string, unknown>): s
       return `Create ${input.durationSeconds}s morph transition`
     case "isolateVoice":
       return "Isolating voice from clip..."
+    case "animateProperty":
+      return `Animate ${input.property}`
+    case "addTransition":
+      return `Add ${input.type ?? "crossfade"} transition`
+    case "addText":
+      return `Add text "${input.text}"`
+    case "setClipSpeed":
+      return input.ramp ? "Ramp clip speed" : input.speed !== undefined ? `Set speed to ${input.speed}x` : input.reverse ? "Reverse clip" : "Change clip speed"
     default:
       return toolName
   }
@@ -95,6 +125,7 @@ export function useVideoAgent() {
   const processedToolCallsRef = useRef<Set<string>>(new Set())
   const toolCallInfoRef = useRef<Map<string, ToolCallInfo>>(new Map())
   const timelineStateRef = useRef<TimelineState | null>(null) // Store latest timeline state
+  const promptRef = useRef("") // The request being worked on, to name its edits in the history
   const [input, setInput] = useState("")
   // Force re-render when tool calls complete
   const [, forceUpdate] = useState(0)
@@ -102,35 +133,101 @@ export function useVideoAgent() {
   // Build timeline state for the agent
   const getTimelineContext = useCallback((): TimelineState => {
     return {
+      tracks: editor.tracks.map((t) => ({ ...t })),
       clips: editor.timelineClips.map((clip) => ({
         id: clip.id,
         mediaId: clip.mediaId,
         label: clip.label,
         trackId: clip.trackId,
-        startTimeSeconds: clip.startTime / PIXELS_PER_SECOND,
-        durationSeconds: clip.duration / PIXELS_PER_SECOND,
+        startTimeSeconds: ticksToSeconds(clip.startTime),
+        durationSeconds: ticksToSeconds(clip.duration),
         type: clip.type,
         effects: clip.effects,
+        animatedProperties: Object.keys(clip.keyframes ?? {}),
+        ...(clip.text ? { text: clip.text.content } : {}),
+        ...(isClipRetimed(clip) ? { speed: describeClipSpeed(clip) } : {}),
+        ...(clip.groupId ? { groupId: clip.groupId } : {}),
+        ...(clip.linkId ? { linkId: clip.linkId } : {}),
+        ...(clip.sequenceId ? { compound: editor.sequences.find((s) => s.id === clip.sequenceId)?.name ?? clip.label } : {}),
+      })),
+      transitions: editor.transitions.map((t) => ({
+        fromClipId: t.fromClipId,
+        toClipId: t.toClipId,
+        type: t.type,
+        durationSeconds: ticksToSeconds(t.duration),
+        direction: t.direction,
       })),
       media: editor.mediaFiles.map((m) => ({
         id: m.id,
         name: m.name,
+        kind: getMediaKind(m) ?? "video",
         durationSeconds: m.durationSeconds,
       })),
+      markers: getMarkerPositions(editor.markers, editor.timelineClips).map(({ marker, time, clipId }) => ({
+        name: marker.name,
+        timeSeconds: ticksToSeconds(time),
+        color: marker.color,
+        ...(clipId ? { clipId } : {}),
+      })),
       currentTimeSeconds: editor.currentTime,
       selectedClipId: editor.selectedClipId,
+      selectedClipIds: editor.selectedClipIds,
     }
-  }, [editor.timelineClips, editor.mediaFiles, editor.currentTime, editor.selectedClipId])
+  }, [editor.tracks, editor.timelineClips, editor.transitions, editor.mediaFiles, editor.markers, editor.sequences, editor.currentTime, editor.selectedClipId, editor.selectedClipIds])
 
   // Keep timeline state ref updated with latest state
   useEffect(() => {
     timelineStateRef.current = getTimelineContext()
   }, [getTimelineContext])
 
+  // Locked tracks can't be edited - returns the locked track an action would touch, if any
+  const getLockedTrackForAction = useCallback(
+    (action: AgentAction): string | null => {
+      const clipTrack = (clipId: string) => editor.timelineClips.find((c) => c.id === clipId)?.trackId
+      const touched: (string | undefined)[] = []
+      switch (action.action) {
+        case "SPLIT_CLIP":
+        case "TRIM_CLIP":
+        case "DELETE_CLIP":
+        case "ROLL_EDIT":
+        case "SLIP_CLIP":
+        case "SLIDE_CLIP":
+        case "DETACH_AUDIO":
+        case "SET_CLIP_SPEED":
+          touched.push(clipTrack(action.payload.clipId))
+          break
+        case "MOVE_CLIP":
+          touched.push(clipTrack(action.payload.clipId), action.payload.newTrackId)
+          break
+        case "CREATE_COMPOUND_CLIP":
+          touched.push(...action.payload.clipIds.map(clipTrack))
+          break
+        case "ADD_MEDIA_TO_TIMELINE":
+        case "ADD_TEXT":
+          touched.push(action.payload.trackId)
+          break
+        case "CREATE_MORPH_TRANSITION":
+        case "ADD_TRANSITION":
+          touched.push(clipTrack(action.payload.fromClipId))
+          break
+      }
+      return touched.find((trackId) => trackId && isTrackLocked(trackId, editor.tracks)) ?? null
+    },
+    [editor.timelineClips, editor.tracks]
+  )
+
   // Handle a single tool result action
   const handleAction = useCallback(
     (action: AgentAction) => {
       console.log("[Agent handleAction] Executing:", action.action, action.payload)
+      const lockedTrack = getLockedTrackForAction(action)
+      if (lockedTrack) {
+        console.warn("[Agent] Skipping action on locked track:", lockedTrack, action.action)
+        toast.error(`Track ${lockedTrack} is locked`)
+        return
+      }
+      const isUnlocked = (clip: TimelineClip) => !isTrackLocked(clip.trackId, editor.tracks)
+      const mediaDuration = editor.getClipSourceDuration
       switch (action.action) {
         case "SPLIT_CLIP": {
           console.log("[Agent] Splitting clip:", action.payload.clipId, "at", action.payload.splitTimeSeconds)
@@ -140,17 +237,20 @@ export function useVideoAgent() {
 
         case "SPLIT_AT_TIME": {
           const { timeSeconds, trackId } = action.payload
-          const timePixels = timeSeconds * PIXELS_PER_SECOND
+          const timeTicks = secondsToFrameTicks(timeSeconds, editor.projectFrameRate)
 
           // Find clips at this time position
           const clipsAtTime = editor.timelineClips.filter((c) => {
             const matchesTrack = !trackId || c.trackId === trackId
-            const withinClip = timePixels >= c.startTime && timePixels < c.startTime + c.duration
-            return matchesTrack && withinClip
+            const withinClip = timeTicks >= c.startTime && timeTicks < c.startTime + c.duration
+            return matchesTrack && withinClip && isUnlocked(c)
           })
 
-          // Split all clips found at this position
+          // Split all clips found at this position - a linked clip is split along with its partner
+          const splitLinks = new Set<string>()
           for (const clip of clipsAtTime) {
+            if (clip.linkId && splitLinks.has(clip.linkId)) continue
+            if (clip.linkId) splitLinks.add(clip.linkId)
             editor.splitClip(clip.id, timeSeconds)
           }
           break
@@ -160,42 +260,152 @@ export function useVideoAgent() {
           const clip = editor.timelineClips.find((c) => c.id === action.payload.clipId)
           if (!clip) break
 
-          const updates: Partial<TimelineClip> = {}
           const trimStart = action.payload.trimStartSeconds ?? 0
           const trimEnd = action.payload.trimEndSeconds ?? 0
 
+          if (action.payload.ripple) {
+            // Trimming the start moves its edge later and trimming the end moves its edge earlier;
+            // the end is trimmed on the clips as the start trim left them
+            let clips = editor.timelineClips
+            const updates: ClipTimingUpdate[] = []
+            const edges: ["left" | "right", number][] = [
+              ["left", secondsToFrameTicks(trimStart, editor.projectFrameRate)],
+              ["right", -secondsToFrameTicks(trimEnd, editor.projectFrameRate)],
+            ]
+            for (const [edge, delta] of edges) {
+              if (delta === 0) continue
+              const { data } = rippleTrim(clips, clip.id, edge, delta, mediaDuration)
+              if (!data) continue
+              updates.push(...data.updates)
+              clips = applyClipTimingUpdates(clips, data.updates)
+            }
+            console.log("[Agent] Ripple trimming clip:", clip.id, { trimStart, trimEnd })
+            const { error } = editor.updateClipTimings(updates)
+            if (error) {
+              toast.error(`Couldn't ripple trim: ${error}`)
+            }
+            break
+          }
+
+          // Each edge moves the source range according to the clip's speed and direction
+          let trimmed = clip
           if (trimStart > 0) {
-            const trimStartPixels = trimStart * PIXELS_PER_SECOND
-            updates.startTime = clip.startTime + trimStartPixels
-            updates.duration = clip.duration - trimStartPixels
-            updates.mediaOffset = clip.mediaOffset + trimStartPixels
+            const trimStartTicks = secondsToFrameTicks(trimStart, editor.projectFrameRate)
+            const duration = trimmed.duration - trimStartTicks
+            trimmed = {
+              ...trimmed,
+              startTime: trimmed.startTime + trimStartTicks,
+              duration,
+              mediaOffset: getTrimmedMediaOffset(trimmed, "left", duration),
+              keyframes: shiftKeyframes(trimmed.keyframes, -trimStartTicks),
+            }
           }
 
           if (trimEnd > 0) {
-            const trimEndPixels = trimEnd * editor.pixelsPerSecond
-            updates.duration = (updates.duration ?? clip.duration) - trimEndPixels
+            const trimEndTicks = secondsToFrameTicks(trimEnd, editor.projectFrameRate)
+            const duration = trimmed.duration - trimEndTicks
+            trimmed = { ...trimmed, duration, mediaOffset: getTrimmedMediaOffset(trimmed, "right", duration) }
           }
 
-          if (Object.keys(updates).length > 0) {
-            editor.updateClip(action.payload.clipId, updates)
+          if (trimmed !== clip) {
+            editor.updateClip(action.payload.clipId, {
+              startTime: trimmed.startTime,
+              duration: trimmed.duration,
+              mediaOffset: trimmed.mediaOffset,
+              keyframes: trimmed.keyframes,
+            })
           }
           break
         }
 
         case "DELETE_CLIP": {
+          if (action.payload.ripple) {
+            const { error } = editor.rippleDeleteClip(action.payload.clipId)
+            if (error) {
+              toast.error(`Couldn't ripple delete: ${error}`)
+            }
+            break
+          }
           editor.removeClip(action.payload.clipId)
           break
         }
 
+        case "ROLL_EDIT": {
+          const { clipId, edge, offsetSeconds } = action.payload
+          const delta = secondsToFrameTicks(offsetSeconds, editor.projectFrameRate)
+          const result = rollEdit(editor.timelineClips, clipId, edge === "start" ? "left" : "right", delta, mediaDuration)
+          const { error } = result.data ? editor.updateClipTimings(result.data.updates) : result
+          if (error) {
+            toast.error(`Couldn't roll the cut: ${error}`)
+          }
+          break
+        }
+
+        case "SLIP_CLIP": {
+          const { clipId, offsetSeconds } = action.payload
+          const result = slipClip(editor.timelineClips, clipId, secondsToTicks(offsetSeconds), mediaDuration)
+          const { error } = result.data ? editor.updateClipTimings(result.data.updates) : result
+          if (error) {
+            toast.error(`Couldn't slip clip: ${error}`)
+          }
+          break
+        }
+
+        case "SLIDE_CLIP": {
+          const { clipId, offsetSeconds } = action.payload
+          const delta = secondsToFrameTicks(offsetSeconds, editor.projectFrameRate)
+          const result = slideClip(editor.timelineClips, clipId, delta, mediaDuration)
+          const { error } = result.data ? editor.updateClipTimings(result.data.updates) : result
+          if (error) {
+            toast.error(`Couldn't slide clip: ${error}`)
+          }
+          break
+        }
+
+        case "DETACH_AUDIO": {
+          const { clipId, leadSeconds, tailSeconds } = action.payload
+          const { data, error } = editor.detachAudio(clipId, {
+            lead: secondsToFrameTicks(leadSeconds ?? 0, editor.projectFrameRate),
+            tail: secondsToFrameTicks(tailSeconds ?? 0, editor.projectFrameRate),
+          })
+          if (error) {
+            toast.error(`Couldn't detach audio: ${error}`)
+          } else if (data) {
+            console.log("[Agent] Detached audio to track", data.trackId, "as", data.id)
+          }
+          break
+        }
+
+        case "ADD_MARKER": {
+          const { timeSeconds, name, color, clipId } = action.payload
+          const { data, error } = editor.addMarker(secondsToFrameTicks(timeSeconds, editor.projectFrameRate), { name, color, clipId })
+          if (error) {
+            toast.error(`Couldn't add marker: ${error}`)
+          } else if (data) {
+            console.log("[Agent] Added marker", data.name, "at", timeSeconds, "s")
+          }
+          break
+        }
+
+        case "CREATE_COMPOUND_CLIP": {
+          const { data, error } = editor.createCompoundClip(action.payload.clipIds, action.payload.name)
+          if (error) {
+            toast.error(`Couldn't make compound clip: ${error}`)
+          } else if (data) {
+            console.log("[Agent] Made compound clip", data.id, "from", action.payload.clipIds)
+          }
+          break
+        }
+
         case "DELETE_AT_TIME": {
           const { timeSeconds, trackId } = action.payload
-          const timePixels = timeSeconds * PIXELS_PER_SECOND
+          const timeTicks = secondsToFrameTicks(timeSeconds, editor.projectFrameRate)
 
           // Find clips at this time position
           const clipsAtTime = editor.timelineClips.filter((c) => {
             const matchesTrack = !trackId || c.trackId === trackId
-            const withinClip = timePixels >= c.startTime && timePixels < c.startTime + c.duration
-            return matchesTrack && withinClip
+            const withinClip = timeTicks >= c.startTime && timeTicks < c.startTime + c.duration
+            return matchesTrack && withinClip && isUnlocked(c)
           })
 
           // Delete all clips found at this position
@@ -209,9 +419,10 @@ export function useVideoAgent() {
           const { trackId } = action.payload
 
           // Find clips to delete (all clips or just on a specific track)
-          const clipsToDelete = trackId
+          const clipsToDelete = (trackId
             ? editor.timelineClips.filter((c) => c.trackId === trackId)
             : [...editor.timelineClips]
+          ).filter(isUnlocked)
 
           // Delete all matching clips
           for (const clip of clipsToDelete) {
@@ -224,13 +435,25 @@ export function useVideoAgent() {
           const moveUpdates: Partial<TimelineClip> = {}
 
           if (action.payload.newStartTimeSeconds !== undefined) {
-            moveUpdates.startTime = action.payload.newStartTimeSeconds * PIXELS_PER_SECOND
+            moveUpdates.startTime = secondsToFrameTicks(action.payload.newStartTimeSeconds, editor.projectFrameRate)
           }
 
           if (action.payload.newTrackId) {
             moveUpdates.trackId = action.payload.newTrackId
           }
 
+          // Linked audio keeps time with its video: the pair moves together, each on its own track
+          const clip = editor.timelineClips.find((c) => c.id === action.payload.clipId)
+          const linked = clip ? getLinkedClips(editor.timelineClips, clip) : []
+          if (clip && linked.length > 0 && moveUpdates.startTime !== undefined) {
+            const { error } = editor.moveClips([clip.id, ...linked.map((c) => c.id)], moveUpdates.startTime - clip.startTime)
+            if (error) {
+              toast.error(`Couldn't move clip: ${error}`)
+              break
+            }
+            delete moveUpdates.startTime
+          }
+
           if (Object.keys(moveUpdates).length > 0) {
             editor.updateClip(action.payload.clipId, moveUpdates)
           }
@@ -290,6 +513,11 @@ export function useVideoAgent() {
         case "ADD_MEDIA_TO_TIMELINE": {
           const media = editor.mediaFiles.find((m) => m.id === action.payload.mediaId)
           if (!media) break
+          const trackType = getTrackType(action.payload.trackId, editor.tracks)
+          if (!canPlaceMediaOnTrack(media, trackType)) {
+            toast.error(`${media.name} can't be placed on ${trackType} track ${action.payload.trackId}`)
+            break
+          }
 
           // Find the end of the track to place the clip
           const trackClips = editor.timelineClips.filter(
@@ -300,22 +528,27 @@ export function useVideoAgent() {
               ? Math.max(...trackClips.map((c) => c.startTime + c.duration))
               : 0
 
-          const startTimePixels =
+          const startTimeTicks =
             action.payload.startTimeSeconds !== undefined
-              ? action.payload.startTimeSeconds * PIXELS_PER_SECOND
+              ? secondsToFrameTicks(action.payload.startTimeSeconds, editor.projectFrameRate)
               : trackEnd
 
           const newClip: TimelineClip = {
             id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             mediaId: media.id,
             trackId: action.payload.trackId,
-            startTime: startTimePixels,
-            duration: media.durationSeconds * PIXELS_PER_SECOND,
+            startTime: startTimeTicks,
+            // Whole frames only, so the clip never runs past the end of the media
+            // Stills have no length of their own and use the project's default image duration
+            duration: getMediaKind(media) === "image"
+              ? secondsToFrameTicks(editor.defaultImageDuration, editor.projectFrameRate)
+              : framesToTicks(Math.floor(media.durationSeconds * editor.projectFrameRate), editor.projectFrameRate),
             mediaOffset: 0,
             label: media.name,
-            type: action.payload.trackId.startsWith("V") ? "video" : "audio",
+            type: trackType,
             transform: { ...DEFAULT_CLIP_TRANSFORM },
             effects: { ...DEFAULT_CLIP_EFFECTS },
+            audio: { ...DEFAULT_CLIP_AUDIO },
           }
 
           editor.addClipToTimeline(newClip)
@@ -370,13 +603,111 @@ export function useVideoAgent() {
           // This case is handled in onToolCall with handleDubClip
           break
 
+        case "ANIMATE_PROPERTY": {
+          const { clipId, property, interpolation, bezier } = action.payload
+          const targetClip = editor.timelineClips.find((c) => c.id === clipId)
+          if (!targetClip) break
+          if (targetClip.sequenceId) {
+            toast.error("Compound clips can't be animated - animate the clips inside")
+            break
+          }
+
+          // Keyframes are timed from the clip's start, frame-aligned like other edits
+          const keyframes = action.payload.keyframes.map((k) => ({
+            time: secondsToFrameTicks(k.timeSeconds, editor.projectFrameRate),
+            value: k.value,
+            interpolation,
+            ...(interpolation === "bezier" && bezier ? { bezier } : {}),
+          }))
+
+          console.log("[Agent] Animating", property, "on clip:", clipId, keyframes)
+          editor.updateClip(clipId, {
+            keyframes: replaceKeyframes(targetClip.keyframes, property, keyframes),
+          })
+          break
+        }
+
+        case "SET_CLIP_SPEED": {
+          const { clipId, speed, reverse, ramp } = action.payload
+          const clip = editor.timelineClips.find((c) => c.id === clipId)
+          if (!clip) break
+          if (clip.freeze) {
+            toast.error("Freeze frames don't have a speed")
+            break
+          }
+          if (clip.sequenceId) {
+            toast.error("Compound clips can't be retimed - change the speed of the clips inside")
+            break
+          }
+
+          // Ramp times are from the clip start; keys go at the source time shown there
+          const speedRamp = ramp === undefined
+            ? clip.speedRamp
+            : ramp.length > 0
+              ? ramp
+                .map((k) => ({
+                  time: Math.round(getClipSourceTime(clip, clip.startTime + secondsToFrameTicks(k.timeSeconds, editor.projectFrameRate))),
+                  value: clampClipSpeed(k.speed),
+                  interpolation: "ease" as const,
+                }))
+                .sort((a, b) => a.time - b.time)
+              : undefined
+          const nextSpeed = speed === undefined ? clip.speed ?? 1 : clampClipSpeed(speed)
+
+          console.log("[Agent] Setting speed on clip:", clipId, { speed: nextSpeed, reverse, speedRamp })
+          editor.updateClip(clipId, {
+            speed: nextSpeed === 1 ? undefined : nextSpeed,
+            speedRamp,
+            reverse: reverse === undefined ? clip.reverse : reverse || undefined,
+            duration: getRetimedDuration(clip, { speed: nextSpeed, speedRamp }),
+          })
+          break
+        }
+
+        case "ADD_TEXT": {
+          const { text, startTimeSeconds, durationSeconds, style, positionX, positionY } = action.payload
+          // Default to the topmost video track so the text shows over the footage
+          const trackId = action.payload.trackId ?? editor.tracks.find((t) => t.type === "video" && !t.locked)?.id
+          if (!trackId || getTrackType(trackId, editor.tracks) !== "video") {
+            toast.error("Text needs an unlocked video track")
+            break
+          }
+
+          console.log("[Agent] Adding text:", text, "on track", trackId)
+          editor.addClipToTimeline({
+            id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            mediaId: "",
+            trackId,
+            startTime: secondsToFrameTicks(startTimeSeconds, editor.projectFrameRate),
+            duration: Math.max(1, secondsToFrameTicks(durationSeconds, editor.projectFrameRate)),
+            mediaOffset: 0,
+            label: getTextClipLabel(text),
+            type: "text",
+            transform: { ...DEFAULT_CLIP_TRANSFORM, positionX: positionX ?? 0, positionY: positionY ?? 0 },
+            effects: { ...DEFAULT_CLIP_EFFECTS },
+            audio: { ...DEFAULT_CLIP_AUDIO },
+            text: resolveTextStyle({ ...style, content: text }),
+          })
+          break
+        }
+
+        case "ADD_TRANSITION": {
+          const { fromClipId, toClipId, type, durationSeconds, direction } = action.payload
+          console.log("[Agent] Adding", type, "transition:", fromClipId, "->", toClipId)
+          const { error } = editor.addTransition(fromClipId, toClipId, type, secondsToTicks(durationSeconds), direction)
+          if (error) {
+            toast.error(`Couldn't add transition: ${error}`)
+          }
+          break
+        }
+
         // ISOLATE_VOICE is handled separately as async operation - see handleIsolateVoice
         case "ISOLATE_VOICE":
           // This case is handled in onToolCall with handleIsolateVoice
           break
       }
     },
-    [editor]
+    [editor, getLockedTrackForAction]
   )
 
   // Handle async voice isolation operation
@@ -636,13 +967,72 @@ export function useVideoAgent() {
                 clipId: tc.input.clipId as string,
                 trimStartSeconds: tc.input.trimStartSeconds as number | undefined,
                 trimEndSeconds: tc.input.trimEndSeconds as number | undefined,
+                ripple: tc.input.ripple as boolean | undefined,
               },
             }
             break
           case "deleteClip":
             action = {
               action: "DELETE_CLIP",
-              payload: { clipId: tc.input.clipId as string },
+              payload: { clipId: tc.input.clipId as string, ripple: tc.input.ripple as boolean | undefined },
+            }
+            break
+          case "rollEdit":
+            action = {
+              action: "ROLL_EDIT",
+              payload: {
+                clipId: tc.input.clipId as string,
+                edge: (tc.input.edge as "start" | "end" | undefined) ?? "end",
+                offsetSeconds: (tc.input.offsetSeconds as number | undefined) ?? 0,
+              },
+            }
+            break
+          case "slipClip":
+            action = {
+              action: "SLIP_CLIP",
+              payload: {
+                clipId: tc.input.clipId as string,
+                offsetSeconds: (tc.input.offsetSeconds as number | undefined) ?? 0,
+              },
+            }
+            break
+          case "slideClip":
+            action = {
+              action: "SLIDE_CLIP",
+              payload: {
+                clipId: tc.input.clipId as string,
+                offsetSeconds: (tc.input.offsetSeconds as number | undefined) ?? 0,
+              },
+            }
+            break
+          case "detachAudio":
+            action = {
+              action: "DETACH_AUDIO",
+              payload: {
+                clipId: tc.input.clipId as string,
+                leadSeconds: tc.input.leadSeconds as number | undefined,
+                tailSeconds: tc.input.tailSeconds as number | undefined,
+              },
+            }
+            break
+          case "addMarker":
+            action = {
+              action: "ADD_MARKER",
+              payload: {
+                timeSeconds: (tc.input.timeSeconds as number | undefined) ?? 0,
+                name: tc.input.name as string | undefined,
+                color: tc.input.color as MarkerColor | undefined,
+                clipId: tc.input.clipId as string | undefined,
+              },
+            }
+            break
+          case "createCompoundClip":
+            action = {
+              action: "CREATE_COMPOUND_CLIP",
+              payload: {
+                clipIds: (tc.input.clipIds as string[] | undefined) ?? [],
+                name: tc.input.name as string | undefined,
+              },
             }
             break
           case "deleteAtTime":
@@ -704,6 +1094,57 @@ export function useVideoAgent() {
               },
             }
             break
+          case "animateProperty":
+            action = {
+              action: "ANIMATE_PROPERTY",
+              payload: {
+                clipId: tc.input.clipId as string,
+                property: tc.input.property as AnimatableProperty,
+                keyframes: tc.input.keyframes as { timeSeconds: number; value: number }[],
+                interpolation: (tc.input.interpolation as KeyframeInterpolation | undefined) ?? "ease",
+                bezier: tc.input.bezier as [number, number, number, number] | undefined,
+              },
+            }
+            break
+          case "addText": {
+            const { text, startTimeSeconds, durationSeconds, trackId, positionX, positionY, ...style } = tc.input as Record<string, unknown>
+            action = {
+              action: "ADD_TEXT",
+              payload: {
+                text: text as string,
+                startTimeSeconds: (startTimeSeconds as number | undefined) ?? timelineStateRef.current?.currentTimeSeconds ?? 0,
+                durationSeconds: (durationSeconds as number | undefined) ?? 3,
+                trackId: trackId as string | undefined,
+                style: style as Partial<Omit<TextClipStyle, "content">>,
+                positionX: positionX as number | undefined,
+                positionY: positionY as number | undefined,
+              },
+            }
+            break
+          }
+          case "setClipSpeed":
+            action = {
+              action: "SET_CLIP_SPEED",
+              payload: {
+                clipId: tc.input.clipId as string,
+                speed: tc.input.speed as number | undefined,
+                reverse: tc.input.reverse as boolean | undefined,
+                ramp: tc.input.ramp as { timeSeconds: number; speed: number }[] | undefined,
+              },
+            }
+            break
+          case "addTransition":
+            action = {
+              action: "ADD_TRANSITION",
+              payload: {
+                fromClipId: tc.input.fromClipId as string,
+                toClipId: tc.input.toClipId as string,
+                type: (tc.input.type as TransitionType | undefined) ?? "crossfade",
+                durationSeconds: (tc.input.durationSeconds as number | undefined) ?? 1,
+                direction: tc.input.direction as TransitionDirection | undefined,
+              },
+            }
+            break
           case "dubClip":
             // Handle dubbing as a special async case
             processedToolCallsRef.current.add(tc.toolCallId)
@@ -797,6 +1238,15 @@ export function useVideoAgent() {
 
   const isLoading = status === "streaming" || status === "submitted"
 
+  // Everything the agent does for one request undoes as a single edit
+  const { beginHistoryGroup, endHistoryGroup } = editor
+  useEffect(() => {
+    if (!isLoading) return
+    const prompt = promptRef.current
+    beginHistoryGroup(`AI: ${prompt.length > 40 ? `${prompt.slice(0, 40)}...` : prompt}`)
+    return () => endHistoryGroup()
+  }, [isLoading, beginHistoryGroup, endHistoryGroup])
+
   // Also process actions periodically during streaming
   useEffect(() => {
     if (isLoading) {
@@ -807,6 +1257,15 @@ export function useVideoAgent() {
     }
   }, [isLoading, processPendingActions])
 
+  // Send a request, remembering it to name the edits it makes
+  const sendPrompt = useCallback(
+    (message: { text: string }) => {
+      promptRef.current = message.text
+      return sendMessage(message)
+    },
+    [sendMessage]
+  )
+
   // Handle input change
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -824,18 +1283,18 @@ export function useVideoAgent() {
       const message = input
       setInput("")
 
-      await sendMessage({ text: message })
+      await sendPrompt({ text: message })
     },
-    [input, isLoading, sendMessage]
+    [input, isLoading, sendPrompt]
   )
 
   // Send a quick action message
   const sendQuickAction = useCallback(
     async (message: string) => {
       if (isLoading) return
-      await sendMessage({ text: message })
+      await sendPrompt({ text: message })
     },
-    [isLoading, sendMessage]
+    [isLoading, sendPrompt]
   )
 
   // Process tool invocations from messages
@@ -940,7 +1399,7 @@ export function useVideoAgent() {
     isLoading,
     isLoadingHistory: false, // No persistence yet, so never loading history
     sendQuickAction,
-    sendMessage,
+    sendMessage: sendPrompt,
     clearChat,
     error,
   }
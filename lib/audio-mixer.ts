@@ -0,0 +1,134 @@
+import type { TimelineClip, MediaFile } from "@/components/editor-context"
+import type { ClipAudio } from "./projects"
+import { secondsToTicks, ticksToSeconds } from "./timecode"
+import { getMediaKind } from "./media-import"
+import { getClipSpeedAt, getClipSourceTime } from "./clip-speed"
+
+/**
+ * Web Audio mixing for timeline clips
+ * Shared by preview playback (AudioContext) and export (OfflineAudioContext) so both
+ * hear the same gain, pan, fades and speed. Each clip is wired as
+ * source -> gain (volume + fade envelope) -> stereo panner -> destination
+ */
+
+/**
+ * Whether a clip contributes sound to the mix
+ */
+export function clipHasAudio(clip: TimelineClip): boolean {
+  // Text clips have no media to play, and a freeze frame is a still
+  return clip.type !== "text" && !clip.freeze && !clip.audio.muted
+}
+
+// Reversed copies of decoded buffers, made once per buffer
+const reversedBuffers = new WeakMap<AudioBuffer, AudioBuffer>()
+
+function getReversedBuffer(buffer: AudioBuffer): AudioBuffer {
+  const cached = reversedBuffers.get(buffer)
+  if (cached) return cached
+  const reversed = new AudioBuffer({ length: buffer.length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate })
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    reversed.copyToChannel(buffer.getChannelData(channel).slice().reverse(), channel)
+  }
+  reversedBuffers.set(buffer, reversed)
+  return reversed
+}
+
+// Seconds between playback rate updates for a speed ramp
+const RAMP_RATE_INTERVAL = 0.1
+
+/**
+ * Decode a media file's audio track
+ * @returns The decoded buffer, or null if the media has no decodable audio (always null for images)
+ */
+export async function decodeMediaAudio(ctx: BaseAudioContext, media: MediaFile): Promise<AudioBuffer | null> {
+  const url = media.storageUrl || media.objectUrl
+  if (!url || getMediaKind(media) === "image") return null
+  try {
+    const response = await fetch(url)
+    return await ctx.decodeAudioData(await response.arrayBuffer())
+  } catch (e) {
+    console.warn(`[AudioMixer] No decodable audio for ${media.name}:`, e)
+    return null
+  }
+}
+
+/**
+ * Clip level at a point inside the clip, including fades
+ * @param audio - Clip audio settings
+ * @param t - Seconds from the start of the clip
+ * @param duration - Clip length in seconds
+ */
+function levelAt(audio: ClipAudio, t: number, duration: number): number {
+  const fadeIn = ticksToSeconds(audio.fadeIn)
+  const fadeOut = ticksToSeconds(audio.fadeOut)
+  const fadeInLevel = fadeIn > 0 ? t / fadeIn : 1
+  const fadeOutLevel = fadeOut > 0 ? (duration - t) / fadeOut : 1
+  return (audio.volume / 100) * Math.max(0, Math.min(1, fadeInLevel, fadeOutLevel))
+}
+
+/**
+ * Schedule one clip's audio on a context
+ * @param ctx - Audio context to play or render into
+ * @param destination - Node to connect the clip's output to
+ * @param clip - Timeline clip
+ * @param buffer - Decoded audio for the clip's media
+ * @param fromSeconds - Timeline position that `when` corresponds to (preview can start mid-timeline)
+ * @param when - Context time at which the timeline is at fromSeconds
+ * @returns The scheduled source (stop it to cancel), or null if the clip ends before fromSeconds
+ */
+export function scheduleClipAudio(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  clip: TimelineClip,
+  buffer: AudioBuffer,
+  fromSeconds: number,
+  when: number
+): AudioBufferSourceNode | null {
+  const audio = clip.audio
+  const start = ticksToSeconds(clip.startTime)
+  const duration = ticksToSeconds(clip.duration)
+  if (start + duration <= fromSeconds) return null
+
+  // How far into the clip playback begins
+  const skip = Math.max(0, fromSeconds - start)
+  const startAt = when + Math.max(0, start - fromSeconds)
+  const toContextTime = (t: number) => startAt + (t - skip)
+
+  const source = ctx.createBufferSource()
+  // A reversed clip plays a reversed copy, so its source times count back from the buffer end
+  source.buffer = clip.reverse ? getReversedBuffer(buffer) : buffer
+  const gain = ctx.createGain()
+  const panner = ctx.createStereoPanner()
+  panner.pan.value = Math.max(-1, Math.min(1, audio.pan / 100))
+  source.connect(gain).connect(panner).connect(destination)
+
+  // The envelope is linear between these points, so ramping through them reproduces it exactly
+  const breakpoints = [
+    ticksToSeconds(audio.fadeIn),
+    duration - ticksToSeconds(audio.fadeOut),
+    duration,
+  ]
+    .filter((t) => t > skip && t <= duration)
+    .sort((a, b) => a - b)
+
+  gain.gain.setValueAtTime(levelAt(audio, skip, duration), startAt)
+  for (const t of breakpoints) {
+    gain.gain.linearRampToValueAtTime(levelAt(audio, t, duration), toContextTime(t))
+  }
+
+  // Speed changes pitch as well as tempo, like a tape
+  // Ramps are followed in short linear steps, sampled at the source time under each step
+  const speedAt = (t: number) => getClipSpeedAt(clip, getClipSourceTime(clip, clip.startTime + secondsToTicks(t)))
+  source.playbackRate.setValueAtTime(speedAt(skip), startAt)
+  if (clip.speedRamp?.length) {
+    for (let t = skip + RAMP_RATE_INTERVAL; t < duration; t += RAMP_RATE_INTERVAL) {
+      source.playbackRate.linearRampToValueAtTime(speedAt(t), toContextTime(t))
+    }
+  }
+
+  const sourceTime = ticksToSeconds(getClipSourceTime(clip, clip.startTime + secondsToTicks(skip)))
+  const offset = clip.reverse ? buffer.duration - sourceTime : sourceTime
+  source.start(startAt, Math.max(0, offset))
+  source.stop(toContextTime(duration))
+  return source
+}
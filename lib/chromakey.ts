@@ -10,6 +10,10 @@ export interface ChromakeyOptions {
   spill: number         // 0-1: Spill suppression strength
 }
 
+export const DEFAULT_KEY_COLOR = "#00FF00"
+// Key colours are six-digit hex, with or without the "#"
+export const KEY_COLOR_PATTERN = /^#?[0-9a-f]{6}$/i
+
 const VERTEX_SHADER = `
   attribute vec2 a_position;
   attribute vec2 a_texCoord;
@@ -241,10 +245,10 @@ export class ChromakeyProcessor {
   /**
    * Process a video frame and render it to the canvas with chromakey applied
    * The canvas will have transparency where green screen is removed, allowing background video to show through
-   * @param video The foreground video with green screen
+   * @param video The foreground video (or still image) with green screen
    * @param options Chromakey processing options
    */
-  processFrame(video: HTMLVideoElement, options: ChromakeyOptions): boolean {
+  processFrame(video: HTMLVideoElement | HTMLImageElement, options: ChromakeyOptions): boolean {
     if (!this.initialized || !this.gl || !this.program) {
       return false
     }
@@ -252,10 +256,12 @@ export class ChromakeyProcessor {
     const gl = this.gl
 
     // Update canvas size to match video
-    if (this.canvas.width !== video.videoWidth || this.canvas.height !== video.videoHeight) {
-      this.canvas.width = video.videoWidth
-      this.canvas.height = video.videoHeight
-      gl.viewport(0, 0, video.videoWidth, video.videoHeight)
+    const width = video instanceof HTMLVideoElement ? video.videoWidth : video.naturalWidth
+    const height = video instanceof HTMLVideoElement ? video.videoHeight : video.naturalHeight
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width
+      this.canvas.height = height
+      gl.viewport(0, 0, width, height)
     }
 
     // Clear with transparent background (background video will show through transparent areas)
@@ -0,0 +1,226 @@
+import { getMediaKind } from "./media-import"
+import type { FilmstripSprite } from "./media-probe"
+
+/**
+ * Timeline clip previews
+ * Filmstrip frames and waveform peaks drawn inside timeline clips. Each is worked out once per
+ * media item and cached for the session. Filmstrips come from the sprite stored when the file
+ * was probed on upload (see lib/media-probe), or for media that hasn't been, from frames grabbed
+ * in the browser. Waveforms are decoded from the media - its proxy when there is one, as that
+ * is far smaller to fetch.
+ */
+
+export const BROWSER_FILMSTRIP_MAX_FRAMES = 60
+export const BROWSER_FILMSTRIP_FRAME_HEIGHT = 90
+export const WAVEFORM_PEAKS_PER_SECOND = 100
+export const MAX_WAVEFORM_BYTES = 512 * 1024 * 1024
+export const MAX_WAVEFORM_SECONDS = 2 * 60 * 60
+
+// Audio is decoded at this rate - plenty for WAVEFORM_PEAKS_PER_SECOND, and it keeps an hour of stereo under 100 MB
+const WAVEFORM_SAMPLE_RATE = 3000
+
+// The media fields previews are made from
+export interface PreviewMedia {
+  id: string
+  name: string
+  type: string
+  objectUrl: string
+  proxyUrl?: string
+  durationSeconds: number
+  filmstrip?: FilmstripSprite
+}
+
+// Frames of a video side by side in one image, one every interval seconds
+export interface Filmstrip {
+  image: CanvasImageSource
+  frameCount: number
+  frameWidth: number
+  frameHeight: number
+  interval: number // Infinity for a still image, which has the one frame
+}
+
+// Loudest sample (0-1) in each 1/peaksPerSecond of the media
+export interface WaveformPeaks {
+  peaks: Float32Array
+  peaksPerSecond: number
+}
+
+const filmstrips = new Map<string, Promise<Filmstrip | null>>()
+const waveforms = new Map<string, Promise<WaveformPeaks | null>>()
+
+// Browser decoding is heavy, so media is worked through one at a time
+let queue: Promise<unknown> = Promise.resolve()
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task)
+  queue = result.catch(() => {})
+  return result
+}
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => resolve(null)
+    img.src = url
+  })
+}
+
+// Grab evenly spaced frames of a video into a sprite
+async function grabFilmstrip(media: PreviewMedia): Promise<Filmstrip | null> {
+  const video = document.createElement("video")
+  video.preload = "auto"
+  video.muted = true
+  video.playsInline = true
+  video.src = media.proxyUrl ?? media.objectUrl
+
+  const waitFor = (event: "loadeddata" | "seeked") =>
+    new Promise<boolean>((resolve) => {
+      const done = (ok: boolean) => {
+        clearTimeout(timeout)
+        video.removeEventListener(event, onEvent)
+        video.removeEventListener("error", onError)
+        resolve(ok)
+      }
+      const onEvent = () => done(true)
+      const onError = () => done(false)
+      const timeout = setTimeout(() => done(false), 10000)
+      video.addEventListener(event, onEvent)
+      video.addEventListener("error", onError)
+    })
+
+  try {
+    if (!(await waitFor("loadeddata")) || !video.videoWidth || !video.videoHeight) return null
+    const duration = Number.isFinite(video.duration) ? video.duration : media.durationSeconds
+    if (!duration) return null
+
+    const frameCount = Math.max(1, Math.min(BROWSER_FILMSTRIP_MAX_FRAMES, Math.ceil(duration)))
+    const frameHeight = BROWSER_FILMSTRIP_FRAME_HEIGHT
+    const frameWidth = Math.max(1, Math.round((frameHeight * video.videoWidth) / video.videoHeight))
+    const interval = duration / frameCount
+
+    const canvas = document.createElement("canvas")
+    canvas.width = frameWidth * frameCount
+    canvas.height = frameHeight
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return null
+
+    for (let i = 0; i < frameCount; i++) {
+      video.currentTime = Math.min(i * interval, duration - 0.05)
+      if (!(await waitFor("seeked"))) break
+      ctx.drawImage(video, i * frameWidth, 0, frameWidth, frameHeight)
+    }
+    return { image: canvas, frameCount, frameWidth, frameHeight, interval }
+  } finally {
+    video.removeAttribute("src")
+    video.load()
+  }
+}
+
+/**
+ * A media item's filmstrip, made the first time it's asked for
+ * @returns The filmstrip, or null for media without pictures or that couldn't be read
+ */
+export function getFilmstrip(media: PreviewMedia): Promise<Filmstrip | null> {
+  const kind = getMediaKind(media)
+  // Keyed by source too, so the stored sprite takes over once the upload has been probed
+  const key = `${media.id}:${media.filmstrip?.url ?? media.objectUrl}`
+  const cached = filmstrips.get(key)
+  if (cached) return cached
+
+  let filmstrip: Promise<Filmstrip | null>
+  if (kind === "image") {
+    filmstrip = loadImage(media.objectUrl).then((img) =>
+      img ? { image: img, frameCount: 1, frameWidth: img.naturalWidth, frameHeight: img.naturalHeight, interval: Infinity } : null
+    )
+  } else if (kind === "video" && media.filmstrip) {
+    const sprite = media.filmstrip
+    filmstrip = loadImage(sprite.url).then((img) => (img ? { ...sprite, image: img } : null))
+  } else if (kind === "video") {
+    filmstrip = enqueue(() => grabFilmstrip(media)).catch((error) => {
+      console.warn("[ClipPreviews] Could not grab frames from", media.name, error)
+      return null
+    })
+  } else {
+    filmstrip = Promise.resolve(null)
+  }
+  filmstrips.set(key, filmstrip)
+  return filmstrip
+}
+
+async function decodeWaveform(media: PreviewMedia): Promise<WaveformPeaks | null> {
+  const response = await fetch(media.proxyUrl ?? media.objectUrl)
+  if (!response.ok) return null
+  // Don't pull a huge file into memory just to draw it
+  if (Number(response.headers.get("content-length")) > MAX_WAVEFORM_BYTES) {
+    await response.body?.cancel()
+    return null
+  }
+
+  // An offline context decodes without touching the audio device, resampling to its own rate
+  const ctx = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE)
+  let buffer: AudioBuffer
+  try {
+    buffer = await ctx.decodeAudioData(await response.arrayBuffer())
+  } catch {
+    // No audio track, or a codec the browser can't decode
+    return null
+  }
+
+  const samplesPerPeak = WAVEFORM_SAMPLE_RATE / WAVEFORM_PEAKS_PER_SECOND
+  const peaks = new Float32Array(Math.ceil(buffer.length / samplesPerPeak))
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel)
+    for (let i = 0; i < samples.length; i++) {
+      const bucket = Math.floor(i / samplesPerPeak)
+      const value = Math.abs(samples[i])
+      if (value > peaks[bucket]) peaks[bucket] = value
+    }
+  }
+  return { peaks, peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND }
+}
+
+/**
+ * A media item's waveform, decoded the first time it's asked for
+ * @returns The peaks, or null for media with no audio, too long to decode, or that couldn't be read
+ */
+export function getWaveform(media: PreviewMedia): Promise<WaveformPeaks | null> {
+  const kind = getMediaKind(media)
+  const key = `${media.id}:${media.proxyUrl ?? media.objectUrl}`
+  const cached = waveforms.get(key)
+  if (cached) return cached
+
+  const waveform = kind === "image" || kind === null || media.durationSeconds > MAX_WAVEFORM_SECONDS
+    ? Promise.resolve(null)
+    : enqueue(() => decodeWaveform(media)).catch((error) => {
+      console.warn("[ClipPreviews] Could not decode audio from", media.name, error)
+      return null
+    })
+  waveforms.set(key, waveform)
+  return waveform
+}
+
+/**
+ * Which filmstrip frame shows a source time
+ * @param sourceSeconds - Time in the media, in seconds
+ */
+export function getFilmstripFrame(filmstrip: Filmstrip, sourceSeconds: number): number {
+  if (!Number.isFinite(filmstrip.interval)) return 0
+  return Math.max(0, Math.min(filmstrip.frameCount - 1, Math.floor(sourceSeconds / filmstrip.interval)))
+}
+
+/**
+ * Loudest peak between two source times
+ * @param from - Start, in seconds of media
+ * @param to - End, in seconds of media; may be before from for reversed clips
+ */
+export function getPeakBetween(waveform: WaveformPeaks, from: number, to: number): number {
+  const { peaks, peaksPerSecond } = waveform
+  let start = Math.floor(Math.min(from, to) * peaksPerSecond)
+  const end = Math.min(peaks.length, Math.max(start + 1, Math.ceil(Math.max(from, to) * peaksPerSecond)))
+  start = Math.max(0, start)
+  let peak = 0
+  for (let i = start; i < end; i++) {
+    if (peaks[i] > peak) peak = peaks[i]
+  }
+  return peak
+}
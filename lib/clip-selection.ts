@@ -0,0 +1,96 @@
+import { createLinkId } from "./linked-clips"
+
+/**
+ * Multi-clip selection and clip groups
+ * Clips that share a groupId are selected, moved, copied and deleted together. The
+ * selection always holds whole groups, so anything that acts on the selection also
+ * acts on every clip grouped with a selected one. Linked video and audio clips (see
+ * lib/linked-clips) are kept together the same way unless links are left out.
+ */
+
+interface SelectableClip {
+  id: string
+  trackId: string
+  startTime: number
+  duration: number
+  groupId?: string
+  linkId?: string
+}
+
+export function createGroupId(): string {
+  return `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Clip IDs with every clip grouped or linked with one of them added, in timeline order
+ * @param options.links - Whether to add linked clips (default true); false for Alt-dragging one side of a pair
+ */
+export function expandClipGroups<T extends SelectableClip>(clips: T[], ids: string[], options: { links?: boolean } = {}): string[] {
+  const picked = clips.filter((c) => ids.includes(c.id))
+  const groups = new Set(picked.filter((c) => c.groupId).map((c) => c.groupId))
+  const links = options.links === false ? new Set() : new Set(picked.filter((c) => c.linkId).map((c) => c.linkId))
+  return clips
+    .filter((c) => ids.includes(c.id) || (c.groupId && groups.has(c.groupId)) || (c.linkId && links.has(c.linkId)))
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((c) => c.id)
+}
+
+// Clips on one track
+export function getTrackClipIds<T extends SelectableClip>(clips: T[], trackId: string): string[] {
+  return expandClipGroups(clips, clips.filter((c) => c.trackId === trackId).map((c) => c.id))
+}
+
+/**
+ * Clips that start at or after a time, on one track or all of them
+ * @param time - Timeline time in ticks
+ */
+export function getClipIdsFrom<T extends SelectableClip>(clips: T[], time: number, trackId?: string): string[] {
+  return expandClipGroups(clips, clips.filter((c) => c.startTime >= time && (!trackId || c.trackId === trackId)).map((c) => c.id))
+}
+
+/**
+ * Clips overlapping a time range on a set of tracks, for marquee selection
+ * @param start - Range start in ticks
+ * @param end - Range end in ticks
+ */
+export function getClipIdsInRange<T extends SelectableClip>(clips: T[], start: number, end: number, trackIds: string[]): string[] {
+  return expandClipGroups(
+    clips,
+    clips.filter((c) => trackIds.includes(c.trackId) && c.startTime < end && c.startTime + c.duration > start).map((c) => c.id)
+  )
+}
+
+/**
+ * How far a set of clips can move, keeping the earliest one from going before the timeline start
+ * @param delta - Requested move in ticks
+ */
+export function clampSelectionMove<T extends SelectableClip>(clips: T[], ids: string[], delta: number): number {
+  const starts = clips.filter((c) => ids.includes(c.id)).map((c) => c.startTime)
+  if (starts.length === 0) return 0
+  return Math.max(delta, -Math.min(...starts))
+}
+
+/**
+ * Copies of clips placed so the earliest starts at a time, keeping their tracks and spacing
+ * Each copied group or link becomes a new one so the copies don't join the originals
+ * @param time - Timeline time in ticks for the earliest copy
+ */
+export function getPastedClips<T extends SelectableClip>(copied: T[], time: number): T[] {
+  if (copied.length === 0) return []
+  const earliest = Math.min(...copied.map((c) => c.startTime))
+  const groups = new Map<string, string>()
+  const links = new Map<string, string>()
+  return copied.map((clip) => {
+    const groupId = clip.groupId ? groups.get(clip.groupId) ?? createGroupId() : undefined
+    if (clip.groupId && groupId) groups.set(clip.groupId, groupId)
+    const linkId = clip.linkId ? links.get(clip.linkId) ?? createLinkId() : undefined
+    if (clip.linkId && linkId) links.set(clip.linkId, linkId)
+    return {
+      ...clip,
+      id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startTime: time + (clip.startTime - earliest),
+      groupId,
+      linkId,
+    }
+  })
+}
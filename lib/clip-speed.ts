@@ -0,0 +1,195 @@
+import type { Keyframe } from "./projects"
+import { evaluateKeyframes } from "./keyframes"
+
+/**
+ * Clip speed, speed ramps, reverse playback and freeze frames
+ * A clip's speed is how many ticks of source media play per tick of timeline. Ramp keyframes
+ * are in source media ticks, unlike animation keyframes, so a ramp stays on the same footage
+ * when the clip is split or trimmed. mediaOffset is always the earliest source tick a clip
+ * uses: a reversed clip plays its source range from the end back down to mediaOffset, and a
+ * frozen clip shows the frame at mediaOffset for its whole duration.
+ */
+
+export const MIN_CLIP_SPEED = 0.1
+export const MAX_CLIP_SPEED = 16
+
+// Seconds a freeze frame lasts when none is given
+export const DEFAULT_FREEZE_DURATION = 2
+
+export interface ClipSpeedTiming {
+  startTime: number
+  duration: number
+  mediaOffset: number
+  speed?: number
+  speedRamp?: Keyframe[]
+  reverse?: boolean
+  freeze?: boolean
+}
+
+// Simpson intervals per span between ramp keyframes - the speed curve is smooth between them
+const RAMP_STEPS = 16
+
+export function clampClipSpeed(speed: number): number {
+  return Math.max(MIN_CLIP_SPEED, Math.min(MAX_CLIP_SPEED, speed))
+}
+
+/**
+ * Whether a clip plays its media at anything other than normal speed and direction
+ */
+export function isClipRetimed(clip: ClipSpeedTiming): boolean {
+  return !!clip.freeze || !!clip.reverse || (clip.speed ?? 1) !== 1 || (clip.speedRamp?.length ?? 0) > 0
+}
+
+/**
+ * Short description of a clip's timing, e.g. "2x", "Reverse 0.5x", "Ramp 1x-4x" or "Freeze"
+ */
+export function describeClipSpeed(clip: ClipSpeedTiming): string {
+  if (clip.freeze) return "Freeze"
+  const format = (speed: number) => `${Math.round(speed * 100) / 100}x`
+  const values = (clip.speedRamp ?? []).map((k) => k.value)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const speed = values.length === 0
+    ? format(clip.speed ?? 1)
+    : `Ramp ${min === max ? format(min) : `${format(min)}-${format(max)}`}`
+  return clip.reverse ? `Reverse ${speed}` : speed
+}
+
+/**
+ * Playback speed at a point in the source media
+ * @param time - Source media time in ticks
+ */
+export function getClipSpeedAt(clip: ClipSpeedTiming, time: number): number {
+  return clampClipSpeed(evaluateKeyframes(clip.speedRamp, time, clip.speed ?? 1))
+}
+
+/**
+ * Timeline ticks it takes to play the source from tick a to tick b
+ */
+function timelineTicksBetween(clip: ClipSpeedTiming, a: number, b: number): number {
+  if (b <= a) return 0
+  if (!clip.speedRamp || clip.speedRamp.length === 0) return (b - a) / clampClipSpeed(clip.speed ?? 1)
+
+  const points = [a, ...clip.speedRamp.map((k) => k.time).filter((t) => t > a && t < b), b]
+  let total = 0
+  for (let i = 0; i < points.length - 1; i++) {
+    const step = (points[i + 1] - points[i]) / RAMP_STEPS
+    let sum = 0
+    for (let j = 0; j <= RAMP_STEPS; j++) {
+      const weight = j === 0 || j === RAMP_STEPS ? 1 : j % 2 === 1 ? 4 : 2
+      sum += weight / getClipSpeedAt(clip, points[i] + j * step)
+    }
+    total += (sum * step) / 3
+  }
+  return total
+}
+
+/**
+ * Source tick reached after playing for a number of timeline ticks
+ * @param from - Source tick playback starts at
+ * @param elapsed - Timeline ticks played; negative plays backwards from `from`
+ */
+function advanceSource(clip: ClipSpeedTiming, from: number, elapsed: number): number {
+  if (elapsed === 0) return from
+  if (!clip.speedRamp || clip.speedRamp.length === 0) return from + elapsed * clampClipSpeed(clip.speed ?? 1)
+
+  // The speed limits bound how far the source can have moved, so bisect between them
+  const target = Math.abs(elapsed)
+  const direction = Math.sign(elapsed)
+  let lo = target * MIN_CLIP_SPEED
+  let hi = target * MAX_CLIP_SPEED
+  for (let i = 0; i < 40 && hi - lo > 0.01; i++) {
+    const mid = (lo + hi) / 2
+    const ticks = direction > 0 ? timelineTicksBetween(clip, from, from + mid) : timelineTicksBetween(clip, from - mid, from)
+    if (ticks < target) lo = mid
+    else hi = mid
+  }
+  return from + direction * ((lo + hi) / 2)
+}
+
+/**
+ * Source ticks a clip plays over its duration (0 for a freeze frame)
+ */
+export function getClipSourceSpan(clip: ClipSpeedTiming): number {
+  if (clip.freeze) return 0
+  return advanceSource(clip, clip.mediaOffset, clip.duration) - clip.mediaOffset
+}
+
+/**
+ * Source media time shown at a timeline time
+ * Times outside the clip carry on at the edge speed, for transitions that read past a clip
+ * @param time - Timeline time in ticks
+ * @returns Source media time in ticks (not rounded)
+ */
+export function getClipSourceTime(clip: ClipSpeedTiming, time: number): number {
+  if (clip.freeze) return clip.mediaOffset
+  const elapsed = time - clip.startTime
+  if (!clip.reverse) return advanceSource(clip, clip.mediaOffset, elapsed)
+  return advanceSource(clip, clip.mediaOffset + getClipSourceSpan(clip), -elapsed)
+}
+
+/**
+ * Timeline time a source media time is shown at - the inverse of getClipSourceTime
+ * @param sourceTime - Source media time in ticks
+ * @returns Timeline time in ticks, or null if the clip doesn't show that source time
+ */
+export function getClipTimelineTime(clip: ClipSpeedTiming, sourceTime: number): number | null {
+  const end = clip.mediaOffset + getClipSourceSpan(clip)
+  if (clip.freeze || sourceTime < clip.mediaOffset || sourceTime > end) return null
+  return clip.reverse
+    ? clip.startTime + timelineTicksBetween(clip, sourceTime, end)
+    : clip.startTime + timelineTicksBetween(clip, clip.mediaOffset, sourceTime)
+}
+
+/**
+ * Timeline duration for the same footage after a speed change
+ * @param clip - The clip as it is now
+ * @param retimed - The new speed settings
+ * @returns Duration in ticks that plays the clip's current source range at the new speed
+ */
+export function getRetimedDuration(clip: ClipSpeedTiming, retimed: Pick<ClipSpeedTiming, "speed" | "speedRamp">): number {
+  if (clip.freeze) return clip.duration
+  const span = getClipSourceSpan(clip)
+  const next = { ...clip, ...retimed }
+  return Math.max(1, Math.round(timelineTicksBetween(next, clip.mediaOffset, clip.mediaOffset + span)))
+}
+
+/**
+ * mediaOffset after trimming one edge of a clip to a new duration
+ * The left edge of a forward clip (or the right edge of a reversed one) is where its source
+ * range begins; moving the other edge only changes how much of the range is used.
+ */
+export function getTrimmedMediaOffset(clip: ClipSpeedTiming, edge: "left" | "right", newDuration: number): number {
+  if (clip.freeze) return clip.mediaOffset
+  if (edge === "left" && !clip.reverse) {
+    return Math.round(advanceSource(clip, clip.mediaOffset, clip.duration - newDuration))
+  }
+  if (edge === "right" && clip.reverse) {
+    return Math.round(advanceSource(clip, clip.mediaOffset + getClipSourceSpan(clip), -newDuration))
+  }
+  return clip.mediaOffset
+}
+
+/**
+ * Timeline ticks an edge can be dragged outward before the clip runs out of media
+ * @param mediaDuration - Source length in ticks (Infinity for stills and text)
+ */
+export function getTrimRoom(clip: ClipSpeedTiming, edge: "left" | "right", mediaDuration: number): number {
+  if (clip.freeze || !isFinite(mediaDuration)) return Infinity
+  const extendsSourceStart = (edge === "left") !== !!clip.reverse
+  if (extendsSourceStart) return timelineTicksBetween(clip, 0, clip.mediaOffset)
+  return timelineTicksBetween(clip, clip.mediaOffset + getClipSourceSpan(clip), mediaDuration)
+}
+
+/**
+ * mediaOffsets for the two parts of a split clip
+ * @param firstDuration - Length of the first part in ticks
+ * @returns [first part, second part]
+ */
+export function getSplitMediaOffsets(clip: ClipSpeedTiming, firstDuration: number): [number, number] {
+  if (clip.freeze) return [clip.mediaOffset, clip.mediaOffset]
+  if (!clip.reverse) return [clip.mediaOffset, Math.round(advanceSource(clip, clip.mediaOffset, firstDuration))]
+  // A reversed clip's first part plays the end of its source range
+  const end = clip.mediaOffset + getClipSourceSpan(clip)
+  return [Math.round(advanceSource(clip, end, -firstDuration)), clip.mediaOffset]
+}
@@ -0,0 +1,232 @@
+import { secondsToTicks } from "./timecode"
+import { getMediaKind } from "./media-import"
+import { getClipSourceSpan, getTrimRoom, getTrimmedMediaOffset, type ClipSpeedTiming } from "./clip-speed"
+import { shiftKeyframes } from "./keyframes"
+import type { ClipKeyframes } from "./projects"
+
+/**
+ * Ripple, roll, slip and slide edits
+ * Each edit works out new timing for every clip it touches on one track, so the timeline can
+ * preview an edit while it's dragged and the editor can commit it as a single undo step.
+ * Edits clamp their delta to what the clips and their media allow and report the delta
+ * they actually applied. All times are in ticks (see lib/timecode).
+ */
+
+export type EditMode = "select" | "ripple" | "roll" | "slip" | "slide"
+
+export const EDIT_MODES: { id: EditMode; label: string; shortcut: string; description: string }[] = [
+  { id: "select", label: "Select", shortcut: "V", description: "Move and trim single clips" },
+  { id: "ripple", label: "Ripple", shortcut: "B", description: "Trims push or pull the rest of the track" },
+  { id: "roll", label: "Roll", shortcut: "N", description: "Trims move the cut between two clips" },
+  { id: "slip", label: "Slip", shortcut: "Y", description: "Dragging a clip changes its footage, not its position" },
+  { id: "slide", label: "Slide", shortcut: "U", description: "Dragging a clip trims its neighbours to make room" },
+]
+
+// Shortest clip an edit can leave behind
+export const MIN_CLIP_TICKS = secondsToTicks(0.1)
+
+export interface EditableClip extends ClipSpeedTiming {
+  id: string
+  trackId: string
+  keyframes?: ClipKeyframes // Shifted along when an edit trims the clip's start
+}
+
+export interface ClipTimingUpdate {
+  id: string
+  startTime: number
+  duration: number
+  mediaOffset: number
+  // Ticks cut from the clip's start (negative when it's extended); its keyframes move back by as much
+  headTrim?: number
+}
+
+export type EditResult = { data: { updates: ClipTimingUpdate[]; delta: number } | null; error: string | null }
+
+// Source length in ticks for clamping edits - stills and text can be any length
+export function getMediaDurationTicks(media: { type: string; name: string; durationSeconds: number } | undefined): number {
+  if (!media || getMediaKind(media) === "image") return Infinity
+  return secondsToTicks(media.durationSeconds)
+}
+
+/**
+ * Clips with new timing merged in, in the order the updates were made
+ */
+export function applyClipTimingUpdates<T extends EditableClip>(clips: T[], updates: ClipTimingUpdate[]): T[] {
+  if (updates.length === 0) return clips
+  const byId = new Map<string, ClipTimingUpdate>()
+  for (const update of updates) byId.set(update.id, update)
+  return clips.map((clip) => {
+    const update = byId.get(clip.id)
+    return update
+      ? {
+        ...clip,
+        startTime: update.startTime,
+        duration: update.duration,
+        mediaOffset: update.mediaOffset,
+        keyframes: shiftKeyframes(clip.keyframes, -(update.headTrim ?? 0)),
+      }
+      : clip
+  })
+}
+
+function timingOf(clip: EditableClip): ClipTimingUpdate {
+  return { id: clip.id, startTime: clip.startTime, duration: clip.duration, mediaOffset: clip.mediaOffset }
+}
+
+// Timing after moving one edge of a clip by delta ticks (positive = later)
+function trimEdge(clip: EditableClip, edge: "left" | "right", delta: number): ClipTimingUpdate {
+  if (edge === "left") {
+    const duration = clip.duration - delta
+    return {
+      id: clip.id,
+      startTime: clip.startTime + delta,
+      duration,
+      mediaOffset: getTrimmedMediaOffset(clip, "left", duration),
+      headTrim: delta,
+    }
+  }
+  const duration = clip.duration + delta
+  return { id: clip.id, startTime: clip.startTime, duration, mediaOffset: getTrimmedMediaOffset(clip, "right", duration) }
+}
+
+// Clips on the same track that start at or after a time
+function clipsFrom<T extends EditableClip>(clips: T[], clip: T, time: number): T[] {
+  return clips.filter((c) => c.trackId === clip.trackId && c.id !== clip.id && c.startTime >= time)
+}
+
+function shift(clips: EditableClip[], delta: number): ClipTimingUpdate[] {
+  return clips.map((c) => ({ ...timingOf(c), startTime: c.startTime + delta }))
+}
+
+// The clips that end where this one starts and start where it ends
+function getNeighbours<T extends EditableClip>(clips: T[], clip: T): { previous?: T; next?: T } {
+  const sameTrack = clips.filter((c) => c.trackId === clip.trackId && c.id !== clip.id)
+  return {
+    previous: sameTrack.find((c) => c.startTime + c.duration === clip.startTime),
+    next: sameTrack.find((c) => c.startTime === clip.startTime + clip.duration),
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+/**
+ * Remove a clip and close the gap it leaves on its track
+ * @returns Updates for the later clips on the track (the caller removes the clip itself)
+ */
+export function getRippleDeleteUpdates<T extends EditableClip>(clips: T[], clipId: string): EditResult {
+  const clip = clips.find((c) => c.id === clipId)
+  if (!clip) return { data: null, error: "Clip not found" }
+  const later = clipsFrom(clips, clip, clip.startTime + clip.duration)
+  return { data: { updates: shift(later, -clip.duration), delta: -clip.duration }, error: null }
+}
+
+/**
+ * Trim one edge of a clip and move the rest of the track with it
+ * The clip keeps its start time; the clips after it move by however much it grew or shrank.
+ * @param delta - How far the edge is dragged (positive = later)
+ */
+export function rippleTrim<T extends EditableClip>(
+  clips: T[],
+  clipId: string,
+  edge: "left" | "right",
+  delta: number,
+  mediaDuration: (clip: T) => number
+): EditResult {
+  const clip = clips.find((c) => c.id === clipId)
+  if (!clip) return { data: null, error: "Clip not found" }
+  const room = Math.floor(getTrimRoom(clip, edge, mediaDuration(clip)))
+  const later = clipsFrom(clips, clip, clip.startTime + clip.duration)
+
+  if (edge === "left") {
+    const applied = clamp(delta, -room, clip.duration - MIN_CLIP_TICKS)
+    const trimmed = trimEdge(clip, "left", applied)
+    return { data: { updates: [{ ...trimmed, startTime: clip.startTime }, ...shift(later, -applied)], delta: applied }, error: null }
+  }
+  const applied = clamp(delta, MIN_CLIP_TICKS - clip.duration, room)
+  return { data: { updates: [trimEdge(clip, "right", applied), ...shift(later, applied)], delta: applied }, error: null }
+}
+
+/**
+ * Move the cut at one edge of a clip, trimming the clips either side of it together
+ * Nothing else on the track moves.
+ * @param delta - How far the cut moves (positive = later)
+ */
+export function rollEdit<T extends EditableClip>(
+  clips: T[],
+  clipId: string,
+  edge: "left" | "right",
+  delta: number,
+  mediaDuration: (clip: T) => number
+): EditResult {
+  const clip = clips.find((c) => c.id === clipId)
+  if (!clip) return { data: null, error: "Clip not found" }
+  const { previous, next } = getNeighbours(clips, clip)
+  const outgoing = edge === "left" ? previous : clip
+  const incoming = edge === "left" ? clip : next
+  if (!outgoing || !incoming) return { data: null, error: "Roll edits need a clip on both sides of the cut" }
+
+  const applied = clamp(
+    delta,
+    Math.max(MIN_CLIP_TICKS - outgoing.duration, -Math.floor(getTrimRoom(incoming, "left", mediaDuration(incoming)))),
+    Math.min(incoming.duration - MIN_CLIP_TICKS, Math.floor(getTrimRoom(outgoing, "right", mediaDuration(outgoing))))
+  )
+  return { data: { updates: [trimEdge(outgoing, "right", applied), trimEdge(incoming, "left", applied)], delta: applied }, error: null }
+}
+
+/**
+ * Change which footage a clip shows without moving or resizing it
+ * @param delta - Source ticks to move the footage by (positive = later footage)
+ */
+export function slipClip<T extends EditableClip>(
+  clips: T[],
+  clipId: string,
+  delta: number,
+  mediaDuration: (clip: T) => number
+): EditResult {
+  const clip = clips.find((c) => c.id === clipId)
+  if (!clip) return { data: null, error: "Clip not found" }
+  const length = mediaDuration(clip)
+  if (!isFinite(length)) return { data: null, error: "Only video and audio clips can be slipped" }
+
+  const span = getClipSourceSpan(clip)
+  const applied = Math.round(clamp(delta, -clip.mediaOffset, Math.max(0, length - clip.mediaOffset - Math.max(span, 1))))
+  return { data: { updates: [{ ...timingOf(clip), mediaOffset: clip.mediaOffset + applied }], delta: applied }, error: null }
+}
+
+/**
+ * Move a clip along its track, trimming the clips it touches so no gap or overlap opens up
+ * The clip keeps its footage; a neighbour that doesn't touch it only limits how far it can go.
+ * @param delta - How far the clip moves (positive = later)
+ */
+export function slideClip<T extends EditableClip>(
+  clips: T[],
+  clipId: string,
+  delta: number,
+  mediaDuration: (clip: T) => number
+): EditResult {
+  const clip = clips.find((c) => c.id === clipId)
+  if (!clip) return { data: null, error: "Clip not found" }
+  const { previous, next } = getNeighbours(clips, clip)
+  const sameTrack = clips.filter((c) => c.trackId === clip.trackId && c.id !== clip.id)
+  const clipEnd = clip.startTime + clip.duration
+
+  // Without a touching neighbour the clip can slide into the gap up to the next clip over
+  const earlierEnd = Math.max(0, ...sameTrack.filter((c) => c.startTime < clip.startTime).map((c) => c.startTime + c.duration))
+  const laterStart = Math.min(Infinity, ...sameTrack.filter((c) => c.startTime >= clipEnd).map((c) => c.startTime))
+  const min = Math.max(
+    previous ? MIN_CLIP_TICKS - previous.duration : earlierEnd - clip.startTime,
+    next ? -Math.floor(getTrimRoom(next, "left", mediaDuration(next))) : -Infinity
+  )
+  const max = Math.min(
+    previous ? Math.floor(getTrimRoom(previous, "right", mediaDuration(previous))) : Infinity,
+    next ? next.duration - MIN_CLIP_TICKS : laterStart - clipEnd
+  )
+  const applied = clamp(delta, Math.min(0, min), Math.max(0, max))
+
+  const updates: ClipTimingUpdate[] = [{ ...timingOf(clip), startTime: clip.startTime + applied }]
+  if (previous) updates.push(trimEdge(previous, "right", applied))
+  if (next) updates.push(trimEdge(next, "left", applied))
+  return { data: { updates, delta: applied }, error: null }
+}
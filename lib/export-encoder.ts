@@ -0,0 +1,400 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer"
+import { Muxer as MP4Muxer, ArrayBufferTarget as MP4Target } from "mp4-muxer"
+import type { TimelineClip, MediaFile } from "@/components/editor-context"
+import { clipHasAudio, decodeMediaAudio, scheduleClipAudio } from "./audio-mixer"
+
+/**
+ * WebCodecs-based export encoder
+ * Encodes canvas frames and a pre-mixed audio buffer without real-time playback,
+ * so export speed depends on the machine rather than the timeline duration
+ */
+
+export type ExportFormat = "webm" | "mp4" | "mp4-intra"
+
+export const EXPORT_AUDIO_SAMPLE_RATE = 48000
+export const EXPORT_AUDIO_CHANNELS = 2
+
+// Keep the encoder queue short so frames are not held in memory faster than they encode
+const MAX_ENCODE_QUEUE = 8
+// Audio is fed to the encoder in 100ms chunks
+const AUDIO_CHUNK_FRAMES = EXPORT_AUDIO_SAMPLE_RATE / 10
+// Above this length MP4 output is fragmented instead of holding every chunk back for a faststart moov
+export const FRAGMENTED_MP4_THRESHOLD_SECONDS = 10 * 60
+
+type VideoCodecCandidate = { encoderCodec: string; muxerCodec: string }
+type AudioCodecCandidate = { encoderCodec: string; muxerCodec: string }
+
+interface FormatSettings {
+  mimeType: string
+  extension: string
+  videoCodecs: VideoCodecCandidate[]
+  audioCodecs: AudioCodecCandidate[]
+  // Encode every frame as a keyframe (edit-friendly, larger files)
+  intraOnly: boolean
+}
+
+// H.264 High, Main and Baseline at level 4.2 (enough for 1080p60)
+const AVC_CODECS: VideoCodecCandidate[] = [
+  { encoderCodec: "avc1.64002a", muxerCodec: "avc" },
+  { encoderCodec: "avc1.4d002a", muxerCodec: "avc" },
+  { encoderCodec: "avc1.42002a", muxerCodec: "avc" },
+]
+
+const FORMAT_SETTINGS: Record<ExportFormat, FormatSettings> = {
+  webm: {
+    mimeType: "video/webm",
+    extension: "webm",
+    videoCodecs: [
+      { encoderCodec: "vp09.00.40.08", muxerCodec: "V_VP9" },
+      { encoderCodec: "vp8", muxerCodec: "V_VP8" },
+    ],
+    audioCodecs: [{ encoderCodec: "opus", muxerCodec: "A_OPUS" }],
+    intraOnly: false,
+  },
+  mp4: {
+    mimeType: "video/mp4",
+    extension: "mp4",
+    videoCodecs: AVC_CODECS,
+    audioCodecs: [
+      { encoderCodec: "mp4a.40.2", muxerCodec: "aac" },
+      { encoderCodec: "opus", muxerCodec: "opus" },
+    ],
+    intraOnly: false,
+  },
+  // WebCodecs does not expose ProRes, so the edit-friendly option is intra-frame H.264 in a plain MP4
+  "mp4-intra": {
+    mimeType: "video/mp4",
+    extension: "mp4",
+    videoCodecs: AVC_CODECS,
+    audioCodecs: [{ encoderCodec: "mp4a.40.2", muxerCodec: "aac" }],
+    intraOnly: true,
+  },
+}
+
+export interface ExportEncoderOptions {
+  format: ExportFormat
+  width: number
+  height: number
+  frameRate: number
+  bitrate: number
+  includeAudio: boolean
+  // Used to pick between a faststart and a fragmented MP4 layout
+  durationSeconds: number
+}
+
+export interface ExportEncoder {
+  encodeFrame: (source: CanvasImageSource, frameIndex: number) => Promise<void>
+  encodeAudio: (buffer: AudioBuffer) => Promise<void>
+  finalize: () => Promise<Blob>
+  close: () => void
+  extension: string
+  // Whether the file gets an audio track - false if the browser can't encode this format's audio
+  hasAudio: boolean
+}
+
+// Common surface of the WebM and MP4 muxers
+interface ContainerMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void
+  finalize: () => ArrayBuffer
+}
+
+/**
+ * Whether an export is written as a fragmented MP4
+ * Fragmented files need far less memory to write, but some players show no duration for them
+ * and can't seek, so the export modal says so before it starts.
+ */
+export function isFragmentedExport(format: ExportFormat, durationSeconds: number): boolean {
+  return format !== "webm" && durationSeconds > FRAGMENTED_MP4_THRESHOLD_SECONDS
+}
+
+/**
+ * Check whether the browser can run the WebCodecs export pipeline
+ */
+export function supportsWebCodecsExport(): boolean {
+  return typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined"
+}
+
+// Pick the first video codec the browser can encode at this size
+async function pickVideoCodec(
+  candidates: VideoCodecCandidate[],
+  options: Pick<ExportEncoderOptions, "width" | "height" | "frameRate" | "bitrate">
+): Promise<VideoCodecCandidate | null> {
+  for (const candidate of candidates) {
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported({
+        codec: candidate.encoderCodec,
+        width: options.width,
+        height: options.height,
+        bitrate: options.bitrate,
+        framerate: options.frameRate,
+      })
+      if (supported) return candidate
+    } catch {
+      // Malformed or unknown codec strings throw instead of reporting unsupported
+    }
+  }
+  return null
+}
+
+/**
+ * Check whether the browser can encode video for an export format at the given size
+ */
+export async function supportsExportFormat(
+  format: ExportFormat,
+  options: Pick<ExportEncoderOptions, "width" | "height" | "frameRate" | "bitrate">
+): Promise<boolean> {
+  if (!supportsWebCodecsExport()) return false
+  return (await pickVideoCodec(FORMAT_SETTINGS[format].videoCodecs, options)) !== null
+}
+
+async function pickAudioCodec(candidates: AudioCodecCandidate[]): Promise<AudioCodecCandidate | null> {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") return null
+  for (const candidate of candidates) {
+    try {
+      const { supported } = await AudioEncoder.isConfigSupported({
+        codec: candidate.encoderCodec,
+        sampleRate: EXPORT_AUDIO_SAMPLE_RATE,
+        numberOfChannels: EXPORT_AUDIO_CHANNELS,
+        bitrate: 128_000,
+      })
+      if (supported) return candidate
+    } catch {
+      // Unknown codec string
+    }
+  }
+  return null
+}
+
+function createContainerMuxer(
+  format: ExportFormat,
+  video: VideoCodecCandidate,
+  audio: AudioCodecCandidate | null,
+  options: ExportEncoderOptions
+): ContainerMuxer {
+  if (format === "webm") {
+    const muxer = new WebMMuxer({
+      target: new WebMTarget(),
+      video: {
+        codec: video.muxerCodec,
+        width: options.width,
+        height: options.height,
+        frameRate: options.frameRate,
+      },
+      audio: audio
+        ? { codec: audio.muxerCodec, sampleRate: EXPORT_AUDIO_SAMPLE_RATE, numberOfChannels: EXPORT_AUDIO_CHANNELS }
+        : undefined,
+      firstTimestampBehavior: "offset",
+    })
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize()
+        return muxer.target.buffer
+      },
+    }
+  }
+
+  // Short exports get a faststart file (moov before mdat) so players can start immediately.
+  // Long ones are fragmented: each fragment is written into the output buffer and its chunks
+  // released, rather than every chunk being kept until finalize copies them in after the moov.
+  // The whole file is still assembled in memory before it's downloaded.
+  const fastStart = isFragmentedExport(format, options.durationSeconds) ? "fragmented" : "in-memory"
+  const muxer = new MP4Muxer({
+    target: new MP4Target(),
+    video: {
+      codec: video.muxerCodec as "avc",
+      width: options.width,
+      height: options.height,
+      frameRate: options.frameRate,
+    },
+    audio: audio
+      ? { codec: audio.muxerCodec as "aac" | "opus", sampleRate: EXPORT_AUDIO_SAMPLE_RATE, numberOfChannels: EXPORT_AUDIO_CHANNELS }
+      : undefined,
+    fastStart,
+    firstTimestampBehavior: "offset",
+  })
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize()
+      return muxer.target.buffer
+    },
+  }
+}
+
+// Wait for the encoder to drain below the queue limit
+function waitForQueue(encoder: VideoEncoder | AudioEncoder): Promise<void> {
+  if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) return Promise.resolve()
+  return new Promise(resolve => {
+    const onDequeue = () => {
+      if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) {
+        encoder.removeEventListener("dequeue", onDequeue)
+        resolve()
+      }
+    }
+    encoder.addEventListener("dequeue", onDequeue)
+  })
+}
+
+/**
+ * Create an encoder for the chosen container that accepts frames by index at a fixed frame rate
+ * @param options - Output format, size, frame rate, bitrate and whether to encode audio
+ * @returns Encoder handle - call finalize() once every frame and the audio have been submitted
+ */
+export async function createExportEncoder(options: ExportEncoderOptions): Promise<ExportEncoder> {
+  const settings = FORMAT_SETTINGS[options.format]
+  const videoCodec = await pickVideoCodec(settings.videoCodecs, options)
+  if (!videoCodec) {
+    throw new Error(`This browser cannot encode ${options.format.toUpperCase()} video`)
+  }
+
+  const audioCodec = options.includeAudio ? await pickAudioCodec(settings.audioCodecs) : null
+  if (options.includeAudio && !audioCodec) {
+    console.warn(`[Export] No ${options.format} audio encoder available, exporting without audio`)
+  }
+
+  const muxer = createContainerMuxer(options.format, videoCodec, audioCodec, options)
+
+  let encoderError: Error | null = null
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => {
+      console.error("[Export] Video encoder error:", e)
+      encoderError = e
+    },
+  })
+  videoEncoder.configure({
+    codec: videoCodec.encoderCodec,
+    width: options.width,
+    height: options.height,
+    bitrate: options.bitrate,
+    framerate: options.frameRate,
+    // MP4 needs length-prefixed NAL units with the decoder config in the chunk metadata
+    avc: videoCodec.muxerCodec === "avc" ? { format: "avc" } : undefined,
+  })
+
+  let audioEncoder: AudioEncoder | null = null
+  if (audioCodec) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (e) => {
+        console.error("[Export] Audio encoder error:", e)
+        encoderError = e
+      },
+    })
+    audioEncoder.configure({
+      codec: audioCodec.encoderCodec,
+      sampleRate: EXPORT_AUDIO_SAMPLE_RATE,
+      numberOfChannels: EXPORT_AUDIO_CHANNELS,
+      bitrate: 128_000,
+    })
+  }
+
+  // Timestamps are in microseconds
+  const frameDuration = 1_000_000 / options.frameRate
+  // Force a keyframe every 2 seconds so the output stays seekable (every frame for intra-only formats)
+  const keyframeInterval = settings.intraOnly ? 1 : Math.max(1, Math.round(options.frameRate * 2))
+
+  const encodeFrame = async (source: CanvasImageSource, frameIndex: number) => {
+    if (encoderError) throw encoderError
+    await waitForQueue(videoEncoder)
+
+    const frame = new VideoFrame(source, {
+      timestamp: Math.round(frameIndex * frameDuration),
+      duration: Math.round(frameDuration),
+    })
+    try {
+      videoEncoder.encode(frame, { keyFrame: frameIndex % keyframeInterval === 0 })
+    } finally {
+      frame.close()
+    }
+  }
+
+  const encodeAudio = async (buffer: AudioBuffer) => {
+    if (!audioEncoder) return
+    if (encoderError) throw encoderError
+
+    const channels = Array.from({ length: EXPORT_AUDIO_CHANNELS }, (_, i) =>
+      buffer.getChannelData(Math.min(i, buffer.numberOfChannels - 1))
+    )
+
+    for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+      const frameCount = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset)
+      // f32-planar expects each channel's samples back to back
+      const planar = new Float32Array(frameCount * EXPORT_AUDIO_CHANNELS)
+      channels.forEach((data, i) => planar.set(data.subarray(offset, offset + frameCount), i * frameCount))
+
+      const audioData = new AudioData({
+        format: "f32-planar",
+        sampleRate: EXPORT_AUDIO_SAMPLE_RATE,
+        numberOfFrames: frameCount,
+        numberOfChannels: EXPORT_AUDIO_CHANNELS,
+        timestamp: Math.round((offset / EXPORT_AUDIO_SAMPLE_RATE) * 1_000_000),
+        data: planar,
+      })
+      await waitForQueue(audioEncoder)
+      try {
+        audioEncoder.encode(audioData)
+      } finally {
+        audioData.close()
+      }
+    }
+  }
+
+  const finalize = async () => {
+    await videoEncoder.flush()
+    if (audioEncoder) await audioEncoder.flush()
+    if (encoderError) throw encoderError
+    return new Blob([muxer.finalize()], { type: settings.mimeType })
+  }
+
+  const close = () => {
+    if (videoEncoder.state !== "closed") videoEncoder.close()
+    if (audioEncoder && audioEncoder.state !== "closed") audioEncoder.close()
+  }
+
+  return { encodeFrame, encodeAudio, finalize, close, extension: settings.extension, hasAudio: audioCodec !== null }
+}
+
+/**
+ * Mix the audio of every timeline clip into a single buffer using an OfflineAudioContext
+ * Uses the same per-clip gain, pan and fades as preview playback (see lib/audio-mixer)
+ * Media without an audio track (or that fails to decode) is skipped
+ * @param clips - Timeline clips to mix (muted clips are skipped)
+ * @param mediaFiles - Array of all media files in the project
+ * @param durationSeconds - Length of the exported timeline
+ * @returns Promise<AudioBuffer | null> - Mixed stereo buffer, or null if nothing had audio
+ */
+export async function renderTimelineAudio(
+  clips: TimelineClip[],
+  mediaFiles: MediaFile[],
+  durationSeconds: number
+): Promise<AudioBuffer | null> {
+  const length = Math.ceil(durationSeconds * EXPORT_AUDIO_SAMPLE_RATE)
+  if (length === 0) return null
+
+  const offline = new OfflineAudioContext(EXPORT_AUDIO_CHANNELS, length, EXPORT_AUDIO_SAMPLE_RATE)
+  const decoded = new Map<string, AudioBuffer | null>()
+  let hasAudio = false
+
+  for (const clip of clips.filter(clipHasAudio)) {
+    if (!decoded.has(clip.mediaId)) {
+      const media = mediaFiles.find(m => m.id === clip.mediaId)
+      decoded.set(clip.mediaId, media ? await decodeMediaAudio(offline, media) : null)
+    }
+
+    const buffer = decoded.get(clip.mediaId)
+    if (!buffer) continue
+
+    if (scheduleClipAudio(offline, offline.destination, clip, buffer, 0, 0)) {
+      hasAudio = true
+    }
+  }
+
+  if (!hasAudio) return null
+  return offline.startRendering()
+}
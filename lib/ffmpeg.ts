@@ -0,0 +1,55 @@
+import { execFile, spawn } from "child_process"
+import { createInterface } from "readline"
+
+/**
+ * Running ffmpeg and ffprobe on the server
+ * Used by the routes that render, transcode and probe media. Both need to be on the PATH.
+ */
+
+export interface FfmpegOptions {
+  tag: string // Log prefix, e.g. "Render"
+  // Called with the position written so far, in seconds - needs "-progress pipe:1" in the args
+  onProgress?: (seconds: number) => void
+}
+
+/**
+ * Run ffmpeg to completion
+ * Rejects with the exit code; the tail of ffmpeg's log is written to the console.
+ */
+export function runFfmpeg(args: string[], options: FfmpegOptions): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", args)
+    let stderr = ""
+
+    // -progress writes one key=value per line, and a line can be split across chunks
+    const progress = createInterface({ input: ffmpeg.stdout })
+    progress.on("line", (line) => {
+      const match = line.match(/^out_time_us=(\d+)$/)
+      if (match && options.onProgress) options.onProgress(parseInt(match[1]) / 1_000_000)
+    })
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      // Keep only the tail for error reporting
+      stderr = (stderr + data.toString()).slice(-4000)
+    })
+    ffmpeg.on("error", reject)
+    ffmpeg.on("close", (code) => {
+      progress.close()
+      if (code === 0) {
+        resolve()
+      } else {
+        console.error(`[${options.tag}] ffmpeg failed:`, stderr)
+        reject(new Error(`ffmpeg exited with code ${code}`))
+      }
+    })
+  })
+}
+
+/**
+ * Run ffprobe
+ * @returns What it printed, or null if it failed
+ */
+export function runFfprobe(args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile("ffprobe", args, (error, stdout) => resolve(error ? null : stdout))
+  })
+}
@@ -0,0 +1,201 @@
+/**
+ * Undo history
+ * Each edit is kept as a patch - what changed between the editor's state before and after it -
+ * rather than a copy of the whole timeline. Lists of things with ids (clips, tracks, media...)
+ * are compared item by item and field by field, and anything else is stored whole. Editor state
+ * is never mutated, so a patch can hold on to the objects it replaced instead of deep copies.
+ */
+
+export const MAX_HISTORY_ENTRIES = 500
+
+type Identified = { id: string }
+type Fields = Record<string, unknown>
+
+// One item's change: null where it isn't in the list, the whole item where it was added or
+// removed, and only the fields that changed otherwise
+interface ItemPatch {
+  id: string
+  before: Fields | null
+  after: Fields | null
+}
+
+interface ListPatch {
+  kind: "list"
+  items: ItemPatch[]
+  order?: { before: string[]; after: string[] } // Item ids, when they were added, removed or moved
+}
+
+interface ValuePatch {
+  kind: "value"
+  before: unknown
+  after: unknown
+}
+
+export type DocumentPatch<D> = { [K in keyof D]?: ListPatch | ValuePatch }
+
+export interface HistoryEntry<D> {
+  id: string
+  label: string // Shown in the history panel, e.g. "Split clip"
+  time: number // When it was made (ms since epoch)
+  patch: DocumentPatch<D>
+}
+
+// Fields of list items that change by themselves (uploads finishing, indexing) rather than by
+// editing, so undoing an edit never puts them back
+export type UntrackedFields<D> = { [K in keyof D]?: string[] }
+
+export function createHistoryEntry<D>(label: string, patch: DocumentPatch<D>): HistoryEntry<D> {
+  return {
+    id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    label,
+    time: Date.now(),
+    patch,
+  }
+}
+
+function isItemList(value: unknown): value is Identified[] {
+  return Array.isArray(value) && value.every((item) => typeof item?.id === "string")
+}
+
+function diffFields(before: Fields, after: Fields, untracked: string[]): Pick<ItemPatch, "before" | "after"> | null {
+  const changed = Object.keys({ ...before, ...after }).filter((key) => !untracked.includes(key) && before[key] !== after[key])
+  if (changed.length === 0) return null
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, before[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, after[key]])),
+  }
+}
+
+function diffList(before: Identified[], after: Identified[], untracked: string[]): ListPatch | null {
+  const beforeById = new Map(before.map((item) => [item.id, item]))
+  const afterById = new Map(after.map((item) => [item.id, item]))
+  const items: ItemPatch[] = []
+  for (const item of before) {
+    const next = afterById.get(item.id)
+    if (!next) {
+      items.push({ id: item.id, before: item as unknown as Fields, after: null })
+    } else if (next !== item) {
+      const fields = diffFields(item as unknown as Fields, next as unknown as Fields, untracked)
+      if (fields) items.push({ id: item.id, ...fields })
+    }
+  }
+  for (const item of after) {
+    if (!beforeById.has(item.id)) items.push({ id: item.id, before: null, after: item as unknown as Fields })
+  }
+
+  const beforeOrder = before.map((item) => item.id)
+  const afterOrder = after.map((item) => item.id)
+  const reordered = beforeOrder.length !== afterOrder.length || beforeOrder.some((id, i) => id !== afterOrder[i])
+  if (items.length === 0 && !reordered) return null
+  return { kind: "list", items, ...(reordered ? { order: { before: beforeOrder, after: afterOrder } } : {}) }
+}
+
+/**
+ * What changed between two versions of a document, or null when nothing did
+ */
+export function diffDocument<D extends object>(before: D, after: D, untracked: UntrackedFields<D> = {}): DocumentPatch<D> | null {
+  const patch: DocumentPatch<D> = {}
+  for (const key of Object.keys(after) as (keyof D)[]) {
+    const from = before[key]
+    const to = after[key]
+    if (from === to) continue
+    const change = isItemList(from) && isItemList(to) ? diffList(from, to, untracked[key] ?? []) : { kind: "value" as const, before: from, after: to }
+    if (change) patch[key] = change
+  }
+  return Object.keys(patch).length > 0 ? patch : null
+}
+
+function applyList(list: Identified[], patch: ListPatch, side: "before" | "after"): Identified[] {
+  const other = side === "before" ? "after" : "before"
+  const byId = new Map(list.map((item) => [item.id, item]))
+  for (const item of patch.items) {
+    const fields = item[side]
+    if (!fields) {
+      byId.delete(item.id)
+    } else if (!item[other]) {
+      byId.set(item.id, fields as unknown as Identified)
+    } else {
+      const current = byId.get(item.id)
+      if (current) byId.set(item.id, { ...current, ...fields })
+    }
+  }
+  // Anything added since that the patch doesn't know about stays, at the end
+  const order = patch.order?.[side] ?? list.map((item) => item.id)
+  const ordered = order.flatMap((id) => {
+    const item = byId.get(id)
+    byId.delete(id)
+    return item ? [item] : []
+  })
+  return [...ordered, ...byId.values()]
+}
+
+/**
+ * A document with a patch undone or redone
+ * Patches only touch what they changed, so edits recorded after this one - and untracked
+ * changes - survive undoing it as long as they changed different items or fields.
+ */
+export function applyPatch<D extends object>(document: D, patch: DocumentPatch<D>, direction: "undo" | "redo"): D {
+  const side = direction === "undo" ? "before" : "after"
+  const next = { ...document }
+  for (const key of Object.keys(patch) as (keyof D)[]) {
+    const change = patch[key]!
+    next[key] = (change.kind === "list" ? applyList(document[key] as Identified[], change, side) : change[side]) as D[keyof D]
+  }
+  return next
+}
+
+/**
+ * History with a new entry after the current one; anything that had been undone is dropped
+ * @param index - The last entry applied (-1 when everything is undone)
+ */
+export function addHistoryEntry<D>(entries: HistoryEntry<D>[], index: number, entry: HistoryEntry<D>): { entries: HistoryEntry<D>[]; index: number } {
+  const next = [...entries.slice(0, index + 1), entry].slice(-MAX_HISTORY_ENTRIES)
+  return { entries: next, index: next.length - 1 }
+}
+
+/**
+ * Bring the whole items stored in history up to date with untracked fields that have changed
+ * since, so redoing a media import brings the file back uploaded rather than mid-upload
+ */
+export function refreshUntrackedFields<D extends object>(entries: HistoryEntry<D>[], document: D, untracked: UntrackedFields<D>): HistoryEntry<D>[] {
+  const keys = (Object.keys(untracked) as (keyof D)[]).filter((key) => isItemList(document[key]))
+  if (keys.length === 0) return entries
+
+  return entries.map((entry) => {
+    let changed = false
+    const patch = { ...entry.patch }
+    for (const key of keys) {
+      const change: ListPatch | ValuePatch | undefined = patch[key]
+      if (change?.kind !== "list") continue
+      const current = new Map((document[key] as Identified[]).map((item) => [item.id, item as unknown as Fields]))
+      const fields = untracked[key]!
+      const items = change.items.map((item) => {
+        const latest = current.get(item.id)
+        const whole = item.before && item.after ? null : item.before ? "before" : "after"
+        if (!latest || !whole || fields.every((field) => item[whole]![field] === latest[field])) return item
+        changed = true
+        return { ...item, [whole]: { ...item[whole], ...Object.fromEntries(fields.map((field) => [field, latest[field]])) } }
+      })
+      patch[key] = { ...change, items }
+    }
+    return changed ? { ...entry, patch } : entry
+  })
+}
+
+/**
+ * A name for an edit that wasn't given one, from what it changed, e.g. "Add 2 clips" or "Edit track"
+ * @param nouns - Singular and plural names for each part of the document, in order of importance
+ */
+export function describePatch<D>(patch: DocumentPatch<D>, nouns: { [K in keyof D]: [string, string] }): string {
+  const key = (Object.keys(nouns) as (keyof D)[]).find((k) => patch[k])
+  if (key === undefined) return "Edit"
+  const change = patch[key]!
+  const [singular, plural] = nouns[key]
+  if (change.kind === "value") return `Change ${singular}`
+
+  const count = change.items.length
+  const verb = count === 0
+    ? "Reorder"
+    : change.items.every((item) => !item.before) ? "Add" : change.items.every((item) => !item.after) ? "Remove" : "Edit"
+  return count > 1 ? `${verb} ${count} ${plural}` : `${verb} ${count === 0 ? plural : singular}`
+}
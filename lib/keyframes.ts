@@ -0,0 +1,173 @@
+import type { AnimatableProperty, ClipEffects, ClipKeyframes, ClipTransform, Keyframe } from "./projects"
+
+/**
+ * Keyframe animation for clip transforms and effects
+ * Each animatable property can carry its own keyframe list. Keyframe times are ticks from the
+ * clip's start on the timeline, so an animation plays as it was keyed whatever the clip's
+ * speed, ramp or direction. Trimming a clip's start or splitting it shifts them to stay on the
+ * same frames. Properties without keyframes keep their static value.
+ */
+
+export const TRANSFORM_PROPERTIES = ["positionX", "positionY", "scale", "opacity"] as const satisfies readonly (keyof ClipTransform)[]
+export const EFFECT_PROPERTIES = ["blur", "brightness", "contrast", "saturate", "hueRotate"] as const satisfies readonly (keyof ClipEffects)[]
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = [...TRANSFORM_PROPERTIES, ...EFFECT_PROPERTIES]
+
+// CSS `ease`, and the curve new bezier keyframes start from
+export const EASE_CURVE: [number, number, number, number] = [0.25, 0.1, 0.25, 1]
+export const DEFAULT_BEZIER_CURVE: [number, number, number, number] = [0.42, 0, 0.58, 1]
+
+/**
+ * Evaluate a CSS-style cubic bezier timing curve
+ * @param x - Progress through the segment (0-1)
+ * @returns Eased progress
+ */
+function cubicBezier([x1, y1, x2, y2]: [number, number, number, number], x: number): number {
+  const bezierAt = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t
+
+  // x(t) is monotonic for control points in 0-1, so bisection always finds t
+  let lo = 0
+  let hi = 1
+  let t = x
+  for (let i = 0; i < 30; i++) {
+    const current = bezierAt(t, x1, x2)
+    if (Math.abs(current - x) < 1e-6) break
+    if (current < x) lo = t
+    else hi = t
+    t = (lo + hi) / 2
+  }
+  return bezierAt(t, y1, y2)
+}
+
+function ease(keyframe: Keyframe, progress: number): number {
+  switch (keyframe.interpolation) {
+    case "ease":
+      return cubicBezier(EASE_CURVE, progress)
+    case "bezier":
+      return cubicBezier(keyframe.bezier ?? DEFAULT_BEZIER_CURVE, progress)
+    default:
+      return progress
+  }
+}
+
+/**
+ * Value of a keyframed property at a time
+ * Holds the first value before the first keyframe and the last value after the last one
+ * @param keyframes - Keyframes for the property, sorted by time
+ * @param time - Ticks, on the same clock as the keyframes
+ * @param fallback - Value to use when there are no keyframes
+ */
+export function evaluateKeyframes(keyframes: Keyframe[] | undefined, time: number, fallback: number): number {
+  if (!keyframes || keyframes.length === 0) return fallback
+  if (time <= keyframes[0].time) return keyframes[0].value
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i]
+    const to = keyframes[i + 1]
+    if (time < to.time) {
+      const progress = (time - from.time) / (to.time - from.time)
+      return from.value + (to.value - from.value) * ease(from, progress)
+    }
+  }
+  return keyframes[keyframes.length - 1].value
+}
+
+/**
+ * Where a timeline time falls in a clip's animation
+ * @param time - Timeline time in ticks
+ * @returns Ticks since the clip's start - outside the clip for transitions that read past it
+ */
+export function getClipKeyframeTime(clip: { startTime: number }, time: number): number {
+  return time - clip.startTime
+}
+
+export function isPropertyAnimated(keyframes: ClipKeyframes | undefined, property: AnimatableProperty): boolean {
+  return (keyframes?.[property]?.length ?? 0) > 0
+}
+
+/**
+ * A clip's transform with its keyframes applied
+ * @param clip - Clip with static transform and keyframes
+ * @param time - Ticks since the clip's start (see getClipKeyframeTime)
+ */
+export function getAnimatedTransform(clip: { transform: ClipTransform; keyframes?: ClipKeyframes }, time: number): ClipTransform {
+  if (!clip.keyframes) return clip.transform
+  const transform = { ...clip.transform }
+  for (const property of TRANSFORM_PROPERTIES) {
+    transform[property] = evaluateKeyframes(clip.keyframes[property], time, transform[property])
+  }
+  return transform
+}
+
+/**
+ * A clip's effects with its keyframes applied
+ * @param clip - Clip with static effects and keyframes
+ * @param time - Ticks since the clip's start (see getClipKeyframeTime)
+ */
+export function getAnimatedEffects(clip: { effects: ClipEffects; keyframes?: ClipKeyframes }, time: number): ClipEffects {
+  if (!clip.keyframes) return clip.effects
+  const effects = { ...clip.effects }
+  for (const property of EFFECT_PROPERTIES) {
+    effects[property] = evaluateKeyframes(clip.keyframes[property], time, effects[property])
+  }
+  return effects
+}
+
+/**
+ * Keyframe for a property at exactly this time, if there is one
+ */
+export function findKeyframe(keyframes: ClipKeyframes | undefined, property: AnimatableProperty, time: number): Keyframe | undefined {
+  return keyframes?.[property]?.find((k) => k.time === time)
+}
+
+/**
+ * Add a keyframe, replacing any keyframe for the same property at the same time
+ * @returns New keyframes for the clip
+ */
+export function setKeyframe(keyframes: ClipKeyframes | undefined, property: AnimatableProperty, keyframe: Keyframe): ClipKeyframes {
+  const list = (keyframes?.[property] ?? []).filter((k) => k.time !== keyframe.time)
+  list.push(keyframe)
+  list.sort((a, b) => a.time - b.time)
+  return { ...keyframes, [property]: list }
+}
+
+/**
+ * Remove a property's keyframe at a time
+ * @returns New keyframes for the clip, or undefined once nothing is animated
+ */
+export function removeKeyframe(keyframes: ClipKeyframes | undefined, property: AnimatableProperty, time: number): ClipKeyframes | undefined {
+  const next: ClipKeyframes = { ...keyframes }
+  const list = (keyframes?.[property] ?? []).filter((k) => k.time !== time)
+  if (list.length > 0) {
+    next[property] = list
+  } else {
+    delete next[property]
+  }
+  return Object.keys(next).length > 0 ? next : undefined
+}
+
+/**
+ * Replace every keyframe of a property
+ * @returns New keyframes for the clip, or undefined once nothing is animated
+ */
+export function replaceKeyframes(keyframes: ClipKeyframes | undefined, property: AnimatableProperty, list: Keyframe[]): ClipKeyframes | undefined {
+  const next: ClipKeyframes = { ...keyframes }
+  if (list.length > 0) {
+    next[property] = [...list].sort((a, b) => a.time - b.time)
+  } else {
+    delete next[property]
+  }
+  return Object.keys(next).length > 0 ? next : undefined
+}
+
+/**
+ * Move every keyframe by a number of ticks
+ * Keyframes that end up before the clip's start are kept, so the value at the new start is
+ * still the one between them and the next.
+ */
+export function shiftKeyframes(keyframes: ClipKeyframes | undefined, by: number): ClipKeyframes | undefined {
+  if (!keyframes || by === 0) return keyframes
+  return Object.fromEntries(
+    Object.entries(keyframes).map(([property, list]) => [property, list.map((k) => ({ ...k, time: k.time + by }))])
+  ) as ClipKeyframes
+}
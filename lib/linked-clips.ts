@@ -0,0 +1,51 @@
+import { ticksPerFrame, ticksToFrames, ticksToSeconds } from "./timecode"
+import { getClipSourceTime, type ClipSpeedTiming } from "./clip-speed"
+
+/**
+ * Linked video and audio clips
+ * Detaching a video clip's audio puts the sound on an audio track as its own clip of the same
+ * media, linked to the video by a shared linkId. Linked clips are selected, moved, split and
+ * deleted together until they're unlinked, but each can be trimmed on its own - that's how
+ * J-cuts and L-cuts are made. Moving one without the other (Alt-drag, slip) puts the pair out
+ * of sync, which the timeline shows as an offset badge on both clips.
+ */
+
+interface LinkableClip extends ClipSpeedTiming {
+  id: string
+  trackId: string
+  linkId?: string
+}
+
+export function createLinkId(): string {
+  return `link-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * The other clips linked to a clip
+ */
+export function getLinkedClips<T extends LinkableClip>(clips: T[], clip: T): T[] {
+  if (!clip.linkId) return []
+  return clips.filter((c) => c.linkId === clip.linkId && c.id !== clip.id)
+}
+
+/**
+ * How far a linked clip's footage is from lining up with a clip's
+ * Compares the source time each shows at the start of the partner, so trimming either clip
+ * (which moves its start and its mediaOffset together) keeps the pair in sync.
+ * @returns Ticks the partner plays late (negative = early), rounded to whole ticks
+ */
+export function getSyncOffset(clip: ClipSpeedTiming, partner: ClipSpeedTiming): number {
+  const time = partner.startTime
+  return Math.round(getClipSourceTime(clip, time) - getClipSourceTime(partner, time))
+}
+
+/**
+ * Badge text for a sync offset, e.g. "+3f" or "-1.25s"
+ * @returns null when the pair is within half a frame of sync
+ */
+export function formatSyncOffset(ticks: number, frameRate: number): string | null {
+  if (Math.abs(ticks) < ticksPerFrame(frameRate) / 2) return null
+  const sign = ticks > 0 ? "+" : "-"
+  const seconds = ticksToSeconds(Math.abs(ticks))
+  return seconds < 1 ? `${sign}${ticksToFrames(Math.abs(ticks), frameRate)}f` : `${sign}${seconds.toFixed(2)}s`
+}
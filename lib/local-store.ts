@@ -0,0 +1,233 @@
+import type { ProjectData, TimelineData } from "@/lib/projects"
+
+/**
+ * Local project store
+ * An IndexedDB database in the browser that keeps editing working without a connection:
+ * - projects: local-only projects, and the last copy of each cloud project opened here
+ * - media: the original file for every media item imported on this device, so it plays and
+ *   can be uploaded later without the network
+ * - drafts: the newest timeline of each project that hasn't reached the cloud yet, written
+ *   as edits happen and cleared once a save goes through, so a closed tab or a dropped
+ *   connection doesn't lose them
+ * - uploads: the server upload session of each media item part-way through uploading, so a
+ *   reload carries on from where it stopped (see lib/resumable-uploads)
+ */
+
+const DB_NAME = "cutos"
+const DB_VERSION = 2
+
+// Project ids for projects that only exist in this browser
+export const LOCAL_PROJECT_PREFIX = "local-"
+
+// storagePath of media kept in this browser's store rather than uploaded (yet)
+export const LOCAL_MEDIA_PREFIX = "local:"
+
+// Playback URLs handed out by getLocalMediaUrls, by media id - each holds its blob in memory until revoked
+const mediaUrls = new Map<string, string>()
+
+export interface LocalMediaRecord {
+  id: string // Media id
+  projectId: string
+  name: string
+  type: string
+  blob: Blob
+}
+
+export interface PendingUpload {
+  mediaId: string
+  projectId: string
+  uploadId: string
+  size: number
+}
+
+export interface ProjectDraft {
+  projectId: string
+  timeline_data: TimelineData
+  duration: string
+  savedAt: string // ISO time, compared with the project's updated_at
+}
+
+type StoreName = "projects" | "media" | "drafts" | "uploads"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore("projects", { keyPath: "id" })
+          db.createObjectStore("media", { keyPath: "id" }).createIndex("projectId", "projectId")
+          db.createObjectStore("drafts", { keyPath: "projectId" })
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore("uploads", { keyPath: "mediaId" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again rather than keep a failed open
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Run one request against a store and wait for its transaction to finish
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<{ data: T | null; error: Error | null }> {
+  try {
+    const db = await openDatabase()
+    const data = await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(store, mode)
+      const request = action(transaction.objectStore(store))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+    return { data, error: null }
+  } catch (error) {
+    console.error("[LocalStore]", store, "request failed:", error)
+    return { data: null, error: error instanceof Error ? error : new Error(String(error)) }
+  }
+}
+
+export function isLocalProjectId(id: string): boolean {
+  return id.startsWith(LOCAL_PROJECT_PREFIX)
+}
+
+export function isLocalMediaPath(storagePath: string | undefined): boolean {
+  return !!storagePath?.startsWith(LOCAL_MEDIA_PREFIX)
+}
+
+export function createLocalProjectId(): string {
+  return `${LOCAL_PROJECT_PREFIX}${crypto.randomUUID()}`
+}
+
+// Projects
+
+export async function getLocalProjects(): Promise<{ data: ProjectData[] | null; error: Error | null }> {
+  const { data, error } = await run<ProjectData[]>("projects", "readonly", (store) => store.getAll())
+  if (error) return { data: null, error }
+  return { data: (data ?? []).sort((a, b) => b.updated_at.localeCompare(a.updated_at)), error: null }
+}
+
+export async function getLocalProject(id: string): Promise<{ data: ProjectData | null; error: Error | null }> {
+  const { data, error } = await run<ProjectData | undefined>("projects", "readonly", (store) => store.get(id))
+  return { data: data ?? null, error }
+}
+
+export async function putLocalProject(project: ProjectData): Promise<{ error: Error | null }> {
+  const { error } = await run("projects", "readwrite", (store) => store.put(project))
+  return { error }
+}
+
+// Delete a project with any unsynced draft, and the media it imported that no other project uses
+export async function deleteLocalProject(id: string): Promise<{ error: Error | null }> {
+  const { data: media } = await run<IDBValidKey[]>("media", "readonly", (store) => store.index("projectId").getAllKeys(id))
+  const { data: projects } = await getLocalProjects()
+  // Duplicated projects share their original's media
+  const inUse = new Set((projects ?? []).filter((p) => p.id !== id).flatMap((p) => p.timeline_data?.media.map((m) => m.id) ?? []))
+  for (const key of media ?? []) {
+    if (!inUse.has(String(key))) {
+      releaseLocalMediaUrls([String(key)])
+      await run("media", "readwrite", (store) => store.delete(key))
+      await run("uploads", "readwrite", (store) => store.delete(key))
+    }
+  }
+  await run("drafts", "readwrite", (store) => store.delete(id))
+  const { error } = await run("projects", "readwrite", (store) => store.delete(id))
+  return { error }
+}
+
+// Media
+
+export async function putLocalMedia(record: LocalMediaRecord): Promise<{ error: Error | null }> {
+  const { error } = await run("media", "readwrite", (store) => store.put(record))
+  return { error }
+}
+
+export async function getLocalMedia(id: string): Promise<{ data: LocalMediaRecord | null; error: Error | null }> {
+  const { data, error } = await run<LocalMediaRecord | undefined>("media", "readonly", (store) => store.get(id))
+  return { data: data ?? null, error }
+}
+
+/**
+ * Playback URLs for whichever of these media items are kept on this device, by media id
+ * Each item gets one URL however often it's asked for, until releaseLocalMediaUrls lets it go.
+ */
+export async function getLocalMediaUrls(mediaIds: string[]): Promise<{ data: Record<string, string> | null; error: Error | null }> {
+  const urls: Record<string, string> = {}
+  for (const id of mediaIds) {
+    const cached = mediaUrls.get(id)
+    if (cached) {
+      urls[id] = cached
+      continue
+    }
+    const { data, error } = await getLocalMedia(id)
+    if (error) return { data: null, error }
+    if (data) {
+      urls[id] = URL.createObjectURL(data.blob)
+      mediaUrls.set(id, urls[id])
+    }
+  }
+  return { data: urls, error: null }
+}
+
+/**
+ * Revoke playback URLs from getLocalMediaUrls, freeing their blobs
+ * @param mediaIds - The media items to release, or every one when left out
+ */
+export function releaseLocalMediaUrls(mediaIds?: string[]): void {
+  for (const id of mediaIds ?? [...mediaUrls.keys()]) {
+    const url = mediaUrls.get(id)
+    if (!url) continue
+    URL.revokeObjectURL(url)
+    mediaUrls.delete(id)
+  }
+}
+
+// Drafts
+
+export async function getProjectDraft(projectId: string): Promise<{ data: ProjectDraft | null; error: Error | null }> {
+  const { data, error } = await run<ProjectDraft | undefined>("drafts", "readonly", (store) => store.get(projectId))
+  return { data: data ?? null, error }
+}
+
+export async function putProjectDraft(draft: ProjectDraft): Promise<{ error: Error | null }> {
+  const { error } = await run("drafts", "readwrite", (store) => store.put(draft))
+  return { error }
+}
+
+/**
+ * Drop a project's draft once it has been saved
+ * @param savedAt - The draft that was saved; a newer one written meanwhile is kept
+ */
+export async function clearProjectDraft(projectId: string, savedAt?: string): Promise<{ error: Error | null }> {
+  if (savedAt) {
+    const { data: draft } = await getProjectDraft(projectId)
+    if (draft && draft.savedAt > savedAt) return { error: null }
+  }
+  const { error } = await run("drafts", "readwrite", (store) => store.delete(projectId))
+  return { error }
+}
+
+// Uploads
+
+export async function getPendingUpload(mediaId: string): Promise<{ data: PendingUpload | null; error: Error | null }> {
+  const { data, error } = await run<PendingUpload | undefined>("uploads", "readonly", (store) => store.get(mediaId))
+  return { data: data ?? null, error }
+}
+
+export async function putPendingUpload(upload: PendingUpload): Promise<{ error: Error | null }> {
+  const { error } = await run("uploads", "readwrite", (store) => store.put(upload))
+  return { error }
+}
+
+export async function clearPendingUpload(mediaId: string): Promise<{ error: Error | null }> {
+  const { error } = await run("uploads", "readwrite", (store) => store.delete(mediaId))
+  return { error }
+}
@@ -0,0 +1,87 @@
+import type { Marker, MarkerColor } from "./projects"
+import { getClipTimelineTime, type ClipSpeedTiming } from "./clip-speed"
+
+/**
+ * Timeline and clip markers
+ * Ruler markers sit at a timeline time. Clip markers are stored in source media time, so a
+ * marker stays on the same frame when its clip is moved, trimmed, split or retimed,
+ * and disappears from view while that frame is trimmed out.
+ */
+
+export const MARKER_COLORS: { id: MarkerColor; label: string; hex: string }[] = [
+  { id: "red", label: "Red", hex: "#ef4444" },
+  { id: "orange", label: "Orange", hex: "#f97316" },
+  { id: "yellow", label: "Yellow", hex: "#eab308" },
+  { id: "green", label: "Green", hex: "#22c55e" },
+  { id: "blue", label: "Blue", hex: "#3b82f6" },
+  { id: "purple", label: "Purple", hex: "#a855f7" },
+]
+
+export const DEFAULT_MARKER_COLOR: MarkerColor = "green"
+
+interface MarkedClip extends ClipSpeedTiming {
+  id: string
+  markers?: Marker[]
+}
+
+// A marker and where it shows on the timeline
+export interface MarkerPosition {
+  marker: Marker
+  time: number // Timeline ticks
+  clipId?: string // Set for clip markers
+}
+
+export function createMarkerId(): string {
+  return `marker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function getMarkerColor(color: MarkerColor): string {
+  return MARKER_COLORS.find((c) => c.id === color)?.hex ?? MARKER_COLORS[0].hex
+}
+
+/**
+ * Name for a new marker that doesn't clash with the existing ones, e.g. "Marker 3"
+ */
+export function getDefaultMarkerName(existing: Marker[]): string {
+  const names = new Set(existing.map((m) => m.name))
+  let n = existing.length + 1
+  while (names.has(`Marker ${n}`)) n++
+  return `Marker ${n}`
+}
+
+/**
+ * Timeline positions of a clip's markers, leaving out any on trimmed-off footage
+ */
+export function getClipMarkerPositions(clip: MarkedClip): MarkerPosition[] {
+  return (clip.markers ?? []).flatMap((marker) => {
+    const time = getClipTimelineTime(clip, marker.time)
+    return time === null ? [] : [{ marker, time: Math.round(time), clipId: clip.id }]
+  })
+}
+
+/**
+ * Every ruler and clip marker with its timeline position, in timeline order
+ */
+export function getMarkerPositions(markers: Marker[], clips: MarkedClip[]): MarkerPosition[] {
+  return [
+    ...markers.map((marker) => ({ marker, time: marker.time })),
+    ...clips.flatMap(getClipMarkerPositions),
+  ].sort((a, b) => a.time - b.time)
+}
+
+/**
+ * The first marker after a time, for jumping the playhead forward
+ * @param time - Timeline ticks
+ */
+export function getNextMarkerTime(positions: MarkerPosition[], time: number): number | null {
+  return positions.find((p) => p.time > time)?.time ?? null
+}
+
+/**
+ * The last marker before a time, for jumping the playhead back
+ * @param time - Timeline ticks
+ */
+export function getPreviousMarkerTime(positions: MarkerPosition[], time: number): number | null {
+  const earlier = positions.filter((p) => p.time < time)
+  return earlier.length > 0 ? earlier[earlier.length - 1].time : null
+}
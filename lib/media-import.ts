@@ -0,0 +1,152 @@
+/**
+ * Media pool import helpers
+ * The pool holds three kinds of media: video, audio-only files and still images.
+ * The kind is worked out from the MIME type, falling back to the file extension
+ * because browsers leave `File.type` empty for some formats (m4a, mkv, ...)
+ */
+
+export type MediaKind = "video" | "audio" | "image"
+
+// Seconds a still image lasts when placed on the timeline, until the user changes it
+export const DEFAULT_IMAGE_DURATION = 5
+
+const EXTENSION_TYPES: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+}
+
+/**
+ * MIME type for an imported file, guessed from the extension if the browser didn't provide one
+ * @returns The MIME type, or null if the file isn't a supported media format
+ */
+export function getMediaMimeType(file: { type: string; name: string }): string | null {
+  if (/^(video|audio|image)\//.test(file.type)) return file.type
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? ""
+  return EXTENSION_TYPES[ext] ?? null
+}
+
+// A media item's duration as shown in the pool, MM:SS
+export function formatMediaDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+/**
+ * Which kind of media a file or media pool entry is
+ * @returns The kind, or null if the format isn't supported
+ */
+export function getMediaKind(media: { type: string; name: string }): MediaKind | null {
+  const mimeType = getMediaMimeType(media)
+  if (!mimeType) return null
+  return mimeType.split("/")[0] as MediaKind
+}
+
+/**
+ * Read an audio file's duration and draw its waveform as a thumbnail
+ * @returns Duration in seconds and a data URL, or null if the audio couldn't be decoded
+ */
+export async function loadAudioMetadata(file: File): Promise<{ seconds: number; thumbnail: string | null } | null> {
+  // decodeAudioData needs a context but not a running one - an offline context avoids touching the audio device
+  const ctx = new OfflineAudioContext(1, 1, 44100)
+  let buffer: AudioBuffer
+  try {
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer())
+  } catch (e) {
+    console.error("[MediaImport] Could not decode audio:", file.name, e)
+    return null
+  }
+
+  const canvas = document.createElement("canvas")
+  canvas.width = 320
+  canvas.height = 180
+  const c = canvas.getContext("2d")
+  if (!c) return { seconds: buffer.duration, thumbnail: null }
+
+  c.fillStyle = "#0f172a"
+  c.fillRect(0, 0, canvas.width, canvas.height)
+
+  // One bar per column, sized by the loudest sample in that slice of the first channel
+  const samples = buffer.getChannelData(0)
+  const barWidth = 2
+  const bars = Math.floor(canvas.width / barWidth)
+  const samplesPerBar = Math.max(1, Math.floor(samples.length / bars))
+  const mid = canvas.height / 2
+  c.fillStyle = "#34d399"
+  for (let i = 0; i < bars; i++) {
+    let peak = 0
+    const start = i * samplesPerBar
+    for (let j = start; j < start + samplesPerBar && j < samples.length; j++) {
+      const v = Math.abs(samples[j])
+      if (v > peak) peak = v
+    }
+    const h = Math.max(1, peak * (canvas.height - 20))
+    c.fillRect(i * barWidth, mid - h / 2, barWidth - 0.5, h)
+  }
+
+  return { seconds: buffer.duration, thumbnail: canvas.toDataURL("image/jpeg", 0.7) }
+}
+
+/**
+ * Load a still image and scale it down for the media pool thumbnail
+ * @returns A data URL, or null if the image couldn't be loaded
+ */
+export function generateImageThumbnail(file: File): Promise<string | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    const url = URL.createObjectURL(file)
+
+    img.onload = () => {
+      // SVGs without intrinsic dimensions report 0x0 - fall back to a 16:9 box
+      const width = img.naturalWidth || 320
+      const height = img.naturalHeight || 180
+      const scale = Math.min(1, 320 / width)
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const ctx = canvas.getContext("2d")
+      if (ctx) {
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+        // PNG keeps transparency for logos and overlays
+        resolve(canvas.toDataURL("image/png"))
+      } else {
+        resolve(null)
+      }
+      URL.revokeObjectURL(url)
+    }
+
+    img.onerror = () => {
+      console.error("[MediaImport] Could not load image:", file.name)
+      resolve(null)
+      URL.revokeObjectURL(url)
+    }
+
+    img.src = url
+  })
+}
+
+/**
+ * Whether media can be placed on a track of the given type
+ * Video can go anywhere (an audio track uses just its sound), audio files only on
+ * audio tracks and images only on video tracks
+ */
+export function canPlaceMediaOnTrack(media: { type: string; name: string }, trackType: "video" | "audio"): boolean {
+  const kind = getMediaKind(media)
+  if (kind === "audio") return trackType === "audio"
+  if (kind === "image") return trackType === "video"
+  return true
+}
@@ -0,0 +1,190 @@
+/**
+ * Media probing
+ * Uploaded files are read with ffprobe by /api/probe, which records what the browser can't tell
+ * us (codec, rotation, audio layout, bitrate, when it was shot) and stores a thumbnail and a
+ * filmstrip sprite beside the original, so neither has to live in timeline_data as base64.
+ */
+
+export const THUMBNAIL_HEIGHT = 360
+export const FILMSTRIP_FRAME_HEIGHT = 90
+export const FILMSTRIP_MAX_FRAMES = 120
+export const FILMSTRIP_MIN_INTERVAL = 1 // Seconds between filmstrip frames, at most
+
+// Frame rates this far apart mean the source has a variable frame rate
+const VFR_TOLERANCE = 0.01
+
+export interface MediaMetadata {
+  duration: number | null // Seconds
+  videoCodec: string | null
+  width: number | null // As stored, before rotation
+  height: number | null
+  fps: number | null // Average frame rate
+  variableFrameRate: boolean
+  rotation: number // Clockwise degrees to turn the stored frame for display: 0, 90, 180 or 270
+  audioCodec: string | null
+  audioChannels: number | null
+  sampleRate: number | null // Hz
+  bitRate: number | null // Bits per second, of the whole file
+  createdAt: string | null // ISO timestamp the camera or recorder wrote, if any
+}
+
+// Frames of a video laid out left to right in one image, one every interval seconds
+export interface FilmstripSprite {
+  path: string
+  url: string
+  frameCount: number
+  frameWidth: number
+  frameHeight: number
+  interval: number
+}
+
+// ffprobe arguments that print what parseMediaProbe reads, as JSON
+export function buildMediaProbeArgs(inputPath: string): string[] {
+  return [
+    "-v", "error",
+    "-show_entries",
+    "stream=codec_type,codec_name,width,height,r_frame_rate,avg_frame_rate,channels,sample_rate:stream_tags=rotate:stream_side_data=rotation:format=duration,bit_rate:format_tags=creation_time",
+    "-of", "json",
+    inputPath,
+  ]
+}
+
+// "30000/1001" -> 29.97
+function parseRate(rate: string | undefined): number | null {
+  if (!rate) return null
+  const [num, den = "1"] = rate.split("/")
+  const value = Number(num) / Number(den)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+function parsePositive(value: string | number | undefined): number | null {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+interface ProbeStream {
+  codec_type?: string
+  codec_name?: string
+  width?: number
+  height?: number
+  r_frame_rate?: string
+  avg_frame_rate?: string
+  channels?: number
+  sample_rate?: string
+  tags?: { rotate?: string }
+  side_data_list?: { rotation?: number }[]
+}
+
+export function parseMediaProbe(output: string): MediaMetadata | null {
+  try {
+    const probe = JSON.parse(output) as {
+      streams?: ProbeStream[]
+      format?: { duration?: string; bit_rate?: string; tags?: { creation_time?: string } }
+    }
+    const streams = probe.streams ?? []
+    // Cover art shows up as a video stream of one frame with no frame rate
+    const video = streams.find((s) => s.codec_type === "video" && parseRate(s.avg_frame_rate) !== null)
+      ?? streams.find((s) => s.codec_type === "video")
+    const audio = streams.find((s) => s.codec_type === "audio")
+    if (!video && !audio) return null
+
+    const fps = parseRate(video?.avg_frame_rate)
+    const baseFps = parseRate(video?.r_frame_rate)
+    // Older ffmpeg reports rotation as a tag, newer as display matrix side data (counter-clockwise)
+    const sideRotation = video?.side_data_list?.find((d) => d.rotation !== undefined)?.rotation
+    const rawRotation = video?.tags?.rotate !== undefined ? Number(video.tags.rotate) : -(sideRotation ?? 0)
+    const rotation = Number.isFinite(rawRotation) ? ((Math.round(rawRotation / 90) * 90) % 360 + 360) % 360 : 0
+    const createdAt = probe.format?.tags?.creation_time ? new Date(probe.format.tags.creation_time) : null
+
+    return {
+      duration: parsePositive(probe.format?.duration),
+      videoCodec: video?.codec_name ?? null,
+      width: video?.width ?? null,
+      height: video?.height ?? null,
+      fps,
+      variableFrameRate: !!fps && !!baseFps && Math.abs(fps - baseFps) / baseFps > VFR_TOLERANCE,
+      rotation,
+      audioCodec: audio?.codec_name ?? null,
+      audioChannels: audio?.channels ?? null,
+      sampleRate: parsePositive(audio?.sample_rate),
+      bitRate: parsePositive(probe.format?.bit_rate),
+      createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt.toISOString() : null,
+    }
+  } catch {
+    return null
+  }
+}
+
+// Width and height the way the video is shown, with rotation applied
+export function getDisplaySize(metadata: MediaMetadata): { width: number; height: number } | null {
+  if (!metadata.width || !metadata.height) return null
+  return metadata.rotation % 180 === 0
+    ? { width: metadata.width, height: metadata.height }
+    : { width: metadata.height, height: metadata.width }
+}
+
+// Where a derived image for a media file is stored: a folder of that kind next to it
+export function getMediaAssetPath(storagePath: string, folder: "thumbnails" | "filmstrips"): string {
+  const slash = storagePath.lastIndexOf("/")
+  const name = storagePath.slice(slash + 1).replace(/\.[^.]+$/, "")
+  return `${storagePath.slice(0, slash + 1)}${folder}/${name}.jpg`
+}
+
+// ffmpeg arguments for a JPEG thumbnail at THUMBNAIL_HEIGHT, from a second in (or the middle of a short video)
+export function buildThumbnailArgs(inputPath: string, outputPath: string, duration: number | null): string[] {
+  const seekArgs = duration ? ["-ss", Math.min(1, duration / 2).toFixed(3)] : []
+  return [
+    "-y",
+    ...seekArgs,
+    "-i", inputPath,
+    "-frames:v", "1",
+    "-vf", `scale=-2:min(ih\\,${THUMBNAIL_HEIGHT})`,
+    "-q:v", "4",
+    outputPath,
+  ]
+}
+
+/**
+ * How a video's filmstrip is laid out: a frame every FILMSTRIP_MIN_INTERVAL seconds or more,
+ * up to FILMSTRIP_MAX_FRAMES, each FILMSTRIP_FRAME_HEIGHT tall
+ */
+export function getFilmstripLayout(metadata: MediaMetadata): Omit<FilmstripSprite, "path" | "url"> | null {
+  const size = getDisplaySize(metadata)
+  if (!size || !metadata.duration) return null
+  const frameCount = Math.max(1, Math.min(FILMSTRIP_MAX_FRAMES, Math.ceil(metadata.duration / FILMSTRIP_MIN_INTERVAL)))
+  const frameWidth = Math.max(2, Math.round((FILMSTRIP_FRAME_HEIGHT * size.width) / size.height / 2) * 2)
+  return { frameCount, frameWidth, frameHeight: FILMSTRIP_FRAME_HEIGHT, interval: metadata.duration / frameCount }
+}
+
+// ffmpeg arguments that tile a video's frames into one filmstrip image
+export function buildFilmstripArgs(
+  inputPath: string,
+  outputPath: string,
+  layout: Omit<FilmstripSprite, "path" | "url">
+): string[] {
+  return [
+    "-y",
+    "-i", inputPath,
+    "-an",
+    "-vf",
+    `fps=1/${layout.interval.toFixed(3)},scale=${layout.frameWidth}:${layout.frameHeight},tile=${layout.frameCount}x1`,
+    "-frames:v", "1",
+    "-q:v", "5",
+    outputPath,
+  ]
+}
+
+// Short description of a probed file for the media pool, e.g. "1920x1080 · h264 · 29.97 fps · stereo 48 kHz"
+export function describeMediaMetadata(metadata: MediaMetadata): string {
+  const parts: string[] = []
+  const size = getDisplaySize(metadata)
+  if (size) parts.push(`${size.width}x${size.height}`)
+  if (metadata.videoCodec) parts.push(metadata.videoCodec)
+  if (metadata.fps) parts.push(`${Math.round(metadata.fps * 100) / 100} fps${metadata.variableFrameRate ? " (variable)" : ""}`)
+  if (metadata.audioChannels) {
+    const layout = metadata.audioChannels === 1 ? "mono" : metadata.audioChannels === 2 ? "stereo" : `${metadata.audioChannels} ch`
+    parts.push(metadata.sampleRate ? `${layout} ${Math.round(metadata.sampleRate / 100) / 10} kHz` : layout)
+  }
+  if (metadata.bitRate) parts.push(`${Math.round(metadata.bitRate / 100_000) / 10} Mbps`)
+  return parts.join(" · ")
+}
@@ -1,7 +1,8 @@
 import type { TimelineClip, MediaFile } from "@/components/editor-context"
-import { PIXELS_PER_SECOND, DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS } from "@/components/editor-context"
+import { DEFAULT_CLIP_TRANSFORM, DEFAULT_CLIP_EFFECTS, DEFAULT_CLIP_AUDIO } from "@/components/editor-context"
 import { extractLastFrame, extractThirdFrame } from "./frame-extractor"
 import { uploadMediaFile } from "./storage"
+import { secondsToTicks } from "./timecode"
 
 interface MorphTransitionResult {
   clip: TimelineClip
@@ -59,7 +60,7 @@ export async function createMorphTransition(
     type: "image/jpeg",
   })
 
-  // Upload frames to Supabase Storage
+  // Upload frames to project storage
   const [startFrameResult, endFrameResult] = await Promise.all([
     uploadMediaFile(projectId, startFrameFile),
     uploadMediaFile(projectId, endFrameFile),
@@ -112,7 +113,7 @@ export async function createMorphTransition(
 
   console.log("⬆️ Video downloaded, uploading to storage...")
 
-  // Upload the generated video to Supabase Storage
+  // Upload the generated video to project storage
   const uploadResult = await uploadMediaFile(projectId, videoFile)
 
   if (uploadResult.error || !uploadResult.data) {
@@ -139,7 +140,7 @@ export async function createMorphTransition(
   // Calculate position: place between fromClip and toClip
   // Position at the end of fromClip
   const startPosition = fromClip.startTime + fromClip.duration
-  const durationPixels = durationSeconds * PIXELS_PER_SECOND
+  const durationTicks = secondsToTicks(durationSeconds)
 
   // Determine track (prefer fromClip's track)
   const trackId = fromClip.trackId
@@ -151,12 +152,13 @@ export async function createMorphTransition(
     mediaId,
     trackId,
     startTime: startPosition,
-    duration: durationPixels,
+    duration: durationTicks,
     mediaOffset: 0,
     label: "Morph Transition",
     type: "video",
     transform: DEFAULT_CLIP_TRANSFORM,
     effects: DEFAULT_CLIP_EFFECTS,
+    audio: DEFAULT_CLIP_AUDIO,
   }
 
   return {
@@ -164,7 +166,7 @@ export async function createMorphTransition(
     media: morphMedia,
     toClipUpdate: {
       clipId: toClip.id,
-      newStartTime: startPosition + durationPixels, // Position right after the morph transition
+      newStartTime: startPosition + durationTicks, // Position right after the morph transition
     },
   }
 }
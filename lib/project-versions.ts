@@ -0,0 +1,260 @@
+import { createClient } from "@/lib/supabase/client"
+import { duplicateProject, updateProject, type ProjectData, type TimelineClipData, type TimelineData } from "@/lib/projects"
+import { parseTimelineData } from "@/lib/timeline-schema"
+import { isLocalProjectId } from "@/lib/local-store"
+
+/**
+ * Project version history
+ * Saving a project overwrites its timeline, so copies are kept in the project_versions table:
+ * an automatic snapshot on save at most every AUTO_SNAPSHOT_INTERVAL_MS, and named checkpoints
+ * made by hand. Only the newest MAX_AUTO_SNAPSHOTS automatic snapshots are kept; checkpoints
+ * stay until they're deleted. A version can be restored over the project - after a snapshot
+ * of what it replaces - or opened as a new project. Local-only projects have no version history.
+ */
+
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000
+export const MAX_AUTO_SNAPSHOTS = 30
+
+export interface ProjectVersion {
+  id: string
+  project_id: string
+  user_id: string
+  name: string | null // Null for automatic snapshots
+  timeline_data: TimelineData
+  duration: string
+  created_at: string
+}
+
+// What the version list shows - the timeline is only fetched for the version being looked at
+export type ProjectVersionSummary = Omit<ProjectVersion, "timeline_data">
+
+// Clips added, removed and changed between two versions of a timeline
+export interface TimelineChangeSummary {
+  added: number
+  removed: number
+  changed: number
+}
+
+// When each project was last snapshotted this session, so saves don't have to ask the database
+const lastSnapshotAt = new Map<string, number>()
+
+// List a project's versions, newest first
+export async function getProjectVersions(projectId: string): Promise<{ data: ProjectVersionSummary[] | null; error: Error | null }> {
+  if (isLocalProjectId(projectId)) {
+    return { data: null, error: new Error("Version history needs a cloud project") }
+  }
+
+  const supabase = createClient()
+
+  const { data: versions, error } = await supabase
+    .from("project_versions")
+    .select("id, project_id, user_id, name, duration, created_at")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  return { data: versions, error: null }
+}
+
+// Get a version with its timeline, brought up to the current schema
+export async function getProjectVersion(id: string): Promise<{ data: ProjectVersion | null; error: Error | null }> {
+  const supabase = createClient()
+
+  const { data: version, error } = await supabase
+    .from("project_versions")
+    .select("*")
+    .eq("id", id)
+    .single()
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  const { data: timeline, error: timelineError } = parseTimelineData(version.timeline_data)
+  if (timelineError) {
+    return { data: null, error: new Error(timelineError) }
+  }
+
+  return { data: { ...version, timeline_data: timeline }, error: null }
+}
+
+// Save a copy of a timeline as a version of its project
+// @param name - A checkpoint name, or null for an automatic snapshot
+export async function createProjectVersion(
+  projectId: string,
+  timeline: TimelineData,
+  duration: string,
+  name: string | null
+): Promise<{ data: ProjectVersionSummary | null; error: Error | null }> {
+  if (isLocalProjectId(projectId)) {
+    return { data: null, error: new Error("Version history needs a cloud project") }
+  }
+
+  const supabase = createClient()
+
+  const { data: user } = await supabase.auth.getUser()
+  if (!user.user) {
+    return { data: null, error: new Error("Not authenticated") }
+  }
+
+  const { data: version, error } = await supabase
+    .from("project_versions")
+    .insert({
+      project_id: projectId,
+      user_id: user.user.id,
+      name,
+      timeline_data: timeline,
+      duration,
+    })
+    .select("id, project_id, user_id, name, duration, created_at")
+    .single()
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  lastSnapshotAt.set(projectId, Date.now())
+  return { data: version, error: null }
+}
+
+// Delete automatic snapshots past the newest MAX_AUTO_SNAPSHOTS
+async function pruneAutoSnapshots(projectId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: stale } = await supabase
+    .from("project_versions")
+    .select("id")
+    .eq("project_id", projectId)
+    .is("name", null)
+    .order("created_at", { ascending: false })
+    .range(MAX_AUTO_SNAPSHOTS, MAX_AUTO_SNAPSHOTS + 99)
+
+  if (stale && stale.length > 0) {
+    await supabase.from("project_versions").delete().in("id", stale.map((v) => v.id))
+  }
+}
+
+/**
+ * Snapshot a just-saved timeline unless the project was snapshotted in the last
+ * AUTO_SNAPSHOT_INTERVAL_MS
+ * @returns Whether a snapshot was taken
+ */
+export async function snapshotProjectIfDue(
+  projectId: string,
+  timeline: TimelineData,
+  duration: string
+): Promise<{ data: boolean; error: Error | null }> {
+  if (isLocalProjectId(projectId)) {
+    return { data: false, error: null }
+  }
+  if (!lastSnapshotAt.has(projectId)) {
+    const supabase = createClient()
+    const { data: latest } = await supabase
+      .from("project_versions")
+      .select("created_at")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+    lastSnapshotAt.set(projectId, latest?.[0] ? new Date(latest[0].created_at).getTime() : 0)
+  }
+  if (Date.now() - lastSnapshotAt.get(projectId)! < AUTO_SNAPSHOT_INTERVAL_MS) {
+    return { data: false, error: null }
+  }
+
+  const { error } = await createProjectVersion(projectId, timeline, duration, null)
+  if (error) {
+    return { data: false, error }
+  }
+  await pruneAutoSnapshots(projectId)
+  return { data: true, error: null }
+}
+
+// Delete a version
+export async function deleteProjectVersion(id: string): Promise<{ error: Error | null }> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from("project_versions").delete().eq("id", id)
+
+  if (error) {
+    return { error: new Error(error.message) }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Put a version's timeline back as the project's
+ * The timeline it replaces is kept first as a checkpoint, so a restore can itself be undone.
+ */
+export async function restoreProjectVersion(
+  project: ProjectData,
+  version: ProjectVersion
+): Promise<{ data: ProjectData | null; error: Error | null }> {
+  if (project.timeline_data) {
+    const { error } = await createProjectVersion(project.id, project.timeline_data, project.duration, "Before restore")
+    if (error) {
+      return { data: null, error }
+    }
+  }
+
+  return updateProject(project.id, {
+    timeline_data: version.timeline_data,
+    duration: version.duration,
+  })
+}
+
+// Open a version as a new project, leaving the original as it is
+export async function forkProjectVersion(
+  project: ProjectData,
+  version: ProjectVersion
+): Promise<{ data: ProjectData | null; error: Error | null }> {
+  return duplicateProject(project.id, {
+    name: `${project.name} (${getVersionLabel(version)})`,
+    timeline_data: version.timeline_data,
+  })
+}
+
+// A version's name, or when it was taken for automatic snapshots
+export function getVersionLabel(version: Pick<ProjectVersionSummary, "name" | "created_at">): string {
+  return version.name ?? `Autosave ${new Date(version.created_at).toLocaleString()}`
+}
+
+// Every clip in a timeline, including those inside sequences
+function getAllClips(timeline: TimelineData | null): Map<string, TimelineClipData> {
+  const clips = [...(timeline?.clips ?? []), ...(timeline?.sequences ?? []).flatMap((s) => s.clips)]
+  return new Map(clips.map((clip) => [clip.id, clip]))
+}
+
+// Deep comparison that ignores key order (jsonb doesn't keep it) and treats undefined as missing
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const x = a as Record<string, unknown>
+  const y = b as Record<string, unknown>
+  return Object.keys({ ...x, ...y }).every((key) => isSameValue(x[key], y[key]))
+}
+
+/**
+ * Count the clips that differ between two timelines
+ * A clip is changed when any of its saved fields is - position, trim, effects and so on.
+ */
+export function summarizeTimelineChanges(from: TimelineData | null, to: TimelineData | null): TimelineChangeSummary {
+  const before = getAllClips(from)
+  const after = getAllClips(to)
+  let added = 0
+  let changed = 0
+  for (const [id, clip] of after) {
+    const previous = before.get(id)
+    if (!previous) {
+      added++
+    } else if (!isSameValue(previous, clip)) {
+      changed++
+    }
+  }
+  const removed = [...before.keys()].filter((id) => !after.has(id)).length
+  return { added, removed, changed }
+}
@@ -1,4 +1,8 @@
-import { createClient } from "@/lib/supabase/client"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client"
+import { parseTimelineData, validateTimelineData } from "@/lib/timeline-schema"
+import { createLocalProjectId, deleteLocalProject, getLocalProject, getLocalProjects, isLocalProjectId, putLocalProject } from "@/lib/local-store"
+import type { FilmstripSprite, MediaMetadata } from "@/lib/media-probe"
 
 export interface ProjectData {
   id: string
@@ -13,7 +17,16 @@ export interface ProjectData {
   updated_at: string
 }
 
+// The saved timeline, as of the current schema version - older data is migrated on load (see lib/timeline-schema)
 export interface TimelineData {
+  schemaVersion: number
+  timeBase: number // Ticks per second for clip timing (see lib/timecode)
+  tracks: TrackData[] // Topmost first
+  defaultImageDuration?: number // Seconds a still image lasts when dropped on the timeline
+  transitions?: TimelineTransition[]
+  markers?: Marker[] // Ruler markers, in timeline time
+  inOut?: InOutPoints // Timeline in and out points for three-point edits
+  sequences?: SequenceData[] // Nested timelines played by compound clips
   clips: TimelineClipData[]
   media: MediaFileData[]
 }
@@ -43,17 +56,126 @@ export interface ClipEffects {
   }
 }
 
+// Transform and effect fields that can be keyframed
+export type AnimatableProperty =
+  | "positionX" | "positionY" | "scale" | "opacity"
+  | "blur" | "brightness" | "contrast" | "saturate" | "hueRotate"
+
+export type KeyframeInterpolation = "linear" | "ease" | "bezier"
+
+export interface Keyframe {
+  time: number // Ticks from the clip's start for animation (see lib/keyframes), source media ticks for speed ramps
+  value: number
+  interpolation: KeyframeInterpolation // How the value moves from this keyframe to the next
+  bezier?: [number, number, number, number] // Control points (x1, y1, x2, y2) for "bezier", as in CSS cubic-bezier()
+}
+
+export type ClipKeyframes = Partial<Record<AnimatableProperty, Keyframe[]>>
+
+export type TransitionType = "crossfade" | "dip-to-black" | "dip-to-white" | "slide" | "wipe" | "zoom"
+export type TransitionDirection = "left" | "right" | "up" | "down"
+
+// A transition over the cut between two adjacent clips on the same track (see lib/transitions)
+export interface TimelineTransition {
+  id: string
+  fromClipId: string // Outgoing clip
+  toClipId: string // Incoming clip - starts where fromClip ends
+  type: TransitionType
+  duration: number // Ticks, centred on the cut
+  direction?: TransitionDirection // Slide and wipe only
+}
+
+export type MarkerColor = "red" | "orange" | "yellow" | "green" | "blue" | "purple"
+
+// A named point on the timeline ruler or on a clip (see lib/markers)
+export interface Marker {
+  id: string
+  time: number // Ticks - timeline time on the ruler, source media time on a clip so it stays on the same footage
+  name: string
+  color: MarkerColor
+}
+
+// Marked range for a three-point edit, in ticks (see lib/three-point-edit)
+export interface InOutPoints {
+  in?: number
+  out?: number
+}
+
+export type TextAlign = "left" | "center" | "right"
+export type TextVerticalAlign = "top" | "middle" | "bottom"
+
+// Content and styling of a text clip (see lib/text-clips)
+// Sizes are in pixels on the 1920x1080 export canvas
+export interface TextClipStyle {
+  content: string // Newlines start new lines
+  fontFamily: string
+  fontSize: number
+  fontWeight: number // 100-900
+  italic: boolean
+  color: string
+  strokeColor: string
+  strokeWidth: number // 0 = no outline
+  shadowColor: string
+  shadowBlur: number
+  shadowOffsetX: number
+  shadowOffsetY: number
+  backgroundColor: string
+  backgroundOpacity: number // 0-100%, 0 = no box
+  padding: number // Space between the text and the background box
+  align: TextAlign // Line alignment, and which side of the frame the block sits on
+  verticalAlign: TextVerticalAlign // Where the block sits before the clip transform moves it
+}
+
+export interface ClipAudio {
+  volume: number  // 0-200%
+  pan: number     // -100 (left) to 100 (right)
+  fadeIn: number  // Ticks
+  fadeOut: number // Ticks
+  muted: boolean  // Silences the clip's audio (e.g., a video clip's embedded sound)
+}
+
+export interface TrackData {
+  id: string // e.g., "V1", "A2" - referenced by clip trackId
+  name: string
+  type: "video" | "audio"
+  locked: boolean // Clips can't be moved, trimmed or deleted
+  muted: boolean
+  solo: boolean // When any track is soloed, only soloed tracks are heard
+  hidden: boolean // Video is skipped in preview and export
+}
+
+// A timeline inside the project, played by compound clips (see lib/sequences)
+export interface SequenceData {
+  id: string
+  name: string
+  tracks: TrackData[] // Topmost first
+  clips: TimelineClipData[] // Timed from the start of the sequence
+  transitions?: TimelineTransition[]
+  markers?: Marker[]
+}
+
 export interface TimelineClipData {
   id: string
   mediaId: string
   trackId: string
-  startTime: number
-  duration: number
-  mediaOffset?: number // Optional for backwards compatibility
+  startTime: number // Ticks (see lib/timecode)
+  duration: number // Ticks
+  mediaOffset: number // Ticks
   label: string
-  type: "video" | "audio"
-  transform?: ClipTransform // Optional for backwards compatibility
-  effects?: ClipEffects // Optional for backwards compatibility
+  type: "video" | "audio" | "text" // Text clips have no media (mediaId is empty)
+  transform: ClipTransform
+  effects: ClipEffects
+  audio: ClipAudio
+  keyframes?: ClipKeyframes // Absent when nothing is animated
+  text?: TextClipStyle // Text clips only
+  speed?: number // Source ticks played per timeline tick (0.1-16) - absent means 1
+  speedRamp?: Keyframe[] // Speed keyframes in source media time, overriding speed (see lib/clip-speed)
+  reverse?: boolean // Plays the source range backwards
+  freeze?: boolean // Holds the frame at mediaOffset for the whole clip
+  groupId?: string // Clips with the same groupId move together (see lib/clip-selection)
+  linkId?: string // A video clip and its detached audio share a linkId (see lib/linked-clips)
+  markers?: Marker[] // Absent when the clip has none
+  sequenceId?: string // Compound clips play this sequence instead of media (mediaId is empty)
 }
 
 export interface Caption {
@@ -68,14 +190,21 @@ export interface MediaFileData {
   duration: string
   durationSeconds: number
   type: string
-  storagePath: string // Path in Supabase Storage
+  storagePath: string // Path in project storage
   storageUrl: string // Public URL to access the file
-  thumbnail: string | null // Base64 thumbnail
+  thumbnail: string | null // URL of the stored thumbnail, or base64 for audio and media probed in the browser
+  thumbnailPath?: string // Path of the stored thumbnail
   captions?: Caption[] // Generated captions with timestamps
   // TwelveLabs fields for NLP search
   twelveLabsVideoId?: string // TwelveLabs asset ID
   twelveLabsIndexId?: string // Index this video belongs to
   twelveLabsStatus?: "pending" | "indexing" | "ready" | "failed"
+  // Low-resolution copy for smooth preview of heavy footage (see lib/proxy-media)
+  proxyPath?: string
+  proxyUrl?: string
+  // What ffprobe found on upload, and the filmstrip made then (see lib/media-probe)
+  metadata?: MediaMetadata
+  filmstrip?: FilmstripSprite
 }
 
 // Create a new project
@@ -84,6 +213,25 @@ export async function createProject(data: {
   resolution: string
   frame_rate: number
 }): Promise<{ data: ProjectData | null; error: Error | null }> {
+  // Local-only mode keeps projects in this browser
+  if (!isSupabaseConfigured()) {
+    const now = new Date().toISOString()
+    const project: ProjectData = {
+      id: createLocalProjectId(),
+      user_id: "local",
+      name: data.name,
+      resolution: data.resolution,
+      frame_rate: data.frame_rate,
+      duration: "00:00:00",
+      thumbnail: null,
+      timeline_data: null,
+      created_at: now,
+      updated_at: now,
+    }
+    const { error } = await putLocalProject(project)
+    return error ? { data: null, error } : { data: project, error: null }
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -114,6 +262,10 @@ export async function createProject(data: {
 
 // Get all projects for the current user
 export async function getProjects(): Promise<{ data: ProjectData[] | null; error: Error | null }> {
+  if (!isSupabaseConfigured()) {
+    return getLocalProjects()
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -134,8 +286,37 @@ export async function getProjects(): Promise<{ data: ProjectData[] | null; error
   return { data: projects, error: null }
 }
 
+// Bring a fetched project's timeline up to the current schema, or fail if it can't be read
+function readProjectTimeline(project: ProjectData): { data: ProjectData | null; error: Error | null; unreadable?: ProjectData } {
+  if (!project.timeline_data) return { data: project, error: null }
+  const { data: timeline, error } = parseTimelineData(project.timeline_data)
+  if (error) {
+    console.error("[Projects] Unreadable timeline in project", project.id, "-", error)
+    return { data: null, error: new Error(error), unreadable: project }
+  }
+  return { data: { ...project, timeline_data: timeline }, error: null }
+}
+
+// Get a project kept in this browser - local-only, or a cloud project's copy while offline
+async function getStoredProject(id: string, missing: string): Promise<{ data: ProjectData | null; error: Error | null; unreadable?: ProjectData }> {
+  const { data: project, error } = await getLocalProject(id)
+  if (error || !project) {
+    return { data: null, error: error ?? new Error(missing) }
+  }
+  return readProjectTimeline(project)
+}
+
 // Get a single project by ID
-export async function getProject(id: string): Promise<{ data: ProjectData | null; error: Error | null }> {
+// A project whose timeline can't be read is an error, with the project as stored in `unreadable`
+// so the editor can offer to recover it
+export async function getProject(id: string): Promise<{ data: ProjectData | null; error: Error | null; unreadable?: ProjectData }> {
+  if (isLocalProjectId(id)) {
+    return getStoredProject(id, "Project not found")
+  }
+  if (!navigator.onLine) {
+    return getStoredProject(id, "You're offline, and this project hasn't been opened on this device before")
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -154,7 +335,30 @@ export async function getProject(id: string): Promise<{ data: ProjectData | null
     return { data: null, error: new Error(error.message) }
   }
 
-  return { data: project, error: null }
+  // Keep a copy to open offline
+  await putLocalProject(project)
+
+  return readProjectTimeline(project)
+}
+
+// Get a single project with a caller-supplied client (server routes use a cookie or service-role client)
+export async function getProjectWithClient(
+  supabase: SupabaseClient,
+  id: string,
+  userId?: string
+): Promise<{ data: ProjectData | null; error: Error | null }> {
+  let query = supabase.from("projects").select("*").eq("id", id)
+  if (userId) {
+    query = query.eq("user_id", userId)
+  }
+
+  const { data: project, error } = await query.single()
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  return readProjectTimeline(project)
 }
 
 // Update a project
@@ -169,6 +373,27 @@ export async function updateProject(
     timeline_data: TimelineData | null
   }>
 ): Promise<{ data: ProjectData | null; error: Error | null }> {
+  // Never store a timeline the next load would reject
+  if (data.timeline_data) {
+    const problem = validateTimelineData(data.timeline_data)
+    if (problem) {
+      return { data: null, error: new Error(`Invalid timeline data: ${problem}`) }
+    }
+  }
+
+  if (isLocalProjectId(id)) {
+    const { data: stored, error } = await getLocalProject(id)
+    if (error || !stored) {
+      return { data: null, error: error ?? new Error("Project not found") }
+    }
+    const project = { ...stored, ...data, updated_at: new Date().toISOString() }
+    const { error: putError } = await putLocalProject(project)
+    return putError ? { data: null, error: putError } : { data: project, error: null }
+  }
+  if (!navigator.onLine) {
+    return { data: null, error: new Error("You're offline") }
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -191,11 +416,17 @@ export async function updateProject(
     return { data: null, error: new Error(error.message) }
   }
 
+  await putLocalProject(project)
+
   return { data: project, error: null }
 }
 
 // Delete a project
 export async function deleteProject(id: string): Promise<{ error: Error | null }> {
+  if (isLocalProjectId(id)) {
+    return deleteLocalProject(id)
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -228,11 +459,35 @@ export async function deleteProject(id: string): Promise<{ error: Error | null }
     return { error: new Error(error.message) }
   }
 
+  // Drop the offline copy and any unsynced draft too
+  await deleteLocalProject(id)
+
   return { error: null }
 }
 
-// Duplicate a project
-export async function duplicateProject(id: string): Promise<{ data: ProjectData | null; error: Error | null }> {
+// Duplicate a project, optionally under another name or with another timeline (e.g. a saved version)
+export async function duplicateProject(
+  id: string,
+  overrides: { name?: string; timeline_data?: TimelineData | null } = {}
+): Promise<{ data: ProjectData | null; error: Error | null }> {
+  if (isLocalProjectId(id)) {
+    const { data: original, error } = await getLocalProject(id)
+    if (error || !original) {
+      return { data: null, error: error ?? new Error("Project not found") }
+    }
+    const now = new Date().toISOString()
+    const project: ProjectData = {
+      ...original,
+      id: createLocalProjectId(),
+      name: overrides.name ?? `${original.name} (Copy)`,
+      timeline_data: overrides.timeline_data !== undefined ? overrides.timeline_data : original.timeline_data,
+      created_at: now,
+      updated_at: now,
+    }
+    const { error: putError } = await putLocalProject(project)
+    return putError ? { data: null, error: putError } : { data: project, error: null }
+  }
+
   const supabase = createClient()
   
   const { data: user } = await supabase.auth.getUser()
@@ -257,12 +512,12 @@ export async function duplicateProject(id: string): Promise<{ data: ProjectData
     .from("projects")
     .insert({
       user_id: user.user.id,
-      name: `${original.name} (Copy)`,
+      name: overrides.name ?? `${original.name} (Copy)`,
       resolution: original.resolution,
       frame_rate: original.frame_rate,
       duration: original.duration,
       thumbnail: original.thumbnail,
-      timeline_data: original.timeline_data,
+      timeline_data: overrides.timeline_data !== undefined ? overrides.timeline_data : original.timeline_data,
     })
     .select()
     .single()
@@ -0,0 +1,113 @@
+/**
+ * Proxy media
+ * Footage that is heavy to decode - above 1080p, over 8 bits per channel, in a codec browsers
+ * struggle with (HEVC, ProRes...) or at a very high bitrate - gets a small H.264 copy for
+ * playback. Proxies are made server-side with ffmpeg by /api/proxy and stored beside the
+ * original under a proxies/ folder. They are only ever used to preview: the media's storagePath
+ * and storageUrl stay the original's, which is what exports and server renders read.
+ */
+
+export const PROXY_HEIGHT = 540
+export const PROXY_MAX_PIXELS = 1920 * 1080 // Larger frames get a proxy
+export const PROXY_MAX_BITRATE = 25_000_000 // Bits per second
+
+// Codecs browsers decode smoothly, given a reasonable size and bit depth
+const LIGHT_CODECS = new Set(["h264", "vp8", "vp9"])
+
+export type ProxyStatus = "generating" | "ready" | "failed"
+
+// What ffprobe says about a file's first video stream
+export interface VideoProbe {
+  codec: string
+  width: number
+  height: number
+  pixelFormat: string
+  bitRate: number | null // Bits per second, of the stream or else the whole file
+}
+
+// ffprobe arguments that print what parseVideoProbe reads, as JSON
+export function buildVideoProbeArgs(inputPath: string): string[] {
+  return [
+    "-v", "error",
+    "-select_streams", "v:0",
+    "-show_entries", "stream=codec_name,width,height,pix_fmt,bit_rate:format=bit_rate",
+    "-of", "json",
+    inputPath,
+  ]
+}
+
+export function parseVideoProbe(output: string): VideoProbe | null {
+  try {
+    const probe = JSON.parse(output) as {
+      streams?: { codec_name?: string; width?: number; height?: number; pix_fmt?: string; bit_rate?: string }[]
+      format?: { bit_rate?: string }
+    }
+    const stream = probe.streams?.[0]
+    if (!stream?.codec_name || !stream.width || !stream.height) return null
+    const bitRate = Number(stream.bit_rate ?? probe.format?.bit_rate)
+    return {
+      codec: stream.codec_name,
+      width: stream.width,
+      height: stream.height,
+      pixelFormat: stream.pix_fmt ?? "",
+      bitRate: Number.isFinite(bitRate) && bitRate > 0 ? bitRate : null,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Why a video should get a proxy, e.g. "3840x2160, hevc, 10-bit"
+ * @returns null for footage that plays fine as it is
+ */
+export function getProxyReason(probe: VideoProbe): string | null {
+  const reasons: string[] = []
+  if (probe.width * probe.height > PROXY_MAX_PIXELS) reasons.push(`${probe.width}x${probe.height}`)
+  if (!LIGHT_CODECS.has(probe.codec)) reasons.push(probe.codec)
+  // e.g. yuv420p10le, yuv422p12be
+  const bitDepth = probe.pixelFormat.match(/p(9|10|12|14|16)(le|be)$/)?.[1]
+  if (bitDepth) reasons.push(`${bitDepth}-bit`)
+  if (probe.bitRate && probe.bitRate > PROXY_MAX_BITRATE) reasons.push(`${Math.round(probe.bitRate / 1_000_000)} Mbps`)
+  return reasons.length > 0 ? reasons.join(", ") : null
+}
+
+// Where a media file's proxy is stored: a proxies/ folder next to it
+export function getProxyStoragePath(storagePath: string): string {
+  const slash = storagePath.lastIndexOf("/")
+  const folder = storagePath.slice(0, slash + 1)
+  const name = storagePath.slice(slash + 1).replace(/\.[^.]+$/, "")
+  return `${folder}proxies/${name}.mp4`
+}
+
+/**
+ * ffmpeg arguments for a proxy: H.264 8-bit at PROXY_HEIGHT (never upscaled), with frequent
+ * keyframes so scrubbing stays quick. Frame timing and audio are kept as they are, so clip
+ * offsets land on the same frames in the proxy as in the original.
+ */
+export function buildProxyArgs(inputPath: string, outputPath: string): string[] {
+  return [
+    "-y",
+    "-i", inputPath,
+    "-map", "0:v:0",
+    "-map", "0:a:0?",
+    "-vf", `scale=-2:min(ih\\,${PROXY_HEIGHT})`,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "28",
+    "-pix_fmt", "yuv420p",
+    "-g", "15",
+    "-c:a", "aac",
+    "-b:a", "128k",
+    "-movflags", "+faststart",
+    outputPath,
+  ]
+}
+
+/**
+ * The URL to play a media item from in the editor: its proxy when there is one and proxies are on
+ * Never for export - that always reads the original.
+ */
+export function getPlaybackUrl(media: { objectUrl: string; proxyUrl?: string }, useProxies: boolean): string {
+  return useProxies && media.proxyUrl ? media.proxyUrl : media.objectUrl
+}
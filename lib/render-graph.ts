@@ -0,0 +1,348 @@
+import type { TimelineData, TimelineClipData, ClipAudio, ClipEffects, ClipTransform } from "./projects"
+import { ticksToSeconds } from "./timecode"
+import { getTrackDrawOrder, isTrackAudible, isTrackVisible, resolveTracks } from "./tracks"
+import { getMediaKind } from "./media-import"
+import { getClipSourceSpan } from "./clip-speed"
+import { flattenSequences } from "./sequences"
+import { DEFAULT_KEY_COLOR, KEY_COLOR_PATTERN } from "./chromakey"
+
+/**
+ * Builds an ffmpeg command line that renders a saved TimelineData server-side
+ * Mirrors the browser export: tracks are stacked in the timeline's track order, clips are fit to the
+ * canvas and then transformed, and effect presets use the same adjustments as buildFilterString
+ * Timeline data must be at the current schema version, in ticks (see lib/timeline-schema)
+ * Some of the timeline isn't translated: keyframe animation (animated clips render with their
+ * static transform and effects), built-in transitions (clips cut straight from one to the next),
+ * text clips (drawn by the browser's canvas text renderer) and speed ramps (played at the clip's
+ * average speed). getRenderWarnings lists what a timeline uses of these, so a render job can say
+ * how its output differs from the browser export.
+ * Sped-up audio keeps its pitch (atempo)
+ * Compound clips must be flattened into the clips inside them first (see flattenTimelineData)
+ */
+
+// Transform positions are stored relative to the 1920px-wide export canvas
+const REFERENCE_WIDTH = 1920
+
+export interface RenderInput {
+  mediaId: string
+  path: string
+  hasAudio: boolean
+}
+
+export interface RenderGraphOptions {
+  width: number
+  height: number
+  frameRate: number
+  outputPath: string
+}
+
+/**
+ * Parse a project resolution string (e.g., "1920x1080") into even dimensions
+ */
+export function parseResolution(resolution: string | null | undefined): { width: number; height: number } {
+  const match = resolution?.match(/(\d+)x(\d+)/)
+  if (!match) return { width: 1920, height: 1080 }
+  // libx264 with yuv420p needs even dimensions
+  const even = (n: number) => Math.max(2, Math.floor(n / 2) * 2)
+  return { width: even(parseInt(match[1])), height: even(parseInt(match[2])) }
+}
+
+/**
+ * A saved timeline with every compound clip replaced by the clips inside it (see lib/sequences)
+ */
+export function flattenTimelineData(timeline: TimelineData): TimelineData {
+  if (!timeline.sequences?.length) return timeline
+  const flat = flattenSequences(
+    { clips: timeline.clips, tracks: resolveTracks(timeline), transitions: timeline.transitions ?? [] },
+    timeline.sequences.map((sequence) => ({ ...sequence, transitions: sequence.transitions ?? [] }))
+  )
+  return { ...timeline, ...flat, sequences: undefined }
+}
+
+/**
+ * Total timeline length in seconds
+ */
+export function getTimelineDuration(timeline: TimelineData): number {
+  return timeline.clips.reduce((max, clip) => Math.max(max, ticksToSeconds(clip.startTime + clip.duration)), 0)
+}
+
+/**
+ * What a server render of the timeline leaves out or simplifies, compared with the browser export
+ * @returns One sentence per difference, empty when the render matches
+ */
+export function getRenderWarnings(timeline: TimelineData): string[] {
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`
+  const warnings: string[] = []
+  const textClips = timeline.clips.filter(clip => clip.type === "text").length
+  if (textClips > 0) warnings.push(`${count(textClips, "text clip")} left out - text is only drawn by the browser export`)
+  const transitions = timeline.transitions?.length ?? 0
+  if (transitions > 0) warnings.push(`${count(transitions, "transition")} rendered as straight cuts`)
+  const animated = timeline.clips.filter(clip => clip.type === "video" && Object.values(clip.keyframes ?? {}).some(list => list.length > 0)).length
+  if (animated > 0) warnings.push(`Keyframe animation on ${count(animated, "clip")} not applied - they render with their static transform and effects`)
+  const ramped = timeline.clips.filter(clip => (clip.speedRamp?.length ?? 0) > 0).length
+  if (ramped > 0) warnings.push(`Speed ramps on ${count(ramped, "clip")} played at each clip's average speed`)
+  return warnings
+}
+
+// Format a number for the filter graph without exponent notation
+function num(value: number): string {
+  return Number(value.toFixed(6)).toString()
+}
+
+// CSS sepia(amount) as a colour matrix, blended with identity like the browser does
+function sepiaMixer(amount: number): string {
+  const a = Math.min(1, Math.max(0, amount))
+  const m = [
+    0.393 + 0.607 * (1 - a), 0.769 - 0.769 * (1 - a), 0.189 - 0.189 * (1 - a),
+    0.349 - 0.349 * (1 - a), 0.686 + 0.314 * (1 - a), 0.168 - 0.168 * (1 - a),
+    0.272 - 0.272 * (1 - a), 0.534 - 0.534 * (1 - a), 0.131 + 0.869 * (1 - a),
+  ].map(num)
+  return `colorchannelmixer=rr=${m[0]}:rg=${m[1]}:rb=${m[2]}:gr=${m[3]}:gg=${m[4]}:gb=${m[5]}:br=${m[6]}:bg=${m[7]}:bb=${m[8]}`
+}
+
+// CSS brightness() is a straight multiply on each channel
+function brightness(percent: number): string {
+  const f = num(percent / 100)
+  return `colorchannelmixer=rr=${f}:gg=${f}:bb=${f}`
+}
+
+function contrast(percent: number): string {
+  return `eq=contrast=${num(percent / 100)}`
+}
+
+function saturate(percent: number): string {
+  return `eq=saturation=${num(percent / 100)}`
+}
+
+/**
+ * Build the ffmpeg filters for a clip's effects
+ * Mirrors buildFilterString in components/export-modal.tsx
+ */
+export function buildEffectFilters(effects: ClipEffects): string[] {
+  const filters: string[] = []
+
+  switch (effects.preset) {
+    case "grayscale":
+      filters.push("hue=s=0")
+      break
+    case "sepia":
+      filters.push(sepiaMixer(1))
+      break
+    case "invert":
+      filters.push("negate")
+      break
+    case "cyberpunk":
+      filters.push(saturate(180), "hue=h=280", contrast(130), brightness(110))
+      break
+    case "noir":
+      filters.push("hue=s=0", contrast(150), brightness(85))
+      break
+    case "vhs":
+      filters.push(saturate(130), contrast(115), brightness(105), sepiaMixer(0.2))
+      break
+    case "glitch":
+      filters.push(contrast(130), saturate(150))
+      break
+    case "ascii":
+      // Dreamy/Bloom effect - soft glow look
+      filters.push(brightness(115), contrast(90), saturate(120), "gblur=sigma=0.5")
+      break
+  }
+
+  if (effects.blur > 0) filters.push(`gblur=sigma=${num(effects.blur)}`)
+  if (effects.brightness !== 100) filters.push(brightness(effects.brightness))
+  if (effects.contrast !== 100) filters.push(contrast(effects.contrast))
+  if (effects.saturate !== 100) filters.push(saturate(effects.saturate))
+  if (effects.hueRotate > 0) filters.push(`hue=h=${num(effects.hueRotate)}`)
+
+  return filters
+}
+
+// Chromakey with optional spill suppression toward the dominant key channel
+function buildChromakeyFilters(chromakey: NonNullable<ClipEffects["chromakey"]>): string[] {
+  // The colour goes into the filter graph as-is, so anything but plain hex is replaced
+  const keyColor = KEY_COLOR_PATTERN.test(chromakey.keyColor) ? chromakey.keyColor : DEFAULT_KEY_COLOR
+  const hex = keyColor.replace("#", "")
+  const filters = [
+    `chromakey=color=0x${hex}:similarity=${num(Math.max(0.01, chromakey.similarity))}:blend=${num(chromakey.smoothness)}`,
+  ]
+  if (chromakey.spill > 0) {
+    const g = parseInt(hex.slice(2, 4), 16) || 0
+    const b = parseInt(hex.slice(4, 6), 16) || 0
+    filters.push(`despill=type=${b > g ? "blue" : "green"}:mix=${num(chromakey.spill)}`)
+  }
+  return filters
+}
+
+// Clip volume, fades and pan (same envelope as lib/audio-mixer), applied before the clip is delayed into place
+function buildClipAudioFilters(audio: ClipAudio, duration: number): string[] {
+  const filters = ["aformat=channel_layouts=stereo"]
+  if (audio.volume !== 100) filters.push(`volume=${num(audio.volume / 100)}`)
+  const fadeIn = Math.min(duration, ticksToSeconds(audio.fadeIn))
+  const fadeOut = Math.min(duration, ticksToSeconds(audio.fadeOut))
+  if (fadeIn > 0) filters.push(`afade=t=in:st=0:d=${num(fadeIn)}`)
+  if (fadeOut > 0) filters.push(`afade=t=out:st=${num(duration - fadeOut)}:d=${num(fadeOut)}`)
+  if (audio.pan !== 0) filters.push(`stereotools=balance_out=${num(audio.pan / 100)}`)
+  return filters
+}
+
+// Retime a clip's video: `span` seconds of source play over `duration` seconds from `start`
+// A freeze frame is its first frame held with tpad
+function buildVideoTimingFilters(clip: TimelineClipData, offset: number, span: number, duration: number, start: number, frameRate: number): string[] {
+  if (clip.freeze) {
+    return [
+      `trim=start=${num(offset)}:duration=${num(1 / frameRate)}`,
+      "setpts=PTS-STARTPTS",
+      `tpad=stop_mode=clone:stop_duration=${num(duration)}`,
+      `setpts=PTS+${num(start)}/TB`,
+    ]
+  }
+  if (span === duration && !clip.reverse) {
+    return [`trim=start=${num(offset)}:duration=${num(duration)}`, `setpts=PTS-STARTPTS+${num(start)}/TB`]
+  }
+  return [
+    `trim=start=${num(offset)}:duration=${num(span)}`,
+    "setpts=PTS-STARTPTS",
+    ...(clip.reverse ? ["reverse"] : []),
+    `setpts=PTS*${num(duration / span)}+${num(start)}/TB`,
+  ]
+}
+
+// atempo only takes factors from 0.5 up, so slower speeds are chained
+function buildTempoFilters(speed: number): string[] {
+  const filters: string[] = []
+  let remaining = speed
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5")
+    remaining /= 0.5
+  }
+  if (Math.abs(remaining - 1) > 1e-6) filters.push(`atempo=${num(remaining)}`)
+  return filters
+}
+
+// Fit the source inside the canvas, then apply the clip's scale (same as getDrawParams)
+function buildScaleFilter(transform: ClipTransform, width: number, height: number): string[] {
+  const scale = transform.scale / 100
+  return [
+    `scale=w=${width}:h=${height}:force_original_aspect_ratio=decrease`,
+    `scale=w='max(2,trunc(iw*${num(scale)}/2)*2)':h='max(2,trunc(ih*${num(scale)}/2)*2)'`,
+  ]
+}
+
+/**
+ * Build the ffmpeg argument list for rendering a timeline
+ * @param timeline - Saved timeline data
+ * @param inputs - Downloaded media files, one per media id (each clip opens its own ffmpeg input,
+ *                 since a filter graph can only consume an input stream once)
+ * @param options - Output size, frame rate and path
+ * @returns Arguments for spawning ffmpeg (without the binary name)
+ */
+export function buildRenderArgs(timeline: TimelineData, inputs: RenderInput[], options: RenderGraphOptions): string[] {
+  const { width, height, frameRate, outputPath } = options
+  const totalDuration = getTimelineDuration(timeline)
+  const inputIndex = new Map(inputs.map((input, i) => [input.mediaId, i]))
+  const positionScale = width / REFERENCE_WIDTH
+  const tracks = resolveTracks(timeline)
+  const drawOrder = getTrackDrawOrder(tracks)
+
+  const clips = timeline.clips
+    .filter(clip => inputIndex.has(clip.mediaId))
+    .sort((a, b) => {
+      const trackOrder = drawOrder.indexOf(a.trackId) - drawOrder.indexOf(b.trackId)
+      return trackOrder !== 0 ? trackOrder : a.startTime - b.startTime
+    })
+
+  const graph: string[] = [`color=c=black:s=${width}x${height}:r=${num(frameRate)}:d=${num(totalDuration)}[base]`]
+  const audioLabels: string[] = []
+  const inputArgs: string[][] = []
+  let lastVideo = "base"
+
+  clips.forEach((clip: TimelineClipData, i) => {
+    const input = inputs[inputIndex.get(clip.mediaId)!]
+    const media = timeline.media.find(m => m.id === clip.mediaId)
+    const stream = inputArgs.length
+    const start = ticksToSeconds(clip.startTime)
+    const duration = ticksToSeconds(clip.duration)
+    const offset = ticksToSeconds(clip.mediaOffset ?? 0)
+    // Source seconds the clip plays, which differs from its duration when retimed
+    const span = ticksToSeconds(getClipSourceSpan({ ...clip, mediaOffset: clip.mediaOffset ?? 0 }))
+    // A still image is a single frame - loop it for as long as the clip reads from it
+    if (media && getMediaKind(media) === "image") {
+      inputArgs.push(["-loop", "1", "-framerate", num(frameRate), "-t", num(offset + Math.max(span, duration)), "-i", input.path])
+    } else {
+      inputArgs.push(["-i", input.path])
+    }
+    const end = start + duration
+    const transform = clip.transform ?? { positionX: 0, positionY: 0, scale: 100, opacity: 100 }
+    const effects = clip.effects
+    const audio = clip.audio ?? { volume: 100, pan: 0, fadeIn: 0, fadeOut: 0, muted: false }
+
+    if (clip.type === "video" && isTrackVisible(clip.trackId, tracks)) {
+      const source = `[${stream}:v]`
+      const timing = [
+        ...buildVideoTimingFilters(clip, offset, span, duration, start, frameRate),
+        ...buildScaleFilter(transform, width, height),
+      ]
+      const effectFilters = effects ? buildEffectFilters(effects) : []
+      const opacity = transform.opacity < 100 ? [`colorchannelmixer=aa=${num(transform.opacity / 100)}`] : []
+
+      if (effects?.chromakey?.enabled) {
+        // Colour filters don't all carry alpha, so the key is split off and merged back after the effects
+        graph.push(`${source}${[...timing, ...buildChromakeyFilters(effects.chromakey), "format=rgba"].join(",")},split[k${i}][m${i}]`)
+        graph.push(`[m${i}]alphaextract[mask${i}]`)
+        graph.push(`[k${i}]${[...effectFilters, "format=rgb24"].join(",")}[fx${i}]`)
+        graph.push(`[fx${i}][mask${i}]alphamerge,${["format=rgba", ...opacity].join(",")}[v${i}]`)
+      } else {
+        graph.push(`${source}${[...timing, ...effectFilters, "format=rgba", ...opacity].join(",")}[v${i}]`)
+      }
+
+      const x = `(W-w)/2+${num(transform.positionX * positionScale)}`
+      const y = `(H-h)/2+${num(transform.positionY * positionScale)}`
+      graph.push(
+        `[${lastVideo}][v${i}]overlay=x='${x}':y='${y}':eof_action=pass:enable='between(t,${num(start)},${num(end)})'[o${i}]`
+      )
+      lastVideo = `o${i}`
+    }
+
+    if (input.hasAudio && !audio.muted && !clip.freeze && isTrackAudible(clip.trackId, tracks)) {
+      const delayMs = Math.round(start * 1000)
+      const audioFilters = [
+        `atrim=start=${num(offset)}:duration=${num(span)}`,
+        "asetpts=PTS-STARTPTS",
+        ...(clip.reverse ? ["areverse"] : []),
+        ...buildTempoFilters(span / duration),
+        ...buildClipAudioFilters(audio, duration),
+        `adelay=${delayMs}:all=1`,
+      ]
+      graph.push(`[${stream}:a]${audioFilters.join(",")}[a${i}]`)
+      audioLabels.push(`[a${i}]`)
+    }
+  })
+
+  graph.push(`[${lastVideo}]format=yuv420p[vout]`)
+  if (audioLabels.length > 0) {
+    graph.push(
+      `${audioLabels.join("")}amix=inputs=${audioLabels.length}:normalize=0:duration=longest,apad,atrim=0:${num(totalDuration)}[aout]`
+    )
+  }
+
+  const args = ["-y", "-hide_banner", "-nostats", "-progress", "pipe:1"]
+  for (const input of inputArgs) {
+    args.push(...input)
+  }
+  args.push("-filter_complex", graph.join(";"), "-map", "[vout]")
+  if (audioLabels.length > 0) {
+    args.push("-map", "[aout]", "-c:a", "aac", "-b:a", "192k")
+  }
+  args.push(
+    "-c:v", "libx264",
+    "-preset", "medium",
+    "-crf", "20",
+    "-r", num(frameRate),
+    "-t", num(totalDuration),
+    "-movflags", "+faststart",
+    outputPath
+  )
+
+  return args
+}
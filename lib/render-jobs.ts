@@ -0,0 +1,84 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type RenderJobStatus = "queued" | "downloading" | "rendering" | "uploading" | "completed" | "failed"
+
+export interface RenderJob {
+  id: string
+  project_id: string
+  user_id: string
+  status: RenderJobStatus
+  progress: number // 0-100
+  output_path: string | null
+  output_url: string | null
+  error: string | null
+  warnings: string[] // How the render differs from the browser export (see getRenderWarnings)
+  created_at: string
+  updated_at: string
+}
+
+// Create a queued render job for a project
+export async function createRenderJob(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  warnings: string[] = []
+): Promise<{ data: RenderJob | null; error: Error | null }> {
+  const { data: job, error } = await supabase
+    .from("render_jobs")
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      status: "queued",
+      progress: 0,
+      warnings,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  return { data: job, error: null }
+}
+
+// Get a render job, optionally scoped to a user
+export async function getRenderJob(
+  supabase: SupabaseClient,
+  id: string,
+  userId?: string
+): Promise<{ data: RenderJob | null; error: Error | null }> {
+  let query = supabase.from("render_jobs").select("*").eq("id", id)
+  if (userId) {
+    query = query.eq("user_id", userId)
+  }
+
+  const { data: job, error } = await query.single()
+
+  if (error) {
+    return { data: null, error: new Error(error.message) }
+  }
+
+  return { data: job, error: null }
+}
+
+// Update a render job's status, progress or result
+export async function updateRenderJob(
+  supabase: SupabaseClient,
+  id: string,
+  data: Partial<Pick<RenderJob, "status" | "progress" | "output_path" | "output_url" | "error">>
+): Promise<{ error: Error | null }> {
+  const { error } = await supabase
+    .from("render_jobs")
+    .update({
+      ...data,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+
+  if (error) {
+    return { error: new Error(error.message) }
+  }
+
+  return { error: null }
+}
@@ -0,0 +1,51 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { isValidStorageKey, type ResumableUpload } from "@/lib/storage-adapter"
+
+/**
+ * Resumable uploads
+ * Large media is sent by the browser in parts straight to the storage backend, which keeps
+ * track of the upload itself (see the resumable methods of StorageAdapter) - so no app server
+ * has to hold a session, and any of them can answer for any upload. The routes under
+ * /api/storage/uploads start an upload, hand out a signed target for each part, say where an
+ * upload is up to and finish or cancel it. The browser knows an upload by an opaque id that
+ * carries everything the backend needs, signed for the user who started it so its key, size and
+ * part layout can't be changed, and checked on every request.
+ */
+
+function getUploadSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET
+  if (!secret) throw new Error("Resumable uploads need STORAGE_SIGNING_SECRET to sign upload ids")
+  return secret
+}
+
+function signUploadId(payload: string, userId: string): string {
+  return createHmac("sha256", getUploadSigningSecret()).update(`upload\n${userId}\n${payload}`).digest("base64url")
+}
+
+export function encodeUploadId(upload: ResumableUpload, userId: string): string {
+  const payload = Buffer.from(JSON.stringify(upload)).toString("base64url")
+  return `${payload}.${signUploadId(payload, userId)}`
+}
+
+/**
+ * The upload an id stands for
+ * @returns null for an id that isn't one, wasn't signed for this user, or is for a file outside their folder
+ */
+export function decodeUploadId(uploadId: string, userId: string): ResumableUpload | null {
+  try {
+    const [payload, signature, ...rest] = uploadId.split(".")
+    if (!payload || !signature || rest.length > 0) return null
+    const expected = Buffer.from(signUploadId(payload, userId))
+    const received = Buffer.from(signature)
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null
+
+    const upload = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Partial<ResumableUpload>
+    const { key, id, size, partSize } = upload
+    if (typeof key !== "string" || !isValidStorageKey(key) || !key.startsWith(`${userId}/`)) return null
+    if (typeof id !== "string" || !id) return null
+    if (!Number.isInteger(size) || size! <= 0 || !Number.isInteger(partSize) || partSize! <= 0) return null
+    return { key, id, size: size!, partSize: partSize! }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,252 @@
+import type { AnimatableProperty, ClipAudio, ClipEffects, ClipKeyframes, ClipTransform, TimelineTransition, TrackData } from "./projects"
+import { getTrimmedMediaOffset, type ClipSpeedTiming } from "./clip-speed"
+import { ANIMATABLE_PROPERTIES, shiftKeyframes } from "./keyframes"
+import { isTrackAudible } from "./tracks"
+
+/**
+ * Nested sequences and compound clips
+ * A sequence is a timeline of its own - tracks, clips and transitions - saved with the project.
+ * A compound clip plays a sequence the way other clips play media: its mediaOffset is where in
+ * the sequence it starts, so it moves, trims and splits like any clip, and one sequence can be
+ * used by any number of compound clips.
+ * Preview and export draw a flattened timeline instead: each compound clip is replaced by the
+ * clips inside it (recursively), cut to its range, moved to its position and put on stand-in
+ * tracks where its own track is. Its transform, effects and volume are combined with every
+ * inner clip's. Animation and fades go on the inner clips: a compound clip has no keyframes or
+ * audio fades of its own, the same way it has no speed.
+ */
+
+// Flattened clips and tracks are named `${compoundClipId}/${innerId}`
+export const NESTED_ID_SEPARATOR = "/"
+
+export interface NestableClip extends ClipSpeedTiming {
+  id: string
+  trackId: string
+  sequenceId?: string
+  transform?: ClipTransform
+  effects?: ClipEffects
+  audio?: ClipAudio
+  keyframes?: ClipKeyframes
+}
+
+export interface NestedTimeline<T extends NestableClip> {
+  clips: T[]
+  tracks: TrackData[] // Topmost first
+  transitions: TimelineTransition[]
+}
+
+export interface Sequence<T extends NestableClip> extends NestedTimeline<T> {
+  id: string
+  name: string
+}
+
+export function createSequenceId(): string {
+  return `seq-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Length of a sequence in ticks - the end of its last clip
+ */
+export function getSequenceDuration(sequence: { clips: { startTime: number; duration: number }[] }): number {
+  return sequence.clips.reduce((max, clip) => Math.max(max, clip.startTime + clip.duration), 0)
+}
+
+/**
+ * Name for a new sequence that doesn't clash with the existing ones, e.g. "Compound Clip 2"
+ */
+export function getDefaultSequenceName(existing: { name: string }[]): string {
+  const names = new Set(existing.map((s) => s.name))
+  let n = existing.length + 1
+  while (names.has(`Compound Clip ${n}`)) n++
+  return `Compound Clip ${n}`
+}
+
+/**
+ * The timeline clip a flattened clip came from - itself, or the outermost compound clip it's inside
+ */
+export function getTimelineClipId(renderClipId: string): string {
+  return renderClipId.split(NESTED_ID_SEPARATOR)[0]
+}
+
+/**
+ * Whether a sequence plays another one, directly or through compound clips deeper down
+ * A sequence can't be put inside itself, so this is checked before adding a compound clip to one
+ */
+export function sequenceContains<T extends NestableClip>(sequences: Sequence<T>[], sequenceId: string, targetId: string): boolean {
+  if (sequenceId === targetId) return true
+  const sequence = sequences.find((s) => s.id === sequenceId)
+  return !!sequence?.clips.some((c) => c.sequenceId && sequenceContains(sequences, c.sequenceId, targetId))
+}
+
+/**
+ * Lift clips out of a timeline into the contents of a new sequence
+ * The clips keep their tracks and their spacing, moved so the earliest starts at 0. Transitions
+ * between two of them go along; any to a clip left behind are dropped.
+ * @returns The sequence contents, and where on the timeline they started
+ */
+export function collapseClips<T extends NestableClip>(
+  timeline: NestedTimeline<T>,
+  ids: string[]
+): { data: { contents: NestedTimeline<T>; start: number; duration: number } | null; error: string | null } {
+  const clips = timeline.clips.filter((c) => ids.includes(c.id))
+  if (clips.length === 0) return { data: null, error: "No clips to collapse" }
+  const start = Math.min(...clips.map((c) => c.startTime))
+  const end = Math.max(...clips.map((c) => c.startTime + c.duration))
+  const trackIds = new Set(clips.map((c) => c.trackId))
+  return {
+    data: {
+      contents: {
+        clips: clips.map((c) => ({ ...c, startTime: c.startTime - start })),
+        tracks: timeline.tracks.filter((t) => trackIds.has(t.id)).map((t) => ({ ...t, locked: false })),
+        transitions: timeline.transitions.filter((t) => ids.includes(t.fromClipId) && ids.includes(t.toClipId)),
+      },
+      start,
+      duration: end - start,
+    },
+    error: null,
+  }
+}
+
+// How a compound clip's transform and effects carry through to a value inside it
+// Positions and scale nest like a scaled layer; the colour adjustments stack
+const COMPOSE: Record<AnimatableProperty, (value: number, transform: ClipTransform, effects: ClipEffects) => number> = {
+  positionX: (v, t) => t.positionX + (v * t.scale) / 100,
+  positionY: (v, t) => t.positionY + (v * t.scale) / 100,
+  scale: (v, t) => (v * t.scale) / 100,
+  opacity: (v, t) => (v * t.opacity) / 100,
+  blur: (v, _, e) => v + e.blur,
+  brightness: (v, _, e) => (v * e.brightness) / 100,
+  contrast: (v, _, e) => (v * e.contrast) / 100,
+  saturate: (v, _, e) => (v * e.saturate) / 100,
+  hueRotate: (v, _, e) => (v + e.hueRotate) % 360,
+}
+
+const IDENTITY_TRANSFORM: ClipTransform = { positionX: 0, positionY: 0, scale: 100, opacity: 100 }
+const IDENTITY_EFFECTS: ClipEffects = { preset: "none", blur: 0, brightness: 100, contrast: 100, saturate: 100, hueRotate: 0 }
+
+// An inner clip with the compound clip's look applied on top
+function composeLook(compound: NestableClip, clip: NestableClip): Pick<NestableClip, "transform" | "effects" | "audio" | "keyframes"> {
+  const outerTransform = compound.transform ?? IDENTITY_TRANSFORM
+  const outerEffects = compound.effects ?? IDENTITY_EFFECTS
+  const compose = (property: AnimatableProperty, value: number) => COMPOSE[property](value, outerTransform, outerEffects)
+
+  const transform = clip.transform ?? IDENTITY_TRANSFORM
+  const effects = clip.effects ?? IDENTITY_EFFECTS
+  const keyframes = clip.keyframes
+    ? Object.fromEntries(
+        ANIMATABLE_PROPERTIES.filter((p) => clip.keyframes?.[p]).map((p) => [p, clip.keyframes![p]!.map((k) => ({ ...k, value: compose(p, k.value) }))])
+      ) as ClipKeyframes
+    : undefined
+  const audio = clip.audio && compound.audio
+    ? {
+        ...clip.audio,
+        volume: (clip.audio.volume * compound.audio.volume) / 100,
+        pan: Math.max(-100, Math.min(100, clip.audio.pan + compound.audio.pan)),
+        muted: clip.audio.muted || compound.audio.muted,
+      }
+    : clip.audio
+
+  return {
+    transform: {
+      positionX: compose("positionX", transform.positionX),
+      positionY: compose("positionY", transform.positionY),
+      scale: compose("scale", transform.scale),
+      opacity: compose("opacity", transform.opacity),
+    },
+    effects: {
+      ...effects,
+      preset: effects.preset !== "none" ? effects.preset : outerEffects.preset,
+      blur: compose("blur", effects.blur),
+      brightness: compose("brightness", effects.brightness),
+      contrast: compose("contrast", effects.contrast),
+      saturate: compose("saturate", effects.saturate),
+      hueRotate: compose("hueRotate", effects.hueRotate),
+      chromakey: effects.chromakey?.enabled ? effects.chromakey : outerEffects.chromakey ?? effects.chromakey,
+    },
+    audio,
+    keyframes,
+  }
+}
+
+// An inner clip cut to the part of the sequence a compound clip plays, at the compound's position
+function placeInnerClip<T extends NestableClip>(compound: T, clip: T): T | null {
+  const windowStart = compound.mediaOffset
+  const windowEnd = compound.mediaOffset + compound.duration
+  let placed = clip
+  if (placed.startTime < windowStart) {
+    const duration = placed.startTime + placed.duration - windowStart
+    if (duration <= 0) return null
+    placed = {
+      ...placed,
+      startTime: windowStart,
+      duration,
+      mediaOffset: getTrimmedMediaOffset(placed, "left", duration),
+      keyframes: shiftKeyframes(placed.keyframes, placed.startTime - windowStart),
+    }
+  }
+  if (placed.startTime + placed.duration > windowEnd) {
+    const duration = windowEnd - placed.startTime
+    if (duration <= 0) return null
+    placed = { ...placed, duration, mediaOffset: getTrimmedMediaOffset(placed, "right", duration) }
+  }
+  return { ...placed, ...(composeLook(compound, placed) as Partial<T>), startTime: placed.startTime - windowStart + compound.startTime }
+}
+
+/**
+ * The timeline as preview and export draw it, with every compound clip replaced by its contents
+ * Stand-in tracks take the compound clip's place in the stack, hidden or muted along with its
+ * track. Transitions to or from a compound clip itself are left out.
+ * @param sequences - Every sequence in the project
+ * @param visiting - Sequences already being flattened further up, so a loop can't recurse forever
+ */
+export function flattenSequences<T extends NestableClip>(
+  timeline: NestedTimeline<T>,
+  sequences: Sequence<T>[],
+  visiting: string[] = []
+): NestedTimeline<T> {
+  if (!timeline.clips.some((c) => c.sequenceId)) return timeline
+
+  const clips: T[] = []
+  const compoundIds = new Set<string>()
+  const transitions: TimelineTransition[] = []
+  const standIns = new Map<string, TrackData[]>() // By the compound clip's track
+
+  for (const clip of timeline.clips) {
+    if (!clip.sequenceId) {
+      clips.push(clip)
+      continue
+    }
+    compoundIds.add(clip.id)
+    const sequence = sequences.find((s) => s.id === clip.sequenceId)
+    if (!sequence || visiting.includes(sequence.id)) continue
+
+    const inner = flattenSequences(sequence, sequences, [...visiting, sequence.id])
+    const prefix = `${clip.id}${NESTED_ID_SEPARATOR}`
+    const track = timeline.tracks.find((t) => t.id === clip.trackId)
+    for (const innerClip of inner.clips) {
+      const placed = placeInnerClip(clip, innerClip)
+      if (placed) clips.push({ ...placed, id: prefix + innerClip.id, trackId: prefix + innerClip.trackId })
+    }
+    // A solo inside the sequence only decides what's heard within it
+    standIns.set(clip.trackId, [
+      ...(standIns.get(clip.trackId) ?? []),
+      ...inner.tracks.map((t) => ({
+        ...t,
+        id: prefix + t.id,
+        locked: true,
+        hidden: t.hidden || !!track?.hidden,
+        muted: !isTrackAudible(t.id, inner.tracks) || !!track?.muted,
+        solo: !!track?.solo,
+      })),
+    ])
+    transitions.push(
+      ...inner.transitions.map((t) => ({ ...t, id: prefix + t.id, fromClipId: prefix + t.fromClipId, toClipId: prefix + t.toClipId }))
+    )
+  }
+
+  return {
+    clips,
+    tracks: timeline.tracks.flatMap((t) => [...(standIns.get(t.id) ?? []), t]),
+    transitions: [...timeline.transitions.filter((t) => !compoundIds.has(t.fromClipId) && !compoundIds.has(t.toClipId)), ...transitions],
+  }
+}
@@ -0,0 +1,934 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto"
+import { createReadStream, createWriteStream, promises as fs } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Media storage backends
+ * Project media, renders and AI-generated clips are stored through a StorageAdapter chosen by
+ * STORAGE_BACKEND: "supabase" (the project-media bucket, the default), "local" (files under
+ * LOCAL_STORAGE_DIR, served by /api/storage/object) or "s3" (any S3-compatible bucket).
+ * Adapters only run on the server. Browsers upload with a short-lived signed upload URL from
+ * /api/storage, and read media through getPublicUrl - the URL saved in the timeline - or a
+ * signed URL that expires. Local disk emulates both with HMAC-signed links. Large files are
+ * uploaded resumably with the backend's own protocol: S3 multipart uploads, Supabase's TUS
+ * endpoint, or numbered part files for local disk.
+ */
+
+export type StorageBackend = "supabase" | "local" | "s3"
+
+export const DEFAULT_STORAGE_BACKEND: StorageBackend = "supabase"
+export const DEFAULT_SIGNED_URL_EXPIRY = 60 * 60 // Seconds
+export const DEFAULT_UPLOAD_URL_EXPIRY = 2 * 60 * 60 // Seconds, what Supabase gives signed uploads
+
+export const RESUMABLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000 // Local uploads untouched this long are cleared out
+
+const SUPABASE_BUCKET = "project-media"
+const SUPABASE_RESUMABLE_PART_SIZE = 6 * 1024 * 1024 // Supabase only takes TUS chunks of exactly 6 MB
+const LOCAL_RESUMABLE_PART_SIZE = 8 * 1024 * 1024
+const LOCAL_UPLOADS_FOLDER = ".uploads" // Parts of unfinished uploads, under the storage root
+const S3_MIN_PART_SIZE = 8 * 1024 * 1024 // S3 takes 5 MB at the least
+const S3_MAX_PARTS = 10000
+const DEFAULT_LOCAL_STORAGE_DIR = "storage"
+const DEFAULT_LOCAL_STORAGE_URL = "http://localhost:3000/api/storage/object"
+const S3_MAX_EXPIRY = 7 * 24 * 60 * 60 // SigV4 presigned URLs last a week at most
+
+export type StorageBody = Blob | Buffer | ArrayBuffer
+
+export interface StorageUploadOptions {
+  contentType?: string
+  upsert?: boolean
+}
+
+// Where and how a browser sends a file: PUT the raw body to url with these headers
+export interface SignedUpload {
+  url: string
+  headers: Record<string, string>
+}
+
+// An upload the browser sends in parts straight to the backend, which keeps track of it
+export interface ResumableUpload {
+  key: string
+  id: string // The backend's id for the upload
+  size: number
+  partSize: number // Every part but the last is this big
+}
+
+// Where and how a browser sends one part of a resumable upload
+export interface ResumableUploadPart {
+  url: string
+  method: "PUT" | "PATCH"
+  headers: Record<string, string>
+  length: number // Bytes to send, from the offset the part was asked for
+}
+
+export interface StorageAdapter {
+  backend: StorageBackend
+  upload(key: string, body: StorageBody, options?: StorageUploadOptions): Promise<{ error: Error | null }>
+  // A lasting URL for a stored object - this is what timelines keep as a media's storageUrl
+  getPublicUrl(key: string): string
+  createSignedUrl(key: string, expiresIn?: number): Promise<{ data: string | null; error: Error | null }>
+  // Copy a stored object to a file on this server, streamed rather than held in memory
+  download(key: string, filePath: string): Promise<{ error: Error | null }>
+  createSignedUploadUrl(key: string, options?: StorageUploadOptions): Promise<{ data: SignedUpload | null; error: Error | null }>
+  remove(keys: string[]): Promise<{ error: Error | null }>
+  // Keys of the objects directly under a folder
+  list(prefix: string): Promise<{ data: string[] | null; error: Error | null }>
+  createResumableUpload(key: string, size: number, options?: StorageUploadOptions): Promise<{ data: ResumableUpload | null; error: Error | null }>
+  // The part that starts at offset, which must be where the upload is up to
+  getResumableUploadPart(upload: ResumableUpload, offset: number): Promise<{ data: ResumableUploadPart | null; error: Error | null }>
+  // Bytes the backend has received; data and error are both null when the upload is gone
+  getResumableUploadOffset(upload: ResumableUpload): Promise<{ data: number | null; error: Error | null }>
+  // Store the object once every part is in
+  completeResumableUpload(upload: ResumableUpload): Promise<{ error: Error | null }>
+  abortResumableUpload(upload: ResumableUpload): Promise<{ error: Error | null }>
+}
+
+let adapter: StorageAdapter | null = null
+
+/**
+ * The storage backend configured by STORAGE_BACKEND, created on first use
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    const backend = (process.env.STORAGE_BACKEND || DEFAULT_STORAGE_BACKEND) as StorageBackend
+    switch (backend) {
+      case "local":
+        adapter = createLocalAdapter()
+        break
+      case "s3":
+        adapter = createS3Adapter()
+        break
+      case "supabase":
+        adapter = createSupabaseAdapter()
+        break
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected supabase, local or s3)`)
+    }
+    console.log("[Storage] Using", adapter.backend, "storage")
+  }
+  return adapter
+}
+
+/**
+ * Check an object key is a plain relative path, so it can't reach outside its user's folder
+ * or the storage root
+ */
+export function isValidStorageKey(key: string): boolean {
+  if (!key || key.startsWith("/") || key.includes("\\")) return false
+  return key.split("/").every((segment) => segment !== "" && segment !== "." && segment !== "..")
+}
+
+/**
+ * A new, unique key for a file uploaded to a project: user_id/project_id/uuid.ext
+ * @returns null if the ids or name would make an invalid key
+ */
+export function createMediaStorageKey(userId: string, projectId: string, fileName: string): string | null {
+  const fileExt = fileName.split(".").pop()
+  const key = `${userId}/${projectId}/${crypto.randomUUID()}.${fileExt}`
+  return isValidStorageKey(key) ? key : null
+}
+
+function toBuffer(body: StorageBody): Promise<Buffer> | Buffer {
+  if (Buffer.isBuffer(body)) return body
+  if (body instanceof ArrayBuffer) return Buffer.from(body)
+  return body.arrayBuffer().then((data) => Buffer.from(data))
+}
+
+function getUploadHeaders(options: StorageUploadOptions): Record<string, string> {
+  return options.contentType ? { "content-type": options.contentType } : {}
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+// Stream a signed URL's object to a file
+async function downloadSignedUrl(
+  signed: { data: string | null; error: Error | null },
+  filePath: string
+): Promise<{ error: Error | null }> {
+  if (signed.error || !signed.data) return { error: signed.error ?? new Error("No URL to download from") }
+  try {
+    const response = await fetch(signed.data)
+    if (!response.ok || !response.body) return { error: new Error(`Download failed: ${response.statusText}`) }
+    await pipeline(Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]), createWriteStream(filePath))
+    return { error: null }
+  } catch (error) {
+    return { error: toError(error) }
+  }
+}
+
+// Bytes in the part that starts at offset
+function getPartLength(upload: ResumableUpload, offset: number): number {
+  return Math.min(upload.partSize, upload.size - offset)
+}
+
+// Supabase
+
+function createSupabaseAdapter(): StorageAdapter {
+  let client: SupabaseClient | null = null
+
+  // Routes check who is asking, so storage runs with the service role rather than a user's session
+  const getBucket = () => {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("Supabase storage needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY")
+    }
+    client ??= createClient(supabaseUrl, serviceRoleKey)
+    return client.storage.from(SUPABASE_BUCKET)
+  }
+
+  // Resumable uploads use Supabase's TUS endpoint for signed uploads, so the browser sends parts
+  // with an upload token for the one object rather than any key of ours
+  const getResumableUrl = (id?: string) => {
+    const base = `${process.env.NEXT_PUBLIC_SUPABASE_URL!.replace(/\/$/, "")}/storage/v1/upload/resumable/sign`
+    if (!id) return base
+    // Ids come back from the browser, so one that would lead anywhere else is refused
+    const url = new URL(`${base}/${id}`)
+    if (!url.href.startsWith(`${base}/`) || url.search || url.hash) throw new Error(`Invalid upload: ${id}`)
+    return url.href
+  }
+  const getResumableHeaders = async (key: string): Promise<Record<string, string>> => {
+    const { data, error } = await getBucket().createSignedUploadUrl(key)
+    if (error) throw new Error(error.message)
+    return { "Tus-Resumable": "1.0.0", "x-signature": data.token }
+  }
+
+  return {
+    backend: "supabase",
+
+    async upload(key, body, options = {}) {
+      try {
+        const { error } = await getBucket().upload(key, body, {
+          cacheControl: "3600",
+          contentType: options.contentType,
+          upsert: options.upsert ?? false,
+        })
+        return { error: error ? new Error(error.message) : null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    getPublicUrl(key) {
+      return getBucket().getPublicUrl(key).data.publicUrl
+    },
+
+    async createSignedUrl(key, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+      try {
+        const { data, error } = await getBucket().createSignedUrl(key, expiresIn)
+        if (error) return { data: null, error: new Error(error.message) }
+        return { data: data.signedUrl, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async download(key, filePath) {
+      return downloadSignedUrl(await this.createSignedUrl(key, 60), filePath)
+    },
+
+    async createSignedUploadUrl(key, options = {}) {
+      try {
+        const { data, error } = await getBucket().createSignedUploadUrl(key, { upsert: options.upsert ?? false })
+        if (error) return { data: null, error: new Error(error.message) }
+        return {
+          data: {
+            url: data.signedUrl,
+            headers: {
+              "cache-control": "max-age=3600",
+              "x-upsert": String(options.upsert ?? false),
+              ...getUploadHeaders(options),
+            },
+          },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async remove(keys) {
+      try {
+        const { error } = await getBucket().remove(keys)
+        return { error: error ? new Error(error.message) : null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    async list(prefix) {
+      try {
+        const { data, error } = await getBucket().list(prefix)
+        if (error) return { data: null, error: new Error(error.message) }
+        // Folders come back with a null id
+        return { data: data.filter((file) => file.id).map((file) => `${prefix}/${file.name}`), error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async createResumableUpload(key, size, options = {}) {
+      try {
+        const metadata: Record<string, string> = {
+          bucketName: SUPABASE_BUCKET,
+          objectName: key,
+          contentType: options.contentType ?? "application/octet-stream",
+          cacheControl: "3600",
+        }
+        const response = await fetch(getResumableUrl(), {
+          method: "POST",
+          headers: {
+            ...(await getResumableHeaders(key)),
+            "Upload-Length": String(size),
+            "Upload-Metadata": Object.entries(metadata)
+              .map(([name, value]) => `${name} ${Buffer.from(value).toString("base64")}`)
+              .join(","),
+            "x-upsert": String(options.upsert ?? false),
+          },
+        })
+        if (!response.ok) {
+          return { data: null, error: new Error(`Failed to start upload: ${(await response.text()) || response.statusText}`) }
+        }
+        // Only the id is kept, and the URL rebuilt from it, so a browser is never sent anywhere else
+        const base = getResumableUrl()
+        const location = new URL(response.headers.get("location") ?? "", base).href
+        if (!location.startsWith(`${base}/`)) {
+          return { data: null, error: new Error("Unexpected upload location") }
+        }
+        const id = location.slice(base.length + 1)
+        return { data: { key, id, size, partSize: SUPABASE_RESUMABLE_PART_SIZE }, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async getResumableUploadPart(upload, offset) {
+      try {
+        return {
+          data: {
+            url: getResumableUrl(upload.id),
+            method: "PATCH",
+            headers: {
+              ...(await getResumableHeaders(upload.key)),
+              "Upload-Offset": String(offset),
+              "Content-Type": "application/offset+octet-stream",
+            },
+            length: getPartLength(upload, offset),
+          },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async getResumableUploadOffset(upload) {
+      try {
+        const response = await fetch(getResumableUrl(upload.id), {
+          method: "HEAD",
+          headers: await getResumableHeaders(upload.key),
+        })
+        if (response.status === 404 || response.status === 410) {
+          // A finished upload is forgotten once the object is stored
+          const { data: exists } = await getBucket().exists(upload.key)
+          return { data: exists ? upload.size : null, error: null }
+        }
+        if (!response.ok) return { data: null, error: new Error(`Failed to check upload: ${response.statusText}`) }
+        return { data: Number(response.headers.get("upload-offset")), error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // TUS stores the object as the last byte arrives, so this only checks it did
+    async completeResumableUpload(upload) {
+      const { data: offset, error } = await this.getResumableUploadOffset(upload)
+      if (error) return { error }
+      return { error: offset === upload.size ? null : new Error(`Upload has ${offset ?? 0} of ${upload.size} bytes`) }
+    },
+
+    async abortResumableUpload(upload) {
+      try {
+        const response = await fetch(getResumableUrl(upload.id), {
+          method: "DELETE",
+          headers: await getResumableHeaders(upload.key),
+        })
+        if (!response.ok && response.status !== 404 && response.status !== 410) {
+          return { error: new Error(`Failed to cancel upload: ${response.statusText}`) }
+        }
+        return { error: null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+  }
+}
+
+// Local disk
+
+export type LocalStorageAction = "read" | "write"
+
+function getLocalSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET
+  if (!secret) throw new Error("Local storage needs STORAGE_SIGNING_SECRET to sign its URLs")
+  return secret
+}
+
+export function getLocalStorageRoot(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || DEFAULT_LOCAL_STORAGE_DIR)
+}
+
+// The file an object key is stored in, or null for a key that would land outside the root
+export function getLocalStoragePath(key: string): string | null {
+  if (!isValidStorageKey(key)) return null
+  const root = getLocalStorageRoot()
+  const filePath = path.resolve(root, key)
+  return filePath.startsWith(root + path.sep) ? filePath : null
+}
+
+/**
+ * @param expires - Unix time in seconds, or 0 for a link that doesn't expire
+ * @param limit - Most bytes a write link takes, or 0 for no limit
+ * @param upsert - Whether a write link may replace an existing file
+ */
+function signLocalUrl(action: LocalStorageAction, key: string, expires: number, limit = 0, upsert = false): string {
+  const message = `${action}\n${key}\n${expires}${limit ? `\n${limit}` : ""}${upsert ? "\nupsert" : ""}`
+  return createHmac("sha256", getLocalSigningSecret()).update(message).digest("hex")
+}
+
+function buildLocalUrl(action: LocalStorageAction, key: string, expires: number, limit = 0, upsert = false): string {
+  const base = (process.env.LOCAL_STORAGE_URL || DEFAULT_LOCAL_STORAGE_URL).replace(/\/$/, "")
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/")
+  const params = new URLSearchParams({ signature: signLocalUrl(action, key, expires, limit, upsert) })
+  if (expires) params.set("expires", String(expires))
+  if (limit) params.set("limit", String(limit))
+  if (upsert) params.set("upsert", "true")
+  return `${base}/${encodedKey}?${params}`
+}
+
+/**
+ * Check the signature on a local storage URL, as /api/storage/object receives it
+ * @returns Why the URL isn't valid, or null when it is
+ */
+export function verifyLocalStorageUrl(
+  action: LocalStorageAction,
+  key: string,
+  params: URLSearchParams
+): string | null {
+  const signature = params.get("signature")
+  if (!signature) return "Missing signature"
+  const expires = Number(params.get("expires") ?? 0)
+  if (!Number.isInteger(expires) || expires < 0) return "Invalid expiry"
+  if (expires && expires < Math.floor(Date.now() / 1000)) return "Link expired"
+  const limit = Number(params.get("limit") ?? 0)
+  if (!Number.isInteger(limit) || limit < 0) return "Invalid limit"
+  // Signed too, so a link can't be turned into one that overwrites
+  const upsert = params.get("upsert") === "true"
+  const expected = Buffer.from(signLocalUrl(action, key, expires, limit, upsert))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return "Invalid signature"
+  return null
+}
+
+function createLocalAdapter(): StorageAdapter {
+  const expiresAt = (seconds: number) => Math.floor(Date.now() / 1000) + seconds
+
+  // Resumable uploads are written a part to a file, numbered from 1, in a folder of their own.
+  // Their ids are UUIDs; anything else could name a folder that isn't an upload's
+  const getUploadFolderKey = (id: string) => (/^[0-9a-f-]{36}$/i.test(id) ? `${LOCAL_UPLOADS_FOLDER}/${id}` : "")
+  const getPartNumber = (upload: ResumableUpload, offset: number) => offset / upload.partSize + 1
+
+  // Clear out uploads that were abandoned; a folder's time changes with every part added
+  const removeStaleUploads = async () => {
+    const root = path.join(getLocalStorageRoot(), LOCAL_UPLOADS_FOLDER)
+    const entries = await fs.readdir(root).catch(() => [] as string[])
+    for (const entry of entries) {
+      const stat = await fs.stat(path.join(root, entry)).catch(() => null)
+      if (stat && Date.now() - stat.mtimeMs > RESUMABLE_UPLOAD_TTL_MS) {
+        await fs.rm(path.join(root, entry), { recursive: true, force: true })
+      }
+    }
+  }
+
+  return {
+    backend: "local",
+
+    async upload(key, body, options = {}) {
+      const filePath = getLocalStoragePath(key)
+      if (!filePath) return { error: new Error(`Invalid storage key: ${key}`) }
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        // "wx" fails when the file exists, like an upload without upsert
+        const flag = options.upsert ? "w" : "wx"
+        if (body instanceof Blob) {
+          // Streamed, as large uploads arrive as file-backed blobs
+          await pipeline(Readable.fromWeb(body.stream() as Parameters<typeof Readable.fromWeb>[0]), createWriteStream(filePath, { flags: flag }))
+        } else {
+          await fs.writeFile(filePath, await toBuffer(body), { flag })
+        }
+        return { error: null }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+          return { error: new Error("The resource already exists") }
+        }
+        return { error: toError(error) }
+      }
+    },
+
+    // Unexpiring but signed, so a file can only be read by someone who was given its link
+    getPublicUrl(key) {
+      return buildLocalUrl("read", key, 0)
+    },
+
+    async createSignedUrl(key, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+      try {
+        return { data: buildLocalUrl("read", key, expiresAt(expiresIn)), error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // Straight from disk - the server may not be able to reach its own public URL
+    async download(key, filePath) {
+      const sourcePath = getLocalStoragePath(key)
+      if (!sourcePath) return { error: new Error(`Invalid storage key: ${key}`) }
+      try {
+        await fs.copyFile(sourcePath, filePath)
+        return { error: null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    async createSignedUploadUrl(key, options = {}) {
+      if (!getLocalStoragePath(key)) return { data: null, error: new Error(`Invalid storage key: ${key}`) }
+      try {
+        return {
+          data: { url: buildLocalUrl("write", key, expiresAt(DEFAULT_UPLOAD_URL_EXPIRY), 0, options.upsert), headers: getUploadHeaders(options) },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async remove(keys) {
+      for (const key of keys) {
+        const filePath = getLocalStoragePath(key)
+        if (!filePath) return { error: new Error(`Invalid storage key: ${key}`) }
+        await fs.rm(filePath, { force: true })
+      }
+      return { error: null }
+    },
+
+    async list(prefix) {
+      const folder = getLocalStoragePath(prefix)
+      if (!folder) return { data: null, error: new Error(`Invalid storage key: ${prefix}`) }
+      try {
+        const entries = await fs.readdir(folder, { withFileTypes: true })
+        return { data: entries.filter((entry) => entry.isFile()).map((entry) => `${prefix}/${entry.name}`), error: null }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return { data: [], error: null }
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async createResumableUpload(key, size) {
+      if (!getLocalStoragePath(key)) return { data: null, error: new Error(`Invalid storage key: ${key}`) }
+      try {
+        await removeStaleUploads()
+        const id = crypto.randomUUID()
+        await fs.mkdir(getLocalStoragePath(getUploadFolderKey(id))!, { recursive: true })
+        return { data: { key, id, size, partSize: LOCAL_RESUMABLE_PART_SIZE }, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // A signed write link capped at the part's length; a retried part replaces one that was cut off
+    async getResumableUploadPart(upload, offset) {
+      const partKey = `${getUploadFolderKey(upload.id)}/${getPartNumber(upload, offset)}`
+      if (!getLocalStoragePath(partKey)) return { data: null, error: new Error(`Invalid upload: ${upload.id}`) }
+      try {
+        const length = getPartLength(upload, offset)
+        // A retried part replaces what was sent of it before
+        const url = buildLocalUrl("write", partKey, expiresAt(DEFAULT_UPLOAD_URL_EXPIRY), length, true)
+        return { data: { url, method: "PUT", headers: {}, length }, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // Parts count once they're whole, in order from the first
+    async getResumableUploadOffset(upload) {
+      const folder = getLocalStoragePath(getUploadFolderKey(upload.id))
+      const filePath = getLocalStoragePath(upload.key)
+      if (!folder || !filePath) return { data: null, error: new Error(`Invalid upload: ${upload.id}`) }
+      try {
+        if (!(await fs.stat(folder).catch(() => null))) {
+          // A finished upload's parts are cleared once the object is stored
+          const stored = await fs.stat(filePath).catch(() => null)
+          return { data: stored ? upload.size : null, error: null }
+        }
+        let offset = 0
+        while (offset < upload.size) {
+          const part = await fs.stat(path.join(folder, String(getPartNumber(upload, offset)))).catch(() => null)
+          if (part?.size !== getPartLength(upload, offset)) break
+          offset += part.size
+        }
+        return { data: offset, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async completeResumableUpload(upload) {
+      const { data: offset, error } = await this.getResumableUploadOffset(upload)
+      if (error) return { error }
+      if (offset !== upload.size) return { error: new Error(`Upload has ${offset ?? 0} of ${upload.size} bytes`) }
+      const folder = getLocalStoragePath(getUploadFolderKey(upload.id))!
+      const filePath = getLocalStoragePath(upload.key)!
+      if (!(await fs.stat(folder).catch(() => null))) return { error: null } // Already stored
+
+      const partCount = Math.ceil(upload.size / upload.partSize)
+      try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await pipeline(
+          async function* () {
+            for (let part = 1; part <= partCount; part++) yield* createReadStream(path.join(folder, String(part)))
+          },
+          createWriteStream(filePath, { flags: "wx" })
+        )
+      } catch (error) {
+        // Another request is storing it
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") return { error: null }
+        await fs.rm(filePath, { force: true })
+        return { error: toError(error) }
+      }
+      await fs.rm(folder, { recursive: true, force: true })
+      return { error: null }
+    },
+
+    async abortResumableUpload(upload) {
+      const folder = getLocalStoragePath(getUploadFolderKey(upload.id))
+      if (!folder) return { error: new Error(`Invalid upload: ${upload.id}`) }
+      await fs.rm(folder, { recursive: true, force: true })
+      return { error: null }
+    },
+  }
+}
+
+// S3-compatible (AWS, R2, MinIO...), with requests signed by hand using AWS Signature Version 4
+
+interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  publicUrl: string | null
+}
+
+function getS3Config(): S3Config {
+  const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PUBLIC_URL } = process.env
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error("S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+  }
+  const region = S3_REGION || "us-east-1"
+  return {
+    endpoint: (S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ""),
+    region,
+    bucket: S3_BUCKET,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    publicUrl: S3_PUBLIC_URL ? S3_PUBLIC_URL.replace(/\/$/, "") : null,
+  }
+}
+
+// RFC 3986 encoding, which SigV4 canonical requests use
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function encodeS3Key(key: string): string {
+  return key.split("/").map(encodeRfc3986).join("/")
+}
+
+/**
+ * Presign an S3 request with the credentials in the query string, so it can be sent by
+ * fetch here or handed to a browser
+ */
+function presignS3Request(
+  config: S3Config,
+  method: "GET" | "HEAD" | "PUT" | "POST" | "DELETE",
+  key: string,
+  expiresIn: number,
+  query: Record<string, string> = {}
+): string {
+  const url = new URL(`${config.endpoint}/${config.bucket}${key ? `/${encodeS3Key(key)}` : ""}`)
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`
+
+  const params: Record<string, string> = {
+    ...query,
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(Math.min(expiresIn, S3_MAX_EXPIRY)),
+    "X-Amz-SignedHeaders": "host",
+  }
+  const canonicalQuery = Object.keys(params)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join("&")
+  const canonicalRequest = [method, url.pathname, canonicalQuery, `host:${url.host}`, "", "host", "UNSIGNED-PAYLOAD"].join("\n")
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, createHash("sha256").update(canonicalRequest).digest("hex")].join("\n")
+
+  const signingKey = [amzDate.slice(0, 8), config.region, "s3", "aws4_request"].reduce<Buffer>(
+    (key, part) => createHmac("sha256", key).update(part).digest(),
+    Buffer.from(`AWS4${config.secretAccessKey}`)
+  )
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+  return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`
+}
+
+async function checkS3Response(response: Response, action: string): Promise<Error | null> {
+  if (response.ok) return null
+  const body = await response.text()
+  const code = body.match(/<Code>(.*?)<\/Code>/)?.[1]
+  return new Error(`S3 ${action} failed: ${code ?? response.statusText}`)
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&")
+}
+
+interface S3UploadPart {
+  number: number
+  etag: string // As S3 lists it, XML-escaped quotes and all
+  size: number
+}
+
+/**
+ * Every part S3 has of a multipart upload, a page of up to 1000 at a time
+ * @returns null data and error when S3 no longer has the upload
+ */
+async function listS3UploadParts(
+  config: S3Config,
+  upload: ResumableUpload
+): Promise<{ data: S3UploadPart[] | null; error: Error | null }> {
+  const parts: S3UploadPart[] = []
+  let marker = "0"
+  while (true) {
+    const query = { uploadId: upload.id, "part-number-marker": marker }
+    const response = await fetch(presignS3Request(config, "GET", upload.key, 60, query))
+    if (response.status === 404) return { data: null, error: null }
+    const error = await checkS3Response(response, "list parts")
+    if (error) return { data: null, error }
+    const xml = await response.text()
+    for (const [, part] of xml.matchAll(/<Part>([\s\S]*?)<\/Part>/g)) {
+      const field = (name: string) => part.match(new RegExp(`<${name}>(.*?)</${name}>`))?.[1] ?? ""
+      parts.push({ number: Number(field("PartNumber")), etag: field("ETag"), size: Number(field("Size")) })
+    }
+    const next = xml.match(/<NextPartNumberMarker>(\d+)<\/NextPartNumberMarker>/)?.[1]
+    if (!/<IsTruncated>true<\/IsTruncated>/.test(xml) || !next) return { data: parts, error: null }
+    marker = next
+  }
+}
+
+// The whole parts from the first, in order, and how many bytes they cover
+function getContiguousParts(upload: ResumableUpload, parts: S3UploadPart[]): { parts: S3UploadPart[]; offset: number } {
+  const byNumber = new Map(parts.map((part) => [part.number, part]))
+  const contiguous: S3UploadPart[] = []
+  let offset = 0
+  while (offset < upload.size) {
+    const part = byNumber.get(contiguous.length + 1)
+    if (part?.size !== getPartLength(upload, offset)) break
+    contiguous.push(part)
+    offset += part.size
+  }
+  return { parts: contiguous, offset }
+}
+
+function createS3Adapter(): StorageAdapter {
+  const config = getS3Config()
+
+  return {
+    backend: "s3",
+
+    async upload(key, body, options = {}) {
+      try {
+        if (!options.upsert) {
+          const existing = await fetch(presignS3Request(config, "HEAD", key, 60), { method: "HEAD" })
+          if (existing.ok) return { error: new Error("The resource already exists") }
+        }
+        const response = await fetch(presignS3Request(config, "PUT", key, 60), {
+          method: "PUT",
+          headers: getUploadHeaders(options),
+          body: body instanceof Blob ? body : new Uint8Array(await toBuffer(body)),
+        })
+        return { error: await checkS3Response(response, "upload") }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    // S3_PUBLIC_URL is for a CDN or custom domain in front of the bucket; otherwise the bucket must allow public reads
+    getPublicUrl(key) {
+      return `${config.publicUrl ?? `${config.endpoint}/${config.bucket}`}/${encodeS3Key(key)}`
+    },
+
+    async createSignedUrl(key, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+      try {
+        return { data: presignS3Request(config, "GET", key, expiresIn), error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async download(key, filePath) {
+      return downloadSignedUrl(await this.createSignedUrl(key, 60), filePath)
+    },
+
+    // Presigned PUTs always overwrite - keys are unique per upload, so that only matters for upsert: false
+    async createSignedUploadUrl(key, options = {}) {
+      try {
+        return {
+          data: {
+            url: presignS3Request(config, "PUT", key, DEFAULT_UPLOAD_URL_EXPIRY),
+            headers: getUploadHeaders(options),
+          },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async remove(keys) {
+      try {
+        for (const key of keys) {
+          const response = await fetch(presignS3Request(config, "DELETE", key, 60), { method: "DELETE" })
+          const error = await checkS3Response(response, "delete")
+          if (error) return { error }
+        }
+        return { error: null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    async list(prefix) {
+      try {
+        const query = { "list-type": "2", prefix: `${prefix}/`, delimiter: "/" }
+        const response = await fetch(presignS3Request(config, "GET", "", 60, query))
+        const error = await checkS3Response(response, "list")
+        if (error) return { data: null, error }
+        const xml = await response.text()
+        // Keys are XML-escaped in the listing
+        const keys = [...xml.matchAll(/<Key>(.*?)<\/Key>/g)].map((match) => unescapeXml(match[1]))
+        return { data: keys, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // Multipart, in parts big enough that the largest file fits in S3's 10,000
+    async createResumableUpload(key, size, options = {}) {
+      try {
+        const megabyte = 1024 * 1024
+        const partSize = Math.max(S3_MIN_PART_SIZE, Math.ceil(size / S3_MAX_PARTS / megabyte) * megabyte)
+        const response = await fetch(presignS3Request(config, "POST", key, 60, { uploads: "" }), {
+          method: "POST",
+          headers: getUploadHeaders(options),
+        })
+        const error = await checkS3Response(response, "start upload")
+        if (error) return { data: null, error }
+        const id = (await response.text()).match(/<UploadId>(.*?)<\/UploadId>/)?.[1]
+        if (!id) return { data: null, error: new Error("S3 start upload failed: no UploadId") }
+        return { data: { key, id: unescapeXml(id), size, partSize }, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    // A retried part replaces the one with its number
+    async getResumableUploadPart(upload, offset) {
+      try {
+        const query = { partNumber: String(offset / upload.partSize + 1), uploadId: upload.id }
+        return {
+          data: {
+            url: presignS3Request(config, "PUT", upload.key, DEFAULT_UPLOAD_URL_EXPIRY, query),
+            method: "PUT",
+            headers: {},
+            length: getPartLength(upload, offset),
+          },
+          error: null,
+        }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async getResumableUploadOffset(upload) {
+      try {
+        const { data: parts, error } = await listS3UploadParts(config, upload)
+        if (error) return { data: null, error }
+        if (!parts) {
+          // A finished upload is forgotten once the object is stored
+          const stored = await fetch(presignS3Request(config, "HEAD", upload.key, 60), { method: "HEAD" })
+          return { data: stored.ok ? upload.size : null, error: null }
+        }
+        return { data: getContiguousParts(upload, parts).offset, error: null }
+      } catch (error) {
+        return { data: null, error: toError(error) }
+      }
+    },
+
+    async completeResumableUpload(upload) {
+      try {
+        const { data: listed, error } = await listS3UploadParts(config, upload)
+        if (error) return { error }
+        if (!listed) {
+          const stored = await fetch(presignS3Request(config, "HEAD", upload.key, 60), { method: "HEAD" })
+          return { error: stored.ok ? null : new Error("Upload not found") }
+        }
+        const { parts, offset } = getContiguousParts(upload, listed)
+        if (offset !== upload.size) return { error: new Error(`Upload has ${offset} of ${upload.size} bytes`) }
+
+        const body = `<CompleteMultipartUpload>${parts
+          .map((part) => `<Part><PartNumber>${part.number}</PartNumber><ETag>${part.etag}</ETag></Part>`)
+          .join("")}</CompleteMultipartUpload>`
+        const response = await fetch(presignS3Request(config, "POST", upload.key, 60, { uploadId: upload.id }), {
+          method: "POST",
+          body,
+        })
+        const failure = await checkS3Response(response, "complete upload")
+        if (failure) return { error: failure }
+        // S3 can fail a completion after it has sent 200
+        const code = (await response.text()).match(/<Error>[\s\S]*?<Code>(.*?)<\/Code>/)?.[1]
+        return { error: code ? new Error(`S3 complete upload failed: ${code}`) : null }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+
+    async abortResumableUpload(upload) {
+      try {
+        const response = await fetch(presignS3Request(config, "DELETE", upload.key, 60, { uploadId: upload.id }), {
+          method: "DELETE",
+        })
+        if (response.status === 404) return { error: null }
+        return { error: await checkS3Response(response, "cancel upload") }
+      } catch (error) {
+        return { error: toError(error) }
+      }
+    },
+  }
+}
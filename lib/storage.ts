@@ -1,116 +1,251 @@
-import { createClient } from "@/lib/supabase/client"
-
-const BUCKET_NAME = "project-media"
+/**
+ * Media uploads from the browser
+ * Files go to whichever storage backend the server is configured with (see lib/storage-adapter).
+ * Small files are sent in one request to a signed upload URL from /api/storage. Imported media
+ * uses a resumable upload started through /api/storage/uploads instead (see lib/resumable-uploads):
+ * it is sent in parts of the size the backend asks for, each straight to a signed target, reports
+ * progress, retries failed parts with backoff, and can be paused and picked up again - after a
+ * reload too - by its upload id.
+ */
+
+export const MAX_UPLOAD_RETRIES = 5 // Per part
+export const UPLOAD_RETRY_BASE_DELAY_MS = 1000 // Doubled on each retry
+const MAX_UPLOAD_RETRY_DELAY_MS = 30_000
 
 export interface UploadResult {
   path: string
   url: string
 }
 
-// Upload a media file to Supabase Storage
+export interface ResumableUploadOptions {
+  uploadId?: string // An earlier upload of this file to carry on with
+  signal?: AbortSignal // Aborting pauses the upload; pass its uploadId to carry on
+  onStart?: (uploadId: string) => void // A new upload session was created
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void
+}
+
+interface SignedUploadResponse extends UploadResult {
+  uploadUrl: string
+  uploadHeaders: Record<string, string>
+}
+
+// One part of a resumable upload, as /api/storage/uploads/[id] signs it
+interface UploadPartTarget {
+  url: string
+  method: "PUT" | "PATCH"
+  headers: Record<string, string>
+  length: number
+}
+
+// e.g. "1.2 GB"
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"]
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value < 10 && unit > 0 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => null)
+  return new Error(body?.error || body?.message || `${fallback}: ${response.statusText}`)
+}
+
+// Upload a media file to project storage
 export async function uploadMediaFile(
   projectId: string,
   file: File
 ): Promise<{ data: UploadResult | null; error: Error | null }> {
-  const supabase = createClient()
-  
-  const { data: user } = await supabase.auth.getUser()
-  if (!user.user) {
-    return { data: null, error: new Error("Not authenticated") }
-  }
-
-  // Create a unique path: user_id/project_id/filename
-  const fileExt = file.name.split('.').pop()
-  const uniqueId = crypto.randomUUID()
-  const path = `${user.user.id}/${projectId}/${uniqueId}.${fileExt}`
+  try {
+    const signResponse = await fetch("/api/storage", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, fileName: file.name, contentType: file.type || undefined }),
+    })
+    if (!signResponse.ok) {
+      return { data: null, error: await readError(signResponse, "Failed to start upload") }
+    }
+    const { path, url, uploadUrl, uploadHeaders } = await signResponse.json() as SignedUploadResponse
 
-  console.log("Uploading file to:", path)
+    console.log("Uploading file to:", path)
 
-  const { error: uploadError } = await supabase.storage
-    .from(BUCKET_NAME)
-    .upload(path, file, {
-      cacheControl: '3600',
-      upsert: false
+    const uploadResponse = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: uploadHeaders,
+      body: file,
     })
+    if (!uploadResponse.ok) {
+      const error = await readError(uploadResponse, "Upload failed")
+      console.error("Upload error:", error)
+      return { data: null, error }
+    }
 
-  if (uploadError) {
-    console.error("Upload error:", uploadError)
-    return { data: null, error: new Error(uploadError.message) }
-  }
-
-  // Get the public URL
-  const { data: urlData } = supabase.storage
-    .from(BUCKET_NAME)
-    .getPublicUrl(path)
-
-  return { 
-    data: { 
-      path, 
-      url: urlData.publicUrl 
-    }, 
-    error: null 
+    return { data: { path, url }, error: null }
+  } catch (error) {
+    console.error("Upload error:", error)
+    return { data: null, error: error instanceof Error ? error : new Error("Upload failed") }
   }
 }
 
-// Download a media file from Supabase Storage (returns blob URL)
-export async function getMediaFileUrl(path: string): Promise<{ url: string | null; error: Error | null }> {
-  const supabase = createClient()
-
-  // Get signed URL for private bucket or public URL
-  const { data } = supabase.storage
-    .from(BUCKET_NAME)
-    .getPublicUrl(path)
+// Wait before a retry, cut short if the upload is paused
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
 
-  return { url: data.publicUrl, error: null }
+// Where an earlier upload is up to, or null if the server no longer has it
+async function getUploadOffset(uploadId: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await fetch(`/api/storage/uploads/${uploadId}`, { method: "HEAD", signal })
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(`Failed to check upload: ${response.statusText}`)
+  return Number(response.headers.get("upload-offset"))
 }
 
-// Delete a media file from Supabase Storage
-export async function deleteMediaFile(path: string): Promise<{ error: Error | null }> {
-  const supabase = createClient()
+/**
+ * Upload a media file in resumable parts
+ * Resolves with an error when the signal aborts it, and the upload can be resumed later;
+ * callers tell the two apart by checking the signal.
+ */
+export async function uploadMediaFileResumable(
+  projectId: string,
+  file: File,
+  options: ResumableUploadOptions = {}
+): Promise<{ data: UploadResult | null; error: Error | null }> {
+  const { signal } = options
+  try {
+    let uploadId = options.uploadId
+    const resumedOffset = uploadId ? await getUploadOffset(uploadId, signal) : null
+
+    if (!uploadId || resumedOffset === null) {
+      const startResponse = await fetch("/api/storage/uploads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, fileName: file.name, contentType: file.type || undefined, size: file.size }),
+        signal,
+      })
+      if (!startResponse.ok) {
+        return { data: null, error: await readError(startResponse, "Failed to start upload") }
+      }
+      const started = await startResponse.json() as { uploadId: string }
+      uploadId = started.uploadId
+      options.onStart?.(uploadId)
+    }
+    let offset = resumedOffset ?? 0
+    options.onProgress?.(offset, file.size)
+
+    let attempt = 0
+    // Each part is signed, then sent to the backend; the last step asks the server to store the file
+    while (true) {
+      let failure = new Error("Part upload failed")
+      let retryable = true
+      try {
+        if (offset < file.size) {
+          const targetResponse = await fetch(`/api/storage/uploads/${uploadId}?offset=${offset}`, { signal })
+          if (!targetResponse.ok) {
+            failure = await readError(targetResponse, "Failed to sign part")
+            retryable = targetResponse.status >= 500
+          } else {
+            const part = await targetResponse.json() as UploadPartTarget
+            const response = await fetch(part.url, {
+              method: part.method,
+              headers: part.headers,
+              body: file.slice(offset, offset + part.length),
+              signal,
+            })
+            if (response.ok) {
+              offset += part.length
+              attempt = 0
+              options.onProgress?.(offset, file.size)
+              continue
+            }
+            failure = await readError(response, "Part upload failed")
+          }
+        } else {
+          const completeResponse = await fetch(`/api/storage/uploads/${uploadId}`, { method: "POST", signal })
+          if (completeResponse.ok) {
+            const result = await completeResponse.json() as UploadResult
+            return { data: { path: result.path, url: result.url }, error: null }
+          }
+          failure = await readError(completeResponse, "Failed to store upload")
+          retryable = completeResponse.status >= 500
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error
+        if (error instanceof Error) failure = error
+      }
+
+      // Only network errors, server errors and parts the backend turned away are worth another try
+      if (!retryable || attempt >= MAX_UPLOAD_RETRIES) {
+        console.error("Upload error:", failure)
+        return { data: null, error: failure }
+      }
+      attempt++
+      const delay = Math.min(UPLOAD_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), MAX_UPLOAD_RETRY_DELAY_MS)
+      options.onRetry?.(attempt, delay, failure)
+      await wait(delay, signal)
+
+      // A part may have arrived though its response didn't: carry on from where the backend is really up to
+      const serverOffset = await getUploadOffset(uploadId, signal).catch(() => offset)
+      if (serverOffset === null) {
+        return { data: null, error: new Error("The upload expired before it finished") }
+      }
+      offset = serverOffset
+      options.onProgress?.(offset, file.size)
+    }
+  } catch (error) {
+    if (signal?.aborted) return { data: null, error: new Error("Upload paused") }
+    console.error("Upload error:", error)
+    return { data: null, error: error instanceof Error ? error : new Error("Upload failed") }
+  }
+}
 
-  const { error } = await supabase.storage
-    .from(BUCKET_NAME)
-    .remove([path])
+// Give up on an upload, so the backend drops the parts it was holding
+export async function cancelResumableUpload(uploadId: string): Promise<void> {
+  await fetch(`/api/storage/uploads/${uploadId}`, { method: "DELETE" }).catch(() => {})
+}
 
-  if (error) {
-    return { error: new Error(error.message) }
+// Get a signed URL to read a media file, valid for an hour
+export async function getMediaFileUrl(path: string): Promise<{ url: string | null; error: Error | null }> {
+  const response = await fetch(`/api/storage?path=${encodeURIComponent(path)}`)
+  if (!response.ok) {
+    return { url: null, error: await readError(response, "Failed to get file URL") }
   }
+  const { url } = await response.json()
+  return { url, error: null }
+}
 
+// Delete a media file from project storage
+export async function deleteMediaFile(path: string): Promise<{ error: Error | null }> {
+  const response = await fetch("/api/storage", {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ paths: [path] }),
+  })
+  if (!response.ok) {
+    return { error: await readError(response, "Failed to delete file") }
+  }
   return { error: null }
 }
 
 // Delete all media files for a project
 export async function deleteProjectMedia(projectId: string): Promise<{ error: Error | null }> {
-  const supabase = createClient()
-  
-  const { data: user } = await supabase.auth.getUser()
-  if (!user.user) {
-    return { error: new Error("Not authenticated") }
-  }
-
-  const folderPath = `${user.user.id}/${projectId}`
-  
-  // List all files in the project folder
-  const { data: files, error: listError } = await supabase.storage
-    .from(BUCKET_NAME)
-    .list(folderPath)
-
-  if (listError) {
-    return { error: new Error(listError.message) }
+  const response = await fetch("/api/storage", {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ projectId }),
+  })
+  if (!response.ok) {
+    return { error: await readError(response, "Failed to delete project media") }
   }
-
-  if (files && files.length > 0) {
-    const filePaths = files.map(f => `${folderPath}/${f.name}`)
-    
-    const { error: deleteError } = await supabase.storage
-      .from(BUCKET_NAME)
-      .remove(filePaths)
-
-    if (deleteError) {
-      return { error: new Error(deleteError.message) }
-    }
-  }
-
   return { error: null }
 }
-
@@ -1,9 +1,13 @@
 import { createBrowserClient } from '@supabase/ssr'
 
+// Without Supabase the app runs in local-only mode - projects and media stay in this browser (see lib/local-store)
+export function isSupabaseConfigured() {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+}
+
 export function createClient() {
   return createBrowserClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
   )
 }
-
@@ -0,0 +1,145 @@
+import type { ClipTransform, TextClipStyle } from "./projects"
+
+/**
+ * Text and title clips
+ * Text clips sit on video tracks like any other clip but have no media - the text is drawn
+ * straight onto a canvas. The preview and export both draw through drawTextClip on a
+ * 1920x1080 canvas, so a title looks the same in both. A text clip's source time starts at
+ * its mediaOffset, so splits and trims work as they do for video.
+ */
+
+export const TEXT_CANVAS_WIDTH = 1920
+export const TEXT_CANVAS_HEIGHT = 1080
+
+// Seconds a new text clip lasts on the timeline
+export const DEFAULT_TEXT_DURATION = 3
+
+// Fonts every browser has, so the export matches the preview without loading web fonts
+export const TEXT_FONTS = [
+  "Arial",
+  "Helvetica",
+  "Verdana",
+  "Trebuchet MS",
+  "Georgia",
+  "Times New Roman",
+  "Courier New",
+  "Impact",
+]
+
+export const DEFAULT_TEXT_STYLE: TextClipStyle = {
+  content: "Title",
+  fontFamily: "Arial",
+  fontSize: 96,
+  fontWeight: 700,
+  italic: false,
+  color: "#ffffff",
+  strokeColor: "#000000",
+  strokeWidth: 0,
+  shadowColor: "#000000",
+  shadowBlur: 12,
+  shadowOffsetX: 0,
+  shadowOffsetY: 4,
+  backgroundColor: "#000000",
+  backgroundOpacity: 0,
+  padding: 24,
+  align: "center",
+  verticalAlign: "middle",
+}
+
+// Gap kept between the text block and the frame edge when it's aligned to a side
+const SAFE_MARGIN = 0.05
+const LINE_HEIGHT = 1.2
+
+/**
+ * Fill in any style fields missing from saved or agent-provided text
+ */
+export function resolveTextStyle(text: Partial<TextClipStyle> | undefined): TextClipStyle {
+  return { ...DEFAULT_TEXT_STYLE, ...text }
+}
+
+/**
+ * Label shown for a text clip on the timeline
+ */
+export function getTextClipLabel(content: string): string {
+  const firstLine = content.split("\n")[0].trim()
+  return firstLine.length > 0 ? firstLine.slice(0, 40) : "Text"
+}
+
+/**
+ * Draw a text clip onto a canvas
+ * The block is placed by its alignment, then moved and scaled about its centre by the
+ * clip transform. Callers set any filter on the context first; opacity is applied here.
+ * @param ctx - Context for a canvas of width x height
+ * @param style - Text content and styling
+ * @param transform - The clip transform at this frame (keyframes already applied)
+ */
+export function drawTextClip(
+  ctx: CanvasRenderingContext2D,
+  style: TextClipStyle,
+  transform: ClipTransform,
+  width: number,
+  height: number
+) {
+  const lines = style.content.split("\n")
+  if (lines.every((line) => line.length === 0)) return
+
+  // Styles are sized for the 1920px-wide export canvas
+  const unit = width / TEXT_CANVAS_WIDTH
+
+  ctx.save()
+  ctx.font = `${style.italic ? "italic " : ""}${style.fontWeight} ${style.fontSize * unit}px "${style.fontFamily}", sans-serif`
+  const lineHeight = style.fontSize * unit * LINE_HEIGHT
+  const padding = style.padding * unit
+  const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width))
+  const boxWidth = textWidth + padding * 2
+  const boxHeight = lines.length * lineHeight + padding * 2
+
+  // Where the block sits before the clip transform
+  const marginX = width * SAFE_MARGIN
+  const marginY = height * SAFE_MARGIN
+  const boxX = style.align === "left" ? marginX : style.align === "right" ? width - marginX - boxWidth : (width - boxWidth) / 2
+  const boxY = style.verticalAlign === "top" ? marginY : style.verticalAlign === "bottom" ? height - marginY - boxHeight : (height - boxHeight) / 2
+
+  ctx.translate(boxX + boxWidth / 2 + transform.positionX * unit, boxY + boxHeight / 2 + transform.positionY * unit)
+  ctx.scale(transform.scale / 100, transform.scale / 100)
+  ctx.globalAlpha *= transform.opacity / 100
+
+  if (style.backgroundOpacity > 0) {
+    ctx.save()
+    ctx.globalAlpha *= style.backgroundOpacity / 100
+    ctx.fillStyle = style.backgroundColor
+    ctx.fillRect(-boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight)
+    ctx.restore()
+  }
+
+  ctx.textAlign = style.align
+  ctx.textBaseline = "middle"
+  const lineX = style.align === "left" ? -boxWidth / 2 + padding : style.align === "right" ? boxWidth / 2 - padding : 0
+  const hasShadow = style.shadowBlur > 0 || style.shadowOffsetX !== 0 || style.shadowOffsetY !== 0
+  const setShadow = (on: boolean) => {
+    ctx.shadowColor = on ? style.shadowColor : "transparent"
+    ctx.shadowBlur = on ? style.shadowBlur * unit : 0
+    ctx.shadowOffsetX = on ? style.shadowOffsetX * unit : 0
+    ctx.shadowOffsetY = on ? style.shadowOffsetY * unit : 0
+  }
+
+  lines.forEach((line, i) => {
+    const y = -boxHeight / 2 + padding + lineHeight * (i + 0.5)
+    // The outline is stroked under the fill so it only shows outside the letters
+    // The shadow goes on whichever is drawn first so it isn't doubled
+    if (style.strokeWidth > 0) {
+      setShadow(hasShadow)
+      ctx.lineJoin = "round"
+      ctx.lineWidth = style.strokeWidth * 2 * unit
+      ctx.strokeStyle = style.strokeColor
+      ctx.strokeText(line, lineX, y)
+      setShadow(false)
+    } else {
+      setShadow(hasShadow)
+    }
+    ctx.fillStyle = style.color
+    ctx.fillText(line, lineX, y)
+  })
+
+  ctx.restore()
+}
@@ -0,0 +1,92 @@
+import type { InOutPoints } from "./projects"
+import type { ClipTimingUpdate, EditableClip } from "./edit-modes"
+
+/**
+ * Three-point editing
+ * An edit from the source monitor into the timeline is fixed by three of the four in and out
+ * points: the source range says what footage to use, the timeline range where it goes.
+ * Missing points are worked out from the others - with no timeline in or out the edit goes
+ * at the playhead, and with both timeline points set their range decides the length.
+ * An insert edit pushes the rest of the target track later; an overwrite edit replaces
+ * whatever is under it. Either way clips crossing the edit points are split first, so the
+ * helpers here only ever move or remove whole clips. All times are in ticks.
+ */
+
+export type ThreePointEditMode = "insert" | "overwrite"
+
+export interface ThreePointEdit {
+  start: number // Timeline time of the new clip
+  duration: number
+  mediaOffset: number // Source time the new clip starts at
+}
+
+/**
+ * Where a three-point edit puts which footage
+ * @param source - Source in and out points
+ * @param mediaDuration - Source length (Infinity for stills, which take their length from the marks)
+ * @param timeline - Timeline in and out points
+ * @param playhead - Timeline time used when neither timeline point is set
+ */
+export function resolveThreePointEdit(
+  source: InOutPoints,
+  mediaDuration: number,
+  timeline: InOutPoints,
+  playhead: number
+): { data: ThreePointEdit | null; error: string | null } {
+  let start: number
+  let duration: number
+  let mediaOffset: number
+
+  if (timeline.in !== undefined && timeline.out !== undefined) {
+    // The timeline range sets the length; a lone source out point is backtimed from
+    start = timeline.in
+    duration = timeline.out - timeline.in
+    mediaOffset = source.in === undefined && source.out !== undefined ? source.out - duration : source.in ?? 0
+  } else {
+    mediaOffset = source.in ?? 0
+    duration = (source.out ?? mediaDuration) - mediaOffset
+    start = timeline.in ?? (timeline.out !== undefined ? timeline.out - duration : playhead)
+  }
+
+  if (duration <= 0) return { data: null, error: "The out point must be after the in point" }
+  if (mediaOffset < 0 || mediaOffset + duration > mediaDuration) return { data: null, error: "Not enough source media between the marks" }
+  if (start < 0) return { data: null, error: "The edit would start before the timeline" }
+  return { data: { start, duration, mediaOffset }, error: null }
+}
+
+/**
+ * Clips on a track that an edit point falls inside, and so need splitting there first
+ */
+export function getClipsAcross<T extends EditableClip>(clips: T[], trackId: string, time: number): T[] {
+  return clips.filter((c) => c.trackId === trackId && c.startTime < time && c.startTime + c.duration > time)
+}
+
+/**
+ * Make room for an insert edit by moving everything at or after a time later on the track
+ */
+export function getInsertUpdates<T extends EditableClip>(clips: T[], trackId: string, time: number, duration: number): ClipTimingUpdate[] {
+  return clips
+    .filter((c) => c.trackId === trackId && c.startTime >= time)
+    .map((c) => ({ id: c.id, startTime: c.startTime + duration, duration: c.duration, mediaOffset: c.mediaOffset }))
+}
+
+/**
+ * Clips an overwrite edit replaces - everything on the track inside its range
+ */
+export function getOverwrittenClipIds<T extends EditableClip>(clips: T[], trackId: string, start: number, end: number): string[] {
+  return clips.filter((c) => c.trackId === trackId && c.startTime >= start && c.startTime + c.duration <= end).map((c) => c.id)
+}
+
+/**
+ * Points with a new in point; an out point at or before it is cleared
+ */
+export function setInPoint(points: InOutPoints, time: number): InOutPoints {
+  return { in: time, out: points.out !== undefined && points.out > time ? points.out : undefined }
+}
+
+/**
+ * Points with a new out point; an in point at or after it is cleared
+ */
+export function setOutPoint(points: InOutPoints, time: number): InOutPoints {
+  return { in: points.in !== undefined && points.in < time ? points.in : undefined, out: time }
+}
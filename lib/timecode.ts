@@ -0,0 +1,62 @@
+/**
+ * Timeline time model
+ * Clip positions (startTime, duration, mediaOffset) are stored as integer ticks at a fixed
+ * timebase of 600 ticks per second. 600 is divisible by every project frame rate we offer
+ * (24, 25, 30, 50, 60, 120), so every frame boundary is a whole number of ticks and changing
+ * a project's frame rate never requires re-timing clips.
+ */
+
+export const TICKS_PER_SECOND = 600
+
+// Timelines saved before the tick model stored positions as pixels at 10px = 1 second
+export const LEGACY_PIXELS_PER_SECOND = 10
+
+export function secondsToTicks(seconds: number): number {
+  return Math.round(seconds * TICKS_PER_SECOND)
+}
+
+export function ticksToSeconds(ticks: number): number {
+  return ticks / TICKS_PER_SECOND
+}
+
+export function ticksPerFrame(frameRate: number): number {
+  return TICKS_PER_SECOND / frameRate
+}
+
+// Round a tick position to the nearest frame boundary
+export function snapTicksToFrame(ticks: number, frameRate: number): number {
+  const frame = ticksPerFrame(frameRate)
+  return Math.round(Math.round(ticks / frame) * frame)
+}
+
+// Convert seconds to ticks, landing on the nearest frame boundary
+export function secondsToFrameTicks(seconds: number, frameRate: number): number {
+  return snapTicksToFrame(secondsToTicks(seconds), frameRate)
+}
+
+// Round a time in seconds to the nearest frame boundary
+export function snapSecondsToFrame(seconds: number, frameRate: number): number {
+  return ticksToSeconds(secondsToFrameTicks(seconds, frameRate))
+}
+
+export function ticksToFrames(ticks: number, frameRate: number): number {
+  return Math.round(ticks / ticksPerFrame(frameRate))
+}
+
+export function framesToTicks(frames: number, frameRate: number): number {
+  return Math.round(frames * ticksPerFrame(frameRate))
+}
+
+/**
+ * Format seconds as SMPTE-style timecode (HH:MM:SS:FF)
+ */
+export function formatTimecode(seconds: number, frameRate: number): string {
+  const totalFrames = Math.max(0, Math.round(seconds * frameRate))
+  const fps = Math.round(frameRate)
+  const frames = totalFrames % fps
+  const totalSeconds = Math.floor(totalFrames / fps)
+  const h = Math.floor(totalSeconds / 3600)
+  const m = Math.floor((totalSeconds % 3600) / 60)
+  const s = totalSeconds % 60
+  return [h, m, s, frames].map((n) => n.toString().padStart(2, "0")).join(":")
+}
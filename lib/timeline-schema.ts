@@ -0,0 +1,432 @@
+import { z } from "zod"
+import type {
+  ClipAudio,
+  ClipEffects,
+  ClipKeyframes,
+  ClipTransform,
+  Keyframe,
+  Marker,
+  MediaFileData,
+  SequenceData,
+  TextClipStyle,
+  TimelineClipData,
+  TimelineData,
+  TimelineTransition,
+  TrackData,
+} from "./projects"
+import type { FilmstripSprite, MediaMetadata } from "./media-probe"
+import { LEGACY_PIXELS_PER_SECOND, TICKS_PER_SECOND } from "./timecode"
+import { resolveTracks } from "./tracks"
+import { resolveTextStyle } from "./text-clips"
+import { getClipSourceSpan, getClipSpeedAt, getClipTimelineTime } from "./clip-speed"
+import { DEFAULT_BEZIER_CURVE, EASE_CURVE, evaluateKeyframes } from "./keyframes"
+import { DEFAULT_KEY_COLOR, KEY_COLOR_PATTERN } from "./chromakey"
+
+/**
+ * Saved timeline schema
+ * TimelineData is stored as JSON with the project, so its shape outlives any one version of
+ * the editor. Every save records the schemaVersion it was written with; on load, each
+ * migration after that version is run in turn to bring the data up to date, then the result
+ * is checked against the schema before the editor sees it. Data that fails the check, or that
+ * was written by a newer version than this one, is reported rather than patched up.
+ * To change the saved shape: bump TIMELINE_SCHEMA_VERSION, add a migration for it, and update
+ * the types in lib/projects and the schemas below together.
+ */
+
+export const TIMELINE_SCHEMA_VERSION = 5
+
+export const DEFAULT_CLIP_TRANSFORM: ClipTransform = {
+  positionX: 0,
+  positionY: 0,
+  scale: 100,
+  opacity: 100,
+}
+
+export const DEFAULT_CLIP_AUDIO: ClipAudio = {
+  volume: 100,
+  pan: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  muted: false,
+}
+
+export const DEFAULT_CLIP_EFFECTS: ClipEffects = {
+  preset: "none",
+  blur: 0,
+  brightness: 100,
+  contrast: 100,
+  saturate: 100,
+  hueRotate: 0,
+  chromakey: {
+    enabled: false,
+    keyColor: DEFAULT_KEY_COLOR, // Default green screen color
+    similarity: 0.4,      // Default similarity threshold
+    smoothness: 0.1,      // Default edge softness
+    spill: 0.3,          // Default spill suppression
+  },
+}
+
+// Clip fields that older versions could leave out
+type StoredClip = Omit<TimelineClipData, "mediaOffset" | "transform" | "effects" | "audio"> &
+  Partial<Pick<TimelineClipData, "mediaOffset" | "transform" | "effects" | "audio">>
+
+// Timeline data as any version wrote it - a migration may still have to fill in what's missing
+interface StoredTimelineData extends Omit<TimelineData, "schemaVersion" | "timeBase" | "tracks" | "clips" | "sequences"> {
+  schemaVersion?: number
+  timeBase?: number
+  tracks?: TrackData[]
+  clips: StoredClip[]
+  sequences?: (Omit<SequenceData, "clips"> & { clips: StoredClip[] })[]
+}
+
+interface TimelineMigration {
+  version: number // The schemaVersion the data has afterwards
+  description: string
+  migrate: (data: StoredTimelineData) => StoredTimelineData
+}
+
+/**
+ * Keyframes stored in source media ticks, as before version 3, timed from the clip's start instead
+ * Times past either end of the clip's footage carry on at the speed there. A reversed clip plays
+ * its keyframes in the opposite order, so each segment is led by the keyframe that used to end
+ * it, with its curve mirrored.
+ */
+function toClipKeyframes(clip: TimelineClipData): ClipKeyframes | undefined {
+  if (!clip.keyframes) return clip.keyframes
+  const convert = (list: Keyframe[]): Keyframe[] => {
+    // A freeze frame only ever showed its animation at mediaOffset
+    if (clip.freeze) return [{ time: 0, value: evaluateKeyframes(list, clip.mediaOffset, 0), interpolation: "linear" }]
+
+    const start = clip.mediaOffset
+    const end = start + getClipSourceSpan(clip)
+    const toClipTime = (time: number) => {
+      const edge = Math.max(start, Math.min(end, time))
+      const beyond = (time - edge) / getClipSpeedAt(clip, edge)
+      return Math.round((getClipTimelineTime(clip, edge) ?? clip.startTime) - clip.startTime + (clip.reverse ? -beyond : beyond))
+    }
+    if (!clip.reverse) return list.map((k) => ({ ...k, time: toClipTime(k.time) }))
+
+    const mirror = ([x1, y1, x2, y2]: [number, number, number, number]): [number, number, number, number] => [1 - x2, 1 - y2, 1 - x1, 1 - y1]
+    return list
+      .map((k, i) => {
+        const leader = i > 0 ? list[i - 1] : k
+        const time = toClipTime(k.time)
+        if (leader.interpolation === "linear" || i === 0) {
+          return { time, value: k.value, interpolation: leader.interpolation, ...(leader.bezier ? { bezier: leader.bezier } : {}) }
+        }
+        const curve = leader.interpolation === "ease" ? EASE_CURVE : leader.bezier ?? DEFAULT_BEZIER_CURVE
+        return { time, value: k.value, interpolation: "bezier" as const, bezier: mirror(curve) }
+      })
+      .reverse()
+  }
+  return Object.fromEntries(Object.entries(clip.keyframes).map(([property, list]) => [property, convert(list)])) as ClipKeyframes
+}
+
+// In version order; data without a schemaVersion predates versioning and starts at 0
+const MIGRATIONS: TimelineMigration[] = [
+  {
+    version: 1,
+    description: "Clip timing in ticks rather than pixels at 10px = 1 second",
+    migrate: (data) => {
+      // Projects saved between the tick model and versioning already have the tick timeBase
+      const sourceTimeBase = data.timeBase ?? LEGACY_PIXELS_PER_SECOND
+      if (sourceTimeBase === TICKS_PER_SECOND) return data
+      const scale = TICKS_PER_SECOND / sourceTimeBase
+      return {
+        ...data,
+        timeBase: TICKS_PER_SECOND,
+        clips: data.clips.map((clip) => ({
+          ...clip,
+          startTime: Math.round(clip.startTime * scale),
+          duration: Math.round(clip.duration * scale),
+          mediaOffset: Math.round((clip.mediaOffset ?? 0) * scale),
+        })),
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Tracks, media offsets, transforms, effects, audio and text styles always stored",
+    migrate: (data) => {
+      const fillClip = (clip: StoredClip): TimelineClipData => ({
+        ...clip,
+        mediaOffset: clip.mediaOffset ?? 0,
+        transform: clip.transform ?? DEFAULT_CLIP_TRANSFORM,
+        effects: clip.effects ?? DEFAULT_CLIP_EFFECTS,
+        audio: clip.audio ?? DEFAULT_CLIP_AUDIO,
+        ...(clip.type === "text" ? { text: resolveTextStyle(clip.text) } : {}),
+      })
+      return {
+        ...data,
+        tracks: resolveTracks(data),
+        clips: data.clips.map(fillClip),
+        sequences: data.sequences?.map((sequence) => ({ ...sequence, clips: sequence.clips.map(fillClip) })),
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Keyframe times from the clip's start on the timeline rather than in source media ticks",
+    migrate: (data) => {
+      // Every clip has its timing fields from version 2 on
+      const convertClip = (clip: StoredClip) => ({ ...clip, keyframes: toClipKeyframes(clip as TimelineClipData) })
+      return {
+        ...data,
+        clips: data.clips.map(convertClip),
+        sequences: data.sequences?.map((sequence) => ({ ...sequence, clips: sequence.clips.map(convertClip) })),
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Chromakey key colours always six-digit hex",
+    migrate: (data) => {
+      // The agent could store colour names like "green", which the preview already drew as the default
+      const fixClip = (clip: StoredClip) => {
+        const chromakey = clip.effects?.chromakey
+        if (!chromakey || KEY_COLOR_PATTERN.test(chromakey.keyColor)) return clip
+        return { ...clip, effects: { ...clip.effects!, chromakey: { ...chromakey, keyColor: DEFAULT_KEY_COLOR } } }
+      }
+      return {
+        ...data,
+        clips: data.clips.map(fixClip),
+        sequences: data.sequences?.map((sequence) => ({ ...sequence, clips: sequence.clips.map(fixClip) })),
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Compound clips without keyframes or audio fades of their own",
+    migrate: (data) => {
+      // Neither was ever drawn or heard - the clips inside carry the animation and fades
+      const fixClip = (clip: StoredClip) => clip.sequenceId
+        ? { ...clip, keyframes: undefined, audio: clip.audio && { ...clip.audio, fadeIn: 0, fadeOut: 0 } }
+        : clip
+      return {
+        ...data,
+        clips: data.clips.map(fixClip),
+        sequences: data.sequences?.map((sequence) => ({ ...sequence, clips: sequence.clips.map(fixClip) })),
+      }
+    },
+  },
+]
+
+const keyframeSchema: z.ZodType<Keyframe> = z.object({
+  time: z.number(),
+  value: z.number(),
+  interpolation: z.enum(["linear", "ease", "bezier"]),
+  bezier: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+})
+
+const markerSchema: z.ZodType<Marker> = z.object({
+  id: z.string(),
+  time: z.number(),
+  name: z.string(),
+  color: z.enum(["red", "orange", "yellow", "green", "blue", "purple"]),
+})
+
+const trackSchema: z.ZodType<TrackData> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(["video", "audio"]),
+  locked: z.boolean(),
+  muted: z.boolean(),
+  solo: z.boolean(),
+  hidden: z.boolean(),
+})
+
+const transitionSchema: z.ZodType<TimelineTransition> = z.object({
+  id: z.string(),
+  fromClipId: z.string(),
+  toClipId: z.string(),
+  type: z.enum(["crossfade", "dip-to-black", "dip-to-white", "slide", "wipe", "zoom"]),
+  duration: z.number().positive(),
+  direction: z.enum(["left", "right", "up", "down"]).optional(),
+})
+
+const textStyleSchema: z.ZodType<TextClipStyle> = z.object({
+  content: z.string(),
+  fontFamily: z.string(),
+  fontSize: z.number(),
+  fontWeight: z.number(),
+  italic: z.boolean(),
+  color: z.string(),
+  strokeColor: z.string(),
+  strokeWidth: z.number(),
+  shadowColor: z.string(),
+  shadowBlur: z.number(),
+  shadowOffsetX: z.number(),
+  shadowOffsetY: z.number(),
+  backgroundColor: z.string(),
+  backgroundOpacity: z.number(),
+  padding: z.number(),
+  align: z.enum(["left", "center", "right"]),
+  verticalAlign: z.enum(["top", "middle", "bottom"]),
+})
+
+const clipSchema: z.ZodType<TimelineClipData> = z.object({
+  id: z.string().min(1),
+  mediaId: z.string(),
+  trackId: z.string().min(1),
+  startTime: z.number(),
+  duration: z.number().positive(),
+  mediaOffset: z.number(),
+  label: z.string(),
+  type: z.enum(["video", "audio", "text"]),
+  transform: z.object({
+    positionX: z.number(),
+    positionY: z.number(),
+    scale: z.number(),
+    opacity: z.number(),
+  }),
+  effects: z.object({
+    preset: z.enum(["none", "grayscale", "sepia", "invert", "glitch", "vhs", "ascii", "cyberpunk", "noir"]),
+    blur: z.number(),
+    brightness: z.number(),
+    contrast: z.number(),
+    saturate: z.number(),
+    hueRotate: z.number(),
+    chromakey: z.object({
+      enabled: z.boolean(),
+      keyColor: z.string().regex(KEY_COLOR_PATTERN),
+      similarity: z.number(),
+      smoothness: z.number(),
+      spill: z.number(),
+    }).optional(),
+  }),
+  audio: z.object({
+    volume: z.number(),
+    pan: z.number(),
+    fadeIn: z.number(),
+    fadeOut: z.number(),
+    muted: z.boolean(),
+  }),
+  keyframes: z.record(
+    z.enum(["positionX", "positionY", "scale", "opacity", "blur", "brightness", "contrast", "saturate", "hueRotate"]),
+    z.array(keyframeSchema)
+  ).optional(),
+  text: textStyleSchema.optional(),
+  speed: z.number().positive().optional(),
+  speedRamp: z.array(keyframeSchema).optional(),
+  reverse: z.boolean().optional(),
+  freeze: z.boolean().optional(),
+  groupId: z.string().optional(),
+  linkId: z.string().optional(),
+  markers: z.array(markerSchema).optional(),
+  sequenceId: z.string().optional(),
+})
+
+const sequenceSchema: z.ZodType<SequenceData> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  tracks: z.array(trackSchema),
+  clips: z.array(clipSchema),
+  transitions: z.array(transitionSchema).optional(),
+  markers: z.array(markerSchema).optional(),
+})
+
+const mediaMetadataSchema: z.ZodType<MediaMetadata> = z.object({
+  duration: z.number().nullable(),
+  videoCodec: z.string().nullable(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  fps: z.number().nullable(),
+  variableFrameRate: z.boolean(),
+  rotation: z.number(),
+  audioCodec: z.string().nullable(),
+  audioChannels: z.number().nullable(),
+  sampleRate: z.number().nullable(),
+  bitRate: z.number().nullable(),
+  createdAt: z.string().nullable(),
+})
+
+const filmstripSchema: z.ZodType<FilmstripSprite> = z.object({
+  path: z.string(),
+  url: z.string(),
+  frameCount: z.number().int().positive(),
+  frameWidth: z.number().positive(),
+  frameHeight: z.number().positive(),
+  interval: z.number().positive(),
+})
+
+const mediaSchema: z.ZodType<MediaFileData> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  duration: z.string(),
+  durationSeconds: z.number(),
+  type: z.string(),
+  storagePath: z.string(),
+  storageUrl: z.string(),
+  thumbnail: z.string().nullable(),
+  captions: z.array(z.object({ word: z.string(), start: z.number(), end: z.number() })).optional(),
+  twelveLabsVideoId: z.string().optional(),
+  twelveLabsIndexId: z.string().optional(),
+  twelveLabsStatus: z.enum(["pending", "indexing", "ready", "failed"]).optional(),
+  proxyPath: z.string().optional(),
+  proxyUrl: z.string().optional(),
+  thumbnailPath: z.string().optional(),
+  metadata: mediaMetadataSchema.optional(),
+  filmstrip: filmstripSchema.optional(),
+})
+
+const timelineSchema: z.ZodType<TimelineData> = z.object({
+  schemaVersion: z.literal(TIMELINE_SCHEMA_VERSION),
+  timeBase: z.literal(TICKS_PER_SECOND),
+  tracks: z.array(trackSchema),
+  defaultImageDuration: z.number().positive().optional(),
+  transitions: z.array(transitionSchema).optional(),
+  markers: z.array(markerSchema).optional(),
+  inOut: z.object({ in: z.number().optional(), out: z.number().optional() }).optional(),
+  sequences: z.array(sequenceSchema).optional(),
+  clips: z.array(clipSchema),
+  media: z.array(mediaSchema),
+})
+
+/**
+ * Check timeline data against the current schema
+ * @returns The first problem found, e.g. "clips.3.duration: Expected number, received string"
+ */
+export function validateTimelineData(data: unknown): string | null {
+  const result = timelineSchema.safeParse(data)
+  if (result.success) return null
+  const issue = result.error.issues[0]
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+}
+
+/**
+ * Bring saved timeline data up to the current schema and check it
+ * The data is returned as stored once migrated - validation doesn't drop fields it doesn't know.
+ */
+export function parseTimelineData(saved: unknown): { data: TimelineData | null; error: string | null } {
+  if (typeof saved !== "object" || saved === null || Array.isArray(saved)) {
+    return { data: null, error: "The saved timeline is not an object" }
+  }
+  const stored = saved as StoredTimelineData
+  if (!Array.isArray(stored.clips) || !Array.isArray(stored.media)) {
+    return { data: null, error: "The saved timeline is corrupt: it has no clip or media list" }
+  }
+  const version = stored.schemaVersion ?? 0
+  if (!Number.isInteger(version) || version < 0) {
+    return { data: null, error: `The saved timeline has an invalid schema version (${String(version)})` }
+  }
+  if (version > TIMELINE_SCHEMA_VERSION) {
+    return {
+      data: null,
+      error: `This project was saved by a newer version of CutOS (timeline schema ${version}; this version reads up to ${TIMELINE_SCHEMA_VERSION})`,
+    }
+  }
+
+  let data = stored
+  try {
+    for (const migration of MIGRATIONS.filter((m) => m.version > version)) {
+      data = { ...migration.migrate(data), schemaVersion: migration.version }
+    }
+  } catch (error) {
+    // Data too broken for a migration to read
+    return { data: null, error: `The saved timeline is corrupt: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  const problem = validateTimelineData(data)
+  if (problem) return { data: null, error: `The saved timeline is corrupt: ${problem}` }
+  return { data: data as TimelineData, error: null }
+}
@@ -0,0 +1,90 @@
+import type { TrackData } from "./projects"
+
+/**
+ * Timeline tracks
+ * Tracks are kept topmost first - the order the timeline shows them in. Clips on higher
+ * tracks are drawn over clips on lower ones, so compositing walks the list in reverse.
+ */
+
+export type TrackType = TrackData["type"]
+
+// Layout for new projects and for projects saved before tracks were stored
+export const DEFAULT_TRACKS: TrackData[] = [
+  { id: "V2", name: "V2", type: "video", locked: false, muted: false, solo: false, hidden: false },
+  { id: "V1", name: "V1", type: "video", locked: false, muted: false, solo: false, hidden: false },
+  { id: "A2", name: "A2", type: "audio", locked: false, muted: false, solo: false, hidden: false },
+  { id: "A1", name: "A1", type: "audio", locked: false, muted: false, solo: false, hidden: false },
+]
+
+// Older track ids encode their type in the prefix (V1 = video, A1 = audio)
+function inferTrackType(trackId: string): TrackType {
+  return trackId.startsWith("A") ? "audio" : "video"
+}
+
+/**
+ * Create a new track with the next free id for its type (V3, A3, ...)
+ */
+export function createTrack(type: TrackType, existing: TrackData[]): TrackData {
+  const prefix = type === "video" ? "V" : "A"
+  const used = new Set(existing.map((t) => t.id))
+  let n = 1
+  while (used.has(`${prefix}${n}`)) n++
+  const id = `${prefix}${n}`
+  return { id, name: id, type, locked: false, muted: false, solo: false, hidden: false }
+}
+
+/**
+ * Tracks for saved timeline data
+ * Fills in the default layout for older projects and adds any track a clip references
+ * that isn't listed, so no clip ends up on a track the timeline doesn't show
+ */
+export function resolveTracks(data: { tracks?: TrackData[]; clips: { trackId: string }[] }): TrackData[] {
+  const tracks = data.tracks && data.tracks.length > 0
+    ? data.tracks.map((t) => ({ ...t }))
+    : DEFAULT_TRACKS.map((t) => ({ ...t }))
+
+  for (const clip of data.clips) {
+    if (tracks.some((t) => t.id === clip.trackId)) continue
+    const type = inferTrackType(clip.trackId)
+    const track: TrackData = { id: clip.trackId, name: clip.trackId, type, locked: false, muted: false, solo: false, hidden: false }
+    // Keep video tracks above audio tracks
+    const firstAudio = tracks.findIndex((t) => t.type === "audio")
+    if (type === "video" && firstAudio >= 0) {
+      tracks.splice(firstAudio, 0, track)
+    } else {
+      tracks.push(track)
+    }
+  }
+
+  return tracks
+}
+
+export function getTrackType(trackId: string, tracks: TrackData[]): TrackType {
+  return tracks.find((t) => t.id === trackId)?.type ?? inferTrackType(trackId)
+}
+
+/**
+ * Track ids in drawing order - bottom first
+ */
+export function getTrackDrawOrder(tracks: TrackData[]): string[] {
+  return tracks.map((t) => t.id).reverse()
+}
+
+export function isTrackLocked(trackId: string, tracks: TrackData[]): boolean {
+  return tracks.find((t) => t.id === trackId)?.locked ?? false
+}
+
+export function isTrackVisible(trackId: string, tracks: TrackData[]): boolean {
+  return !(tracks.find((t) => t.id === trackId)?.hidden ?? false)
+}
+
+/**
+ * Whether a track's audio should be heard, taking mute and solo into account
+ * Mute wins over solo, matching most NLEs
+ */
+export function isTrackAudible(trackId: string, tracks: TrackData[]): boolean {
+  const track = tracks.find((t) => t.id === trackId)
+  if (track?.muted) return false
+  const anySolo = tracks.some((t) => t.solo)
+  return !anySolo || (track?.solo ?? false)
+}
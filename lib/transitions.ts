@@ -0,0 +1,220 @@
+import type { TimelineTransition, TransitionDirection, TransitionType } from "./projects"
+
+/**
+ * Built-in transitions between adjacent clips on the same track
+ * A transition is centred on the cut: the outgoing clip keeps playing for half the duration
+ * past its end and the incoming clip starts half the duration early, reading into the media
+ * either side of the clip (held on the first/last frame when there isn't any). The preview
+ * (CSS) and export (canvas) compositors both draw from the layer description built here.
+ */
+
+export const TRANSITION_TYPES: { id: TransitionType; label: string }[] = [
+  { id: "crossfade", label: "Cross Dissolve" },
+  { id: "dip-to-black", label: "Dip to Black" },
+  { id: "dip-to-white", label: "Dip to White" },
+  { id: "slide", label: "Slide" },
+  { id: "wipe", label: "Wipe" },
+  { id: "zoom", label: "Zoom" },
+]
+
+// Only slide and wipe move in a direction
+export function transitionHasDirection(type: TransitionType): boolean {
+  return type === "slide" || type === "wipe"
+}
+
+interface ClipTiming {
+  id: string
+  trackId: string
+  startTime: number
+  duration: number
+}
+
+/**
+ * Why two clips can't share a transition
+ * @returns An error message, or null if the clips are adjacent on the same track
+ */
+export function validateTransitionClips(from: ClipTiming | undefined, to: ClipTiming | undefined): string | null {
+  if (!from || !to) return "Clip not found"
+  if (from.trackId !== to.trackId) return "Transitions need both clips on the same track"
+  if (from.startTime + from.duration !== to.startTime) return "Transitions need the second clip to start where the first one ends"
+  return null
+}
+
+/**
+ * Longest a transition between two clips can be, in ticks
+ * Half of it falls in each clip, so it can't be longer than the shorter clip
+ */
+export function getMaxTransitionDuration(from: ClipTiming, to: ClipTiming): number {
+  return Math.min(from.duration, to.duration)
+}
+
+/**
+ * Transitions whose clips still exist and are still adjacent
+ * Edits can separate clips after a transition was added; those transitions are kept
+ * (undo can bring the clips back together) but not drawn
+ */
+export function getValidTransitions<T extends ClipTiming>(transitions: TimelineTransition[], clips: T[]): TimelineTransition[] {
+  return transitions.filter((t) => {
+    const from = clips.find((c) => c.id === t.fromClipId)
+    const to = clips.find((c) => c.id === t.toClipId)
+    return validateTransitionClips(from, to) === null
+  })
+}
+
+/**
+ * Timeline range a transition covers, in ticks
+ */
+export function getTransitionWindow(transition: TimelineTransition, to: ClipTiming): { start: number; end: number } {
+  const cut = to.startTime
+  const half = Math.floor(transition.duration / 2)
+  return { start: cut - half, end: cut + (transition.duration - half) }
+}
+
+export interface ActiveTransition<T extends ClipTiming> {
+  transition: TimelineTransition
+  from: T
+  to: T
+  progress: number // 0 at the start of the transition, 1 at the end
+}
+
+/**
+ * Transitions playing at a timeline time
+ * @param transitions - Valid transitions (see getValidTransitions)
+ * @param clips - Timeline clips
+ * @param time - Timeline time in ticks
+ */
+export function findActiveTransitions<T extends ClipTiming>(transitions: TimelineTransition[], clips: T[], time: number): ActiveTransition<T>[] {
+  const active: ActiveTransition<T>[] = []
+  for (const transition of transitions) {
+    const from = clips.find((c) => c.id === transition.fromClipId)
+    const to = clips.find((c) => c.id === transition.toClipId)
+    if (!from || !to) continue
+    const { start, end } = getTransitionWindow(transition, to)
+    if (time >= start && time < end) {
+      active.push({ transition, from, to, progress: (time - start) / (end - start) })
+    }
+  }
+  return active
+}
+
+/**
+ * How to draw one side of a transition
+ * Translations are fractions of the frame size, clip insets are fractions cut from each edge
+ */
+export interface TransitionLayer {
+  opacity: number
+  translateX: number
+  translateY: number
+  scale: number
+  clip: { top: number; right: number; bottom: number; left: number } | null
+}
+
+export interface TransitionFrame {
+  outgoing: TransitionLayer
+  incoming: TransitionLayer // Drawn over the outgoing layer
+  overlay: { color: string; opacity: number } | null // Colour drawn over both (dips)
+}
+
+const IDENTITY: TransitionLayer = { opacity: 1, translateX: 0, translateY: 0, scale: 1, clip: null }
+const HIDDEN: TransitionLayer = { ...IDENTITY, opacity: 0 }
+
+// Unit vector a slide or wipe travels along
+function directionVector(direction: TransitionDirection = "left"): [number, number] {
+  switch (direction) {
+    case "right": return [1, 0]
+    case "up": return [0, -1]
+    case "down": return [0, 1]
+    default: return [-1, 0]
+  }
+}
+
+/**
+ * Layer state for a transition at a point in its progress
+ * @param transition - The transition
+ * @param progress - 0-1 through the transition
+ */
+export function getTransitionFrame(transition: Pick<TimelineTransition, "type" | "direction">, progress: number): TransitionFrame {
+  const p = Math.max(0, Math.min(1, progress))
+
+  switch (transition.type) {
+    case "dip-to-black":
+    case "dip-to-white": {
+      // Fade out to the colour over the first half, then in from it over the second
+      const color = transition.type === "dip-to-black" ? "#000000" : "#ffffff"
+      return {
+        outgoing: p < 0.5 ? IDENTITY : HIDDEN,
+        incoming: p < 0.5 ? HIDDEN : IDENTITY,
+        overlay: { color, opacity: 1 - Math.abs(p - 0.5) * 2 },
+      }
+    }
+    case "slide": {
+      // The incoming clip pushes the outgoing one out of frame
+      const [dx, dy] = directionVector(transition.direction)
+      return {
+        outgoing: { ...IDENTITY, translateX: dx * p, translateY: dy * p },
+        incoming: { ...IDENTITY, translateX: dx * (p - 1), translateY: dy * (p - 1) },
+        overlay: null,
+      }
+    }
+    case "wipe": {
+      // The incoming clip is revealed behind an edge travelling across the frame in the given direction
+      const [dx, dy] = directionVector(transition.direction)
+      const hidden = 1 - p
+      return {
+        outgoing: IDENTITY,
+        incoming: {
+          ...IDENTITY,
+          clip: {
+            top: dy < 0 ? hidden : 0,
+            right: dx > 0 ? hidden : 0,
+            bottom: dy > 0 ? hidden : 0,
+            left: dx < 0 ? hidden : 0,
+          },
+        },
+        overlay: null,
+      }
+    }
+    case "zoom":
+      // The outgoing clip zooms in while the incoming one fades in over it, settling from slightly larger
+      return {
+        outgoing: { ...IDENTITY, scale: 1 + p * 0.5 },
+        incoming: { ...IDENTITY, scale: 1.2 - p * 0.2, opacity: p },
+        overlay: null,
+      }
+    default:
+      return {
+        outgoing: IDENTITY,
+        incoming: { ...IDENTITY, opacity: p },
+        overlay: null,
+      }
+  }
+}
+
+/**
+ * CSS for drawing a transition layer over an element that fills the frame
+ */
+export function getTransitionLayerStyle(layer: TransitionLayer): { opacity: number; transform: string; clipPath?: string } {
+  return {
+    opacity: layer.opacity,
+    transform: `translate(${layer.translateX * 100}%, ${layer.translateY * 100}%) scale(${layer.scale})`,
+    clipPath: layer.clip
+      ? `inset(${layer.clip.top * 100}% ${layer.clip.right * 100}% ${layer.clip.bottom * 100}% ${layer.clip.left * 100}%)`
+      : undefined,
+  }
+}
+
+/**
+ * Set up a canvas context to draw a transition layer (call between save and restore)
+ * Applies the clip and movement; the caller multiplies layer.opacity into its alpha
+ */
+export function applyTransitionLayer(ctx: CanvasRenderingContext2D, layer: TransitionLayer, width: number, height: number) {
+  if (layer.clip) {
+    const { top, right, bottom, left } = layer.clip
+    ctx.beginPath()
+    ctx.rect(left * width, top * height, width * (1 - left - right), height * (1 - top - bottom))
+    ctx.clip()
+  }
+  ctx.translate(layer.translateX * width + width / 2, layer.translateY * height + height / 2)
+  ctx.scale(layer.scale, layer.scale)
+  ctx.translate(-width / 2, -height / 2)
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { TimelineClip, MediaFile } from "@/components/editor-context"
+import type { TrackData } from "./projects"
+import { clipHasAudio, decodeMediaAudio, scheduleClipAudio } from "./audio-mixer"
+import { isTrackAudible } from "./tracks"
+
+// Playback and the audio clock drift apart on seeks; beyond this we reschedule
+const RESYNC_THRESHOLD_SECONDS = 0.25
+
+interface TimelineAudioOptions {
+  clips: TimelineClip[]
+  mediaFiles: MediaFile[]
+  tracks: TrackData[]
+  currentTime: number // Timeline time in seconds
+  isPlaying: boolean
+}
+
+/**
+ * Plays the audio of every audible timeline clip through Web Audio during preview
+ * Audio is decoded once per media file, and the whole mix is rescheduled whenever
+ * playback starts, the timeline is edited or the playhead jumps
+ */
+export function useTimelineAudio({ clips, mediaFiles, tracks, currentTime, isPlaying }: TimelineAudioOptions) {
+  const contextRef = useRef<AudioContext | null>(null)
+  const pendingRef = useRef<Set<string>>(new Set())
+  const buffersRef = useRef<Map<string, AudioBuffer | null>>(new Map())
+  const playbackRef = useRef<{ fromSeconds: number; startedAt: number } | null>(null)
+  const currentTimeRef = useRef(currentTime)
+  currentTimeRef.current = currentTime
+  // Bumped when a buffer finishes decoding or the playhead jumps, to reschedule the mix
+  const [decodedCount, setDecodedCount] = useState(0)
+  const [resyncCount, setResyncCount] = useState(0)
+
+  const getContext = () => {
+    if (!contextRef.current) {
+      contextRef.current = new AudioContext()
+    }
+    return contextRef.current
+  }
+
+  // Decode audio for media as soon as a clip uses it
+  useEffect(() => {
+    const mediaIds = new Set(clips.filter(clipHasAudio).map((c) => c.mediaId))
+    for (const mediaId of mediaIds) {
+      if (buffersRef.current.has(mediaId) || pendingRef.current.has(mediaId)) continue
+      const media = mediaFiles.find((m) => m.id === mediaId)
+      if (!media) continue
+
+      pendingRef.current.add(mediaId)
+      decodeMediaAudio(getContext(), media).then((buffer) => {
+        pendingRef.current.delete(mediaId)
+        buffersRef.current.set(mediaId, buffer)
+        setDecodedCount((n) => n + 1)
+      })
+    }
+  }, [clips, mediaFiles])
+
+  // Schedule every audible clip from the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) {
+      playbackRef.current = null
+      return
+    }
+
+    const ctx = getContext()
+    if (ctx.state === "suspended") {
+      ctx.resume()
+    }
+
+    const fromSeconds = currentTimeRef.current
+    const startedAt = ctx.currentTime
+    playbackRef.current = { fromSeconds, startedAt }
+
+    const sources: AudioBufferSourceNode[] = []
+    for (const clip of clips) {
+      if (!clipHasAudio(clip) || !isTrackAudible(clip.trackId, tracks)) continue
+      const buffer = buffersRef.current.get(clip.mediaId)
+      if (!buffer) continue
+      const source = scheduleClipAudio(ctx, ctx.destination, clip, buffer, fromSeconds, startedAt)
+      if (source) sources.push(source)
+    }
+
+    return () => {
+      for (const source of sources) {
+        try {
+          source.stop()
+        } catch {
+          // Already stopped
+        }
+        source.disconnect()
+      }
+    }
+  }, [isPlaying, clips, tracks, decodedCount, resyncCount])
+
+  // Reschedule if the playhead moved somewhere the audio clock isn't (skip buttons, clicks while playing)
+  useEffect(() => {
+    const playback = playbackRef.current
+    const ctx = contextRef.current
+    if (!playback || !ctx) return
+    const expected = playback.fromSeconds + (ctx.currentTime - playback.startedAt)
+    if (Math.abs(expected - currentTime) > RESYNC_THRESHOLD_SECONDS) {
+      setResyncCount((n) => n + 1)
+    }
+  }, [currentTime])
+
+  // Release the audio device when the preview unmounts
+  useEffect(() => {
+    return () => {
+      contextRef.current?.close()
+      contextRef.current = null
+    }
+  }, [])
+}
@@ -0,0 +1,22 @@
+-- Server-side render jobs, polled through GET /api/render?jobId=...
+create table if not exists public.render_jobs (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'downloading', 'rendering', 'uploading', 'completed', 'failed')),
+  progress integer not null default 0,
+  output_path text,
+  output_url text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists render_jobs_project_id_idx on public.render_jobs (project_id);
+
+alter table public.render_jobs enable row level security;
+
+create policy "Users can read their own render jobs"
+  on public.render_jobs for select
+  using (auth.uid() = user_id);
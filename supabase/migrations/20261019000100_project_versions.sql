@@ -0,0 +1,30 @@
+-- Saved copies of a project's timeline: automatic snapshots taken on save, and named checkpoints
+create table if not exists public.project_versions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text, -- null for automatic snapshots
+  timeline_data jsonb not null,
+  duration text not null default '00:00:00',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists project_versions_project_id_created_at_idx
+  on public.project_versions (project_id, created_at desc);
+
+alter table public.project_versions enable row level security;
+
+create policy "Users can read their own project versions"
+  on public.project_versions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create versions of their own projects"
+  on public.project_versions for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid())
+  );
+
+create policy "Users can delete their own project versions"
+  on public.project_versions for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- How a render differs from the browser export, e.g. text clips it leaves out (see lib/render-graph)
+alter table public.render_jobs
+  add column if not exists warnings text[] not null default '{}';